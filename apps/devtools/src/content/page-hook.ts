@@ -12,6 +12,7 @@ import type {
   AnimationDescriptor,
   AnimationEvent as DevToolsAnimationEvent,
   PageToDevToolsMessage,
+  WorldSnapshot,
 } from '@mcp-tool-shop/siege-types';
 
 const MESSAGE_SOURCE = '__ANIM_DEVTOOLS__' as const;
@@ -111,12 +112,8 @@ Element.prototype.animate = function hookedAnimate(
 // --------------------------------------------------------------------------
 
 interface PhysicsDevToolsHook {
-  getWorldSnapshot: () => {
-    bodies: unknown[];
-    constraints: unknown[];
-    timestamp: number;
-  };
-  onUpdate: (callback: (snapshot: unknown) => void) => () => void;
+  getWorldSnapshot: () => WorldSnapshot;
+  onUpdate: (callback: (snapshot: WorldSnapshot) => void) => () => void;
 }
 
 // Check for the physics engine hook exposed by physics-svg
@@ -130,28 +127,19 @@ function connectPhysicsHook(): void {
     return;
   }
 
-  // Request initial snapshot
-  const snapshot = hook.getWorldSnapshot();
+  // Request initial snapshot. Snapshots are forwarded whole so the panel
+  // can hand them back to `PhysicsEngine.restore`.
   postToContentScript({
     type: 'PHYSICS_WORLD_SNAPSHOT',
-    payload: {
-      bodies: snapshot.bodies as import('@mcp-tool-shop/siege-types').PhysicsBody[],
-      constraints: snapshot.constraints as import('@mcp-tool-shop/siege-types').Constraint[],
-      timestamp: snapshot.timestamp,
-    },
+    payload: hook.getWorldSnapshot(),
   });
 
   // Subscribe to updates
   hook.onUpdate((update) => {
     // TODO -- throttle updates to avoid flooding the message channel
-    const typedUpdate = update as {
-      bodies: import('@mcp-tool-shop/siege-types').PhysicsBody[];
-      constraints: import('@mcp-tool-shop/siege-types').Constraint[];
-      timestamp: number;
-    };
     postToContentScript({
       type: 'PHYSICS_WORLD_SNAPSHOT',
-      payload: typedUpdate,
+      payload: update,
     });
   });
 }
@@ -1,5 +1,11 @@
 import { useEffect, useRef } from 'react';
-import type { PhysicsBody, BodyShape, Vec2 } from '@mcp-tool-shop/siege-types';
+import type {
+  PhysicsBody,
+  BodyShape,
+  BodyType,
+  CollisionFilter,
+  Vec2,
+} from '@mcp-tool-shop/siege-types';
 import { createBody } from '../../src/core/body.js';
 import { usePhysics } from './usePhysics.js';
 
@@ -17,8 +23,24 @@ export interface BodyProps {
   restitution?: number;
   /** Friction coefficient. */
   friction?: number;
+  /** Registered material name; its friction and restitution are used instead. */
+  material?: string;
+  /** Drag coefficient: F = -linearDamping × velocity. Default 0.01. */
+  linearDamping?: number;
+  /** Multiplier on world gravity. 0 floats, negative rises. Default 1. */
+  gravityScale?: number;
+  /** Speed limit (px/s). Unbounded if omitted. */
+  maxSpeed?: number;
   /** If true, the body is immovable. */
   isStatic?: boolean;
+  /** `'kinematic'` bodies move only by the velocity you set. Overrides `isStatic`. */
+  bodyType?: BodyType;
+  /** If true, the body reports overlaps but is never pushed or pushes back. */
+  isSensor?: boolean;
+  /** If true, sweep against static geometry every substep so it can't tunnel. */
+  bullet?: boolean;
+  /** Category/mask/group filter deciding which bodies this one collides with. */
+  collisionFilter?: CollisionFilter;
   /** Arbitrary user data attached to the body. */
   userData?: Record<string, unknown>;
 }
@@ -42,7 +64,15 @@ export function Body(props: BodyProps) {
       velocity: props.velocity,
       restitution: props.restitution,
       friction: props.friction,
+      material: props.material,
+      linearDamping: props.linearDamping,
+      gravityScale: props.gravityScale,
+      maxSpeed: props.maxSpeed,
       isStatic: props.isStatic,
+      bodyType: props.bodyType,
+      isSensor: props.isSensor,
+      bullet: props.bullet,
+      collisionFilter: props.collisionFilter,
       userData: props.userData,
     });
   }
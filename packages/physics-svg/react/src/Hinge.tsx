@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import type { Constraint, Vec2 } from '@mcp-tool-shop/siege-types';
+import { createConstraint } from '../../src/core/constraint.js';
+import { usePhysics } from './usePhysics.js';
+
+/** Props for the {@link Hinge} component. */
+export interface HingeProps {
+  /** ID of the first body. */
+  bodyA: string;
+  /** ID of the second body. */
+  bodyB: string;
+  /** Pivot point on body A (local coords, rotates with the body). */
+  anchorA?: Vec2;
+  /** Pivot point on body B (local coords, rotates with the body). */
+  anchorB?: Vec2;
+  /** Positional correction factor 0-1. Default 0.5. */
+  stiffness?: number;
+  /** Relative angle (B − A) treated as zero. Default 0. */
+  referenceAngle?: number;
+  /** Minimum relative angle in radians. Omit for no lower limit. */
+  lowerAngle?: number;
+  /** Maximum relative angle in radians. Omit for no upper limit. */
+  upperAngle?: number;
+  /** Motor target speed in rad/s. Omit to disable the motor. */
+  motorSpeed?: number;
+  /** Maximum motor torque. Unbounded if omitted. */
+  maxMotorTorque?: number;
+}
+
+/**
+ * Hinge — declarative React component that registers a revolute joint
+ * between two bodies on mount and removes it on unmount.
+ *
+ * Renders nothing to the DOM.
+ */
+export function Hinge(props: HingeProps) {
+  const engine = usePhysics();
+  const constraintRef = useRef<Constraint | null>(null);
+
+  if (!constraintRef.current) {
+    constraintRef.current = createConstraint({
+      type: 'hinge',
+      bodyA: props.bodyA,
+      bodyB: props.bodyB,
+      anchorA: props.anchorA,
+      anchorB: props.anchorB,
+      stiffness: props.stiffness,
+      referenceAngle: props.referenceAngle,
+      lowerAngle: props.lowerAngle,
+      upperAngle: props.upperAngle,
+      motorSpeed: props.motorSpeed,
+      maxMotorTorque: props.maxMotorTorque,
+    });
+  }
+
+  useEffect(() => {
+    const constraint = constraintRef.current!;
+    engine.addConstraint(constraint);
+
+    return () => {
+      engine.removeConstraint(constraint.id);
+    };
+  }, [engine]);
+
+  // This component renders nothing — constraints are drawn by the renderer
+  return null;
+}
@@ -17,6 +17,10 @@ export interface PhysicsSceneProps {
   width?: number | string;
   /** Height of the SVG viewport. */
   height?: number | string;
+  /** Stop stepping the simulation (it keeps rendering). Default false. */
+  paused?: boolean;
+  /** Simulated seconds per real second: < 1 slow motion, > 1 fast-forward. Default 1. */
+  timeScale?: number;
   /** Child components (e.g. `<Body>`, `<Spring>`). */
   children?: ReactNode;
 }
@@ -42,6 +46,8 @@ export function PhysicsScene({
   config,
   width = '100%',
   height = '100%',
+  paused = false,
+  timeScale = 1,
   children,
 }: PhysicsSceneProps) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -56,6 +62,11 @@ export function PhysicsScene({
 
   const rendererRef = useRef<SvgRenderer | null>(null);
 
+  useEffect(() => {
+    engine.paused = paused;
+    engine.timeScale = timeScale;
+  }, [engine, paused, timeScale]);
+
   // Initialise renderer
   useEffect(() => {
     if (!containerRef.current) return;
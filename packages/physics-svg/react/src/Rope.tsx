@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import type { Constraint, Vec2 } from '@mcp-tool-shop/siege-types';
+import { createConstraint } from '../../src/core/constraint.js';
+import { usePhysics } from './usePhysics.js';
+
+/** Props for the {@link Rope} component. */
+export interface RopeProps {
+  /** ID of the first body. */
+  bodyA: string;
+  /** ID of the second body. */
+  bodyB: string;
+  /** Longest the rope lets the anchors get apart. */
+  length: number;
+  /** Tie point on body A (local coords, rotates with the body). */
+  anchorA?: Vec2;
+  /** Tie point on body B (local coords, rotates with the body). */
+  anchorB?: Vec2;
+  /** Positional correction factor 0-1. Default 0.5. */
+  stiffness?: number;
+  /** Tension at which the rope snaps. Unbreakable if omitted. */
+  maxForce?: number;
+}
+
+/**
+ * Rope — declarative React component that registers a rope joint between
+ * two bodies on mount and removes it on unmount. A rope that snaps is gone
+ * from the engine; listen for `constraintBroken` to react to it.
+ *
+ * Renders nothing to the DOM.
+ */
+export function Rope(props: RopeProps) {
+  const engine = usePhysics();
+  const constraintRef = useRef<Constraint | null>(null);
+
+  if (!constraintRef.current) {
+    constraintRef.current = createConstraint({
+      type: 'rope',
+      bodyA: props.bodyA,
+      bodyB: props.bodyB,
+      length: props.length,
+      anchorA: props.anchorA,
+      anchorB: props.anchorB,
+      stiffness: props.stiffness,
+      maxForce: props.maxForce,
+    });
+  }
+
+  useEffect(() => {
+    const constraint = constraintRef.current!;
+    engine.addConstraint(constraint);
+
+    return () => {
+      engine.removeConstraint(constraint.id);
+    };
+  }, [engine]);
+
+  // This component renders nothing — constraints are drawn by the renderer
+  return null;
+}
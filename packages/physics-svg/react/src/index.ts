@@ -11,6 +11,12 @@ export type { BodyProps } from './Body.js';
 export { Spring } from './Spring.js';
 export type { SpringProps } from './Spring.js';
 
+export { Hinge } from './Hinge.js';
+export type { HingeProps } from './Hinge.js';
+
+export { Rope } from './Rope.js';
+export type { RopeProps } from './Rope.js';
+
 export { usePhysics } from './usePhysics.js';
 export { useBody } from './useBody.js';
 
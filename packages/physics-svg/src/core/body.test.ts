@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { createBody } from './body.js';
+import type { BodyShape, PhysicsBody, Vec2 } from '@mcp-tool-shop/siege-types';
+import { createBody, isDynamic } from './body.js';
+import { PhysicsEngine } from './engine.js';
+import * as V from './vec2.js';
 
 // ---------------------------------------------------------------------------
 // Default body creation
@@ -13,6 +16,9 @@ describe('createBody() — defaults', () => {
     expect(body.invMass).toBe(1);
     expect(body.restitution).toBe(0.5);
     expect(body.friction).toBe(0.3);
+    expect(body.linearDamping).toBe(0.01);
+    expect(body.gravityScale).toBe(1);
+    expect(body.maxSpeed).toBeUndefined();
     expect(body.isStatic).toBe(false);
     expect(body.isSleeping).toBe(false);
     expect(body.sleepTimer).toBe(0);
@@ -88,6 +94,38 @@ describe('createBody() — static bodies', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Body type
+// ---------------------------------------------------------------------------
+
+describe('createBody() — bodyType', () => {
+  it('derives bodyType from isStatic when omitted', () => {
+    expect(createBody().bodyType).toBe('dynamic');
+    expect(createBody({ isStatic: true }).bodyType).toBe('static');
+  });
+
+  it('bodyType overrides isStatic', () => {
+    const body = createBody({ bodyType: 'dynamic', isStatic: true });
+    expect(body.isStatic).toBe(false);
+    expect(createBody({ bodyType: 'static' }).isStatic).toBe(true);
+  });
+
+  it('kinematic bodies are not static but have zero mass and inertia', () => {
+    const body = createBody({ bodyType: 'kinematic', mass: 5 });
+    expect(body.isStatic).toBe(false);
+    expect(body.mass).toBe(0);
+    expect(body.invMass).toBe(0);
+    expect(body.inertia).toBe(0);
+    expect(body.invInertia).toBe(0);
+  });
+
+  it('isDynamic is true only for dynamic bodies', () => {
+    expect(isDynamic(createBody())).toBe(true);
+    expect(isDynamic(createBody({ isStatic: true }))).toBe(false);
+    expect(isDynamic(createBody({ bodyType: 'kinematic' }))).toBe(false);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Custom properties
 // ---------------------------------------------------------------------------
@@ -130,13 +168,120 @@ describe('createBody() — custom properties', () => {
   });
 
   it('accepts a polygon shape', () => {
+    const verts = [
+      { x: -5, y: -5 },
+      { x: 5, y: -5 },
+      { x: 0, y: 10 },
+    ];
+    const body = createBody({ shape: { type: 'polygon', vertices: verts } });
+    expect(body.shape).toEqual({ type: 'polygon', vertices: verts });
+  });
+
+  it('re-winds a polygon given in the opposite orientation', () => {
+    const verts = [
+      { x: -5, y: -5 },
+      { x: 0, y: 10 },
+      { x: 5, y: -5 },
+    ];
+    const body = createBody({ shape: { type: 'polygon', vertices: verts } });
+    expect(body.shape).toEqual({
+      type: 'polygon',
+      vertices: [
+        { x: 5, y: -5 },
+        { x: 0, y: 10 },
+        { x: -5, y: -5 },
+      ],
+    });
+    // Input array is left untouched
+    expect(verts[1]).toEqual({ x: 0, y: 10 });
+  });
+
+  it('moves the origin to a polygon\'s centroid without moving the polygon', () => {
+    const body = createBody({
+      position: { x: 100, y: 100 },
+      shape: {
+        type: 'polygon',
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 40, y: 0 },
+          { x: 40, y: 40 },
+          { x: 0, y: 40 },
+        ],
+      },
+    });
+
+    expect(body.position).toEqual({ x: 120, y: 120 });
+    expect(body.previousPosition).toEqual({ x: 120, y: 120 });
+    expect(body.shape).toEqual({
+      type: 'polygon',
+      vertices: [
+        { x: -20, y: -20 },
+        { x: 20, y: -20 },
+        { x: 20, y: 20 },
+        { x: -20, y: 20 },
+      ],
+    });
+  });
+
+  it('spins an off-center polygon about its centroid', () => {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 0 },
+      substeps: 4,
+      velocityIterations: 4,
+    });
+    const body = createBody({
+      angularVelocity: 3,
+      linearDamping: 0,
+      shape: {
+        type: 'polygon',
+        vertices: [
+          { x: 0, y: 0 },
+          { x: 40, y: 0 },
+          { x: 40, y: 40 },
+          { x: 0, y: 40 },
+        ],
+      },
+    });
+    engine.addBody(body);
+
+    for (let i = 0; i < 60; i++) engine.update(1 / 60);
+
+    expect(body.angle).toBeGreaterThan(2);
+    expect(body.position.x).toBeCloseTo(20, 10);
+    expect(body.position.y).toBeCloseTo(20, 10);
+  });
+
+  it('throws for a concave polygon', () => {
     const verts = [
       { x: 0, y: 0 },
       { x: 10, y: 0 },
+      { x: 5, y: 3 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+    ];
+    expect(() => createBody({ shape: { type: 'polygon', vertices: verts } })).toThrow(
+      /convex/,
+    );
+  });
+
+  it('throws for a polygon with fewer than 3 vertices', () => {
+    const verts = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+    ];
+    expect(() => createBody({ shape: { type: 'polygon', vertices: verts } })).toThrow(
+      /at least 3/,
+    );
+  });
+
+  it('throws for a polygon with collinear vertices', () => {
+    const verts = [
+      { x: 0, y: 0 },
+      { x: 5, y: 0 },
+      { x: 10, y: 0 },
       { x: 5, y: 10 },
     ];
-    const body = createBody({ shape: { type: 'polygon', vertices: verts } });
-    expect(body.shape).toEqual({ type: 'polygon', vertices: verts });
+    expect(() => createBody({ shape: { type: 'polygon', vertices: verts } })).toThrow();
   });
 
   it('accepts custom id', () => {
@@ -150,6 +295,82 @@ describe('createBody() — custom properties', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Rotational state
+// ---------------------------------------------------------------------------
+
+describe('createBody() — rotation', () => {
+  it('angle, previousAngle, angularVelocity and torque default to 0', () => {
+    const body = createBody();
+    expect(body.angle).toBe(0);
+    expect(body.previousAngle).toBe(0);
+    expect(body.angularVelocity).toBe(0);
+    expect(body.torque).toBe(0);
+  });
+
+  it('previousAngle defaults to match angle', () => {
+    const body = createBody({ angle: 1.25 });
+    expect(body.previousAngle).toBe(1.25);
+  });
+
+  it('computes circle inertia as m·r²/2', () => {
+    const body = createBody({ mass: 2, shape: { type: 'circle', radius: 10 } });
+    expect(body.inertia).toBeCloseTo(100, 10);
+    expect(body.invInertia).toBeCloseTo(0.01, 10);
+  });
+
+  it('computes rect inertia as m·(w² + h²)/12', () => {
+    const body = createBody({ mass: 3, shape: { type: 'rect', width: 20, height: 10 } });
+    expect(body.inertia).toBeCloseTo(125, 10);
+  });
+
+  it('computes polygon inertia matching the equivalent rect', () => {
+    const body = createBody({
+      mass: 3,
+      shape: {
+        type: 'polygon',
+        vertices: [
+          { x: -10, y: -5 },
+          { x: 10, y: -5 },
+          { x: 10, y: 5 },
+          { x: -10, y: 5 },
+        ],
+      },
+    });
+    expect(body.inertia).toBeCloseTo(125, 10);
+  });
+
+  it('takes an off-origin polygon\'s inertia about its centroid', () => {
+    // Unit-mass 2x2 square centered at (10, 0): I = m(w²+h²)/12
+    const body = createBody({
+      mass: 1,
+      shape: {
+        type: 'polygon',
+        vertices: [
+          { x: 9, y: -1 },
+          { x: 11, y: -1 },
+          { x: 11, y: 1 },
+          { x: 9, y: 1 },
+        ],
+      },
+    });
+    expect(body.inertia).toBeCloseTo(8 / 12, 8);
+    expect(body.position).toEqual({ x: 10, y: 0 });
+  });
+
+  it('static bodies have zero inertia and invInertia', () => {
+    const body = createBody({ isStatic: true, inertia: 500 });
+    expect(body.inertia).toBe(0);
+    expect(body.invInertia).toBe(0);
+  });
+
+  it('accepts an explicit inertia override', () => {
+    const body = createBody({ inertia: 4 });
+    expect(body.inertia).toBe(4);
+    expect(body.invInertia).toBe(0.25);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // invMass calculation
 // ---------------------------------------------------------------------------
@@ -210,6 +431,32 @@ describe('createBody() — sleep state', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Collision filter
+// ---------------------------------------------------------------------------
+
+describe('createBody() — collisionFilter', () => {
+  it('defaults to category 1, all masks, no group', () => {
+    expect(createBody().collisionFilter).toEqual({
+      categoryBits: 0x0001,
+      maskBits: 0xffff,
+      groupIndex: 0,
+    });
+  });
+
+  it('uses the given filter', () => {
+    const filter = { categoryBits: 0x0004, maskBits: 0x0001, groupIndex: -2 };
+    expect(createBody({ collisionFilter: filter }).collisionFilter).toEqual(filter);
+  });
+
+  it('does not share the filter object between bodies', () => {
+    const a = createBody();
+    const b = createBody();
+    a.collisionFilter.maskBits = 0;
+    expect(b.collisionFilter.maskBits).toBe(0xffff);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Position independence (no shared references)
 // ---------------------------------------------------------------------------
@@ -263,3 +510,181 @@ describe('createBody() — independence', () => {
     expect(body.acceleration.y).toBe(0);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Compound shapes
+// ---------------------------------------------------------------------------
+
+describe('createBody() — compound shapes', () => {
+  /** An L: a 40×10 bar along the top and a 10×30 leg hanging off its right end. */
+  const frame: BodyShape = {
+    type: 'compound',
+    parts: [
+      { shape: { type: 'rect', width: 40, height: 10 }, offset: { x: 0, y: 0 } },
+      { shape: { type: 'rect', width: 10, height: 30 }, offset: { x: 15, y: 20 } },
+    ],
+  };
+
+  /** World-space centers of a compound body's parts. */
+  function partCenters(body: PhysicsBody): Vec2[] {
+    if (body.shape.type !== 'compound') return [];
+    return body.shape.parts.map((part) => V.add(body.position, V.rotate(part.offset, body.angle)));
+  }
+
+  it('adds up part inertia about the centroid', () => {
+    const dumbbell = createBody({
+      mass: 2,
+      shape: {
+        type: 'compound',
+        parts: [
+          { shape: { type: 'rect', width: 10, height: 10 }, offset: { x: -10, y: 0 } },
+          { shape: { type: 'rect', width: 10, height: 10 }, offset: { x: 10, y: 0 } },
+        ],
+      },
+    });
+
+    // Each 1 kg square: 200/12 about its center + 1·10² out to the origin
+    expect(dumbbell.inertia).toBeCloseTo(2 * (200 / 12 + 100), 8);
+    expect(dumbbell.position).toEqual({ x: 0, y: 0 });
+  });
+
+  it('moves the origin to the centroid without moving the parts', () => {
+    const body = createBody({ position: { x: 100, y: 100 }, shape: frame });
+
+    // Areas 400 and 300: centroid (300·15, 300·20) / 700
+    expect(body.position.x).toBeCloseTo(100 + 4500 / 700, 10);
+    expect(body.position.y).toBeCloseTo(100 + 6000 / 700, 10);
+    expect(body.previousPosition).toEqual(body.position);
+
+    const [bar, leg] = partCenters(body);
+    expect(bar!.x).toBeCloseTo(100, 10);
+    expect(bar!.y).toBeCloseTo(100, 10);
+    expect(leg!.x).toBeCloseTo(115, 10);
+    expect(leg!.y).toBeCloseTo(120, 10);
+  });
+
+  it('re-centers in the body\'s rotated frame', () => {
+    const body = createBody({ position: { x: 100, y: 100 }, angle: Math.PI / 2, shape: frame });
+
+    const [, leg] = partCenters(body);
+    // Turned a quarter clockwise on screen: (15, 20) → (−20, 15)
+    expect(leg!.x).toBeCloseTo(80, 10);
+    expect(leg!.y).toBeCloseTo(115, 10);
+  });
+
+  it('takes polygon centroids and part angles into account', () => {
+    const wedge = createBody({
+      shape: {
+        type: 'compound',
+        parts: [
+          {
+            shape: {
+              type: 'polygon',
+              vertices: [
+                { x: 0, y: 0 },
+                { x: 30, y: 0 },
+                { x: 0, y: 30 },
+              ],
+            },
+            offset: { x: 0, y: 0 },
+            angle: Math.PI,
+          },
+        ],
+      },
+    });
+
+    // The triangle's centroid (10, 10), turned half a turn
+    expect(wedge.position.x).toBeCloseTo(-10, 10);
+    expect(wedge.position.y).toBeCloseTo(-10, 10);
+  });
+
+  it('copies and validates the parts', () => {
+    const parts = [{ shape: { type: 'circle' as const, radius: 5 }, offset: { x: 0, y: 0 } }];
+    const body = createBody({ shape: { type: 'compound', parts } });
+    parts[0]!.offset.x = 99;
+
+    expect(body.shape).toEqual({
+      type: 'compound',
+      parts: [{ shape: { type: 'circle', radius: 5 }, offset: { x: 0, y: 0 }, angle: undefined }],
+    });
+    expect(() => createBody({ shape: { type: 'compound', parts: [] } })).toThrow(/at least 1 part/);
+    expect(() =>
+      createBody({
+        shape: {
+          type: 'compound',
+          parts: [
+            {
+              shape: { type: 'polygon', vertices: [{ x: 0, y: 0 }, { x: 1, y: 0 }] },
+              offset: { x: 0, y: 0 },
+            },
+          ],
+        },
+      }),
+    ).toThrow(/at least 3 vertices/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Capsules, segments and chains
+// ---------------------------------------------------------------------------
+
+describe('createBody() — capsules, segments and chains', () => {
+  it('gives a capsule the inertia of its filled outline', () => {
+    const length = 30;
+    const radius = 5;
+    const mass = 2;
+    const body = createBody({ mass, shape: { type: 'capsule', length, radius } });
+
+    // Sum r² over a fine grid laid across the outline
+    const step = 0.05;
+    let sum = 0;
+    let cells = 0;
+    for (let x = -20 + step / 2; x < 20; x += step) {
+      for (let y = -radius + step / 2; y < radius; y += step) {
+        const dx = Math.max(Math.abs(x) - length / 2, 0);
+        if (dx * dx + y * y > radius * radius) continue;
+        sum += x * x + y * y;
+        cells++;
+      }
+    }
+
+    expect(body.inertia).toBeCloseTo((mass * sum) / cells, 1);
+  });
+
+  it('treats a capsule with no length as a circle', () => {
+    const pill = createBody({ mass: 3, shape: { type: 'capsule', length: 0, radius: 8 } });
+
+    expect(pill.inertia).toBeCloseTo((3 * 64) / 2, 10);
+  });
+
+  it('keeps segments and chains to static and kinematic bodies', () => {
+    const segment: BodyShape = { type: 'segment', start: { x: 0, y: 0 }, end: { x: 10, y: 0 } };
+    const chain: BodyShape = { type: 'chain', vertices: [{ x: 0, y: 0 }, { x: 10, y: 0 }] };
+
+    expect(() => createBody({ shape: segment })).toThrow(/need a shape with area/);
+    expect(() => createBody({ shape: chain })).toThrow(/need a shape with area/);
+    expect(createBody({ isStatic: true, shape: segment }).invInertia).toBe(0);
+    expect(isDynamic(createBody({ bodyType: 'kinematic', shape: chain }))).toBe(false);
+  });
+
+  it('copies and validates chain vertices', () => {
+    const vertices = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ];
+    const body = createBody({ isStatic: true, shape: { type: 'chain', vertices, loop: true } });
+    vertices[0]!.x = 99;
+
+    expect(body.shape.type === 'chain' && body.shape.vertices[0]).toEqual({ x: 0, y: 0 });
+    expect(() =>
+      createBody({ isStatic: true, shape: { type: 'chain', vertices: [{ x: 0, y: 0 }] } }),
+    ).toThrow(/at least 2 vertices/);
+    expect(() =>
+      createBody({
+        isStatic: true,
+        shape: { type: 'chain', vertices: vertices.slice(0, 2), loop: true },
+      }),
+    ).toThrow(/Looped chain shapes need at least 3 vertices/);
+  });
+});
@@ -1,4 +1,12 @@
-import type { PhysicsBody, BodyShape, Vec2 } from '@mcp-tool-shop/siege-types';
+import type {
+  PhysicsBody,
+  BodyShape,
+  CollisionFilter,
+  PrimitiveShape,
+  Vec2,
+} from '@mcp-tool-shop/siege-types';
+import * as V from './vec2.js';
+import { normalizePolygon, computeArea, computeCentroid, computeInertia } from './shapes.js';
 
 /** Default zero-vector helper. */
 const ZERO: Vec2 = { x: 0, y: 0 };
@@ -6,20 +14,62 @@ const ZERO: Vec2 = { x: 0, y: 0 };
 /** Default circle shape. */
 const DEFAULT_SHAPE: BodyShape = { type: 'circle', radius: 10 };
 
+/** Default filter: category 1, collides with everything, no group. */
+export const DEFAULT_COLLISION_FILTER: Readonly<CollisionFilter> = {
+  categoryBits: 0x0001,
+  maskBits: 0xffff,
+  groupIndex: 0,
+};
+
 /**
  * Factory that creates a fully-populated {@link PhysicsBody} from a partial
  * configuration. Any omitted fields receive sensible defaults.
  *
- * - `invMass` is computed automatically from `mass` (0 for static bodies).
- * - `previousPosition` is initialized to match `position` (no interpolation delta).
- * - `isSleeping` defaults to false; `sleepTimer` starts at 0.
+ * - `bodyType` defaults to `'static'` if `isStatic` is set, else
+ *   `'dynamic'`; `isStatic` is then derived from it.
+ * - `mass` and `inertia` are 0 for static and kinematic bodies, so
+ *   `invMass` / `invInertia` are 0 too.
+ * - Otherwise `invMass` is computed automatically from `mass`, and
+ *   `inertia` from the shape and mass unless given explicitly.
+ * - `previousPosition` / `previousAngle` are initialized to match
+ *   `position` / `angle` (no interpolation delta).
+ * - `material` is left unset: contacts use `friction` and `restitution`.
+ * - `linearDamping` defaults to 0.01 and `gravityScale` to 1; `maxSpeed`
+ *   is left unset (no limit).
+ * - `isSensor`, `bullet` and `isSleeping` default to false; `sleepTimer`
+ *   starts at 0 and `islandId` at null.
+ * - `collisionFilter` fields not given fall back to
+ *   {@link DEFAULT_COLLISION_FILTER}.
+ * - Polygon vertices are validated (convex, at least 3) and re-wound to a
+ *   consistent orientation for the SAT narrow phase.
+ * - A polygon's vertices, or a compound's parts, are moved so that their
+ *   centroid is the body origin, and `position` (and `previousPosition`,
+ *   unless given) by as much the other way, leaving the shape where it was
+ *   in the world. The body then turns about its center of mass, and
+ *   `inertia` is taken about it. A compound's `mass` is spread over the
+ *   parts by area for the inertia.
+ * - Segment and chain shapes have no area to spread a mass over, so a
+ *   dynamic body needs something else (e.g. a compound with another part).
+ *
+ * @throws If a polygon shape is concave or has fewer than 3 vertices, a
+ *   chain has fewer than 2 (3 for a loop), a compound shape has no parts,
+ *   or a dynamic body's shape has no area.
  */
 export function createBody(
   partial: Partial<PhysicsBody> = {},
 ): PhysicsBody {
-  const isStatic = partial.isStatic ?? false;
-  const mass = isStatic ? 0 : (partial.mass ?? 1);
-  const position = partial.position ?? { ...ZERO };
+  const bodyType = partial.bodyType ?? (partial.isStatic ? 'static' : 'dynamic');
+  const dynamic = bodyType === 'dynamic';
+  const mass = dynamic ? (partial.mass ?? 1) : 0;
+  const shape = partial.shape ? copyShape(partial.shape) : { ...DEFAULT_SHAPE };
+  if (dynamic && !(computeArea(shape) > 0)) {
+    throw new Error(
+      `Dynamic bodies need a shape with area; use a static or kinematic body for a ${shape.type}.`,
+    );
+  }
+  const angle = partial.angle ?? 0;
+  const position = centerShape(shape, partial.position ?? ZERO, angle);
+  const inertia = dynamic ? (partial.inertia ?? computeInertia(shape, mass)) : 0;
 
   return {
     id: partial.id ?? crypto.randomUUID(),
@@ -27,14 +77,94 @@ export function createBody(
     previousPosition: partial.previousPosition ?? { ...position },
     velocity: partial.velocity ?? { ...ZERO },
     acceleration: partial.acceleration ?? { ...ZERO },
+    angle,
+    previousAngle: partial.previousAngle ?? angle,
+    angularVelocity: partial.angularVelocity ?? 0,
+    torque: partial.torque ?? 0,
     mass,
     invMass: mass > 0 ? 1 / mass : 0,
+    inertia,
+    invInertia: inertia > 0 ? 1 / inertia : 0,
     restitution: partial.restitution ?? 0.5,
     friction: partial.friction ?? 0.3,
-    isStatic,
+    material: partial.material,
+    linearDamping: partial.linearDamping ?? 0.01,
+    gravityScale: partial.gravityScale ?? 1,
+    maxSpeed: partial.maxSpeed,
+    bodyType,
+    isStatic: bodyType === 'static',
+    isSensor: partial.isSensor ?? false,
+    bullet: partial.bullet ?? false,
     isSleeping: partial.isSleeping ?? false,
     sleepTimer: partial.sleepTimer ?? 0,
-    shape: partial.shape ?? { ...DEFAULT_SHAPE },
+    islandId: partial.islandId ?? null,
+    sleepThresholds: partial.sleepThresholds ? { ...partial.sleepThresholds } : undefined,
+    collisionFilter: { ...DEFAULT_COLLISION_FILTER, ...partial.collisionFilter },
+    shape,
     userData: partial.userData,
   };
 }
+
+/**
+ * Whether forces, contact impulses and constraints can move the body, i.e.
+ * it is neither static nor kinematic.
+ */
+export function isDynamic(body: PhysicsBody): boolean {
+  return !body.isStatic && body.bodyType !== 'kinematic';
+}
+
+/** Copy a shape, validating and normalizing polygon and chain vertices. */
+function copyShape(shape: BodyShape): BodyShape {
+  if (shape.type !== 'compound') return copyPrimitive(shape);
+  if (shape.parts.length === 0) {
+    throw new Error('Compound shapes need at least 1 part.');
+  }
+
+  return {
+    type: 'compound',
+    parts: shape.parts.map((part) => ({
+      shape: copyPrimitive(part.shape),
+      offset: { ...part.offset },
+      angle: part.angle,
+    })),
+  };
+}
+
+function copyPrimitive(shape: PrimitiveShape): PrimitiveShape {
+  if (shape.type === 'polygon') {
+    return { type: 'polygon', vertices: normalizePolygon(shape.vertices) };
+  }
+  if (shape.type === 'segment') {
+    return { type: 'segment', start: { ...shape.start }, end: { ...shape.end } };
+  }
+  if (shape.type === 'chain') {
+    const needed = shape.loop ? 3 : 2;
+    if (shape.vertices.length < needed) {
+      throw new Error(
+        `${shape.loop ? 'Looped chain' : 'Chain'} shapes need at least ${needed} vertices ` +
+          `(got ${shape.vertices.length}).`,
+      );
+    }
+    return { type: 'chain', vertices: shape.vertices.map(V.clone), loop: shape.loop };
+  }
+  return { ...shape };
+}
+
+/**
+ * Shift a (copied) polygon's vertices or compound's parts so their
+ * centroid is the origin, and return the body position that keeps them in
+ * place in the world.
+ */
+function centerShape(shape: BodyShape, position: Vec2, angle: number): Vec2 {
+  if (shape.type !== 'polygon' && shape.type !== 'compound') return { ...position };
+
+  const centroid = computeCentroid(shape);
+  if (shape.type === 'polygon') {
+    shape.vertices = shape.vertices.map((v) => V.sub(v, centroid));
+  } else {
+    for (const part of shape.parts) {
+      part.offset = V.sub(part.offset, centroid);
+    }
+  }
+  return V.add(position, V.rotate(centroid, angle));
+}
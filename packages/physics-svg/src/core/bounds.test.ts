@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import type { WorldBounds, WorldConfig } from '@mcp-tool-shop/siege-types';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { createConstraint } from './constraint.js';
+import { enforceBounds } from './bounds.js';
+import type { BoundsEvent } from './events.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A 400×300 box, solid on every edge unless overridden. */
+function box(edges: WorldBounds['edges'] = {}): WorldBounds {
+  return { min: { x: 0, y: 0 }, max: { x: 400, y: 300 }, edges };
+}
+
+function world(bounds: WorldBounds, config: Partial<WorldConfig> = {}): PhysicsEngine {
+  return new PhysicsEngine({
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 6,
+    bounds,
+    ...config,
+  });
+}
+
+function run(engine: PhysicsEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.stepOnce();
+}
+
+// ===========================================================================
+// SOLID EDGES
+// ===========================================================================
+
+describe('enforceBounds — solid edges', () => {
+  it('holds a rect by its half-height, not half its longest side', () => {
+    const plank = createBody({
+      position: { x: 200, y: 298 },
+      shape: { type: 'rect', width: 40, height: 10 },
+    });
+
+    enforceBounds(plank, box());
+
+    expect(plank.position.y).toBeCloseTo(295, 10);
+  });
+
+  it('uses rotated and polygon extents', () => {
+    const upright = createBody({
+      position: { x: 398, y: 150 },
+      angle: Math.PI / 2,
+      shape: { type: 'rect', width: 40, height: 10 },
+    });
+    const wedge = createBody({
+      position: { x: 5, y: 150 },
+      shape: {
+        type: 'polygon',
+        vertices: [
+          { x: -20, y: 0 },
+          { x: 10, y: -10 },
+          { x: 10, y: 10 },
+        ],
+      },
+    });
+
+    enforceBounds(upright, box());
+    enforceBounds(wedge, box());
+
+    expect(upright.position.x).toBeCloseTo(395, 10);
+    expect(wedge.position.x).toBeCloseTo(20, 10);
+  });
+
+  it('bounces with the body\'s restitution however slow the impact', () => {
+    const fast = createBody({ position: { x: 200, y: 295 }, velocity: { x: 0, y: 100 } });
+    const slow = createBody({ position: { x: 200, y: 295 }, velocity: { x: 0, y: 10 } });
+    fast.restitution = 0.8;
+    slow.restitution = 0.8;
+
+    enforceBounds(fast, box());
+    enforceBounds(slow, box());
+
+    expect(fast.velocity.y).toBeCloseTo(-80, 10);
+    expect(slow.velocity.y).toBeCloseTo(-8, 10);
+  });
+
+  it('slows sliding by friction × the change in normal speed', () => {
+    const puck = createBody({
+      position: { x: 200, y: 295 },
+      velocity: { x: 50, y: 10 },
+      friction: 0.5,
+      restitution: 0,
+    });
+
+    enforceBounds(puck, box());
+
+    // Stopping 10 px/s into the floor buys 5 px/s of friction
+    expect(puck.velocity).toEqual({ x: 45, y: 0 });
+  });
+
+  it('leaves bodies already moving away alone', () => {
+    const ball = createBody({ position: { x: 200, y: 295 }, velocity: { x: 30, y: -40 } });
+
+    enforceBounds(ball, box());
+
+    expect(ball.position.y).toBeCloseTo(290, 10);
+    expect(ball.velocity).toEqual({ x: 30, y: -40 });
+  });
+
+  it('never pushes kinematic bodies', () => {
+    const platform = createBody({ bodyType: 'kinematic', position: { x: 200, y: 305 } });
+
+    enforceBounds(platform, box());
+
+    expect(platform.position.y).toBe(305);
+  });
+});
+
+// ===========================================================================
+// OPEN, WRAP AND KILL EDGES
+// ===========================================================================
+
+describe('enforceBounds — open, wrap and kill edges', () => {
+  it('lets bodies through an open edge', () => {
+    const die = createBody({ position: { x: 200, y: -50 }, velocity: { x: 0, y: -100 } });
+
+    expect(enforceBounds(die, box({ top: 'open' }))).toBeNull();
+    expect(die.position.y).toBe(-50);
+    expect(die.velocity.y).toBe(-100);
+  });
+
+  it('wraps a body whose center crossed to the opposite edge, with its interpolation', () => {
+    const ship = createBody({ position: { x: 401, y: 150 }, bodyType: 'kinematic' });
+    ship.previousPosition.x = 397;
+
+    enforceBounds(ship, box({ left: 'wrap', right: 'wrap' }));
+
+    expect(ship.position.x).toBe(1);
+    expect(ship.previousPosition.x).toBe(-3);
+  });
+
+  it('does not wrap a body that is only partly across', () => {
+    const ship = createBody({ position: { x: 395, y: 150 } });
+
+    enforceBounds(ship, box({ right: 'wrap' }));
+
+    expect(ship.position.x).toBe(395);
+  });
+
+  it('reports a kill edge only once the body is entirely outside', () => {
+    const checker = createBody({ position: { x: 200, y: 305 } }); // radius 10
+
+    expect(enforceBounds(checker, box({ bottom: 'kill' }))).toBeNull();
+    checker.position.y = 311;
+    expect(enforceBounds(checker, box({ bottom: 'kill' }))).toBe('bottom');
+  });
+});
+
+// ===========================================================================
+// WORLD
+// ===========================================================================
+
+describe('world bounds', () => {
+  it('a die thrown up through an open top falls back in between the walls', () => {
+    const engine = world(box({ top: 'open' }));
+    engine.addBody(
+      createBody({
+        id: 'die',
+        position: { x: 200, y: 250 },
+        velocity: { x: 300, y: -900 },
+        shape: { type: 'rect', width: 20, height: 20 },
+      }),
+    );
+
+    let highest = Infinity;
+    for (let i = 0; i < 300; i++) {
+      engine.stepOnce();
+      const die = engine.getBody('die')!;
+      highest = Math.min(highest, die.position.y);
+      expect(die.position.x).toBeGreaterThanOrEqual(10 - 1e-9);
+      expect(die.position.x).toBeLessThanOrEqual(390 + 1e-9);
+    }
+
+    expect(highest).toBeLessThan(0);
+    expect(engine.getBody('die')!.position.y).toBeCloseTo(290, 0);
+  });
+
+  it('wrap-around keeps a drifting body on screen forever', () => {
+    const engine = world(box({ left: 'wrap', right: 'wrap', top: 'wrap', bottom: 'wrap' }), {
+      gravity: { x: 0, y: 0 },
+    });
+    engine.addBody(
+      createBody({ id: 'logo', velocity: { x: 240, y: 180 }, position: { x: 200, y: 150 } }),
+    );
+
+    for (let i = 0; i < 600; i++) {
+      engine.stepOnce();
+      const logo = engine.getBody('logo')!;
+      expect(logo.position.x).toBeGreaterThanOrEqual(0);
+      expect(logo.position.x).toBeLessThanOrEqual(400);
+      expect(logo.position.y).toBeGreaterThanOrEqual(0);
+      expect(logo.position.y).toBeLessThanOrEqual(300);
+      // Never more than one substep of travel between render frames
+      expect(Math.abs(logo.position.x - logo.previousPosition.x)).toBeLessThan(2);
+    }
+  });
+
+  it('removes bodies that fall out through a kill edge and emits outOfBounds', () => {
+    const engine = world(box({ bottom: 'kill' }));
+    const events: BoundsEvent[] = [];
+    engine.on('outOfBounds', (e) => events.push(e));
+    engine.addBody(createBody({ id: 'checker', position: { x: 200, y: 280 } }));
+
+    run(engine, 30);
+
+    expect(engine.getBody('checker')).toBeUndefined();
+    expect(events).toEqual([{ body: 'checker', edge: 'bottom' }]);
+  });
+
+  it('removes the constraints of a body lost through a kill edge', () => {
+    const engine = world(box({ bottom: 'kill' }));
+    engine.addBody(createBody({ id: 'hook', isStatic: true, position: { x: 200, y: 20 } }));
+    engine.addBody(createBody({ id: 'checker', position: { x: 200, y: 280 } }));
+    engine.addConstraint(
+      createConstraint({ bodyA: 'hook', bodyB: 'checker', type: 'spring', stiffness: 0.01 }),
+    );
+
+    run(engine, 30);
+
+    expect(engine.getBody('checker')).toBeUndefined();
+    expect(engine.getConstraints()).toEqual([]);
+  });
+
+  it('under verlet, carries a solid edge\'s push into velocity but not a wrap', () => {
+    const engine = world(box({ left: 'wrap', right: 'wrap' }), {
+      gravity: { x: 0, y: 0 },
+      integrator: 'verlet',
+    });
+    // Starts 5 px through the floor, at rest
+    engine.addBody(createBody({ id: 'sunk', position: { x: 100, y: 295 }, restitution: 0 }));
+    engine.addBody(
+      createBody({
+        id: 'ship',
+        position: { x: 399, y: 150 },
+        velocity: { x: 240, y: 0 },
+        linearDamping: 0,
+      }),
+    );
+
+    engine.stepOnce();
+
+    expect(engine.getBody('sunk')!.velocity.y).toBeLessThan(-1);
+    const ship = engine.getBody('ship')!;
+    expect(ship.position.x).toBeLessThan(10);
+    expect(ship.velocity).toEqual({ x: 240, y: 0 });
+  });
+
+  it('defaults every edge to solid', () => {
+    const engine = world({ min: { x: 0, y: 0 }, max: { x: 400, y: 300 } });
+    engine.addBody(createBody({ id: 'ball', position: { x: 200, y: 150 } }));
+
+    run(engine, 120);
+
+    expect(engine.getBody('ball')!.position.y).toBeCloseTo(290, 5);
+  });
+});
@@ -0,0 +1,109 @@
+import type {
+  BoundsEdge,
+  BoundsEdgeMode,
+  Material,
+  PhysicsBody,
+  Vec2,
+  WorldBounds,
+} from '@mcp-tool-shop/siege-types';
+import * as V from './vec2.js';
+import { computeAABB } from './shapes.js';
+import { isDynamic } from './body.js';
+
+// ---------------------------------------------------------------------------
+// World Bounds
+// ---------------------------------------------------------------------------
+
+/** What an edge does: `'solid'` unless `bounds.edges` says otherwise. */
+export function edgeMode(bounds: WorldBounds, edge: BoundsEdge): BoundsEdgeMode {
+  return bounds.edges?.[edge] ?? 'solid';
+}
+
+/**
+ * Apply the world bounds to one body, using its real (rotated) extents:
+ *
+ * 1. `'wrap'` edges move a body whose center has crossed them to the
+ *    opposite edge, along with its `previousPosition` so interpolation
+ *    does not streak across the screen
+ * 2. `'kill'` edges report a body lying entirely beyond them
+ * 3. `'solid'` edges push dynamic bodies back inside and bounce their
+ *    speed into the edge back with `surface.restitution`, slowing them
+ *    along the edge by up to `surface.friction` × the change
+ *
+ * `'open'` edges do nothing.
+ *
+ * @returns The `'kill'` edge the body left through, for the caller to
+ *   remove it; null otherwise.
+ */
+export function enforceBounds(
+  body: PhysicsBody,
+  bounds: WorldBounds,
+  surface: Material = body,
+): BoundsEdge | null {
+  const { min, max } = bounds;
+
+  if (body.position.x < min.x && edgeMode(bounds, 'left') === 'wrap') {
+    shift(body, { x: max.x - min.x, y: 0 });
+  } else if (body.position.x > max.x && edgeMode(bounds, 'right') === 'wrap') {
+    shift(body, { x: min.x - max.x, y: 0 });
+  }
+  if (body.position.y < min.y && edgeMode(bounds, 'top') === 'wrap') {
+    shift(body, { x: 0, y: max.y - min.y });
+  } else if (body.position.y > max.y && edgeMode(bounds, 'bottom') === 'wrap') {
+    shift(body, { x: 0, y: min.y - max.y });
+  }
+
+  const box = computeAABB(body);
+  if (box.max.x < min.x && edgeMode(bounds, 'left') === 'kill') return 'left';
+  if (box.min.x > max.x && edgeMode(bounds, 'right') === 'kill') return 'right';
+  if (box.max.y < min.y && edgeMode(bounds, 'top') === 'kill') return 'top';
+  if (box.min.y > max.y && edgeMode(bounds, 'bottom') === 'kill') return 'bottom';
+
+  if (!isDynamic(body)) return null;
+
+  if (box.min.x < min.x && edgeMode(bounds, 'left') === 'solid') {
+    body.position.x += min.x - box.min.x;
+    collide(body, { x: 1, y: 0 }, surface);
+  } else if (box.max.x > max.x && edgeMode(bounds, 'right') === 'solid') {
+    body.position.x -= box.max.x - max.x;
+    collide(body, { x: -1, y: 0 }, surface);
+  }
+  if (box.min.y < min.y && edgeMode(bounds, 'top') === 'solid') {
+    body.position.y += min.y - box.min.y;
+    collide(body, { x: 0, y: 1 }, surface);
+  } else if (box.max.y > max.y && edgeMode(bounds, 'bottom') === 'solid') {
+    body.position.y -= box.max.y - max.y;
+    collide(body, { x: 0, y: -1 }, surface);
+  }
+
+  return null;
+}
+
+/** Move a body and its interpolation origin by `offset`. */
+function shift(body: PhysicsBody, offset: Vec2): void {
+  body.position.x += offset.x;
+  body.position.y += offset.y;
+  body.previousPosition.x += offset.x;
+  body.previousPosition.y += offset.y;
+}
+
+/** Velocity response to a solid edge whose `normal` points into the world. */
+function collide(
+  body: PhysicsBody,
+  normal: Vec2,
+  surface: Material,
+): void {
+  const normalSpeed = V.dot(body.velocity, normal);
+  if (normalSpeed >= 0) return; // already moving away
+
+  const change = -normalSpeed * (1 + surface.restitution);
+
+  const tangent = V.perpL(normal);
+  const tangentSpeed = V.dot(body.velocity, tangent);
+  const slide = Math.max(Math.abs(tangentSpeed) - surface.friction * change, 0);
+
+  const normalAfter = normalSpeed + change;
+  const tangentAfter = Math.sign(tangentSpeed) * slide;
+  body.velocity.x = normal.x * normalAfter + tangent.x * tangentAfter;
+  body.velocity.y = normal.y * normalAfter + tangent.y * tangentAfter;
+}
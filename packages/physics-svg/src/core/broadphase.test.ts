@@ -0,0 +1,277 @@
+import { describe, it, expect } from 'vitest';
+import { createBody } from './body.js';
+import { autoCellSize, createBodyIndex, findCandidatePairs } from './broadphase.js';
+import { detectCollisions } from './collision.js';
+import { PhysicsEngine } from './engine.js';
+import { computeAABB, aabbOverlap } from './shapes.js';
+import type { BroadPhaseType, PhysicsBody } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Small deterministic PRNG so scenes are reproducible across runs. */
+function rng(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 0x100000000;
+  };
+}
+
+/** Random mix of circles, rects (some rotated) and triangles. */
+function randomScene(count: number, seed: number, extent = 500): PhysicsBody[] {
+  const rand = rng(seed);
+  const bodies: PhysicsBody[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const position = { x: rand() * extent, y: rand() * extent };
+    const kind = i % 3;
+
+    if (kind === 0) {
+      bodies.push(
+        createBody({ id: `b${i}`, position, shape: { type: 'circle', radius: 2 + rand() * 15 } }),
+      );
+    } else if (kind === 1) {
+      bodies.push(
+        createBody({
+          id: `b${i}`,
+          position,
+          angle: rand() < 0.5 ? 0 : rand() * Math.PI,
+          shape: { type: 'rect', width: 4 + rand() * 30, height: 4 + rand() * 30 },
+        }),
+      );
+    } else {
+      const s = 5 + rand() * 15;
+      bodies.push(
+        createBody({
+          id: `b${i}`,
+          position,
+          angle: rand() * Math.PI,
+          shape: {
+            type: 'polygon',
+            vertices: [
+              { x: 0, y: -s },
+              { x: s, y: s },
+              { x: -s, y: s },
+            ],
+          },
+        }),
+      );
+    }
+  }
+
+  return bodies;
+}
+
+/** Reference answer: every pair whose AABBs overlap, in (i, j) order. */
+function referencePairs(bodies: PhysicsBody[]): [number, number][] {
+  const boxes = bodies.map(computeAABB);
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      if (aabbOverlap(boxes[i]!, boxes[j]!)) pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
+
+const STRATEGIES = ['spatial-hash', 'sap'] as const;
+
+// ===========================================================================
+// CANDIDATE PAIRS
+// ===========================================================================
+
+describe('findCandidatePairs', () => {
+  for (const type of STRATEGIES) {
+    describe(type, () => {
+      it('returns no pairs for an empty or single-body list', () => {
+        expect(findCandidatePairs([], type)).toEqual([]);
+        expect(
+          findCandidatePairs(
+            [createBody({ shape: { type: 'circle', radius: 5 } })],
+            type,
+          ),
+        ).toEqual([]);
+      });
+
+      it('matches the brute-force AABB pairs on random scenes', () => {
+        for (const seed of [1, 2, 3]) {
+          const bodies = randomScene(200, seed);
+          expect(findCandidatePairs(bodies, type)).toEqual(referencePairs(bodies));
+        }
+      });
+
+      it('pairs a huge body with every small body it overlaps', () => {
+        const bodies = randomScene(60, 7, 300);
+        bodies.push(
+          createBody({
+            id: 'floor',
+            isStatic: true,
+            position: { x: 150, y: 150 },
+            shape: { type: 'rect', width: 5000, height: 100 },
+          }),
+        );
+
+        const pairs = findCandidatePairs(bodies, type);
+        expect(pairs).toEqual(referencePairs(bodies));
+        expect(pairs.some(([, j]) => j === bodies.length - 1)).toBe(true);
+      });
+
+      it('handles bodies at negative coordinates', () => {
+        const bodies = randomScene(100, 11, 400).map((b) => {
+          b.position.x -= 200;
+          b.position.y -= 200;
+          return b;
+        });
+        expect(findCandidatePairs(bodies, type)).toEqual(referencePairs(bodies));
+      });
+
+      it('uses the rotated AABB of a rect', () => {
+        // An unrotated 100×2 bar at the origin misses a circle at (0, 30);
+        // rotated 90° it reaches it.
+        const bar = createBody({
+          position: { x: 0, y: 0 },
+          angle: Math.PI / 2,
+          shape: { type: 'rect', width: 100, height: 2 },
+        });
+        const ball = createBody({
+          position: { x: 0, y: 30 },
+          shape: { type: 'circle', radius: 5 },
+        });
+
+        expect(findCandidatePairs([bar, ball], type)).toEqual([[0, 1]]);
+      });
+    });
+  }
+});
+
+describe('autoCellSize', () => {
+  it('returns 1 for no bodies', () => {
+    expect(autoCellSize([])).toBe(1);
+  });
+
+  it('uses twice the median extent, ignoring outliers', () => {
+    const box = (size: number) => ({ min: { x: 0, y: 0 }, max: { x: size, y: size / 2 } });
+    expect(autoCellSize([box(10), box(10), box(10), box(5000)])).toBe(20);
+  });
+
+  it('never goes below 1', () => {
+    const point = { min: { x: 3, y: 3 }, max: { x: 3, y: 3 } };
+    expect(autoCellSize([point, point])).toBe(1);
+  });
+});
+
+// ===========================================================================
+// QUERY INDEX
+// ===========================================================================
+
+describe('createBodyIndex', () => {
+  const boxes = [
+    { min: { x: 100, y: 100 }, max: { x: 140, y: 120 } },
+    { min: { x: -50, y: -50 }, max: { x: 0, y: 0 } },
+    { min: { x: 0, y: 0 }, max: { x: 500, y: 500 } },
+    { min: { x: 250, y: 250 }, max: { x: 250, y: 250 } },
+    { min: { x: -1e5, y: -1e5 }, max: { x: 1e5, y: 1e5 } },
+  ];
+
+  for (const type of ['brute', ...STRATEGIES] as const) {
+    it(`${type}: finds the same bodies as a linear AABB pass, in input order`, () => {
+      const bodies = randomScene(200, 7);
+      const index = createBodyIndex(bodies, type);
+
+      for (const box of boxes) {
+        const expected = bodies.filter((body) => aabbOverlap(box, computeAABB(body)));
+        expect(index.query(box)).toEqual(expected);
+      }
+    });
+  }
+
+  it('queries the engine through the configured broad phase', () => {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 0 },
+      substeps: 1,
+      velocityIterations: 1,
+      broadPhase: 'spatial-hash',
+    });
+    for (const body of randomScene(50, 3)) engine.addBody(body);
+    engine.addBody(
+      createBody({
+        id: 'ball',
+        position: { x: 900, y: 900 },
+        shape: { type: 'circle', radius: 5 },
+      }),
+    );
+
+    expect(engine.queryPoint({ x: 900, y: 900 }).map((b) => b.id)).toEqual(['ball']);
+
+    // The index follows bodies moved by setters and by steps
+    engine.setPosition('ball', { x: 1200, y: 900 });
+    expect(engine.queryPoint({ x: 900, y: 900 })).toEqual([]);
+    expect(engine.queryPoint({ x: 1200, y: 900 }).map((b) => b.id)).toEqual(['ball']);
+
+    engine.setVelocity('ball', { x: 600, y: 0 });
+    engine.stepOnce();
+    expect(engine.queryPoint({ x: 1210, y: 900 }).map((b) => b.id)).toEqual(['ball']);
+    engine.removeBody('ball');
+    expect(engine.queryPoint({ x: 1210, y: 900 })).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// INTEGRATION
+// ===========================================================================
+
+describe('detectCollisions with a broad phase', () => {
+  it('reports the same collisions for every strategy', () => {
+    const bodies = randomScene(150, 42, 300);
+    const expected = detectCollisions(bodies, 'brute');
+    expect(expected.length).toBeGreaterThan(0);
+
+    for (const type of STRATEGIES) {
+      expect(detectCollisions(bodies, type)).toEqual(expected);
+    }
+  });
+});
+
+describe('World broadPhase config', () => {
+  function simulate(broadPhase: BroadPhaseType) {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 980 },
+      substeps: 4,
+      velocityIterations: 4,
+      bounds: { min: { x: 0, y: 0 }, max: { x: 400, y: 400 } },
+      broadPhase,
+    });
+
+    const rand = rng(99);
+    for (let i = 0; i < 60; i++) {
+      engine.addBody(
+        createBody({
+          id: `p${i}`,
+          position: { x: 20 + rand() * 360, y: 20 + rand() * 200 },
+          shape: { type: 'circle', radius: 6 },
+          mass: 1,
+        }),
+      );
+    }
+    engine.addBody(
+      createBody({
+        id: 'floor',
+        isStatic: true,
+        position: { x: 200, y: 390 },
+        shape: { type: 'rect', width: 400, height: 20 },
+      }),
+    );
+
+    for (let i = 0; i < 90; i++) engine.update(1 / 60);
+
+    return engine.getBodies().map((b) => ({ id: b.id, position: b.position }));
+  }
+
+  it('produces identical simulations for every strategy', () => {
+    const reference = simulate('brute');
+    expect(simulate('spatial-hash')).toEqual(reference);
+    expect(simulate('sap')).toEqual(reference);
+  });
+});
@@ -0,0 +1,256 @@
+import type { BroadPhaseType, PhysicsBody } from '@mcp-tool-shop/siege-types';
+import { computeAABB, aabbOverlap } from './shapes.js';
+import type { AABB } from './shapes.js';
+
+// ---------------------------------------------------------------------------
+// Broad Phase
+// ---------------------------------------------------------------------------
+// Each strategy returns candidate index pairs [i, j] (i < j) into the input
+// array, sorted by (i, j). That is the order the brute-force loop in
+// `detectCollisions` visits pairs in, so the narrow phase and resolver see
+// the same sequence whichever strategy is used and the choice of broad phase
+// never changes simulation results.
+// ---------------------------------------------------------------------------
+
+/** Candidate pair of indices into the body array, with i < j. */
+export type CandidatePair = [number, number];
+
+/** Bodies whose AABB spans more cells than this skip the hash grid. */
+const MAX_CELLS_PER_BODY = 64;
+
+/**
+ * Return candidate pairs whose AABBs overlap, using the given strategy.
+ *
+ * - `'spatial-hash'`: uniform grid with auto-tuned cell size.
+ * - `'sap'`: sort-and-sweep along the x axis.
+ *
+ * The `'brute'` reference path lives in `detectCollisions` itself.
+ */
+export function findCandidatePairs(
+  bodies: PhysicsBody[],
+  type: Exclude<BroadPhaseType, 'brute'>,
+): CandidatePair[] {
+  switch (type) {
+    case 'spatial-hash':
+      return spatialHashPairs(bodies);
+    case 'sap':
+      return sweepAndPrunePairs(bodies);
+  }
+}
+
+// ---- Spatial hash ----------------------------------------------------------
+
+/**
+ * Choose a grid cell size from body sizes: twice the median AABB extent.
+ * The median keeps a few huge static bodies (floors, walls) from inflating
+ * the cells used by the many small ones.
+ */
+export function autoCellSize(boxes: AABB[]): number {
+  if (boxes.length === 0) return 1;
+
+  const extents = boxes
+    .map((b) => Math.max(b.max.x - b.min.x, b.max.y - b.min.y))
+    .sort((a, b) => a - b);
+  const median = extents[Math.floor(extents.length / 2)]!;
+
+  return Math.max(median * 2, 1);
+}
+
+/** Pack integer cell coordinates into a single numeric key. */
+function cellKey(cx: number, cy: number): number {
+  return (cx + 32768) * 65536 + (cy + 32768);
+}
+
+/** Body indices bucketed into a uniform grid by AABB. */
+interface HashGrid {
+  inv: number; // 1 / cell size
+  cells: Map<number, number[]>;
+  oversized: number[]; // bodies spanning too many cells, kept out of the grid
+}
+
+/** Cells covered by `box`, inclusive. */
+function cellRange(box: AABB, inv: number) {
+  return {
+    x0: Math.floor(box.min.x * inv),
+    y0: Math.floor(box.min.y * inv),
+    x1: Math.floor(box.max.x * inv),
+    y1: Math.floor(box.max.y * inv),
+  };
+}
+
+function buildGrid(boxes: AABB[]): HashGrid {
+  const inv = 1 / autoCellSize(boxes);
+  const cells = new Map<number, number[]>();
+  const oversized: number[] = [];
+
+  for (let i = 0; i < boxes.length; i++) {
+    const { x0, y0, x1, y1 } = cellRange(boxes[i]!, inv);
+
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_CELLS_PER_BODY) {
+      oversized.push(i);
+      continue;
+    }
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = cellKey(cx, cy);
+        const cell = cells.get(key);
+        if (cell) cell.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  }
+
+  return { inv, cells, oversized };
+}
+
+function spatialHashPairs(bodies: PhysicsBody[]): CandidatePair[] {
+  const boxes = bodies.map(computeAABB);
+  const { cells: grid, oversized } = buildGrid(boxes);
+
+  const n = bodies.length;
+  const seen = new Set<number>();
+  const pairs: CandidatePair[] = [];
+
+  const consider = (a: number, b: number) => {
+    const i = Math.min(a, b);
+    const j = Math.max(a, b);
+    const key = i * n + j;
+    if (seen.has(key)) return;
+    seen.add(key);
+    if (aabbOverlap(boxes[i]!, boxes[j]!)) pairs.push([i, j]);
+  };
+
+  for (const cell of grid.values()) {
+    for (let a = 0; a < cell.length; a++) {
+      for (let b = a + 1; b < cell.length; b++) {
+        consider(cell[a]!, cell[b]!);
+      }
+    }
+  }
+
+  // Oversized bodies are tested against everything
+  for (const i of oversized) {
+    for (let j = 0; j < n; j++) {
+      if (j !== i) consider(i, j);
+    }
+  }
+
+  return sortPairs(pairs);
+}
+
+// ---- Sweep and prune -------------------------------------------------------
+
+function sweepAndPrunePairs(bodies: PhysicsBody[]): CandidatePair[] {
+  const boxes = bodies.map(computeAABB);
+  const order = boxes.map((_, i) => i).sort((a, b) => boxes[a]!.min.x - boxes[b]!.min.x);
+
+  const pairs: CandidatePair[] = [];
+  const active: number[] = [];
+
+  for (const i of order) {
+    const box = boxes[i]!;
+
+    // Drop intervals that end before this one starts
+    for (let k = active.length - 1; k >= 0; k--) {
+      if (boxes[active[k]!]!.max.x <= box.min.x) active.splice(k, 1);
+    }
+
+    for (const j of active) {
+      if (aabbOverlap(box, boxes[j]!)) {
+        pairs.push(i < j ? [i, j] : [j, i]);
+      }
+    }
+
+    active.push(i);
+  }
+
+  return sortPairs(pairs);
+}
+
+// ---- Queries ---------------------------------------------------------------
+
+/**
+ * Bodies bucketed by AABB once, so many region queries against the same
+ * positions (raycasts, point picks, shape casts) share the work.
+ */
+export interface BodyIndex {
+  readonly type: BroadPhaseType;
+  /**
+   * Bodies whose AABB overlaps `box`, in the order they were indexed. The
+   * exact shape test is left to the caller.
+   */
+  query(box: AABB): PhysicsBody[];
+}
+
+/**
+ * Index `bodies` for {@link BodyIndex.query} with the given strategy:
+ *
+ * - `'brute'`: AABBs computed once, then a linear pass per query
+ * - `'spatial-hash'`: the same grid as {@link findCandidatePairs}; a query
+ *   visits only the cells its box covers
+ * - `'sap'`: bodies sorted by `min.x`; a query stops at the first body
+ *   starting past its right edge
+ */
+export function createBodyIndex(
+  bodies: PhysicsBody[],
+  type: BroadPhaseType = 'brute',
+): BodyIndex {
+  const boxes = bodies.map(computeAABB);
+  const overlapping = (box: AABB, indices: Iterable<number>) => {
+    const hits: number[] = [];
+    for (const i of indices) {
+      if (aabbOverlap(box, boxes[i]!)) hits.push(i);
+    }
+    return hits.sort((a, b) => a - b).map((i) => bodies[i]!);
+  };
+
+  switch (type) {
+    case 'brute':
+      return { type, query: (box) => overlapping(box, boxes.keys()) };
+    case 'spatial-hash': {
+      const grid = buildGrid(boxes);
+      return { type, query: (box) => overlapping(box, hashCandidates(grid, box, boxes.length)) };
+    }
+    case 'sap': {
+      const order = boxes.map((_, i) => i).sort((a, b) => boxes[a]!.min.x - boxes[b]!.min.x);
+      return {
+        type,
+        query: (box) => {
+          // First body in `order` starting right of the box
+          let lo = 0;
+          let hi = order.length;
+          while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (boxes[order[mid]!]!.min.x <= box.max.x) lo = mid + 1;
+            else hi = mid;
+          }
+          return overlapping(box, order.slice(0, lo));
+        },
+      };
+    }
+  }
+}
+
+/** Distinct bodies in the grid cells `box` covers, plus oversized ones. */
+function hashCandidates(grid: HashGrid, box: AABB, count: number): Iterable<number> {
+  const { x0, y0, x1, y1 } = cellRange(box, grid.inv);
+  // A box wider than the occupied grid is cheaper to test body by body
+  if ((x1 - x0 + 1) * (y1 - y0 + 1) > grid.cells.size) {
+    return Array.from({ length: count }, (_, i) => i);
+  }
+
+  const found = new Set<number>(grid.oversized);
+  for (let cx = x0; cx <= x1; cx++) {
+    for (let cy = y0; cy <= y1; cy++) {
+      for (const i of grid.cells.get(cellKey(cx, cy)) ?? []) found.add(i);
+    }
+  }
+  return found;
+}
+
+// ---- Helpers ---------------------------------------------------------------
+
+function sortPairs(pairs: CandidatePair[]): CandidatePair[] {
+  return pairs.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+}
@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { needsCCD, rayVsCircle, rayVsSegment, sweepAgainstStatic, timeOfImpact } from './ccd.js';
+import type { WorldConfig } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STEP = 1 / 60;
+
+function zeroGravity(overrides: Partial<WorldConfig> = {}): WorldConfig {
+  return {
+    gravity: { x: 0, y: 0 },
+    substeps: 4,
+    velocityIterations: 4,
+    ...overrides,
+  };
+}
+
+/** A 2px-thick static wall centered at x = 200. */
+function thinWall() {
+  return createBody({
+    id: 'wall',
+    isStatic: true,
+    position: { x: 200, y: 100 },
+    shape: { type: 'rect', width: 2, height: 400 },
+  });
+}
+
+function ball(x: number, y: number, radius = 5) {
+  return createBody({ position: { x, y }, shape: { type: 'circle', radius } });
+}
+
+function box(x: number, y: number, size = 10) {
+  return createBody({ position: { x, y }, shape: { type: 'rect', width: size, height: size } });
+}
+
+function post(x: number, y: number, radius = 5) {
+  return createBody({ isStatic: true, position: { x, y }, shape: { type: 'circle', radius } });
+}
+
+const O = { x: 0, y: 0 };
+
+/**
+ * Fire a small ball at the thin wall and report where it ends up. At
+ * 6000 px/s each substep moves 25 px, and from x = 112 no substep ends
+ * touching the wall (187 → 212), so discrete detection never sees it.
+ */
+function fireAtWall(overrides: Parameters<typeof createBody>[0], config = zeroGravity()) {
+  const engine = new PhysicsEngine(config);
+  engine.addBody(thinWall());
+  engine.addBody(
+    createBody({
+      id: 'ball',
+      position: { x: 112, y: 100 },
+      velocity: { x: 6000, y: 0 },
+      shape: { type: 'circle', radius: 5 },
+      restitution: 0.5,
+      ...overrides,
+    }),
+  );
+
+  for (let i = 0; i < 10; i++) engine.update(STEP);
+  return engine.getBody('ball')!;
+}
+
+// ===========================================================================
+// PRIMITIVES
+// ===========================================================================
+
+describe('rayVsCircle', () => {
+  it('finds the entry time', () => {
+    expect(rayVsCircle(O, { x: 10, y: 0 }, { x: 8, y: 0 }, 3)).toBeCloseTo(0.5, 10);
+  });
+
+  it('returns null for a miss, a too-short ray or a start inside', () => {
+    expect(rayVsCircle(O, { x: 10, y: 0 }, { x: 5, y: 10 }, 3)).toBeNull();
+    expect(rayVsCircle(O, { x: 2, y: 0 }, { x: 8, y: 0 }, 3)).toBeNull();
+    expect(rayVsCircle({ x: 7, y: 0 }, { x: 10, y: 0 }, { x: 8, y: 0 }, 3)).toBeNull();
+  });
+
+  it('returns null when moving away', () => {
+    expect(rayVsCircle(O, { x: -10, y: 0 }, { x: 8, y: 0 }, 3)).toBeNull();
+  });
+});
+
+describe('rayVsSegment', () => {
+  it('finds the crossing time', () => {
+    const t = rayVsSegment(O, { x: 10, y: 0 }, { x: 4, y: -1 }, { x: 4, y: 1 });
+    expect(t).toBeCloseTo(0.4, 10);
+  });
+
+  it('returns null for parallel rays and misses', () => {
+    expect(rayVsSegment(O, { x: 10, y: 0 }, { x: 0, y: 1 }, { x: 10, y: 1 })).toBeNull();
+    expect(rayVsSegment(O, { x: 10, y: 0 }, { x: 4, y: 2 }, { x: 4, y: 5 })).toBeNull();
+  });
+});
+
+// ===========================================================================
+// TIME OF IMPACT
+// ===========================================================================
+
+describe('timeOfImpact', () => {
+  it('circle against a rect wall', () => {
+    // Ball r=5 travels x: 100 → 300; wall face at x = 199, contact at center x = 194
+    const moving = ball(300, 100);
+    const t = timeOfImpact(moving, { x: 200, y: 0 }, thinWall());
+    expect(t).toBeCloseTo(94 / 200, 10);
+  });
+
+  it('circle against a circle', () => {
+    const moving = ball(100, 0);
+    const target = post(50, 0);
+    // Start at x = 0, contact at x = 40
+    expect(timeOfImpact(moving, { x: 100, y: 0 }, target)).toBeCloseTo(0.4, 10);
+  });
+
+  it('circle hitting a rect corner', () => {
+    // Wall corner at (199, -100); ball grazes past it travelling diagonally
+    const moving = ball(260, -160);
+    const t = timeOfImpact(moving, { x: 120, y: -120 }, thinWall());
+    expect(t).not.toBeNull();
+    expect(t!).toBeGreaterThan(0);
+    expect(t!).toBeLessThan(0.5);
+  });
+
+  it('rect against a rect wall', () => {
+    const moving = box(300, 100);
+    // Start x = 100 (face at 105); wall face at 199 → t = 94 / 200
+    expect(timeOfImpact(moving, { x: 200, y: 0 }, thinWall())).toBeCloseTo(94 / 200, 10);
+  });
+
+  it('rotated rect against a rect wall', () => {
+    const moving = createBody({
+      position: { x: 300, y: 100 },
+      angle: Math.PI / 4,
+      shape: { type: 'rect', width: 10, height: 10 },
+    });
+    // Corner leads at 5√2 ahead of center
+    const t = timeOfImpact(moving, { x: 200, y: 0 }, thinWall());
+    expect(t).toBeCloseTo((199 - 5 * Math.SQRT2 - 100) / 200, 10);
+  });
+
+  it('rect against a static circle', () => {
+    const moving = box(100, 0);
+    const target = post(60, 0);
+    // Start at x = 0, face at 5; contact when face reaches 55
+    expect(timeOfImpact(moving, { x: 100, y: 0 }, target)).toBeCloseTo(0.5, 10);
+  });
+
+  it('returns null when the path misses', () => {
+    const moving = ball(300, 400);
+    expect(timeOfImpact(moving, { x: 200, y: 0 }, thinWall())).toBeNull();
+  });
+
+  it('returns null when already overlapping at the start', () => {
+    const moving = box(210, 100);
+    expect(timeOfImpact(moving, { x: 12, y: 0 }, thinWall())).toBeNull();
+  });
+
+  it('segments stop bodies from either side, chains only from the front', () => {
+    const top = { x: 200, y: -200 };
+    const bottom = { x: 200, y: 200 };
+    const segment = createBody({
+      isStatic: true,
+      shape: { type: 'segment', start: top, end: bottom },
+    });
+    // Bottom to top: the front faces left (−x)
+    const chain = createBody({
+      isStatic: true,
+      shape: { type: 'chain', vertices: [bottom, top] },
+    });
+
+    // Ball r=5 travels x: 100 → 300, touching x = 200 at center x = 195
+    expect(timeOfImpact(ball(300, 0), { x: 200, y: 0 }, segment)).toBeCloseTo(95 / 200, 10);
+    expect(timeOfImpact(ball(100, 0), { x: -200, y: 0 }, segment)).toBeCloseTo(95 / 200, 10);
+    expect(timeOfImpact(ball(300, 0), { x: 200, y: 0 }, chain)).toBeCloseTo(95 / 200, 10);
+    expect(timeOfImpact(ball(100, 0), { x: -200, y: 0 }, chain)).toBeNull();
+    expect(timeOfImpact(box(300, 0), { x: 200, y: 0 }, chain)).toBeCloseTo(95 / 200, 10);
+    expect(timeOfImpact(box(100, 0), { x: -200, y: 0 }, chain)).toBeNull();
+  });
+
+  it('capsule against a rect wall, leading with a cap', () => {
+    const moving = createBody({
+      position: { x: 300, y: 100 },
+      shape: { type: 'capsule', length: 20, radius: 5 },
+    });
+    // Start x = 100, front cap reaching 115; wall face at 199
+    expect(timeOfImpact(moving, { x: 200, y: 0 }, thinWall())).toBeCloseTo(84 / 200, 10);
+  });
+});
+
+describe('sweepAgainstStatic', () => {
+  it('moves the body just past the time of impact', () => {
+    const shot = createBody({
+      position: { x: 300, y: 100 },
+      previousPosition: { x: 100, y: 100 },
+      shape: { type: 'circle', radius: 5 },
+    });
+
+    const t = sweepAgainstStatic(shot, [thinWall(), shot]);
+
+    expect(t).toBeCloseTo(94 / 200, 10);
+    expect(shot.position.x).toBeGreaterThan(194);
+    expect(shot.position.x).toBeLessThan(194.1);
+  });
+
+  it('ignores sensors and filtered-out statics', () => {
+    const shot = createBody({
+      position: { x: 300, y: 100 },
+      previousPosition: { x: 100, y: 100 },
+      shape: { type: 'circle', radius: 5 },
+      collisionFilter: { categoryBits: 1, maskBits: 0xffff & ~0x2, groupIndex: 0 },
+    });
+    const sensor = createBody({ ...thinWall(), id: 'zone', isSensor: true });
+    const filtered = createBody({
+      ...thinWall(),
+      id: 'glass',
+      collisionFilter: { categoryBits: 0x2, maskBits: 0xffff, groupIndex: 0 },
+    });
+
+    expect(sweepAgainstStatic(shot, [sensor, filtered])).toBeNull();
+    expect(shot.position.x).toBe(300);
+  });
+
+  it('skips slow motion that the discrete pass cannot miss', () => {
+    const shot = createBody({
+      position: { x: 197, y: 100 },
+      previousPosition: { x: 193, y: 100 },
+      shape: { type: 'circle', radius: 5 },
+    });
+    expect(sweepAgainstStatic(shot, [thinWall()])).toBeNull();
+  });
+});
+
+describe('needsCCD', () => {
+  it('is on for bullets and bodies above the threshold only', () => {
+    expect(needsCCD(createBody({ bullet: true }))).toBe(true);
+    expect(needsCCD(createBody({ velocity: { x: 500, y: 0 } }))).toBe(false);
+    expect(needsCCD(createBody({ velocity: { x: 500, y: 0 } }), 400)).toBe(true);
+    expect(needsCCD(createBody({ velocity: { x: 300, y: 0 } }), 400)).toBe(false);
+  });
+
+  it('is off for static, sensor and sleeping bodies', () => {
+    expect(needsCCD(createBody({ bullet: true, isStatic: true }))).toBe(false);
+    expect(needsCCD(createBody({ bullet: true, isSensor: true }))).toBe(false);
+    expect(needsCCD(createBody({ bullet: true, isSleeping: true }))).toBe(false);
+  });
+});
+
+// ===========================================================================
+// WORLD
+// ===========================================================================
+
+describe('CCD in the world step', () => {
+  it('without CCD a fast ball tunnels through a thin wall', () => {
+    expect(fireAtWall({}).position.x).toBeGreaterThan(200);
+  });
+
+  it('a bullet bounces off a thin wall', () => {
+    const shot = fireAtWall({ bullet: true });
+    expect(shot.position.x).toBeLessThan(200);
+    expect(shot.velocity.x).toBeLessThan(0);
+  });
+
+  it('the world speed threshold enables CCD for fast bodies', () => {
+    const shot = fireAtWall({}, zeroGravity({ ccdSpeedThreshold: 1000 }));
+    expect(shot.position.x).toBeLessThan(200);
+  });
+
+  it('a fast rect bullet does not tunnel either', () => {
+    const box = fireAtWall({ bullet: true, shape: { type: 'rect', width: 8, height: 8 } });
+    expect(box.position.x).toBeLessThan(200);
+  });
+
+  it('a resting bullet can still slide along the floor', () => {
+    const engine = new PhysicsEngine(zeroGravity({ gravity: { x: 0, y: 980 } }));
+    engine.addBody(
+      createBody({
+        id: 'floor',
+        isStatic: true,
+        position: { x: 500, y: 210 },
+        shape: { type: 'rect', width: 1000, height: 20 },
+      }),
+    );
+    engine.addBody(
+      createBody({
+        id: 'puck',
+        bullet: true,
+        position: { x: 100, y: 190 },
+        velocity: { x: 200, y: 0 },
+        shape: { type: 'rect', width: 20, height: 20 },
+        friction: 0,
+      }),
+    );
+
+    for (let i = 0; i < 30; i++) engine.update(STEP);
+
+    expect(engine.getBody('puck')!.position.x).toBeGreaterThan(180);
+  });
+});
@@ -0,0 +1,404 @@
+import type { PhysicsBody, Vec2 } from '@mcp-tool-shop/siege-types';
+import * as V from './vec2.js';
+import { shouldCollide } from './collision.js';
+import { isDynamic } from './body.js';
+import {
+  computeAABB,
+  aabbOverlap,
+  getWorldVertices,
+  getEdgeNormals,
+  vertexCenter,
+  shapeParts,
+  getWorldCapsule,
+} from './shapes.js';
+import type { AABB } from './shapes.js';
+
+// ---------------------------------------------------------------------------
+// Continuous Collision Detection
+// ---------------------------------------------------------------------------
+// Discrete overlap tests miss a body that moves further than its own size in
+// one substep. For opted-in bodies we sweep the shape along the substep's
+// motion (previousPosition → position) against static geometry, find the
+// earliest time of impact, and pull the body back to that point. The regular
+// detect/resolve pass then sees a shallow overlap and bounces it normally.
+//
+// Motion is treated as pure translation at the end-of-substep angle. Bodies
+// moving less than half their own thickness per substep are skipped: the
+// discrete pass cannot miss them, and sweeping resting contacts would
+// pull sliding bodies back every substep.
+// ---------------------------------------------------------------------------
+
+/** How far past the time of impact a body is placed, so detection sees it. */
+const CCD_SKIN = 0.01;
+
+/**
+ * Whether a body needs CCD this substep: dynamic, solid and awake, and
+ * either flagged `bullet` or faster than `speedThreshold` (px/s).
+ */
+export function needsCCD(body: PhysicsBody, speedThreshold?: number): boolean {
+  if (!isDynamic(body) || body.isSensor || body.isSleeping) return false;
+  if (body.bullet) return true;
+  return (
+    speedThreshold !== undefined &&
+    V.lengthSq(body.velocity) > speedThreshold * speedThreshold
+  );
+}
+
+/**
+ * Sweep `body` from `previousPosition` to `position` against every static,
+ * solid body it may collide with. On a hit, move it to just past the
+ * earliest time of impact.
+ *
+ * @returns The time of impact as a fraction of the motion, or null.
+ */
+export function sweepAgainstStatic(
+  body: PhysicsBody,
+  bodies: Iterable<PhysicsBody>,
+): number | null {
+  const motion = V.sub(body.position, body.previousPosition);
+  const distance = V.length(motion);
+  if (distance < halfThickness(body)) return null;
+
+  const swept = sweptAABB(body, motion);
+  let earliest = Infinity;
+
+  for (const other of bodies) {
+    if (!other.isStatic || other.isSensor || other === body) continue;
+    if (!shouldCollide(body.collisionFilter, other.collisionFilter)) continue;
+    if (!aabbOverlap(swept, computeAABB(other))) continue;
+
+    const t = timeOfImpact(body, motion, other);
+    if (t !== null && t < earliest) earliest = t;
+  }
+
+  if (earliest === Infinity) return null;
+
+  const t = Math.min(earliest + CCD_SKIN / distance, 1);
+  body.position.x = body.previousPosition.x + motion.x * t;
+  body.position.y = body.previousPosition.y + motion.y * t;
+  return earliest;
+}
+
+/**
+ * Time of impact in [0, 1] for `body` translating by `motion` (ending at its
+ * current position) against a static `target`, or null if they don't meet.
+ * Bodies already overlapping at the start are left to the discrete pass.
+ * Compound bodies and capsules take the earliest impact of any of their
+ * pieces (see {@link sweepParts}). Chain edges only stop bodies coming at
+ * them from the front.
+ */
+export function timeOfImpact(
+  body: PhysicsBody,
+  motion: Vec2,
+  target: PhysicsBody,
+): number | null {
+  const pieces = sweepParts(body);
+  const targets = sweepParts(target);
+  if (pieces[0] !== body || targets[0] !== target) {
+    let earliest: number | null = null;
+    for (const piece of pieces) {
+      for (const other of targets) {
+        const t = timeOfImpact(piece, motion, other);
+        if (t !== null && (earliest === null || t < earliest)) earliest = t;
+      }
+    }
+    return earliest;
+  }
+
+  const start = V.sub(body.position, motion);
+  const edges = targetEdges(target);
+
+  if (body.shape.type === 'circle') {
+    const r = body.shape.radius;
+    if (edges) return sweepCircleVsEdges(start, motion, r, edges);
+    if (target.shape.type === 'circle') {
+      return rayVsCircle(start, motion, target.position, r + target.shape.radius);
+    }
+    return sweepCircleVsPolygon(start, motion, r, getWorldVertices(target));
+  }
+
+  // Moving polygon/rect, placed at the start of the motion
+  const moving = getWorldVertices(body).map((v) => V.sub(v, motion));
+
+  if (edges) {
+    const center = vertexCenter(moving);
+    let earliest: number | null = null;
+    for (const { a, b, sides } of edges) {
+      if (!sides.some((n) => V.dot(V.sub(center, a), n) >= 0)) continue;
+      if (polygonsOverlap(moving, [a, b])) continue;
+      const t = sweepPolygonVsPolygon(moving, motion, [a, b]);
+      if (t !== null && (earliest === null || t < earliest)) earliest = t;
+    }
+    return earliest;
+  }
+
+  if (target.shape.type === 'circle') {
+    // Equivalent to the circle moving the opposite way
+    return sweepCircleVsPolygon(
+      target.position,
+      V.negate(motion),
+      target.shape.radius,
+      moving,
+    );
+  }
+
+  const fixed = getWorldVertices(target);
+  return polygonsOverlap(moving, fixed) ? null : sweepPolygonVsPolygon(moving, motion, fixed);
+}
+
+/**
+ * The pieces a body is swept as: a compound's parts, a capsule's two end
+ * circles and the rect between them, or just the body itself.
+ */
+function sweepParts(body: PhysicsBody): PhysicsBody[] {
+  const { shape } = body;
+  if (shape.type === 'compound') return shapeParts(body);
+  if (shape.type !== 'capsule') return [body];
+
+  const { start, end } = getWorldCapsule(body)!;
+  const cap = { type: 'circle', radius: shape.radius } as const;
+  const pieces: PhysicsBody[] = [
+    { ...body, position: start, shape: cap },
+    { ...body, position: end, shape: cap },
+  ];
+  if (shape.length > 0) {
+    const middle = { type: 'rect', width: shape.length, height: 2 * shape.radius } as const;
+    pieces.push({ ...body, shape: middle });
+  }
+  return pieces;
+}
+
+/** One edge of a segment or chain, with the normals of the sides it blocks. */
+interface Edge {
+  a: Vec2;
+  b: Vec2;
+  sides: Vec2[];
+}
+
+/**
+ * The edges of a segment or chain target, or null for any other shape.
+ * Segments block from both sides, chain edges only from the front.
+ */
+function targetEdges(target: PhysicsBody): Edge[] | null {
+  const { shape } = target;
+  if (shape.type !== 'segment' && shape.type !== 'chain') return null;
+
+  const verts = getWorldVertices(target);
+  const count = shape.type === 'chain' && shape.loop ? verts.length : verts.length - 1;
+  const edges: Edge[] = [];
+  for (let i = 0; i < count; i++) {
+    const a = verts[i]!;
+    const b = verts[(i + 1) % verts.length]!;
+    if (V.distanceSq(a, b) < 1e-18) continue;
+    const normal = V.normalize(V.perpR(V.sub(b, a)));
+    edges.push({ a, b, sides: shape.type === 'chain' ? [normal] : [normal, V.negate(normal)] });
+  }
+  return edges;
+}
+
+// ---------------------------------------------------------------------------
+// Sweep Primitives
+// ---------------------------------------------------------------------------
+
+/**
+ * Earliest t in [0, 1] where `origin + dir·t` is at `radius` from `center`,
+ * or null. Returns null if the origin already starts inside the circle.
+ */
+export function rayVsCircle(
+  origin: Vec2,
+  dir: Vec2,
+  center: Vec2,
+  radius: number,
+): number | null {
+  const m = V.sub(origin, center);
+  const c = V.dot(m, m) - radius * radius;
+  if (c <= 0) return null; // starts inside
+
+  const a = V.dot(dir, dir);
+  const b = V.dot(m, dir);
+  if (b >= 0 || a < 1e-12) return null; // moving away or not moving
+
+  const disc = b * b - a * c;
+  if (disc < 0) return null;
+
+  const t = (-b - Math.sqrt(disc)) / a;
+  return t >= 0 && t <= 1 ? t : null;
+}
+
+/**
+ * Earliest t in [0, 1] where `origin + dir·t` crosses segment a→b, or null.
+ */
+export function rayVsSegment(origin: Vec2, dir: Vec2, a: Vec2, b: Vec2): number | null {
+  const edge = V.sub(b, a);
+  const denom = V.cross(dir, edge);
+  if (Math.abs(denom) < 1e-12) return null; // parallel
+
+  const diff = V.sub(a, origin);
+  const t = V.cross(diff, edge) / denom;
+  const u = V.cross(diff, dir) / denom;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+/**
+ * Circle of radius `r` moving from `start` by `motion` against a convex,
+ * positive-area polygon: a ray cast against the polygon inflated by `r`
+ * (edges pushed out along their normals plus rounded corners).
+ */
+function sweepCircleVsPolygon(
+  start: Vec2,
+  motion: Vec2,
+  r: number,
+  verts: Vec2[],
+): number | null {
+  const normals = getEdgeNormals(verts);
+
+  // Already touching at the start — leave it to the discrete pass
+  let separation = -Infinity;
+  for (let i = 0; i < verts.length; i++) {
+    separation = Math.max(separation, V.dot(V.sub(start, verts[i]!), normals[i]!));
+  }
+  if (separation < r) return null;
+
+  let best: number | null = null;
+  for (let i = 0; i < verts.length; i++) {
+    const a = verts[i]!;
+    const b = verts[(i + 1) % verts.length]!;
+    const n = normals[i]!;
+
+    // Only edges the circle approaches from outside can be hit first
+    if (V.dot(motion, n) < 0 && V.dot(V.sub(start, a), n) >= r) {
+      const offset = V.scale(n, r);
+      const t = rayVsSegment(start, motion, V.add(a, offset), V.add(b, offset));
+      if (t !== null && (best === null || t < best)) best = t;
+    }
+
+    const t = rayVsCircle(start, motion, a, r);
+    if (t !== null && (best === null || t < best)) best = t;
+  }
+
+  return best;
+}
+
+/**
+ * Circle of radius `r` moving from `start` by `motion` against loose edges:
+ * each edge pushed out by `r` on the sides it blocks, plus its rounded ends.
+ * Edges the circle starts behind are skipped entirely.
+ */
+function sweepCircleVsEdges(
+  start: Vec2,
+  motion: Vec2,
+  r: number,
+  edges: Edge[],
+): number | null {
+  let best: number | null = null;
+  const keep = (t: number | null) => {
+    if (t !== null && (best === null || t < best)) best = t;
+  };
+
+  for (const { a, b, sides } of edges) {
+    let facing = false;
+    for (const n of sides) {
+      const gap = V.dot(V.sub(start, a), n);
+      if (gap < 0) continue;
+      facing = true;
+      if (V.dot(motion, n) < 0 && gap >= r) {
+        const offset = V.scale(n, r);
+        keep(rayVsSegment(start, motion, V.add(a, offset), V.add(b, offset)));
+      }
+    }
+    if (!facing) continue;
+    keep(rayVsCircle(start, motion, a, r));
+    keep(rayVsCircle(start, motion, b, r));
+  }
+
+  return best;
+}
+
+/**
+ * Convex polygon `moving` translating by `motion` against static convex
+ * polygon `target` (a segment works as a two-vertex polygon). First contact
+ * is always a vertex of one polygon hitting an edge of the other, so cast
+ * every vertex against the opposite edges.
+ */
+function sweepPolygonVsPolygon(moving: Vec2[], motion: Vec2, target: Vec2[]): number | null {
+  let best: number | null = null;
+  const back = V.negate(motion);
+
+  const castAll = (points: Vec2[], dir: Vec2, edges: Vec2[]) => {
+    for (const p of points) {
+      for (let i = 0; i < edges.length; i++) {
+        const t = rayVsSegment(p, dir, edges[i]!, edges[(i + 1) % edges.length]!);
+        if (t !== null && (best === null || t < best)) best = t;
+      }
+    }
+  };
+
+  castAll(moving, motion, target);
+  castAll(target, back, moving);
+  return best;
+}
+
+/** SAT overlap test for two convex polygons (either may be a segment). */
+function polygonsOverlap(a: Vec2[], b: Vec2[]): boolean {
+  for (const axis of [...getEdgeNormals(a), ...getEdgeNormals(b)]) {
+    let minA = Infinity;
+    let maxA = -Infinity;
+    for (const v of a) {
+      const p = V.dot(v, axis);
+      minA = Math.min(minA, p);
+      maxA = Math.max(maxA, p);
+    }
+    let minB = Infinity;
+    let maxB = -Infinity;
+    for (const v of b) {
+      const p = V.dot(v, axis);
+      minB = Math.min(minB, p);
+      maxB = Math.max(maxB, p);
+    }
+    if (maxA <= minB || maxB <= minA) return false;
+  }
+  return true;
+}
+
+/** Half the smallest dimension of a body's shape (or its thinnest part). */
+function halfThickness(body: PhysicsBody): number {
+  const { shape } = body;
+  switch (shape.type) {
+    case 'compound':
+      return Math.min(...shapeParts(body).map(halfThickness));
+    case 'circle':
+    case 'capsule':
+      return shape.radius;
+    case 'segment':
+    case 'chain':
+      return 0;
+    case 'rect':
+      return Math.min(shape.width, shape.height) / 2;
+    case 'polygon': {
+      // Distance from the vertex center to the nearest edge
+      const verts = shape.vertices;
+      const center = vertexCenter(verts);
+      const normals = getEdgeNormals(verts);
+      let min = Infinity;
+      for (let i = 0; i < verts.length; i++) {
+        min = Math.min(min, V.dot(V.sub(verts[i]!, center), normals[i]!));
+      }
+      return min;
+    }
+  }
+}
+
+/** AABB covering a body over its whole substep motion. */
+function sweptAABB(body: PhysicsBody, motion: Vec2): AABB {
+  const end = computeAABB(body);
+  return {
+    min: {
+      x: Math.min(end.min.x, end.min.x - motion.x),
+      y: Math.min(end.min.y, end.min.y - motion.y),
+    },
+    max: {
+      x: Math.max(end.max.x, end.max.x - motion.x),
+      y: Math.max(end.max.y, end.max.y - motion.y),
+    },
+  };
+}
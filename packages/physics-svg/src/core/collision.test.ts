@@ -40,6 +40,33 @@ function rect(
   });
 }
 
+/** Create a polygon body at the given position with local-space vertices. */
+function polygon(
+  id: string,
+  x: number,
+  y: number,
+  vertices: { x: number; y: number }[],
+  overrides: Parameters<typeof createBody>[0] = {},
+) {
+  return createBody({
+    id,
+    position: { x, y },
+    shape: { type: 'polygon', vertices },
+    ...overrides,
+  });
+}
+
+/** Axis-aligned square polygon centered on the origin. */
+function squareVerts(size: number) {
+  const h = size / 2;
+  return [
+    { x: -h, y: -h },
+    { x: h, y: -h },
+    { x: h, y: h },
+    { x: -h, y: h },
+  ];
+}
+
 // ===========================================================================
 // DETECTION
 // ===========================================================================
@@ -100,7 +127,7 @@ describe('detectCollisions', () => {
       // Circle at (0,0) r=10, Rect at (12,0) 10x10
       // circleVsRect: dx = 0-12 = -12, closestX = clamp(-12,-5,5) = -5
       // diffX = -12-(-5) = -7, diffY = 0, dist = 7
-      // normal = (-1, 0) → from rect surface toward circle center
+      // normal = (1, 0) → from circle toward rect (A → B)
       // penetration = 10 - 7 = 3
       const c = circle('C', 0, 0, 10);
       const r = rect('R', 12, 0, 10, 10);
@@ -110,10 +137,12 @@ describe('detectCollisions', () => {
       const p = pairs[0]!;
       expect(p.bodyA).toBe('C');
       expect(p.bodyB).toBe('R');
-      // Normal points from rect surface toward circle center → (-1, 0)
-      expect(p.normal.x).toBeCloseTo(-1, 5);
+      // Normal points from circle toward rect → (1, 0)
+      expect(p.normal.x).toBeCloseTo(1, 5);
       expect(p.normal.y).toBeCloseTo(0, 5);
       expect(p.penetration).toBeCloseTo(3, 5);
+      // Contact is the closest point on the rect surface
+      expect(p.contact).toEqual({ x: 7, y: 0 });
     });
 
     it('returns correct normal when circle center is inside rect', () => {
@@ -138,17 +167,7 @@ describe('detectCollisions', () => {
 
     it('handles rect as bodyA and circle as bodyB (swapped order)', () => {
       // When rect appears first in the array, testPair calls circleVsRect(circle, rect)
-      // then negates the normal for the swapped result.
-      // circleVsRect: dx = 12-0 = 12, closestX = clamp(12,-5,5) = 5
-      // diffX = 12-5 = 7, dist = 7, normal_circ = (1, 0)
-      // After swap: bodyA=R, bodyB=C, normal = negate((1,0)) = (-1, 0)
-      // But that's "from R toward... nowhere". The convention for the returned pair is
-      // normal points from A to B, so negation gives us the correct A→B direction.
-      // Actually: circleVsRect returns normal pointing from rect toward circle = (1, 0).
-      // Swapped result negates → (-1, 0). But bodyA=R, bodyB=C, so normal should
-      // point from R to C. R is at 0, C is at 12, so A→B is (1, 0).
-      // The code negates the circleVsRect normal, so we get (-1, 0).
-      // This is just how the swap logic works.
+      // and flips the result so the normal still points from A (R) to B (C).
       const r = rect('R', 0, 0, 10, 10);
       const c = circle('C', 12, 0, 10);
       const pairs = detectCollisions([r, c]);
@@ -157,8 +176,8 @@ describe('detectCollisions', () => {
       const p = pairs[0]!;
       expect(p.bodyA).toBe('R');
       expect(p.bodyB).toBe('C');
-      // The swap negates the circleVsRect normal (1,0) → (-1, 0)
-      expect(p.normal.x).toBeCloseTo(-1, 5);
+      // R is at 0, C is at 12, so A→B is (1, 0)
+      expect(p.normal.x).toBeCloseTo(1, 5);
       expect(p.normal.y).toBeCloseTo(0, 5);
     });
   });
@@ -204,6 +223,239 @@ describe('detectCollisions', () => {
     });
   });
 
+  // ---- Polygon (SAT) ------------------------------------------------------
+
+  describe('polygon vs polygon', () => {
+    it('returns a collision pair for two overlapping squares', () => {
+      // A at (0,0) 20x20, B at (15,0) 20x20 → overlap on X = 5
+      const a = polygon('A', 0, 0, squareVerts(20));
+      const b = polygon('B', 15, 0, squareVerts(20));
+      const pairs = detectCollisions([a, b]);
+
+      expect(pairs).toHaveLength(1);
+      const p = pairs[0]!;
+      expect(p.bodyA).toBe('A');
+      expect(p.bodyB).toBe('B');
+      expect(p.normal.x).toBeCloseTo(1, 5);
+      expect(p.normal.y).toBeCloseTo(0, 5);
+      expect(p.penetration).toBeCloseTo(5, 5);
+    });
+
+    it('returns empty when a diagonal edge separates two triangles', () => {
+      // Two right triangles sharing the hypotenuse line x + y = 10, offset apart
+      const a = polygon('A', 0, 0, [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 0, y: 10 },
+      ]);
+      const b = polygon('B', 1, 1, [
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ]);
+      // AABBs overlap, but the hypotenuse normal is a separating axis
+      expect(detectCollisions([a, b])).toHaveLength(0);
+    });
+
+    it('uses the diagonal axis when it has the least overlap', () => {
+      const a = polygon('A', 0, 0, [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 0, y: 10 },
+      ]);
+      const b = polygon('B', -1, -1, [
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ]);
+      const pairs = detectCollisions([a, b]);
+
+      expect(pairs).toHaveLength(1);
+      const p = pairs[0]!;
+      // Normal along (1,1)/√2, pointing from A toward B
+      expect(p.normal.x).toBeCloseTo(Math.SQRT1_2, 5);
+      expect(p.normal.y).toBeCloseTo(Math.SQRT1_2, 5);
+      // Hypotenuses are 2/√2 = √2 apart along the normal
+      expect(p.penetration).toBeCloseTo(Math.SQRT2, 5);
+    });
+  });
+
+  describe('polygon vs rect', () => {
+    it('collides a polygon with a rect in either order', () => {
+      const poly = polygon('P', 0, 0, squareVerts(20));
+      const r = rect('R', 0, 16, 20, 20);
+
+      const [p1] = detectCollisions([poly, r]);
+      expect(p1).toBeDefined();
+      expect(p1!.bodyA).toBe('P');
+      expect(p1!.normal.y).toBeCloseTo(1, 5); // R is below P
+      expect(p1!.penetration).toBeCloseTo(4, 5);
+
+      const [p2] = detectCollisions([r, poly]);
+      expect(p2).toBeDefined();
+      expect(p2!.bodyA).toBe('R');
+      expect(p2!.normal.y).toBeCloseTo(-1, 5); // P is above R
+      expect(p2!.penetration).toBeCloseTo(4, 5);
+    });
+
+    it('returns empty for separated polygon and rect', () => {
+      const poly = polygon('P', 0, 0, squareVerts(20));
+      const r = rect('R', 100, 0, 20, 20);
+      expect(detectCollisions([poly, r])).toHaveLength(0);
+    });
+  });
+
+  describe('polygon vs circle', () => {
+    it('detects a circle touching a polygon face', () => {
+      // Square 20x20 at origin, circle r=5 at (13,0) → penetration 2
+      const poly = polygon('P', 0, 0, squareVerts(20));
+      const c = circle('C', 13, 0, 5);
+      const pairs = detectCollisions([poly, c]);
+
+      expect(pairs).toHaveLength(1);
+      const p = pairs[0]!;
+      expect(p.bodyA).toBe('P');
+      expect(p.bodyB).toBe('C');
+      expect(p.normal.x).toBeCloseTo(1, 5);
+      expect(p.normal.y).toBeCloseTo(0, 5);
+      expect(p.penetration).toBeCloseTo(2, 5);
+    });
+
+    it('uses the vertex axis near a corner', () => {
+      // Corner of the square at (10,10); circle center 3 units along the diagonal
+      const d = 3 / Math.SQRT2;
+      const poly = polygon('P', 0, 0, squareVerts(20));
+      const c = circle('C', 10 + d, 10 + d, 5);
+      const pairs = detectCollisions([c, poly]);
+
+      expect(pairs).toHaveLength(1);
+      const p = pairs[0]!;
+      expect(p.bodyA).toBe('C');
+      // Normal points from circle toward polygon (down-left diagonal)
+      expect(p.normal.x).toBeCloseTo(-Math.SQRT1_2, 5);
+      expect(p.normal.y).toBeCloseTo(-Math.SQRT1_2, 5);
+      expect(p.penetration).toBeCloseTo(2, 5);
+    });
+
+    it('returns empty when the circle sits just outside a corner', () => {
+      // Within the AABB-expanded region but outside the rounded corner
+      const d = 6 / Math.SQRT2;
+      const poly = polygon('P', 0, 0, squareVerts(20));
+      const c = circle('C', 10 + d, 10 + d, 5);
+      expect(detectCollisions([poly, c])).toHaveLength(0);
+    });
+  });
+
+  // ---- Rotated shapes -----------------------------------------------------
+
+  describe('rotated rects', () => {
+    it('a rect rotated 45° reaches further along the diagonal than its AABB', () => {
+      // 20x20 rect rotated 45° has its corner at distance 10√2 ≈ 14.14 on the x-axis.
+      // Circle r=5 at x=18 → gap 18 - 14.14 = 3.86 < 5 → overlap ≈ 1.14
+      const r = rect('R', 0, 0, 20, 20, { angle: Math.PI / 4 });
+      const c = circle('C', 18, 0, 5);
+      const pairs = detectCollisions([r, c]);
+
+      expect(pairs).toHaveLength(1);
+      const p = pairs[0]!;
+      expect(p.normal.x).toBeCloseTo(1, 5);
+      expect(p.penetration).toBeCloseTo(5 - (18 - 10 * Math.SQRT2), 5);
+    });
+
+    it('the same circle misses an unrotated rect', () => {
+      const r = rect('R', 0, 0, 20, 20);
+      const c = circle('C', 18, 0, 5);
+      expect(detectCollisions([r, c])).toHaveLength(0);
+    });
+
+    it('rotated rect vs rect goes through SAT', () => {
+      // Diamond corner pokes 10√2 - 10 ≈ 4.14 beyond the AABB face at x = 10
+      const a = rect('A', 0, 0, 20, 20, { angle: Math.PI / 4 });
+      const b = rect('B', 22, 0, 20, 20);
+      const pairs = detectCollisions([a, b]);
+
+      expect(pairs).toHaveLength(1);
+      const p = pairs[0]!;
+      expect(p.normal.x).toBeCloseTo(1, 5);
+      expect(p.penetration).toBeCloseTo(10 * Math.SQRT2 - 12, 5);
+      // Contact at the diamond tip, which is inside B
+      expect(p.contact!.x).toBeCloseTo(10 * Math.SQRT2, 5);
+      expect(p.contact!.y).toBeCloseTo(0, 5);
+    });
+  });
+
+  // ---- Contact manifolds --------------------------------------------------
+
+  describe('contact manifolds', () => {
+    /** Rotate a frame-local point by `angle` into world space. */
+    const inFrame = (x: number, y: number, angle: number) => ({
+      x: x * Math.cos(angle) - y * Math.sin(angle),
+      y: x * Math.sin(angle) + y * Math.cos(angle),
+    });
+
+    it('axis-aligned rects report both ends of the overlap face', () => {
+      // A spans y -10..10, B spans y 5..25 and x -4..16
+      const a = rect('A', 0, 0, 20, 20);
+      const b = rect('B', 6, 15, 20, 20);
+      const p = detectCollisions([a, b])[0]!;
+
+      expect(p.points).toEqual([
+        { point: { x: -4, y: 7.5 }, penetration: 5, feature: 'y0' },
+        { point: { x: 10, y: 7.5 }, penetration: 5, feature: 'y1' },
+      ]);
+      expect(p.contact).toEqual({ x: 3, y: 7.5 });
+    });
+
+    it('clips rotated faces to a two-point manifold', () => {
+      // Both squares turned by θ; in that frame B sits 18 below and 5 right
+      // of A, so B's top face (y = 8) lies 2 inside A's bottom face (y = 10)
+      const angle = 0.3;
+      const offset = inFrame(5, 18, angle);
+      const a = rect('A', 0, 0, 20, 20, { angle });
+      const b = rect('B', offset.x, offset.y, 20, 20, { angle });
+      const p = detectCollisions([a, b])[0]!;
+
+      expect(p.penetration).toBeCloseTo(2, 10);
+      expect(p.points).toHaveLength(2);
+
+      // B's face from x = -5 to 15, clipped to A's side at x = 10
+      const expected = [inFrame(-5, 8, angle), inFrame(10, 8, angle)];
+      const points = p.points!.map((c) => c.point).sort((u, v) => u.x - v.x);
+      for (let i = 0; i < 2; i++) {
+        expect(points[i]!.x).toBeCloseTo(expected[i]!.x, 10);
+        expect(points[i]!.y).toBeCloseTo(expected[i]!.y, 10);
+        expect(p.points![i]!.penetration).toBeCloseTo(2, 10);
+      }
+    });
+
+    it('keeps feature ids while a contact slides', () => {
+      const angle = 0.3;
+      const features = (slide: number) => {
+        const offset = inFrame(slide, 18, angle);
+        const a = rect('A', 0, 0, 20, 20, { angle });
+        const b = rect('B', offset.x, offset.y, 20, 20, { angle });
+        return detectCollisions([a, b])[0]!.points!.map((c) => c.feature);
+      };
+
+      expect(features(6)).toEqual(features(5));
+      expect(features(-6)).not.toEqual(features(5)); // clipped on the other side
+    });
+
+    it('a corner poking into a face gives a single point', () => {
+      const a = rect('A', 0, 0, 20, 20, { angle: Math.PI / 4 });
+      const b = rect('B', 22, 0, 20, 20);
+      const p = detectCollisions([a, b])[0]!;
+
+      expect(p.points).toHaveLength(1);
+      expect(p.points![0]!.penetration).toBeCloseTo(p.penetration, 10);
+    });
+
+    it('circle contacts carry no manifold', () => {
+      const pairs = detectCollisions([circle('C', 0, 0, 10), rect('R', 12, 0, 10, 10)]);
+      expect(pairs[0]!.points).toBeUndefined();
+    });
+  });
+
   // ---- Filtering / Edge cases ---------------------------------------------
 
   describe('filtering and edge cases', () => {
@@ -249,6 +501,259 @@ describe('detectCollisions', () => {
       expect(detectCollisions([a])).toHaveLength(0);
     });
   });
+
+  // ---- Collision filters --------------------------------------------------
+
+  describe('collision filters', () => {
+    const PIECE = 0x0002;
+    const PARTICLE = 0x0004;
+
+    const filter = (categoryBits: number, maskBits: number, groupIndex = 0) => ({
+      collisionFilter: { categoryBits, maskBits, groupIndex },
+    });
+
+    it('skips pairs whose category is not in the other mask', () => {
+      const piece = circle('P', 0, 0, 10, filter(PIECE, 0xffff & ~PARTICLE));
+      const spark = circle('S', 5, 0, 10, filter(PARTICLE, 0xffff));
+      expect(detectCollisions([piece, spark])).toHaveLength(0);
+    });
+
+    it('requires both masks to accept the other category', () => {
+      const a = circle('A', 0, 0, 10, filter(PIECE, PARTICLE));
+      const b = circle('B', 5, 0, 10, filter(PARTICLE, PARTICLE));
+      expect(detectCollisions([a, b])).toHaveLength(0);
+
+      b.collisionFilter.maskBits = PIECE;
+      expect(detectCollisions([a, b])).toHaveLength(1);
+    });
+
+    it('never collides bodies sharing a negative group, even if masks match', () => {
+      const a = circle('A', 0, 0, 10, filter(1, 0xffff, -1));
+      const b = circle('B', 5, 0, 10, filter(1, 0xffff, -1));
+      expect(detectCollisions([a, b])).toHaveLength(0);
+    });
+
+    it('always collides bodies sharing a positive group, even if masks exclude', () => {
+      const a = circle('A', 0, 0, 10, filter(1, 0, 3));
+      const b = circle('B', 5, 0, 10, filter(1, 0, 3));
+      expect(detectCollisions([a, b])).toHaveLength(1);
+    });
+
+    it('falls back to masks when groups differ', () => {
+      const a = circle('A', 0, 0, 10, filter(1, 0xffff, -1));
+      const b = circle('B', 5, 0, 10, filter(1, 0xffff, -2));
+      expect(detectCollisions([a, b])).toHaveLength(1);
+    });
+
+    it('applies with accelerated broad phases too', () => {
+      const a = circle('A', 0, 0, 10, filter(1, 0xffff, -1));
+      const b = circle('B', 5, 0, 10, filter(1, 0xffff, -1));
+      expect(detectCollisions([a, b], 'spatial-hash')).toHaveLength(0);
+      expect(detectCollisions([a, b], 'sap')).toHaveLength(0);
+    });
+  });
+});
+
+describe('detectCollisions — compound bodies', () => {
+  /** Two 10-radius balls 60 apart, joined into one body at (x, y). */
+  function dumbbell(id: string, x: number, y: number) {
+    return createBody({
+      id,
+      position: { x, y },
+      shape: {
+        type: 'compound',
+        parts: [
+          { shape: { type: 'circle', radius: 10 }, offset: { x: -30, y: 0 } },
+          { shape: { type: 'circle', radius: 10 }, offset: { x: 30, y: 0 } },
+        ],
+      },
+    });
+  }
+
+  it('tests each part, so the gap between parts is empty', () => {
+    const bell = dumbbell('bell', 0, 0);
+
+    expect(detectCollisions([bell, circle('end', 30, 15, 8)])).toHaveLength(1);
+    expect(detectCollisions([bell, circle('gap', 0, 5, 8)])).toEqual([]);
+  });
+
+  it('reports the pair under the bodies\' ids, normal from A to B', () => {
+    const [pair] = detectCollisions([dumbbell('bell', 0, 0), circle('end', -30, 15, 8)]);
+
+    expect(pair!.bodyA).toBe('bell');
+    expect(pair!.bodyB).toBe('end');
+    expect(pair!.normal.y).toBeCloseTo(1, 10);
+    expect(pair!.penetration).toBeCloseTo(3, 10);
+  });
+
+  it('merges parts touching along the same normal into one manifold', () => {
+    const floor = rect('floor', 0, 20, 200, 20, { isStatic: true });
+    const [pair] = detectCollisions([dumbbell('bell', 0, 1), floor]);
+
+    expect(pair!.points!.map((p) => p.feature)).toEqual(['0.0:', '1.0:']);
+    expect(pair!.points!.map((p) => p.point.x)).toEqual([
+      expect.closeTo(-30, 8),
+      expect.closeTo(30, 8),
+    ]);
+    expect(pair!.contact!.x).toBeCloseTo(0, 8);
+  });
+
+  it('keeps only contacts facing the deepest one', () => {
+    // A post against the right ball's side and a block under the left ball
+    const wall = createBody({
+      id: 'wall',
+      isStatic: true,
+      shape: {
+        type: 'compound',
+        parts: [
+          { shape: { type: 'rect', width: 12, height: 40 }, offset: { x: 42, y: -10 } },
+          { shape: { type: 'rect', width: 20, height: 20 }, offset: { x: -30, y: 19.5 } },
+        ],
+      },
+    });
+
+    const [pair] = detectCollisions([dumbbell('bell', 0, 0), wall]);
+
+    // 4 px into the post beats 0.5 px into the block
+    expect(pair!.penetration).toBeCloseTo(4, 8);
+    expect(pair!.normal.x).toBeCloseTo(1, 8);
+    expect(pair!.points!.map((p) => p.feature)).toEqual(['1.0:']);
+  });
+
+  it('collides two compounds part by part', () => {
+    const pairs = detectCollisions([dumbbell('a', 0, 0), dumbbell('b', 55, 0)]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]!.points!.map((p) => p.feature)).toEqual(['1.0:']);
+    expect(pairs[0]!.penetration).toBeCloseTo(15, 10);
+  });
+});
+
+describe('detectCollisions — capsules, segments and chains', () => {
+  /** A static chain through the given points. */
+  function chain(id: string, vertices: { x: number; y: number }[], loop = false) {
+    return createBody({ id, isStatic: true, shape: { type: 'chain', vertices, loop } });
+  }
+
+  /** A horizontal 40-long capsule of radius 5 at (x, y). */
+  function capsule(id: string, x: number, y: number, angle = 0) {
+    return createBody({
+      id,
+      position: { x, y },
+      angle,
+      shape: { type: 'capsule', length: 40, radius: 5 },
+    });
+  }
+
+  it('rests a capsule on its side with a point under each cap', () => {
+    const floor = rect('floor', 0, 14, 200, 20, { isStatic: true });
+    const [pair] = detectCollisions([capsule('pill', 0, 0), floor]);
+
+    expect(pair!.normal.y).toBeCloseTo(1, 10);
+    expect(pair!.penetration).toBeCloseTo(1, 10);
+    expect(pair!.points!.map((p) => p.point.x).sort((a, b) => a - b)).toEqual([
+      expect.closeTo(-20, 8),
+      expect.closeTo(20, 8),
+    ]);
+  });
+
+  it('meets a capsule standing on end at its cap', () => {
+    const floor = rect('floor', 0, 34, 200, 20, { isStatic: true });
+    const [pair] = detectCollisions([capsule('pill', 0, 0, Math.PI / 2), floor]);
+
+    expect(pair!.normal.y).toBeCloseTo(1, 10);
+    expect(pair!.penetration).toBeCloseTo(1, 10);
+    expect(pair!.contact!.x).toBeCloseTo(0, 8);
+  });
+
+  it('collides capsules at their closest points, or along a line when parallel', () => {
+    const [crossed] = detectCollisions([capsule('a', 0, 0), capsule('b', 0, 25, Math.PI / 2)]);
+    const [stacked] = detectCollisions([capsule('a', 0, 0), capsule('b', 10, 9)]);
+
+    expect(crossed!.normal.y).toBeCloseTo(1, 10);
+    expect(crossed!.penetration).toBeCloseTo(5, 10);
+    expect(crossed!.points).toBeUndefined();
+    expect(stacked!.penetration).toBeCloseTo(1, 10);
+    expect(stacked!.points!.map((p) => p.point.x)).toEqual([
+      expect.closeTo(-10, 8),
+      expect.closeTo(20, 8),
+    ]);
+  });
+
+  it('collides a segment on both sides', () => {
+    const rail = createBody({
+      id: 'rail',
+      isStatic: true,
+      shape: { type: 'segment', start: { x: -50, y: 0 }, end: { x: 50, y: 0 } },
+    });
+
+    const [above] = detectCollisions([rail, circle('ball', 10, -8, 10)]);
+    const [below] = detectCollisions([rail, circle('ball', 10, 8, 10)]);
+    const [box] = detectCollisions([rail, rect('box', 0, 9, 20, 20)]);
+
+    expect(above!.normal.y).toBeCloseTo(-1, 10);
+    expect(above!.penetration).toBeCloseTo(2, 10);
+    expect(below!.normal.y).toBeCloseTo(1, 10);
+    expect(box!.normal.y).toBeCloseTo(1, 10);
+    expect(box!.points).toHaveLength(2);
+  });
+
+  it('only collides chain edges from their outer side', () => {
+    // Left to right, so the outer side is up (y-down screen)
+    const floor = chain('floor', [
+      { x: -100, y: 0 },
+      { x: 100, y: 0 },
+    ]);
+
+    const [pair] = detectCollisions([floor, circle('ball', 0, -8, 10)]);
+
+    expect(pair!.normal.y).toBeCloseTo(-1, 10);
+    expect(pair!.penetration).toBeCloseTo(2, 10);
+    expect(detectCollisions([floor, circle('ball', 0, 8, 10)])).toEqual([]);
+  });
+
+  it('pushes a box across a joint between edges straight out, never sideways', () => {
+    const floor = chain('floor', [
+      { x: -100, y: 0 },
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+    ]);
+
+    for (const x of [-10.2, -5, 0, 5, 10.2]) {
+      const [pair] = detectCollisions([floor, rect('box', x, -9.5, 20, 20)]);
+
+      expect(pair!.normal.x).toBeCloseTo(0, 10);
+      expect(pair!.penetration).toBeCloseTo(0.5, 10);
+    }
+  });
+
+  it('hits round shapes on the outer corners of a chain', () => {
+    // A peak: both edges face up and away from each other
+    const peak = chain('peak', [
+      { x: -50, y: 50 },
+      { x: 0, y: 0 },
+      { x: 50, y: 50 },
+    ]);
+
+    const [pair] = detectCollisions([peak, circle('ball', 0, -8, 10)]);
+
+    expect(pair!.normal.x).toBeCloseTo(0, 10);
+    expect(pair!.normal.y).toBeCloseTo(-1, 10);
+    expect(pair!.penetration).toBeCloseTo(2, 10);
+    expect(pair!.points!.map((p) => p.feature)).toEqual(['v1:c']);
+  });
+
+  it('reads a chain\'s normal as B → A when the chain comes second', () => {
+    const floor = chain('floor', [
+      { x: -100, y: 0 },
+      { x: 100, y: 0 },
+    ]);
+
+    const [pair] = detectCollisions([circle('ball', 0, -8, 10), floor]);
+
+    expect(pair!.bodyA).toBe('ball');
+    expect(pair!.normal.y).toBeCloseTo(1, 10);
+  });
 });
 
 // ===========================================================================
@@ -256,6 +761,9 @@ describe('detectCollisions', () => {
 // ===========================================================================
 
 describe('resolveCollision', () => {
+  /** Bounce at any speed, so the small velocities below stay elastic. */
+  const bounceAlways = { restitutionThreshold: 0 };
+
   it('swaps velocities for head-on collision of equal-mass circles (e=1)', () => {
     const a = circle('A', 0, 0, 10, {
       velocity: { x: 5, y: 0 },
@@ -275,13 +783,45 @@ describe('resolveCollision', () => {
       overlap: { x: 5, y: 0 },
     };
 
-    resolveCollision(a, b, pair);
+    resolveCollision(a, b, pair, bounceAlways);
 
     // Perfectly elastic equal-mass head-on → velocities swap
     expect(a.velocity.x).toBeCloseTo(-5, 1);
     expect(b.velocity.x).toBeCloseTo(5, 1);
   });
 
+  it('reports the closing speed and applied normal impulse', () => {
+    const a = circle('A', 0, 0, 10, { velocity: { x: 5, y: 0 }, restitution: 1, friction: 0 });
+    const b = circle('B', 15, 0, 10, { velocity: { x: -5, y: 0 }, restitution: 1, friction: 0 });
+    const pair: CollisionPair = {
+      bodyA: 'A',
+      bodyB: 'B',
+      normal: { x: 1, y: 0 },
+      penetration: 5,
+      overlap: { x: 5, y: 0 },
+    };
+
+    const result = resolveCollision(a, b, pair, bounceAlways);
+
+    // Closing at 10, e=1, unit masses: j = (1 + 1)·10 / 2
+    expect(result.normalSpeed).toBeCloseTo(-10, 10);
+    expect(result.normalImpulse).toBeCloseTo(10, 10);
+  });
+
+  it('reports zero impulse for a separating pair', () => {
+    const a = circle('A', 0, 0, 10, { velocity: { x: -5, y: 0 } });
+    const b = circle('B', 15, 0, 10, { velocity: { x: 5, y: 0 } });
+    const pair: CollisionPair = {
+      bodyA: 'A',
+      bodyB: 'B',
+      normal: { x: 1, y: 0 },
+      penetration: 5,
+      overlap: { x: 5, y: 0 },
+    };
+
+    expect(resolveCollision(a, b, pair)).toEqual({ normalSpeed: 10, normalImpulse: 0 });
+  });
+
   it('reverses relative velocity along normal for elastic collision (e=1)', () => {
     const a = circle('A', 0, 0, 10, {
       velocity: { x: 10, y: 0 },
@@ -303,7 +843,7 @@ describe('resolveCollision', () => {
 
     const relBefore = b.velocity.x - a.velocity.x; // -10
 
-    resolveCollision(a, b, pair);
+    resolveCollision(a, b, pair, bounceAlways);
 
     const relAfter = b.velocity.x - a.velocity.x;
     // For e=1 the relative velocity along the normal should reverse sign
@@ -360,7 +900,7 @@ describe('resolveCollision', () => {
       overlap: { x: 5, y: 0 },
     };
 
-    resolveCollision(staticBody, dynamic, pair);
+    resolveCollision(staticBody, dynamic, pair, bounceAlways);
 
     // Static body (invMass=0) should not move
     expect(staticBody.velocity.x).toBeCloseTo(0, 5);
@@ -433,6 +973,48 @@ describe('resolveCollision', () => {
     expect(totalShift).toBeGreaterThan(0);
   });
 
+  it('off-center contact transfers spin to the struck body', () => {
+    // A moves right and strikes B at a point above B's center (y-down)
+    const a = circle('A', 0, -8, 5, {
+      velocity: { x: 10, y: 0 },
+      restitution: 0.5,
+      friction: 0,
+    });
+    const b = rect('B', 10, 0, 10, 20, { restitution: 0.5, friction: 0 });
+    const pair: CollisionPair = {
+      bodyA: 'A',
+      bodyB: 'B',
+      normal: { x: 1, y: 0 },
+      penetration: 0.1,
+      overlap: { x: 0.1, y: 0 },
+      contact: { x: 5, y: -8 },
+    };
+
+    resolveCollision(a, b, pair);
+
+    // Pushing right above the center tips B's top forward: clockwise on screen (ω > 0)
+    expect(b.velocity.x).toBeGreaterThan(0);
+    expect(b.angularVelocity).toBeGreaterThan(0);
+  });
+
+  it('contact at the center line applies no angular impulse', () => {
+    const a = circle('A', 0, 0, 10, { velocity: { x: 10, y: 0 }, friction: 0 });
+    const b = circle('B', 15, 0, 10, { friction: 0 });
+    const pair: CollisionPair = {
+      bodyA: 'A',
+      bodyB: 'B',
+      normal: { x: 1, y: 0 },
+      penetration: 5,
+      overlap: { x: 5, y: 0 },
+      contact: { x: 7.5, y: 0 },
+    };
+
+    resolveCollision(a, b, pair);
+
+    expect(a.angularVelocity).toBeCloseTo(0, 10);
+    expect(b.angularVelocity).toBeCloseTo(0, 10);
+  });
+
   it('does not apply impulse when bodies are already separating', () => {
     const a = circle('A', 0, 0, 10, {
       velocity: { x: -5, y: 0 },
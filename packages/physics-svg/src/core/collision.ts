@@ -1,5 +1,31 @@
-import type { PhysicsBody, Vec2 } from '@mcp-tool-shop/siege-types';
+import type {
+  BroadPhaseType,
+  CollisionFilter,
+  PhysicsBody,
+  Vec2,
+} from '@mcp-tool-shop/siege-types';
 import * as V from './vec2.js';
+import { findCandidatePairs } from './broadphase.js';
+import { isDynamic } from './body.js';
+import {
+  createManifold,
+  contactResult,
+  solveContacts,
+  DEFAULT_BAUMGARTE,
+  DEFAULT_PENETRATION_SLOP,
+  DEFAULT_RESTITUTION_THRESHOLD,
+} from './contact.js';
+import type { ContactSolverOptions } from './contact.js';
+import {
+  getWorldVertices,
+  getEdgeNormals,
+  vertexCenter,
+  containsPoint,
+  shapeParts,
+  getWorldCapsule,
+  closestPointOnSegment,
+} from './shapes.js';
+import type { Capsule } from './shapes.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -11,6 +37,21 @@ export interface CollisionPair {
   normal: Vec2; // points from A to B
   penetration: number;
   overlap: Vec2; // penetration * normal
+  contact?: Vec2; // world-space contact point; omitted → resolved along the center line
+  points?: ContactPoint[]; // contact manifold; omitted → a single point at `contact`
+}
+
+/** One point of a contact manifold. */
+export interface ContactPoint {
+  point: Vec2; // world space
+  penetration: number;
+  feature: string; // names the touching features; stable while the contact persists
+}
+
+/** What `resolveCollision` did to a pair, reported through collision events. */
+export interface ContactResult {
+  normalSpeed: number; // relative velocity along the normal before resolution (< 0 = closing)
+  normalImpulse: number; // magnitude of the normal impulse applied (0 if none)
 }
 
 // ---------------------------------------------------------------------------
@@ -20,57 +61,192 @@ export interface CollisionPair {
 /**
  * Detect all collisions between bodies.
  *
- * Brute-force O(n²) — adequate for ~30-100 bodies.
+ * `broadPhase` selects how candidate pairs are found:
+ * - `'brute'` (default): every pair, O(n²) — the reference path, adequate
+ *   for ~30-100 bodies.
+ * - `'spatial-hash'` / `'sap'`: AABB-accelerated, see `broadphase.ts`.
+ *
+ * All strategies report the same pairs in the same order.
  */
-export function detectCollisions(bodies: PhysicsBody[]): CollisionPair[] {
+export function detectCollisions(
+  bodies: PhysicsBody[],
+  broadPhase: BroadPhaseType = 'brute',
+): CollisionPair[] {
   const pairs: CollisionPair[] = [];
 
-  for (let i = 0; i < bodies.length; i++) {
-    for (let j = i + 1; j < bodies.length; j++) {
-      const a = bodies[i]!;
-      const b = bodies[j]!;
-
-      if (a.isStatic && b.isStatic) continue;
-      if (a.isSleeping && b.isSleeping) continue;
-
-      const pair = testPair(a, b);
-      if (pair) pairs.push(pair);
+  if (broadPhase === 'brute') {
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        testCandidate(bodies[i]!, bodies[j]!, pairs);
+      }
     }
+    return pairs;
   }
 
+  for (const [i, j] of findCandidatePairs(bodies, broadPhase)) {
+    testCandidate(bodies[i]!, bodies[j]!, pairs);
+  }
   return pairs;
 }
 
-function testPair(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
+/** Filter a candidate pair and run the narrow phase on it. */
+function testCandidate(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  out: CollisionPair[],
+): void {
+  if (!isDynamic(a) && !isDynamic(b)) return; // static/kinematic never meet
+  if (a.isSleeping && b.isSleeping) return;
+  if (!shouldCollide(a.collisionFilter, b.collisionFilter)) return;
+
+  const pair = testPair(a, b);
+  if (pair) out.push(pair);
+}
+
+/**
+ * Box2D filtering rule: a shared non-zero group decides on its own
+ * (positive → always, negative → never); otherwise each body's category
+ * must be accepted by the other's mask.
+ */
+export function shouldCollide(a: CollisionFilter, b: CollisionFilter): boolean {
+  if (a.groupIndex !== 0 && a.groupIndex === b.groupIndex) {
+    return a.groupIndex > 0;
+  }
+  return (a.categoryBits & b.maskBits) !== 0 && (b.categoryBits & a.maskBits) !== 0;
+}
+
+/**
+ * Narrow phase for one pair, ignoring static/sleeping/filter rules.
+ * Returns the contact with the normal pointing from `a` to `b`, or null.
+ */
+export function testPair(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
   const aType = a.shape.type;
   const bType = b.shape.type;
 
+  if (aType === 'compound' || bType === 'compound') {
+    return compoundVsBody(a, b);
+  }
+
   if (aType === 'circle' && bType === 'circle') {
     return circleVsCircle(a, b);
   }
 
-  if (aType === 'circle' && bType === 'rect') {
+  if (aType === 'chain') {
+    return chainVsBody(a, b);
+  }
+  if (bType === 'chain') {
+    const result = chainVsBody(b, a);
+    return result ? flipPair(result, a.id, b.id) : null;
+  }
+
+  if (aType === 'capsule' || aType === 'segment' || bType === 'capsule' || bType === 'segment') {
+    return capsuleVsBody(a, b);
+  }
+
+  // Axis-aligned rects keep the cheap AABB routines; rotated rects and
+  // polygons go through SAT.
+  const aBox = aType === 'rect' && a.angle === 0;
+  const bBox = bType === 'rect' && b.angle === 0;
+
+  if (aType === 'circle' && bBox) {
     return circleVsRect(a, b);
   }
-  if (aType === 'rect' && bType === 'circle') {
+  if (aBox && bType === 'circle') {
     const result = circleVsRect(b, a);
-    if (result) {
-      return {
-        bodyA: a.id,
-        bodyB: b.id,
-        normal: V.negate(result.normal),
-        penetration: result.penetration,
-        overlap: V.negate(result.overlap),
-      };
-    }
-    return null;
+    return result ? flipPair(result, a.id, b.id) : null;
   }
 
-  if (aType === 'rect' && bType === 'rect') {
+  if (aBox && bBox) {
     return rectVsRect(a, b);
   }
 
-  return null;
+  if (aType === 'circle') {
+    return circleVsPolygon(a, b);
+  }
+  if (bType === 'circle') {
+    const result = circleVsPolygon(b, a);
+    return result ? flipPair(result, a.id, b.id) : null;
+  }
+
+  return polygonVsPolygon(a, b);
+}
+
+/** Re-label a pair computed as (B, A) so that it reads (A, B). */
+function flipPair(
+  pair: CollisionPair,
+  idA: string,
+  idB: string,
+): CollisionPair {
+  return {
+    bodyA: idA,
+    bodyB: idB,
+    normal: V.negate(pair.normal),
+    penetration: pair.penetration,
+    overlap: V.negate(pair.overlap),
+    contact: pair.contact,
+    points: pair.points,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Compound Bodies
+// ---------------------------------------------------------------------------
+
+/** Parts touching along a normal within ~25° of the deepest one share its manifold. */
+const SAME_NORMAL = 0.9;
+
+/**
+ * Test every part of `a` against every part of `b` and merge the results
+ * into one manifold along the deepest contact's normal. Contacts facing
+ * another way are left out for this substep; once the deepest is pushed
+ * apart they are solved in their turn. Point features are prefixed with
+ * the part indices so warm starting tells the parts apart.
+ */
+function compoundVsBody(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
+  const partsA = shapeParts(a);
+  const partsB = shapeParts(b);
+  const hits: { pair: CollisionPair; prefix: string }[] = [];
+
+  for (let i = 0; i < partsA.length; i++) {
+    for (let j = 0; j < partsB.length; j++) {
+      const pair = testPair(partsA[i]!, partsB[j]!);
+      if (pair) hits.push({ pair, prefix: `${i}.${j}:` });
+    }
+  }
+  return mergeHits(a, b, hits);
+}
+
+/**
+ * One manifold from several sub-shape contacts between `a` and `b`: the
+ * deepest, plus every point of the others touching along about the same
+ * normal, with features prefixed by where they came from.
+ */
+function mergeHits(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  hits: { pair: CollisionPair; prefix: string }[],
+): CollisionPair | null {
+  if (hits.length === 0) return null;
+
+  const deepest = hits.reduce((best, hit) =>
+    hit.pair.penetration > best.pair.penetration ? hit : best,
+  ).pair;
+
+  const points: ContactPoint[] = [];
+  for (const { pair, prefix } of hits) {
+    if (V.dot(pair.normal, deepest.normal) < SAME_NORMAL) continue;
+    const found = pair.points ?? [
+      { point: pair.contact ?? centerLine(a, b), penetration: pair.penetration, feature: '' },
+    ];
+    for (const point of found) points.push({ ...point, feature: prefix + point.feature });
+  }
+
+  return { ...deepest, contact: averagePoint(points), points };
+}
+
+/** Midpoint of the bodies' centers, for contacts found without a point. */
+function centerLine(a: PhysicsBody, b: PhysicsBody): Vec2 {
+  return V.lerp(a.position, b.position, 0.5);
 }
 
 // ---------------------------------------------------------------------------
@@ -98,6 +274,7 @@ function circleVsCircle(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
     normal,
     penetration,
     overlap: V.scale(normal, penetration),
+    contact: V.add(a.position, V.scale(normal, a.shape.radius - penetration / 2)),
   };
 }
 
@@ -129,19 +306,23 @@ function circleVsRect(
   const dist = Math.sqrt(distSq);
   let normal: Vec2;
   let penetration: number;
+  let contact: Vec2;
 
+  // Normal points from the circle toward the rect (A → B)
   if (dist < 1e-10) {
     const overlapX = hw - Math.abs(dx);
     const overlapY = hh - Math.abs(dy);
     if (overlapX < overlapY) {
-      normal = { x: dx > 0 ? 1 : -1, y: 0 };
+      normal = { x: dx > 0 ? -1 : 1, y: 0 };
     } else {
-      normal = { x: 0, y: dy > 0 ? 1 : -1 };
+      normal = { x: 0, y: dy > 0 ? -1 : 1 };
     }
     penetration = radius + Math.min(overlapX, overlapY);
+    contact = V.clone(circle.position);
   } else {
-    normal = { x: diffX / dist, y: diffY / dist };
+    normal = { x: -diffX / dist, y: -diffY / dist };
     penetration = radius - dist;
+    contact = { x: rect.position.x + closestX, y: rect.position.y + closestY };
   }
 
   return {
@@ -150,6 +331,7 @@ function circleVsRect(
     normal,
     penetration,
     overlap: V.scale(normal, penetration),
+    contact,
   };
 }
 
@@ -174,15 +356,33 @@ function rectVsRect(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
   const overlapY = ahh + bhh - Math.abs(dy);
   if (overlapY <= 0) return null;
 
+  const left = Math.max(a.position.x - ahw, b.position.x - bhw);
+  const right = Math.min(a.position.x + ahw, b.position.x + bhw);
+  const top = Math.max(a.position.y - ahh, b.position.y - bhh);
+  const bottom = Math.min(a.position.y + ahh, b.position.y + bhh);
+  const midX = (left + right) / 2;
+  const midY = (top + bottom) / 2;
+
+  // Manifold: the two ends of the overlap region's contact face, on its
+  // center line; the contact is the center of the region
   let normal: Vec2;
   let penetration: number;
+  let points: ContactPoint[];
 
   if (overlapX < overlapY) {
     normal = { x: dx > 0 ? 1 : -1, y: 0 };
     penetration = overlapX;
+    points = [
+      { point: { x: midX, y: top }, penetration, feature: 'x0' },
+      { point: { x: midX, y: bottom }, penetration, feature: 'x1' },
+    ];
   } else {
     normal = { x: 0, y: dy > 0 ? 1 : -1 };
     penetration = overlapY;
+    points = [
+      { point: { x: left, y: midY }, penetration, feature: 'y0' },
+      { point: { x: right, y: midY }, penetration, feature: 'y1' },
+    ];
   }
 
   return {
@@ -191,79 +391,759 @@ function rectVsRect(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
     normal,
     penetration,
     overlap: V.scale(normal, penetration),
+    contact: { x: midX, y: midY },
+    points,
   };
 }
 
 // ---------------------------------------------------------------------------
-// Resolution (Impulse-Based)
+// Polygon vs Polygon (SAT)
 // ---------------------------------------------------------------------------
 
-const PENETRATION_SLOP = 0.5;
-const CORRECTION_FACTOR = 0.4;
-const RESTITUTION_SLOP = 0.5;
+/** Project a vertex list onto an axis, returning [min, max]. */
+function project(vertices: Vec2[], axis: Vec2): [number, number] {
+  let min = V.dot(vertices[0]!, axis);
+  let max = min;
+  for (let i = 1; i < vertices.length; i++) {
+    const p = V.dot(vertices[i]!, axis);
+    if (p < min) min = p;
+    if (p > max) max = p;
+  }
+  return [min, max];
+}
 
 /**
- * Resolve a collision with impulse + friction + positional correction.
+ * Separating Axis Theorem test between two convex shapes given as
+ * world-space vertex lists (rects are treated as 4-vertex polygons).
+ *
+ * Tests every edge normal of both shapes and keeps the axis of minimum
+ * overlap. The normal is oriented from A's center toward B's center.
  */
-export function resolveCollision(
+function polygonVsPolygon(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
+  const vertsA = getWorldVertices(a);
+  const vertsB = getWorldVertices(b);
+  if (vertsA.length < 3 || vertsB.length < 3) return null;
+
+  const axes = [...getEdgeNormals(vertsA), ...getEdgeNormals(vertsB)];
+
+  let minOverlap = Infinity;
+  let bestAxis: Vec2 | null = null;
+
+  for (const axis of axes) {
+    const [minA, maxA] = project(vertsA, axis);
+    const [minB, maxB] = project(vertsB, axis);
+
+    const overlap = Math.min(maxA, maxB) - Math.max(minA, minB);
+    if (overlap <= 0) return null; // Separating axis found
+
+    if (overlap < minOverlap) {
+      minOverlap = overlap;
+      bestAxis = axis;
+    }
+  }
+
+  if (!bestAxis) return null;
+
+  const d = V.sub(vertexCenter(vertsB), vertexCenter(vertsA));
+  const normal = V.dot(d, bestAxis) < 0 ? V.negate(bestAxis) : bestAxis;
+
+  let points = clipManifold(vertsA, vertsB, normal);
+  if (points.length === 0) {
+    // Clipping can come up empty for grazing contacts at the SAT tolerance
+    const point = findContactPoint(vertsA, vertsB, normal);
+    points = [{ point, penetration: minOverlap, feature: 'x' }];
+  }
+
+  return {
+    bodyA: a.id,
+    bodyB: b.id,
+    normal,
+    penetration: minOverlap,
+    overlap: V.scale(normal, minOverlap),
+    contact: averagePoint(points),
+    points,
+  };
+}
+
+/**
+ * Up to two contact points for overlapping convex polygons, by clipping
+ * (as in Box2D):
+ *
+ * 1. The reference face is the face, of either polygon, lying flattest
+ *    against the collision normal (A wins near-ties, so the choice doesn't
+ *    flicker between frames)
+ * 2. The incident face is the other polygon's face turned most against it
+ * 3. The incident face is clipped to the reference face's side planes, and
+ *    the clipped ends still behind the reference face are the contacts
+ *
+ * Features name the reference face and the incident vertex or side plane
+ * each point came from, e.g. `a2:v0` or `b1:s1`.
+ */
+function clipManifold(vertsA: Vec2[], vertsB: Vec2[], normal: Vec2): ContactPoint[] {
+  const normalsA = getEdgeNormals(vertsA);
+  const normalsB = getEdgeNormals(vertsB);
+  const edgeA = mostAlignedEdge(normalsA, normal);
+  const edgeB = mostAlignedEdge(normalsB, V.negate(normal));
+  const flip =
+    V.dot(normalsB[edgeB]!, V.negate(normal)) > V.dot(normalsA[edgeA]!, normal) + 1e-3;
+
+  const ref = flip ? vertsB : vertsA;
+  const inc = flip ? vertsA : vertsB;
+  const refEdge = flip ? edgeB : edgeA;
+  const refNormal = (flip ? normalsB : normalsA)[refEdge]!;
+  const incEdge = mostAlignedEdge(flip ? normalsA : normalsB, V.negate(refNormal));
+
+  const r1 = ref[refEdge]!;
+  const r2 = ref[(refEdge + 1) % ref.length]!;
+  const i1 = incEdge;
+  const i2 = (incEdge + 1) % inc.length;
+  let clip: ClipVertex[] = [
+    { v: inc[i1]!, feature: `v${i1}` },
+    { v: inc[i2]!, feature: `v${i2}` },
+  ];
+
+  const side = V.normalize(V.sub(r2, r1));
+  clip = clipSegment(clip, V.negate(side), -V.dot(side, r1), 's0');
+  if (clip.length < 2) return [];
+  clip = clipSegment(clip, side, V.dot(side, r2), 's1');
+  if (clip.length < 2) return [];
+
+  const face = V.dot(refNormal, r1);
+  const tag = `${flip ? 'b' : 'a'}${refEdge}:`;
+  const points: ContactPoint[] = [];
+  for (const { v, feature } of clip) {
+    const separation = V.dot(refNormal, v) - face;
+    if (separation <= 0) {
+      points.push({ point: v, penetration: -separation, feature: tag + feature });
+    }
+  }
+  return points;
+}
+
+interface ClipVertex {
+  v: Vec2;
+  feature: string;
+}
+
+/** Index of the edge whose outward normal points most along `dir`. */
+function mostAlignedEdge(normals: Vec2[], dir: Vec2): number {
+  let best = 0;
+  let bestDot = -Infinity;
+  for (let i = 0; i < normals.length; i++) {
+    const d = V.dot(normals[i]!, dir);
+    if (d > bestDot) {
+      bestDot = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Keep the part of a two-vertex segment where `dot(plane, v) <= offset`.
+ * A vertex created on the plane takes `feature`.
+ */
+function clipSegment(
+  clip: ClipVertex[],
+  plane: Vec2,
+  offset: number,
+  feature: string,
+): ClipVertex[] {
+  const [c1, c2] = clip as [ClipVertex, ClipVertex];
+  const d1 = V.dot(plane, c1.v) - offset;
+  const d2 = V.dot(plane, c2.v) - offset;
+
+  const out: ClipVertex[] = [];
+  if (d1 <= 0) out.push(c1);
+  if (d2 <= 0) out.push(c2);
+  if (d1 * d2 < 0) {
+    out.push({ v: V.lerp(c1.v, c2.v, d1 / (d1 - d2)), feature });
+  }
+  return out;
+}
+
+function averagePoint(points: ContactPoint[]): Vec2 {
+  let x = 0;
+  let y = 0;
+  for (const { point } of points) {
+    x += point.x;
+    y += point.y;
+  }
+  return { x: x / points.length, y: y / points.length };
+}
+
+/**
+ * Approximate a single contact point for two overlapping convex polygons:
+ * the average of every vertex contained in the other polygon, falling back
+ * to the midpoint of the two support points for edge-edge crossings.
+ */
+function findContactPoint(vertsA: Vec2[], vertsB: Vec2[], normal: Vec2): Vec2 {
+  let x = 0;
+  let y = 0;
+  let count = 0;
+
+  for (const v of vertsB) {
+    if (containsPoint(vertsA, v)) {
+      x += v.x;
+      y += v.y;
+      count++;
+    }
+  }
+  for (const v of vertsA) {
+    if (containsPoint(vertsB, v)) {
+      x += v.x;
+      y += v.y;
+      count++;
+    }
+  }
+
+  if (count > 0) return { x: x / count, y: y / count };
+
+  const supportA = support(vertsA, normal);
+  const supportB = support(vertsB, V.negate(normal));
+  return V.lerp(supportA, supportB, 0.5);
+}
+
+/** Vertex furthest along a direction. */
+function support(vertices: Vec2[], dir: Vec2): Vec2 {
+  let best = vertices[0]!;
+  let bestDot = V.dot(best, dir);
+  for (let i = 1; i < vertices.length; i++) {
+    const d = V.dot(vertices[i]!, dir);
+    if (d > bestDot) {
+      bestDot = d;
+      best = vertices[i]!;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Circle vs Polygon (SAT)
+// ---------------------------------------------------------------------------
+
+/**
+ * SAT test between a circle and a convex polygon (or rect).
+ *
+ * Candidate axes are the polygon's edge normals plus the axis from the
+ * polygon vertex nearest the circle center. The normal points from the
+ * circle toward the polygon.
+ */
+function circleVsPolygon(
+  circle: PhysicsBody,
+  poly: PhysicsBody,
+): CollisionPair | null {
+  if (circle.shape.type !== 'circle') return null;
+
+  const verts = getWorldVertices(poly);
+  if (verts.length < 3) return null;
+
+  const center = circle.position;
+  const radius = circle.shape.radius;
+
+  // Closest vertex → circle center gives the only non-edge candidate axis
+  let closest = verts[0]!;
+  let closestDistSq = V.distanceSq(center, closest);
+  for (let i = 1; i < verts.length; i++) {
+    const dSq = V.distanceSq(center, verts[i]!);
+    if (dSq < closestDistSq) {
+      closestDistSq = dSq;
+      closest = verts[i]!;
+    }
+  }
+
+  const axes = getEdgeNormals(verts);
+  if (closestDistSq > 1e-20) {
+    axes.push(V.normalize(V.sub(center, closest)));
+  }
+
+  let minOverlap = Infinity;
+  let bestAxis: Vec2 | null = null;
+
+  for (const axis of axes) {
+    const [minP, maxP] = project(verts, axis);
+    const c = V.dot(center, axis);
+    const minC = c - radius;
+    const maxC = c + radius;
+
+    const overlap = Math.min(maxP, maxC) - Math.max(minP, minC);
+    if (overlap <= 0) return null;
+
+    if (overlap < minOverlap) {
+      minOverlap = overlap;
+      bestAxis = axis;
+    }
+  }
+
+  if (!bestAxis) return null;
+
+  const d = V.sub(vertexCenter(verts), center);
+  const normal = V.dot(d, bestAxis) < 0 ? V.negate(bestAxis) : bestAxis;
+
+  return {
+    bodyA: circle.id,
+    bodyB: poly.id,
+    normal,
+    penetration: minOverlap,
+    overlap: V.scale(normal, minOverlap),
+    contact: V.add(center, V.scale(normal, radius - minOverlap / 2)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Capsules and Segments
+// ---------------------------------------------------------------------------
+
+/** Segments closer to parallel than this (|sin| of the angle) touch along a line. */
+const PARALLEL = 0.05;
+
+/**
+ * Capsules and segments are both thick segments (a segment just has no
+ * radius), and so is a circle, with no length. Two of them meet at the
+ * closest points of their cores; anything else is a polygon.
+ */
+function capsuleVsBody(a: PhysicsBody, b: PhysicsBody): CollisionPair | null {
+  const capA = getWorldCapsule(a);
+  const capB = getWorldCapsule(b);
+
+  if (capA && capB) return capsuleVsCapsule(a, b, capA, capB);
+  if (capA) return capsuleVsPolygon(a, b, capA);
+
+  const result = capsuleVsPolygon(b, a, capB!);
+  return result ? flipPair(result, a.id, b.id) : null;
+}
+
+/**
+ * Two thick segments overlap where their cores come closer than the sum of
+ * the radii. Lying (nearly) parallel, they touch along a line: B's core is
+ * clipped to the ends of A's and both clipped ends become contacts, so a
+ * capsule resting on its side does not rock on a single point.
+ */
+function capsuleVsCapsule(
   a: PhysicsBody,
   b: PhysicsBody,
-  pair: CollisionPair,
-): void {
-  const { normal, penetration } = pair;
+  capA: Capsule,
+  capB: Capsule,
+): CollisionPair | null {
+  const [closestA, closestB] = closestPoints(capA.start, capA.end, capB.start, capB.end);
+  const sumRadii = capA.radius + capB.radius;
+  const d = V.sub(closestB, closestA);
+  const dist = V.length(d);
+  if (dist >= sumRadii) return null;
 
-  const relVelX = b.velocity.x - a.velocity.x;
-  const relVelY = b.velocity.y - a.velocity.y;
-  const normalSpeed = relVelX * normal.x + relVelY * normal.y;
+  const normal = dist > 1e-10 ? V.scale(d, 1 / dist) : fallbackNormal(capA, b.position);
+  const penetration = sumRadii - dist;
+  const pair: CollisionPair = {
+    bodyA: a.id,
+    bodyB: b.id,
+    normal,
+    penetration,
+    overlap: V.scale(normal, penetration),
+    contact: V.add(closestA, V.scale(normal, capA.radius - penetration / 2)),
+  };
+
+  const axisA = V.sub(capA.end, capA.start);
+  const axisB = V.sub(capB.end, capB.start);
+  const lengthA = V.length(axisA);
+  const lengthB = V.length(axisB);
+  if (lengthA < 1e-9 || lengthB < 1e-9) return pair;
+  if (Math.abs(V.cross(axisA, axisB)) > PARALLEL * lengthA * lengthB) return pair;
+
+  const clip = clipToSides(coreOf(capB), capA.start, capA.end);
+  if (clip.length < 2) return pair;
+
+  const points: ContactPoint[] = [];
+  for (const { v, feature } of clip) {
+    const separation = V.dot(normal, V.sub(v, capA.start)) - sumRadii;
+    if (separation <= 0) {
+      const point = V.sub(v, V.scale(normal, capB.radius + separation / 2));
+      points.push({ point, penetration: -separation, feature });
+    }
+  }
+  if (points.length < 2) return pair;
+
+  return { ...pair, contact: averagePoint(points), points };
+}
+
+/**
+ * SAT between a thick segment and a convex polygon. Candidate axes are the
+ * polygon's edge normals, the segment's own normal, and (for capsules) the
+ * axes from each end of the core to its nearest polygon vertex, for the
+ * round caps. Face contacts are clipped into two-point manifolds the same
+ * way as between polygons: the capsule's core against a polygon face, or a
+ * polygon face against the capsule's side.
+ */
+function capsuleVsPolygon(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  capsule: Capsule,
+): CollisionPair | null {
+  const verts = getWorldVertices(b);
+  if (verts.length < 3) return null;
+
+  const { start, end, radius } = capsule;
+  const axis = V.sub(end, start);
+  const length = V.length(axis);
+  const normals = getEdgeNormals(verts);
+
+  const axes: { axis: Vec2; kind: 'polygon' | 'side' | 'cap' }[] = normals.map((n) => ({
+    axis: n,
+    kind: 'polygon',
+  }));
+  if (length > 1e-9) {
+    axes.push({ axis: V.normalize(V.perpR(axis)), kind: 'side' });
+  }
+  if (radius > 0) {
+    for (const cap of length > 1e-9 ? [start, end] : [start]) {
+      const nearest = verts.reduce((best, v) =>
+        V.distanceSq(cap, v) < V.distanceSq(cap, best) ? v : best,
+      );
+      if (V.distanceSq(cap, nearest) > 1e-20) {
+        axes.push({ axis: V.normalize(V.sub(cap, nearest)), kind: 'cap' });
+      }
+    }
+  }
 
-  // Separating — no impulse needed
-  if (normalSpeed > 0) return;
+  // Overlap is how far the polygon must move to clear the capsule on each
+  // axis (either way): a segment has no width to intersect intervals with
+  let minOverlap = Infinity;
+  let best: (typeof axes)[number] | null = null;
+  let normal: Vec2 = V.zero();
 
-  let e = Math.min(a.restitution, b.restitution);
-  if (Math.abs(normalSpeed) < RESTITUTION_SLOP) e = 0;
+  for (const candidate of axes) {
+    const [minP, maxP] = project(verts, candidate.axis);
+    const s = V.dot(start, candidate.axis);
+    const e = V.dot(end, candidate.axis);
+    const minC = Math.min(s, e) - radius;
+    const maxC = Math.max(s, e) + radius;
 
-  const totalInvMass = a.invMass + b.invMass;
-  if (totalInvMass < 1e-10) return;
+    const forward = maxC - minP; // polygon pushed along +axis
+    const backward = maxP - minC;
+    const overlap = Math.min(forward, backward);
+    if (overlap <= 0) return null;
 
-  // Normal impulse
-  const j = -(1 + e) * normalSpeed / totalInvMass;
+    if (overlap < minOverlap) {
+      minOverlap = overlap;
+      best = candidate;
+      normal = forward <= backward ? candidate.axis : V.negate(candidate.axis);
+    }
+  }
 
-  a.velocity.x -= j * a.invMass * normal.x;
-  a.velocity.y -= j * a.invMass * normal.y;
-  b.velocity.x += j * b.invMass * normal.x;
-  b.velocity.y += j * b.invMass * normal.y;
+  if (!best) return null;
+  const deepestEnd = V.dot(start, normal) >= V.dot(end, normal) ? start : end;
+  const pair: CollisionPair = {
+    bodyA: a.id,
+    bodyB: b.id,
+    normal,
+    penetration: minOverlap,
+    overlap: V.scale(normal, minOverlap),
+    contact: V.add(deepestEnd, V.scale(normal, radius - minOverlap / 2)),
+  };
+  if (best.kind === 'cap' || length < 1e-9) return pair;
 
-  // Friction impulse (tangential)
-  let tangentX = relVelX - normalSpeed * normal.x;
-  let tangentY = relVelY - normalSpeed * normal.y;
-  const tangentLen = Math.sqrt(tangentX * tangentX + tangentY * tangentY);
+  const points =
+    best.kind === 'polygon'
+      ? clipCoreToFace(capsule, verts, normals, mostAlignedEdge(normals, V.negate(normal)))
+      : clipFaceToCore(capsule, verts, normals, normal);
+  if (points.length === 0) return pair;
 
-  if (tangentLen > 1e-10) {
-    tangentX /= tangentLen;
-    tangentY /= tangentLen;
+  return { ...pair, contact: averagePoint(points), points };
+}
 
-    const mu = Math.sqrt(a.friction * b.friction); // Pythagorean mixing
-    const tangentSpeed = relVelX * tangentX + relVelY * tangentY;
-    let jt = -tangentSpeed / totalInvMass;
+/**
+ * Contacts for a capsule lying on polygon face `face`: its core clipped to
+ * the face's side planes, placed on the capsule's surface.
+ */
+function clipCoreToFace(
+  capsule: Capsule,
+  verts: Vec2[],
+  normals: Vec2[],
+  face: number,
+): ContactPoint[] {
+  const r1 = verts[face]!;
+  const r2 = verts[(face + 1) % verts.length]!;
+  const faceNormal = normals[face]!;
+  const clip = clipToSides(coreOf(capsule), r1, r2);
 
-    // Coulomb clamp
-    if (Math.abs(jt) > Math.abs(j * mu)) {
-      jt = j * mu * Math.sign(jt);
+  const points: ContactPoint[] = [];
+  for (const { v, feature } of clip) {
+    const separation = V.dot(faceNormal, V.sub(v, r1)) - capsule.radius;
+    if (separation <= 0) {
+      const point = V.sub(v, V.scale(faceNormal, capsule.radius));
+      points.push({ point, penetration: -separation, feature: `b${face}:${feature}` });
     }
+  }
+  return points;
+}
 
-    a.velocity.x -= jt * a.invMass * tangentX;
-    a.velocity.y -= jt * a.invMass * tangentY;
-    b.velocity.x += jt * b.invMass * tangentX;
-    b.velocity.y += jt * b.invMass * tangentY;
+/**
+ * Contacts for a polygon face lying on a capsule's side: the polygon face
+ * turned most against `normal` (capsule → polygon), clipped to the ends of
+ * the core.
+ */
+function clipFaceToCore(
+  capsule: Capsule,
+  verts: Vec2[],
+  normals: Vec2[],
+  normal: Vec2,
+): ContactPoint[] {
+  const face = mostAlignedEdge(normals, V.negate(normal));
+  const clip = clipToSides(faceOf(verts, face), capsule.start, capsule.end);
+
+  const points: ContactPoint[] = [];
+  for (const { v, feature } of clip) {
+    const separation = V.dot(normal, V.sub(v, capsule.start)) - capsule.radius;
+    if (separation <= 0) {
+      points.push({ point: v, penetration: -separation, feature: `a:${feature}` });
+    }
   }
+  return points;
+}
 
-  // Positional correction (Baumgarte stabilization)
-  const corrMag =
-    (Math.max(penetration - PENETRATION_SLOP, 0) * CORRECTION_FACTOR) /
-    totalInvMass;
+/** A capsule's core as a segment to clip. */
+function coreOf(capsule: Capsule): ClipVertex[] {
+  return [
+    { v: capsule.start, feature: 'v0' },
+    { v: capsule.end, feature: 'v1' },
+  ];
+}
 
-  a.position.x -= corrMag * a.invMass * normal.x;
-  a.position.y -= corrMag * a.invMass * normal.y;
-  b.position.x += corrMag * b.invMass * normal.x;
-  b.position.y += corrMag * b.invMass * normal.y;
+/** Polygon edge `face` as a segment to clip. */
+function faceOf(verts: Vec2[], face: number): ClipVertex[] {
+  const next = (face + 1) % verts.length;
+  return [
+    { v: verts[face]!, feature: `v${face}` },
+    { v: verts[next]!, feature: `v${next}` },
+  ];
+}
+
+/** Clip a two-vertex segment to the side planes through `r1` and `r2`. */
+function clipToSides(clip: ClipVertex[], r1: Vec2, r2: Vec2): ClipVertex[] {
+  const side = V.normalize(V.sub(r2, r1));
+  clip = clipSegment(clip, V.negate(side), -V.dot(side, r1), 's0');
+  if (clip.length < 2) return [];
+  return clipSegment(clip, side, V.dot(side, r2), 's1');
+}
+
+/**
+ * Closest points between segments p1→q1 and p2→q2 (Ericson, Real-Time
+ * Collision Detection §5.1.9). Either segment may be a single point.
+ */
+function closestPoints(p1: Vec2, q1: Vec2, p2: Vec2, q2: Vec2): [Vec2, Vec2] {
+  const d1 = V.sub(q1, p1);
+  const d2 = V.sub(q2, p2);
+  const r = V.sub(p1, p2);
+  const a = V.dot(d1, d1);
+  const e = V.dot(d2, d2);
+  const f = V.dot(d2, r);
+  const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+  let s = 0;
+  let t = 0;
+  if (a > 1e-12 && e > 1e-12) {
+    const b = V.dot(d1, d2);
+    const c = V.dot(d1, r);
+    const denom = a * e - b * b;
+    s = denom > 1e-12 ? clamp01((b * f - c * e) / denom) : 0;
+    t = (b * s + f) / e;
+    if (t < 0) {
+      t = 0;
+      s = clamp01(-c / a);
+    } else if (t > 1) {
+      t = 1;
+      s = clamp01((b - c) / a);
+    }
+  } else if (a > 1e-12) {
+    s = clamp01(-V.dot(d1, r) / a);
+  } else if (e > 1e-12) {
+    t = clamp01(f / e);
+  }
+
+  return [V.add(p1, V.scale(d1, s)), V.add(p2, V.scale(d2, t))];
+}
+
+/** Normal for cores that cross: off A's side toward `toward`, or straight down. */
+function fallbackNormal(capsule: Capsule, toward: Vec2): Vec2 {
+  const axis = V.sub(capsule.end, capsule.start);
+  if (V.lengthSq(axis) < 1e-18) return { x: 0, y: 1 };
+  const side = V.normalize(V.perpR(axis));
+  return V.dot(V.sub(toward, capsule.start), side) < 0 ? V.negate(side) : side;
+}
+
+// ---------------------------------------------------------------------------
+// Chains
+// ---------------------------------------------------------------------------
+
+/** Corners bent less than this (|sin| of the turn) count as flat. */
+const FLAT_CORNER = 1e-3;
+
+/**
+ * A chain against any other (non-compound) shape. Each edge is one-sided:
+ * it ignores bodies whose center is behind it, and only pushes along its
+ * own outward normal, so bodies slide across the joints between edges
+ * without catching on them. Round shapes can also hit the outward corners
+ * of the chain (and its open ends) on their caps; polygons meet corners
+ * through the faces on either side. Edges are merged into one manifold
+ * the same way as compound parts.
+ */
+function chainVsBody(chain: PhysicsBody, other: PhysicsBody): CollisionPair | null {
+  if (chain.shape.type !== 'chain' || other.shape.type === 'chain') return null;
+  if (other.shape.type === 'segment') return null; // neither has area to be dynamic
+
+  const verts = getWorldVertices(chain);
+  const loop = chain.shape.loop ?? false;
+  const count = loop ? verts.length : verts.length - 1;
+  const capsule = getWorldCapsule(other);
+  const polygon = capsule ? [] : getWorldVertices(other);
+  if (!capsule && polygon.length < 3) return null;
+  const center = capsule ? V.lerp(capsule.start, capsule.end, 0.5) : vertexCenter(polygon);
+
+  const sides: (Vec2 | null)[] = [];
+  for (let i = 0; i < count; i++) {
+    const edge = V.sub(verts[(i + 1) % verts.length]!, verts[i]!);
+    sides.push(V.lengthSq(edge) > 1e-18 ? V.normalize(edge) : null);
+  }
+
+  const hits: { pair: CollisionPair; prefix: string }[] = [];
+  for (let i = 0; i < count; i++) {
+    const side = sides[i];
+    if (!side) continue;
+    const r1 = verts[i]!;
+    const r2 = verts[(i + 1) % verts.length]!;
+    const normal = V.perpR(side);
+    if (V.dot(V.sub(center, r1), normal) < 0) continue; // behind the edge
+
+    const points = capsule
+      ? edgeVsCapsule(r1, r2, normal, capsule)
+      : edgeVsPolygon(r1, r2, normal, polygon);
+    const pair = manifoldPair(chain, other, normal, points);
+    if (pair) hits.push({ pair, prefix: `e${i}:` });
+
+    if (!capsule) continue;
+    const before = loop || i > 0 ? sides[(i + count - 1) % count] ?? null : null;
+    if (!before || V.cross(before, side) > FLAT_CORNER) {
+      const corner = cornerVsCapsule(chain, other, r1, before, side, capsule);
+      if (corner) hits.push({ pair: corner, prefix: `v${i}:` });
+    }
+    if (!loop && i === count - 1) {
+      const corner = cornerVsCapsule(chain, other, r2, side, null, capsule);
+      if (corner) hits.push({ pair: corner, prefix: `v${i + 1}:` });
+    }
+  }
+
+  return mergeHits(chain, other, hits);
+}
+
+/** Contacts of a thick segment (or circle) lying on the edge r1→r2. */
+function edgeVsCapsule(r1: Vec2, r2: Vec2, normal: Vec2, capsule: Capsule): ContactPoint[] {
+  // A circle's core is a single point, which would clip to two copies
+  const clip =
+    V.distanceSq(capsule.start, capsule.end) < 1e-18
+      ? clipPointToSides(capsule.start, r1, r2)
+      : clipToSides(coreOf(capsule), r1, r2);
+
+  const points: ContactPoint[] = [];
+  for (const { v, feature } of clip) {
+    const separation = V.dot(normal, V.sub(v, r1)) - capsule.radius;
+    if (separation < 0) {
+      const point = V.sub(v, V.scale(normal, capsule.radius));
+      points.push({ point, penetration: -separation, feature });
+    }
+  }
+  return points;
+}
+
+/** Contacts of a polygon's face lying on the edge r1→r2. */
+function edgeVsPolygon(r1: Vec2, r2: Vec2, normal: Vec2, verts: Vec2[]): ContactPoint[] {
+  const face = mostAlignedEdge(getEdgeNormals(verts), V.negate(normal));
+  const clip = clipToSides(faceOf(verts, face), r1, r2);
+
+  const points: ContactPoint[] = [];
+  for (const { v, feature } of clip) {
+    const separation = V.dot(normal, V.sub(v, r1));
+    if (separation < 0) points.push({ point: v, penetration: -separation, feature });
+  }
+  return points;
+}
+
+/** A single point, kept if it lies between the side planes through `r1` and `r2`. */
+function clipPointToSides(v: Vec2, r1: Vec2, r2: Vec2): ClipVertex[] {
+  const side = V.sub(r2, r1);
+  const t = V.dot(V.sub(v, r1), side);
+  return t >= 0 && t <= V.dot(side, side) ? [{ v, feature: 'c' }] : [];
+}
+
+/**
+ * A round shape against the chain corner at `corner`, between the edges
+ * running along `before` (into it) and `after` (out of it); either is null
+ * at an open end. Only the part of the shape beyond both edges' side
+ * planes, where neither edge face reaches, meets the corner.
+ */
+function cornerVsCapsule(
+  chain: PhysicsBody,
+  other: PhysicsBody,
+  corner: Vec2,
+  before: Vec2 | null,
+  after: Vec2 | null,
+  capsule: Capsule,
+): CollisionPair | null {
+  const closest = closestPointOnSegment(capsule.start, capsule.end, corner);
+  const d = V.sub(closest, corner);
+  const dist = V.length(d);
+  if (dist >= capsule.radius || dist < 1e-10) return null;
+  if (before && V.dot(d, before) <= 0) return null;
+  if (after && V.dot(d, after) >= 0) return null;
+
+  const normal = V.scale(d, 1 / dist);
+  const penetration = capsule.radius - dist;
+  return manifoldPair(chain, other, normal, [{ point: corner, penetration, feature: 'c' }]);
+}
+
+/** A pair along `normal` from a's contacts with b, or null if there are none. */
+function manifoldPair(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  normal: Vec2,
+  points: ContactPoint[],
+): CollisionPair | null {
+  if (points.length === 0) return null;
+  const penetration = Math.max(...points.map((p) => p.penetration));
+  return {
+    bodyA: a.id,
+    bodyB: b.id,
+    normal,
+    penetration,
+    overlap: V.scale(normal, penetration),
+    contact: averagePoint(points),
+    points,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Resolution (Impulse-Based)
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve one pair on its own: a single solver pass with no warm start,
+ * then positional correction. The world solves all of a substep's contacts
+ * together instead; see `solveContacts` in `contact.ts`.
+ *
+ * When the pair carries a contact point, impulses are applied at that point
+ * so off-center hits change angular velocity as well as linear velocity.
+ */
+export function resolveCollision(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  pair: CollisionPair,
+  options: Partial<ContactSolverOptions> = {},
+): ContactResult {
+  const manifold = createManifold(a, b, pair);
+  solveContacts([manifold], {
+    iterations: 1,
+    penetrationSlop: DEFAULT_PENETRATION_SLOP,
+    baumgarte: DEFAULT_BAUMGARTE,
+    restitutionThreshold: DEFAULT_RESTITUTION_THRESHOLD,
+    ...options,
+  });
+  return contactResult(manifold);
 }
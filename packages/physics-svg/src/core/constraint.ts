@@ -8,6 +8,36 @@ const ZERO: Vec2 = { x: 0, y: 0 };
  * configuration. Any omitted fields receive sensible defaults.
  *
  * Defaults: stiffness = 0.5, damping = 0.1, type = 'spring'.
+ *
+ * Hinge-only fields (`referenceAngle`, `lowerAngle`, `upperAngle`,
+ * `motorSpeed`, `maxMotorTorque`) are passed through unchanged; a hinge
+ * limit or motor is inactive while its field is undefined. Bodies joined
+ * by a hinge do not collide with each other unless `collideConnected` is set.
+ *
+ * Anchors are body-local for every type and turn with their bodies; a
+ * joint pulling on an off-center anchor spins the body as well as moving it.
+ *
+ * A `'rope'` keeps its anchors at most `length` apart and goes slack
+ * inside it. A `'prismatic'` joint lets anchorB slide along `axis` (body
+ * A's frame, default +x) through anchorA at a fixed relative angle, between
+ * `lowerTranslation` and `upperTranslation` where set; `axis` is copied.
+ * Like a hinge, it stops the joined bodies colliding unless
+ * `collideConnected` is set.
+ *
+ * `maxForce` makes any other constraint breakable: the world removes it,
+ * and emits `constraintBroken`, on the substep it applies more force than
+ * that (see `solveConstraints` for how each type measures it). Distance
+ * and pin constraints only move positions, which under the `'euler'`
+ * integrator leaves a hanging weight's velocity growing step after step,
+ * and their measured force with it — prefer ropes and hinges for joints
+ * that should snap.
+ *
+ * Drag joints take `target` and use `maxForce` as a pull limit instead;
+ * see {@link createDragJoint}.
+ *
+ * A `'custom'` constraint is solved by the function registered under its
+ * `solver` name with `PhysicsEngine.addConstraintSolver`; the other fields
+ * mean whatever that solver makes of them.
  */
 export function createConstraint(
   partial: Partial<Constraint> & { bodyA: string; bodyB: string },
@@ -22,5 +52,51 @@ export function createConstraint(
     stiffness: partial.stiffness ?? 0.5,
     damping: partial.damping ?? 0.1,
     length: partial.length,
+    referenceAngle: partial.referenceAngle,
+    lowerAngle: partial.lowerAngle,
+    upperAngle: partial.upperAngle,
+    motorSpeed: partial.motorSpeed,
+    maxMotorTorque: partial.maxMotorTorque,
+    collideConnected: partial.collideConnected,
+    axis: partial.axis ? { ...partial.axis } : undefined,
+    lowerTranslation: partial.lowerTranslation,
+    upperTranslation: partial.upperTranslation,
+    target: partial.target ? { ...partial.target } : undefined,
+    maxForce: partial.maxForce,
+    solver: partial.solver,
   };
 }
+
+/**
+ * Create a drag joint: a soft constraint pulling a point on `bodyId` toward
+ * a movable world-space `target`, as used for mouse/touch dragging.
+ *
+ * - `anchor` is the grab point in body-local coordinates (rotates with the
+ *   body). Defaults to the body origin.
+ * - `stiffness` is the spring frequency in Hz and `damping` the damping
+ *   ratio (1 = critical), so the feel does not depend on body mass.
+ *   Defaults: 5 Hz, 0.7.
+ * - `maxForce` caps the pull; unbounded if omitted.
+ *
+ * Only `bodyA` is pulled; `bodyB` is set to the same body and ignored.
+ * Move the target with `PhysicsEngine.setDragTarget`.
+ */
+export function createDragJoint(
+  bodyId: string,
+  target: Vec2,
+  options: Partial<Pick<Constraint, 'id' | 'stiffness' | 'damping' | 'maxForce'>> & {
+    anchor?: Vec2;
+  } = {},
+): Constraint {
+  return createConstraint({
+    id: options.id,
+    type: 'drag',
+    bodyA: bodyId,
+    bodyB: bodyId,
+    anchorA: options.anchor ? { ...options.anchor } : undefined,
+    stiffness: options.stiffness ?? 5,
+    damping: options.damping ?? 0.7,
+    maxForce: options.maxForce,
+    target,
+  });
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import type { ContactImpulse, WorldConfig } from '@mcp-tool-shop/siege-types';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { detectCollisions } from './collision.js';
+import {
+  createManifold,
+  contactResult,
+  impulseKey,
+  solveContacts,
+  storeImpulses,
+} from './contact.js';
+import type { ContactSolverOptions } from './contact.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const OPTIONS: ContactSolverOptions = {
+  iterations: 8,
+  penetrationSlop: 0.5,
+  baumgarte: 0.4,
+  restitutionThreshold: 20,
+};
+
+/** A 20×20 box resting on a static floor, overlapping it by 1px. */
+function boxOnFloor(overrides: Parameters<typeof createBody>[0] = {}) {
+  const floor = createBody({
+    id: 'floor',
+    isStatic: true,
+    position: { x: 0, y: 20 },
+    shape: { type: 'rect', width: 100, height: 20 },
+  });
+  const box = createBody({
+    id: 'box',
+    position: { x: 0, y: 1 },
+    shape: { type: 'rect', width: 20, height: 20 },
+    restitution: 0,
+    ...overrides,
+  });
+  const pair = detectCollisions([floor, box])[0]!;
+  return { floor, box, pair };
+}
+
+/** A floor with `count` boxes stacked on it, each resting on the last. */
+function tower(count: number, config: Partial<WorldConfig> = {}): PhysicsEngine {
+  const engine = new PhysicsEngine({
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 8,
+    ...config,
+  });
+  engine.addBody(
+    createBody({
+      id: 'floor',
+      isStatic: true,
+      position: { x: 200, y: 310 },
+      shape: { type: 'rect', width: 400, height: 20 },
+    }),
+  );
+  for (let i = 0; i < count; i++) {
+    engine.addBody(
+      createBody({
+        id: `box-${i}`,
+        position: { x: 200, y: 290 - 20 * i },
+        shape: { type: 'rect', width: 20, height: 20 },
+      }),
+    );
+  }
+  return engine;
+}
+
+function run(engine: PhysicsEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.stepOnce();
+}
+
+// ===========================================================================
+// SEQUENTIAL IMPULSES
+// ===========================================================================
+
+describe('solveContacts', () => {
+  it('stops a falling box evenly at both points', () => {
+    const { floor, box, pair } = boxOnFloor({ velocity: { x: 0, y: 50 } });
+    const manifold = createManifold(floor, box, pair);
+
+    solveContacts([manifold], OPTIONS);
+
+    const [p1, p2] = manifold.points;
+    expect(box.velocity.y).toBeCloseTo(0, 10);
+    expect(box.angularVelocity).toBeCloseTo(0, 10);
+    expect(p1!.normalImpulse).toBeCloseTo(p2!.normalImpulse, 10);
+    expect(contactResult(manifold)).toEqual({
+      normalSpeed: -50,
+      normalImpulse: expect.closeTo(50, 10),
+    });
+  });
+
+  it('never pulls: a stale warm-start impulse is taken back', () => {
+    const { floor, box, pair } = boxOnFloor({ velocity: { x: 0, y: -10 } });
+    const warm = storeImpulses([createManifold(floor, box, pair)]);
+    for (const impulse of warm.values()) impulse.normalImpulse = 30;
+
+    const manifold = createManifold(floor, box, pair, warm);
+    solveContacts([manifold], OPTIONS);
+
+    // Already separating, so none of the 60 warm-started units survive
+    expect(manifold.points.map((p) => p.normalImpulse)).toEqual([0, 0]);
+    expect(box.velocity.y).toBeCloseTo(-10, 10);
+  });
+
+  it('clamps accumulated friction to μ × the normal impulse', () => {
+    const { floor, box, pair } = boxOnFloor({
+      velocity: { x: 100, y: 10 },
+      friction: 0.5,
+    });
+    floor.friction = 0.5;
+    const manifold = createManifold(floor, box, pair);
+
+    solveContacts([manifold], OPTIONS);
+
+    for (const p of manifold.points) {
+      expect(Math.abs(p.tangentImpulse)).toBeCloseTo(0.5 * p.normalImpulse, 10);
+    }
+    // 10 px/s of normal impulse buys 5 px/s of friction
+    expect(box.velocity.x).toBeCloseTo(95, 10);
+  });
+
+  it('only bounces impacts faster than the restitution threshold', () => {
+    const slow = boxOnFloor({ velocity: { x: 0, y: 15 }, restitution: 1 });
+    solveContacts([createManifold(slow.floor, slow.box, slow.pair)], OPTIONS);
+    expect(slow.box.velocity.y).toBeCloseTo(0, 10);
+
+    const fast = boxOnFloor({ velocity: { x: 0, y: 40 }, restitution: 1 });
+    fast.floor.restitution = 1;
+    solveContacts([createManifold(fast.floor, fast.box, fast.pair)], OPTIONS);
+    expect(fast.box.velocity.y).toBeCloseTo(-40, 10);
+  });
+
+  it('corrects overlap beyond the slop by the baumgarte fraction', () => {
+    const { floor, box, pair } = boxOnFloor();
+    box.position.y = 5; // 5px into the floor
+    const deep = { ...pair, penetration: 5 };
+
+    solveContacts([createManifold(floor, box, deep)], { ...OPTIONS, baumgarte: 0.5 });
+
+    // Half of (5 - 0.5) pushed out, all of it by the box
+    expect(box.position.y).toBeCloseTo(5 - 2.25, 10);
+    expect(floor.position.y).toBe(20);
+  });
+});
+
+describe('warm starting', () => {
+  it('carries impulses between manifolds by feature', () => {
+    const { floor, box, pair } = boxOnFloor({ velocity: { x: 0, y: 50 } });
+    const first = createManifold(floor, box, pair);
+    solveContacts([first], OPTIONS);
+
+    const stored = storeImpulses([first]);
+    const key = impulseKey('floor', 'box', first.points[0]!.feature);
+    expect(stored.get(key)).toEqual<ContactImpulse>({
+      bodyA: 'floor',
+      bodyB: 'box',
+      feature: first.points[0]!.feature,
+      normalImpulse: first.points[0]!.normalImpulse,
+      tangentImpulse: first.points[0]!.tangentImpulse,
+    });
+
+    const next = createManifold(floor, box, pair, stored);
+    expect(next.points.map((p) => p.normalImpulse)).toEqual(
+      first.points.map((p) => p.normalImpulse),
+    );
+  });
+
+  it('ignores impulses stored for the pair the other way round', () => {
+    const { floor, box, pair } = boxOnFloor();
+    const stored = new Map<string, ContactImpulse>();
+    for (const { feature } of pair.points!) {
+      stored.set(impulseKey('box', 'floor', feature), {
+        bodyA: 'box',
+        bodyB: 'floor',
+        feature,
+        normalImpulse: 7,
+        tangentImpulse: 0,
+      });
+    }
+
+    const manifold = createManifold(floor, box, pair, stored);
+    expect(manifold.points.map((p) => p.normalImpulse)).toEqual([0, 0]);
+  });
+});
+
+// ===========================================================================
+// WORLD
+// ===========================================================================
+
+describe('stacking', () => {
+  it('a ten-box tower stands still and falls asleep at default thresholds', () => {
+    const engine = tower(10);
+    run(engine, 180);
+
+    for (let i = 0; i < 10; i++) {
+      const box = engine.getBody(`box-${i}`)!;
+      expect(box.isSleeping).toBe(true);
+      expect(Math.abs(box.position.x - 200)).toBeLessThan(0.01);
+      expect(Math.abs(box.angle)).toBeLessThan(1e-6);
+    }
+    // Each of the ten contacts sinks by no more than the slop
+    const top = engine.getBody('box-9')!;
+    expect(top.position.y).toBeLessThan(110 + 10 * 0.5);
+  });
+
+  it('a single solver pass per substep is not enough for a tall tower', () => {
+    const sag = (velocityIterations: number) => {
+      const engine = tower(10, { velocityIterations });
+      run(engine, 30);
+      return engine.getBody('box-9')!.position.y - 110;
+    };
+
+    expect(sag(1)).toBeGreaterThan(sag(8));
+  });
+
+  it('takes slop and baumgarte from the world config', () => {
+    const overlap = (config: Partial<WorldConfig>) => {
+      const engine = tower(1, { gravity: { x: 0, y: 0 }, ...config });
+      engine.setPosition('box-0', { x: 200, y: 294 }); // 4px into the floor
+      run(engine, 60);
+      return engine.getBody('box-0')!.position.y - 290;
+    };
+
+    expect(overlap({})).toBeCloseTo(0.5, 2);
+    expect(overlap({ penetrationSlop: 2 })).toBeCloseTo(2, 2);
+    expect(overlap({ baumgarte: 0 })).toBeCloseTo(4, 10);
+  });
+});
+
+describe('contact impulses in snapshots', () => {
+  it('are captured for resting contacts and restored', () => {
+    const engine = tower(3);
+    run(engine, 3); // still awake: sleeping pairs are not solved
+
+    const snap = engine.snapshot();
+    expect(snap.contactImpulses!.length).toBeGreaterThan(0);
+    expect(snap.contactImpulses!.every((c) => c.normalImpulse >= 0)).toBe(true);
+
+    const copy = new PhysicsEngine(snap.config);
+    copy.restore(snap);
+    expect(copy.snapshot().contactImpulses).toEqual(snap.contactImpulses);
+  });
+
+  it('a snapshot without them starts the solver cold', () => {
+    const engine = tower(3);
+    run(engine, 3);
+    const { contactImpulses: _, ...snap } = engine.snapshot();
+
+    engine.restore(snap);
+    expect(engine.snapshot().contactImpulses).toEqual([]);
+    run(engine, 1);
+    expect(engine.snapshot().contactImpulses!.length).toBeGreaterThan(0);
+  });
+});
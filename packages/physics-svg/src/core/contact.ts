@@ -0,0 +1,342 @@
+import type { ContactImpulse, PhysicsBody, Vec2 } from '@mcp-tool-shop/siege-types';
+import * as V from './vec2.js';
+import type { CollisionPair, ContactResult } from './collision.js';
+import { mixSurfaces } from './material.js';
+import type { SurfaceMix } from './material.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Contact solver settings; the world takes them from `WorldConfig`. */
+export interface ContactSolverOptions {
+  iterations: number; // velocity passes over every contact
+  penetrationSlop: number; // px of overlap left uncorrected
+  baumgarte: number; // fraction of the remaining overlap corrected per call
+  restitutionThreshold: number; // px/s; slower impacts don't bounce
+}
+
+export const DEFAULT_PENETRATION_SLOP = 0.5;
+export const DEFAULT_BAUMGARTE = 0.4;
+/**
+ * Above the speed gravity adds in one 60 Hz step (980 / 60 ≈ 16 px/s), so
+ * resting contacts don't bounce on every substep.
+ */
+export const DEFAULT_RESTITUTION_THRESHOLD = 20;
+
+/** Above this condition number a two-point manifold is solved point by point. */
+const MAX_CONDITION = 1000;
+
+/** One manifold point with the impulses it has accumulated so far. */
+interface SolverPoint {
+  feature: string;
+  rA: Vec2; // lever arms from each center to the point
+  rB: Vec2;
+  normalMass: number;
+  tangentMass: number;
+  normalImpulse: number;
+  tangentImpulse: number;
+  normalSpeed: number; // relative normal velocity before solving (< 0 = closing)
+  bounce: number; // separating speed restitution asks for, set by solveContacts
+}
+
+/** A colliding pair prepared for {@link solveContacts}. */
+export interface Manifold {
+  a: PhysicsBody;
+  b: PhysicsBody;
+  normal: Vec2; // from A to B
+  tangent: Vec2;
+  penetration: number;
+  friction: number;
+  restitution: number;
+  points: SolverPoint[];
+  /** Two-point normal mass matrix [k11, k12, k22], or null to solve per point. */
+  block: [number, number, number] | null;
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+/**
+ * Prepare a pair for solving. Each point of `pair.points` becomes a solver
+ * point; pairs without a manifold get a single point at `pair.contact`, or
+ * on the center line if that is missing too.
+ *
+ * Points found in `warm` (keyed by {@link impulseKey}) start from the
+ * impulses they ended the previous substep with. Friction and restitution
+ * come from `mix`; by default the bodies' own values are combined as
+ * √(μa·μb) and min(ea, eb).
+ */
+export function createManifold(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  pair: CollisionPair,
+  warm?: ReadonlyMap<string, ContactImpulse>,
+  mix: SurfaceMix = mixSurfaces(a, b),
+): Manifold {
+  const { normal } = pair;
+  const tangent = V.perpL(normal);
+  const points = pair.points ?? [
+    { point: pair.contact, penetration: pair.penetration, feature: '' },
+  ];
+
+  const solverPoints = points.map(({ point, feature }): SolverPoint => {
+    const rA = point ? V.sub(point, a.position) : V.zero();
+    const rB = point ? V.sub(point, b.position) : V.zero();
+    const normalSpeed = V.dot(relativeVelocity(a, b, rA, rB), normal);
+    const previous = warm?.get(impulseKey(a.id, b.id, feature));
+
+    return {
+      feature,
+      rA,
+      rB,
+      normalMass: effectiveMass(a, b, rA, rB, normal),
+      tangentMass: effectiveMass(a, b, rA, rB, tangent),
+      normalImpulse: previous?.normalImpulse ?? 0,
+      tangentImpulse: previous?.tangentImpulse ?? 0,
+      normalSpeed,
+      bounce: 0,
+    };
+  });
+
+  return {
+    a,
+    b,
+    normal,
+    tangent,
+    penetration: pair.penetration,
+    friction: mix.friction,
+    restitution: mix.restitution,
+    points: solverPoints,
+    block: solverPoints.length === 2 ? blockMass(a, b, solverPoints, normal) : null,
+  };
+}
+
+/** Inverse of the pair's resistance to an impulse along `dir` at rA/rB. */
+function effectiveMass(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  rA: Vec2,
+  rB: Vec2,
+  dir: Vec2,
+): number {
+  const rnA = V.cross(rA, dir);
+  const rnB = V.cross(rB, dir);
+  const k = a.invMass + b.invMass + rnA * rnA * a.invInertia + rnB * rnB * b.invInertia;
+  return k > 1e-10 ? 1 / k : 0;
+}
+
+/**
+ * Coupling between the normal impulses of a two-point manifold, or null if
+ * it is too ill-conditioned to invert (the points nearly coincide).
+ */
+function blockMass(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  [p1, p2]: SolverPoint[],
+  normal: Vec2,
+): [number, number, number] | null {
+  const rn1A = V.cross(p1!.rA, normal);
+  const rn1B = V.cross(p1!.rB, normal);
+  const rn2A = V.cross(p2!.rA, normal);
+  const rn2B = V.cross(p2!.rB, normal);
+  const m = a.invMass + b.invMass;
+
+  const k11 = m + a.invInertia * rn1A * rn1A + b.invInertia * rn1B * rn1B;
+  const k22 = m + a.invInertia * rn2A * rn2A + b.invInertia * rn2B * rn2B;
+  const k12 = m + a.invInertia * rn1A * rn2A + b.invInertia * rn1B * rn2B;
+  return k11 * k11 < MAX_CONDITION * (k11 * k22 - k12 * k12) ? [k11, k12, k22] : null;
+}
+
+// ---------------------------------------------------------------------------
+// Sequential Impulses
+// ---------------------------------------------------------------------------
+
+/**
+ * Solve all contacts together:
+ *
+ * 1. Warm start: re-apply each point's accumulated impulses. Points closing
+ *    faster than `restitutionThreshold` are set to bounce back at
+ *    restitution × their closing speed
+ * 2. Sweep every manifold `iterations` times, solving the normal impulses
+ *    and then friction against the relative velocity left by the previous
+ *    corrections. Accumulated impulses are clamped rather than each
+ *    increment, so a pass may take back what an earlier one overdid: the
+ *    normal impulse never pulls, friction stays within μ × normal impulse.
+ * 3. Push overlapping pairs apart by `baumgarte` of their overlap beyond
+ *    `penetrationSlop` (Baumgarte stabilization on positions)
+ */
+export function solveContacts(manifolds: Manifold[], options: ContactSolverOptions): void {
+  for (const m of manifolds) {
+    for (const p of m.points) {
+      const closing = -p.normalSpeed;
+      p.bounce = closing > options.restitutionThreshold ? m.restitution * closing : 0;
+      applyContactImpulse(
+        m.a,
+        m.b,
+        p.rA,
+        p.rB,
+        p.normalImpulse * m.normal.x + p.tangentImpulse * m.tangent.x,
+        p.normalImpulse * m.normal.y + p.tangentImpulse * m.tangent.y,
+      );
+    }
+  }
+
+  const iterations = Math.max(options.iterations, 1);
+  for (let i = 0; i < iterations; i++) {
+    for (const m of manifolds) solveVelocity(m);
+  }
+
+  for (const m of manifolds) correctPosition(m, options);
+}
+
+function solveVelocity(m: Manifold): void {
+  const { a, b, normal, tangent } = m;
+
+  if (m.block) {
+    solveBlock(m, m.block);
+  } else {
+    for (const p of m.points) {
+      const vn = V.dot(relativeVelocity(a, b, p.rA, p.rB), normal);
+      const normalImpulse = Math.max(p.normalImpulse - p.normalMass * (vn - p.bounce), 0);
+      applyNormalImpulse(m, p, normalImpulse - p.normalImpulse);
+      p.normalImpulse = normalImpulse;
+    }
+  }
+
+  // Coulomb clamp against the normal impulse accumulated so far
+  for (const p of m.points) {
+    const vt = V.dot(relativeVelocity(a, b, p.rA, p.rB), tangent);
+    const maxFriction = m.friction * p.normalImpulse;
+    const tangentImpulse = Math.max(
+      -maxFriction,
+      Math.min(p.tangentImpulse - p.tangentMass * vt, maxFriction),
+    );
+    const jt = tangentImpulse - p.tangentImpulse;
+    p.tangentImpulse = tangentImpulse;
+    applyContactImpulse(a, b, p.rA, p.rB, jt * tangent.x, jt * tangent.y);
+  }
+}
+
+/**
+ * Solve both normal impulses of a two-point manifold at once (Box2D's block
+ * solver). Solving them one after the other would favour whichever point
+ * goes first, rocking resting boxes. Tries each combination of active
+ * points — both, first only, second only, neither — and takes the first
+ * with non-negative impulses and no approach at the inactive point.
+ */
+function solveBlock(m: Manifold, [k11, k12, k22]: [number, number, number]): void {
+  const p1 = m.points[0]!;
+  const p2 = m.points[1]!;
+  const vn1 = V.dot(relativeVelocity(m.a, m.b, p1.rA, p1.rB), m.normal);
+  const vn2 = V.dot(relativeVelocity(m.a, m.b, p2.rA, p2.rB), m.normal);
+
+  // Speeds the accumulated impulses x must produce: K·x + b = bounce
+  const b1 = vn1 - p1.bounce - (k11 * p1.normalImpulse + k12 * p2.normalImpulse);
+  const b2 = vn2 - p2.bounce - (k12 * p1.normalImpulse + k22 * p2.normalImpulse);
+
+  const det = k11 * k22 - k12 * k12;
+  let x1 = (k12 * b2 - k22 * b1) / det;
+  let x2 = (k12 * b1 - k11 * b2) / det;
+  if (x1 < 0 || x2 < 0) {
+    x1 = -b1 / k11;
+    x2 = 0;
+    if (x1 < 0 || k12 * x1 + b2 < 0) {
+      x1 = 0;
+      x2 = -b2 / k22;
+      if (x2 < 0 || k12 * x2 + b1 < 0) {
+        x2 = 0;
+        if (b1 < 0 || b2 < 0) return; // no valid combination; keep the last impulses
+      }
+    }
+  }
+
+  applyNormalImpulse(m, p1, x1 - p1.normalImpulse);
+  applyNormalImpulse(m, p2, x2 - p2.normalImpulse);
+  p1.normalImpulse = x1;
+  p2.normalImpulse = x2;
+}
+
+function applyNormalImpulse(m: Manifold, p: SolverPoint, j: number): void {
+  applyContactImpulse(m.a, m.b, p.rA, p.rB, j * m.normal.x, j * m.normal.y);
+}
+
+function correctPosition(m: Manifold, options: ContactSolverOptions): void {
+  const { a, b, normal } = m;
+  const totalInvMass = a.invMass + b.invMass;
+  if (totalInvMass < 1e-10) return;
+
+  const corrMag =
+    (Math.max(m.penetration - options.penetrationSlop, 0) * options.baumgarte) / totalInvMass;
+
+  a.position.x -= corrMag * a.invMass * normal.x;
+  a.position.y -= corrMag * a.invMass * normal.y;
+  b.position.x += corrMag * b.invMass * normal.x;
+  b.position.y += corrMag * b.invMass * normal.y;
+}
+
+/** Velocity of B relative to A at the contact: (vB + ωB × rB) − (vA + ωA × rA). */
+function relativeVelocity(a: PhysicsBody, b: PhysicsBody, rA: Vec2, rB: Vec2): Vec2 {
+  return {
+    x: b.velocity.x - b.angularVelocity * rB.y - (a.velocity.x - a.angularVelocity * rA.y),
+    y: b.velocity.y + b.angularVelocity * rB.x - (a.velocity.y + a.angularVelocity * rA.x),
+  };
+}
+
+/** Apply equal and opposite impulse (px, py) to A and B at lever arms rA, rB. */
+function applyContactImpulse(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  rA: Vec2,
+  rB: Vec2,
+  px: number,
+  py: number,
+): void {
+  a.velocity.x -= px * a.invMass;
+  a.velocity.y -= py * a.invMass;
+  a.angularVelocity -= (rA.x * py - rA.y * px) * a.invInertia;
+  b.velocity.x += px * b.invMass;
+  b.velocity.y += py * b.invMass;
+  b.angularVelocity += (rB.x * py - rB.y * px) * b.invInertia;
+}
+
+// ---------------------------------------------------------------------------
+// Results & Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * Summary of a solved manifold for collision events: the fastest closing
+ * speed of any point and the total normal impulse applied.
+ */
+export function contactResult(m: Manifold): ContactResult {
+  let normalSpeed = Infinity;
+  let normalImpulse = 0;
+  for (const p of m.points) {
+    normalSpeed = Math.min(normalSpeed, p.normalSpeed);
+    normalImpulse += p.normalImpulse;
+  }
+  return { normalSpeed, normalImpulse };
+}
+
+/** Lookup key for a point's warm-start impulses. */
+export function impulseKey(bodyA: string, bodyB: string, feature: string): string {
+  return `${bodyA}|${bodyB}|${feature}`;
+}
+
+/** The accumulated impulses of every solved point, for the next substep. */
+export function storeImpulses(manifolds: Manifold[]): Map<string, ContactImpulse> {
+  const impulses = new Map<string, ContactImpulse>();
+  for (const { a, b, points } of manifolds) {
+    for (const p of points) {
+      impulses.set(impulseKey(a.id, b.id, p.feature), {
+        bodyA: a.id,
+        bodyB: b.id,
+        feature: p.feature,
+        normalImpulse: p.normalImpulse,
+        tangentImpulse: p.tangentImpulse,
+      });
+    }
+  }
+  return impulses;
+}
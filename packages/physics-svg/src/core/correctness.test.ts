@@ -2,7 +2,9 @@ import { describe, it, expect } from 'vitest';
 import { PhysicsEngine } from './engine.js';
 import { createBody } from './body.js';
 import { createConstraint } from './constraint.js';
-import type { WorldConfig } from '@mcp-tool-shop/siege-types';
+import { computeAABB, parsePoints } from './shapes.js';
+import type { IntegratorType, WorldConfig } from '@mcp-tool-shop/siege-types';
+import type { ConstraintEvent } from './events.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -896,4 +898,547 @@ describe('Physics Correctness', () => {
       expect(b1.position.x).not.toBeCloseTo(b2.position.x, 1);
     });
   });
+
+  // ---- 9. Hinge pendulum --------------------------------------------------
+
+  describe('hinge pendulum', () => {
+    function createHingedBar(extra: Partial<Parameters<typeof createConstraint>[0]> = {}) {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 980 } }));
+
+      engine.addBody(
+        createBody({ id: 'pivot', isStatic: true, position: { x: 300, y: 100 } }),
+      );
+      engine.addBody(
+        createBody({
+          id: 'bar',
+          position: { x: 350, y: 100 },
+          shape: { type: 'rect', width: 100, height: 10 },
+        }),
+      );
+      engine.addConstraint(
+        createConstraint({
+          id: 'hinge',
+          type: 'hinge',
+          bodyA: 'pivot',
+          bodyB: 'bar',
+          anchorB: { x: -50, y: 0 },
+          stiffness: 1,
+          ...extra,
+        }),
+      );
+
+      return engine;
+    }
+
+    it('swings about the pivot while keeping the anchors together', () => {
+      const engine = createHingedBar();
+      let maxGap = 0;
+      let maxAngle = 0;
+
+      for (let i = 0; i < 120; i++) {
+        engine.update(1 / 60);
+        const bar = engine.getBody('bar')!;
+        const end = {
+          x: bar.position.x - 50 * Math.cos(bar.angle),
+          y: bar.position.y - 50 * Math.sin(bar.angle),
+        };
+        maxGap = Math.max(maxGap, Math.hypot(end.x - 300, end.y - 100));
+        maxAngle = Math.max(maxAngle, bar.angle);
+      }
+
+      const bar = engine.getBody('bar')!;
+      expect(maxGap).toBeLessThan(1);
+      // Gravity swings the free end down, past vertical (π/2)
+      expect(maxAngle).toBeGreaterThan(Math.PI / 2);
+      // Its center stays on the 50px circle around the pivot
+      expect(Math.hypot(bar.position.x - 300, bar.position.y - 100)).toBeCloseTo(50, 0);
+    });
+
+    it('stops at the upper limit', () => {
+      const engine = createHingedBar({ lowerAngle: -0.2, upperAngle: 0.4 });
+
+      runFor(engine, 2);
+
+      const bar = engine.getBody('bar')!;
+      expect(bar.angle).toBeLessThan(0.45);
+      expect(bar.angle).toBeGreaterThan(0.3);
+    });
+  });
+
+  // ---- 10. Integrators ----------------------------------------------------
+
+  describe('integrators', () => {
+    const g = 980;
+
+    /** Kinetic minus gravitational potential energy per unit mass (y-down). */
+    function energy(engine: PhysicsEngine, ids: string[]): number {
+      let total = 0;
+      for (const id of ids) {
+        const body = engine.getBody(id)!;
+        total += 0.5 * (body.velocity.x ** 2 + body.velocity.y ** 2) - g * body.position.y;
+      }
+      return total;
+    }
+
+    /**
+     * A chain of `links` 25px distance links hanging from a static pivot,
+     * released horizontally. Bob masses are large so the built-in drag is
+     * negligible next to integration error.
+     */
+    function createChain(integrator: IntegratorType | undefined, links: number) {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: g }, integrator }));
+      engine.addBody(createBody({ id: 'pivot', isStatic: true, position: { x: 300, y: 100 } }));
+
+      const ids: string[] = [];
+      for (let i = 1; i <= links; i++) {
+        ids.push(`link-${i}`);
+        engine.addBody(
+          createBody({
+            id: `link-${i}`,
+            mass: 1000,
+            position: { x: 300 + 25 * i, y: 100 },
+            shape: { type: 'circle', radius: 3 },
+          }),
+        );
+        engine.addConstraint(
+          createConstraint({
+            id: `rope-${i}`,
+            type: 'distance',
+            bodyA: i === 1 ? 'pivot' : `link-${i - 1}`,
+            bodyB: `link-${i}`,
+            length: 25,
+            stiffness: 1,
+          }),
+        );
+      }
+      return { engine, ids };
+    }
+
+    /** Largest energy gain and link stretch seen over `seconds`. */
+    function swing(integrator: IntegratorType, links: number, seconds: number) {
+      const { engine, ids } = createChain(integrator, links);
+      const e0 = energy(engine, ids);
+      let gain = 0;
+      let stretch = 0;
+
+      for (let i = 0; i < seconds * 60; i++) {
+        engine.update(1 / 60);
+        gain = Math.max(gain, energy(engine, ids) - e0);
+        let prev = engine.getBody('pivot')!.position;
+        for (const id of ids) {
+          const { position } = engine.getBody(id)!;
+          const length = Math.hypot(position.x - prev.x, position.y - prev.y);
+          stretch = Math.max(stretch, Math.abs(length - 25));
+          prev = position;
+        }
+      }
+      return { gain, stretch, drift: energy(engine, ids) - e0 };
+    }
+
+    it('euler is the default', () => {
+      const explicit = createChain('euler', 3).engine;
+      const implicit = createChain(undefined, 3).engine;
+
+      runFor(explicit, 1);
+      runFor(implicit, 1);
+
+      for (const body of explicit.getBodies()) {
+        expect(implicit.getBody(body.id)!.position).toEqual(body.position);
+      }
+    });
+
+    it('velocity verlet conserves free-fall energy that euler loses', () => {
+      const drift = (integrator: IntegratorType) => {
+        const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: g }, integrator }));
+        engine.addBody(
+          createBody({ id: 'ball', mass: 1000, shape: { type: 'circle', radius: 5 } }),
+        );
+        const e0 = energy(engine, ['ball']);
+        runFor(engine, 1);
+        return energy(engine, ['ball']) - e0;
+      };
+
+      // Semi-implicit Euler lags the exact fall by ½g·dt per unit time:
+      // ½g²·dt·t ≈ 2000 (px/s)² after a second of 240 Hz substeps
+      expect(drift('euler')).toBeCloseTo(-0.5 * g * g * (1 / 240), -2);
+      expect(Math.abs(drift('velocity-verlet'))).toBeLessThan(10);
+    });
+
+    it('a rope pendulum gains energy without bound under euler but not under verlet', () => {
+      const euler = swing('euler', 1, 5);
+      const verlet = swing('verlet', 1, 5);
+      // Scale: the energy released swinging down the full rope length
+      const scale = g * 25;
+
+      expect(euler.gain).toBeGreaterThan(100 * scale);
+      expect(verlet.gain).toBeLessThan(1e-6 * scale);
+      // Projection only ever removes energy, and not much of it
+      expect(Math.abs(verlet.drift)).toBeLessThan(scale);
+    });
+
+    it('a four-link chain holds its length under verlet', () => {
+      const euler = swing('euler', 4, 5);
+      const verlet = swing('verlet', 4, 5);
+
+      expect(euler.stretch).toBeGreaterThan(1);
+      expect(verlet.stretch).toBeLessThan(0.1);
+      expect(verlet.gain).toBeLessThan(1e-6);
+    });
+
+    it('verlet turns the push out of a resting overlap into velocity; euler does not', () => {
+      const pushOut = (integrator: IntegratorType) => {
+        const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 }, integrator }));
+        engine.addBody(
+          createBody({
+            id: 'floor',
+            isStatic: true,
+            position: { x: 0, y: 100 },
+            shape: { type: 'rect', width: 200, height: 20 },
+          }),
+        );
+        // Resting 5px deep in the floor's top face
+        engine.addBody(
+          createBody({
+            id: 'box',
+            position: { x: 0, y: 85 },
+            shape: { type: 'rect', width: 20, height: 20 },
+            restitution: 0,
+          }),
+        );
+        engine.stepOnce();
+        return engine.getBody('box')!;
+      };
+
+      const euler = pushOut('euler');
+      const verlet = pushOut('verlet');
+
+      // Both are pushed up, but only verlet keeps moving the way it was
+      // pushed, and so ends up further out
+      expect(euler.position.y).toBeLessThan(85);
+      expect(verlet.position.y).toBeLessThan(euler.position.y);
+      expect(euler.velocity.y).toBeCloseTo(0, 10);
+      expect(verlet.velocity.y).toBeLessThan(-1);
+    });
+
+    it('verlet still lets a box come to rest on the floor', () => {
+      const engine = new PhysicsEngine(
+        defaultConfig({ gravity: { x: 0, y: g }, integrator: 'verlet' }),
+      );
+      engine.addBody(
+        createBody({
+          id: 'floor',
+          isStatic: true,
+          position: { x: 0, y: 300 },
+          shape: { type: 'rect', width: 400, height: 20 },
+        }),
+      );
+      engine.addBody(
+        createBody({
+          id: 'box',
+          position: { x: 0, y: 200 },
+          shape: { type: 'rect', width: 20, height: 20 },
+        }),
+      );
+
+      runFor(engine, 3);
+
+      expect(engine.getBody('box')!.isSleeping).toBe(true);
+    });
+
+    it('every integrator keeps previousPosition one substep behind', () => {
+      for (const integrator of ['euler', 'verlet', 'velocity-verlet'] as const) {
+        const engine = new PhysicsEngine(defaultConfig({ integrator }));
+        engine.addBody(createBody({ id: 'ball', velocity: { x: 240, y: 0 } }));
+
+        runFor(engine, 0.5);
+
+        const ball = engine.getBody('ball')!;
+        const moved = ball.position.x - ball.previousPosition.x;
+        expect(moved).toBeCloseTo(ball.velocity.x / 240, 1);
+      }
+    });
+  });
+
+  // ---- 11. Ropes and sliders ----------------------------------------------
+
+  describe('ropes and sliders', () => {
+    /** A weight hanging from a 100px rope; `drop` px of slack to fall first. */
+    function createHangingWeight(mass: number, drop = 0) {
+      const engine = new PhysicsEngine(defaultConfig());
+      const events: ConstraintEvent[] = [];
+      engine.on('constraintBroken', (e) => events.push(e));
+
+      engine.addBody(createBody({ id: 'hook', isStatic: true, position: { x: 300, y: 100 } }));
+      engine.addBody(createBody({ id: 'weight', mass, position: { x: 300, y: 200 - drop } }));
+      engine.addConstraint(
+        createConstraint({
+          id: 'rope',
+          type: 'rope',
+          bodyA: 'hook',
+          bodyB: 'weight',
+          length: 100,
+          maxForce: 1500,
+        }),
+      );
+
+      return { engine, events };
+    }
+
+    it('a rope holds a weight it is strong enough for, at its length', () => {
+      const { engine, events } = createHangingWeight(1);
+
+      runFor(engine, 2);
+
+      expect(engine.getConstraints()).toHaveLength(1);
+      expect(events).toEqual([]);
+      expect(engine.getBody('weight')!.position.y).toBeCloseTo(200, 1);
+    });
+
+    it('snaps under a heavier weight and emits constraintBroken', () => {
+      const { engine, events } = createHangingWeight(2);
+
+      engine.stepOnce();
+
+      expect(engine.getConstraints()).toEqual([]);
+      expect(events).toEqual([
+        { constraint: 'rope', bodyA: 'hook', bodyB: 'weight', force: expect.closeTo(1960, 0) },
+      ]);
+
+      runFor(engine, 1);
+      expect(engine.getBody('weight')!.position.y).toBeGreaterThan(400);
+    });
+
+    it('snaps when jerked taut, even by a weight it could hold at rest', () => {
+      const { engine, events } = createHangingWeight(1, 20);
+
+      runFor(engine, 1);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.force).toBeGreaterThan(1500);
+    });
+
+    it('a slider on a tilted rail slides down to its limit and stays on the rail', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(
+        createBody({
+          id: 'rail',
+          isStatic: true,
+          angle: Math.PI / 6,
+          position: { x: 100, y: 100 },
+        }),
+      );
+      engine.addBody(createBody({ id: 'car', position: { x: 100, y: 100 } }));
+      engine.addConstraint(
+        createConstraint({
+          type: 'prismatic',
+          bodyA: 'rail',
+          bodyB: 'car',
+          referenceAngle: -Math.PI / 6,
+          lowerTranslation: 0,
+          upperTranslation: 200,
+          stiffness: 1,
+        }),
+      );
+
+      runFor(engine, 2);
+
+      const car = engine.getBody('car')!;
+      const along = { x: Math.cos(Math.PI / 6), y: Math.sin(Math.PI / 6) };
+      const offset = { x: car.position.x - 100, y: car.position.y - 100 };
+      expect(offset.x * along.x + offset.y * along.y).toBeCloseTo(200, 0);
+      expect(offset.y * along.x - offset.x * along.y).toBeCloseTo(0, 1);
+      expect(car.angle).toBeCloseTo(0, 5);
+    });
+  });
+
+  // ---- 12. Compound bodies ------------------------------------------------
+
+  describe('compound bodies', () => {
+    function createFloorWorld(): PhysicsEngine {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(
+        createBody({
+          id: 'floor',
+          isStatic: true,
+          position: { x: 300, y: 410 },
+          shape: { type: 'rect', width: 600, height: 20 },
+        }),
+      );
+      return engine;
+    }
+
+    it('a table of three parts stands on its legs as one rigid body', () => {
+      const engine = createFloorWorld();
+      engine.addBody(
+        createBody({
+          id: 'table',
+          position: { x: 300, y: 300 },
+          shape: {
+            type: 'compound',
+            parts: [
+              { shape: { type: 'rect', width: 100, height: 10 }, offset: { x: 0, y: 0 } },
+              { shape: { type: 'rect', width: 10, height: 40 }, offset: { x: -45, y: 25 } },
+              { shape: { type: 'rect', width: 10, height: 40 }, offset: { x: 45, y: 25 } },
+            ],
+          },
+        }),
+      );
+
+      runFor(engine, 3);
+
+      const table = engine.getBody('table')!;
+      const box = computeAABB(table);
+      expect(table.angle).toBeCloseTo(0, 3);
+      // Legs resting on the floor top, within the penetration slop
+      expect(box.max.y).toBeGreaterThan(399.5);
+      expect(box.max.y).toBeLessThan(401);
+      expect(box.max.x - box.min.x).toBeCloseTo(100, 1);
+      expect(Math.abs(table.velocity.y)).toBeLessThan(1);
+    });
+
+    it('a dumbbell dropped at an angle rolls level onto both ends', () => {
+      const engine = createFloorWorld();
+      engine.addBody(
+        createBody({
+          id: 'bell',
+          position: { x: 300, y: 300 },
+          angle: 0.5,
+          shape: {
+            type: 'compound',
+            parts: [
+              { shape: { type: 'circle', radius: 10 }, offset: { x: -30, y: 0 } },
+              { shape: { type: 'circle', radius: 10 }, offset: { x: 30, y: 0 } },
+            ],
+          },
+        }),
+      );
+
+      let spun = false;
+      for (let i = 0; i < 240; i++) {
+        engine.update(1 / 60);
+        spun ||= engine.getBody('bell')!.angularVelocity < -1;
+      }
+
+      const bell = engine.getBody('bell')!;
+      // Landing on the low end swings the high end down
+      expect(spun).toBe(true);
+      expect(Math.sin(bell.angle)).toBeCloseTo(0, 1);
+      expect(bell.position.y).toBeCloseTo(390, 0);
+    });
+  });
+
+  // ---- 13. Capsules, segments and chains ----------------------------------
+
+  describe('capsules, segments and chains', () => {
+    it('a checker dropped on a point\'s tip slides off into the valley beside it', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      // The board frame, wound to face in, and two points drawn from their SVG strings
+      engine.addBody(
+        createBody({
+          id: 'frame',
+          isStatic: true,
+          shape: {
+            type: 'chain',
+            vertices: parsePoints('30,30 30,670 870,670 870,30'),
+            loop: true,
+          },
+        }),
+      );
+      for (const [id, points] of [
+        ['point1', '870,670 840,670 855,400'],
+        ['point2', '840,670 810,670 825,400'],
+      ]) {
+        engine.addBody(
+          createBody({
+            id,
+            isStatic: true,
+            shape: { type: 'chain', vertices: parsePoints(points!), loop: true },
+          }),
+        );
+      }
+      engine.addBody(
+        createBody({
+          id: 'checker',
+          position: { x: 852, y: 300 },
+          shape: { type: 'circle', radius: 12 },
+        }),
+      );
+
+      let lowest = -Infinity;
+      for (let i = 0; i < 300; i++) {
+        engine.update(1 / 60);
+        lowest = Math.max(lowest, engine.getBody('checker')!.position.y);
+      }
+
+      const checker = engine.getBody('checker')!;
+      // Off the tip to the left, wedged between the two points above the frame
+      expect(checker.position.x).toBeGreaterThan(825);
+      expect(checker.position.x).toBeLessThan(855);
+      expect(checker.position.y).toBeGreaterThan(400);
+      expect(lowest).toBeLessThan(658.5);
+      expect(Math.hypot(checker.velocity.x, checker.velocity.y)).toBeLessThan(5);
+    });
+
+    it('a capsule dropped on a tilt comes to rest lying along a segment', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(
+        createBody({
+          id: 'rail',
+          isStatic: true,
+          shape: { type: 'segment', start: { x: 0, y: 400 }, end: { x: 600, y: 400 } },
+        }),
+      );
+      engine.addBody(
+        createBody({
+          id: 'pill',
+          position: { x: 300, y: 300 },
+          angle: 0.4,
+          shape: { type: 'capsule', length: 60, radius: 10 },
+        }),
+      );
+
+      runFor(engine, 4);
+
+      const pill = engine.getBody('pill')!;
+      // Level to within the penetration slop across its length
+      expect(Math.sin(pill.angle)).toBeCloseTo(0, 1);
+      expect(pill.position.y).toBeGreaterThan(389.5);
+      expect(pill.position.y).toBeLessThan(391);
+      expect(Math.abs(pill.angularVelocity)).toBeLessThan(0.1);
+    });
+
+    it('a chain is a one-way platform: up through from below, then landed on', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(
+        createBody({
+          id: 'ledge',
+          isStatic: true,
+          shape: {
+            type: 'chain',
+            vertices: [
+              { x: 200, y: 300 },
+              { x: 400, y: 300 },
+            ],
+          },
+        }),
+      );
+      engine.addBody(
+        createBody({
+          id: 'ball',
+          position: { x: 300, y: 400 },
+          velocity: { x: 0, y: -800 },
+          restitution: 0,
+          shape: { type: 'circle', radius: 10 },
+        }),
+      );
+
+      runFor(engine, 3);
+
+      const ball = engine.getBody('ball')!;
+      // Resting on top, within the penetration slop
+      expect(ball.position.y).toBeGreaterThan(289.5);
+      expect(ball.position.y).toBeLessThan(291);
+      expect(Math.abs(ball.velocity.y)).toBeLessThan(1);
+    });
+  });
 });
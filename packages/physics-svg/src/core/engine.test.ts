@@ -82,6 +82,20 @@ describe('PhysicsEngine', () => {
       expect(engine.getBody('ball-2')).toBeUndefined();
     });
 
+    it('removes the constraints attached to a removed body', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'a' }));
+      engine.addBody(createBody({ id: 'b' }));
+      engine.addBody(createBody({ id: 'c' }));
+      engine.addConstraint(createConstraint({ id: 'ab', bodyA: 'a', bodyB: 'b' }));
+      engine.addConstraint(createConstraint({ id: 'bc', bodyA: 'b', bodyB: 'c' }));
+      engine.addConstraint(createConstraint({ id: 'ca', bodyA: 'c', bodyB: 'a' }));
+
+      engine.removeBody('b');
+
+      expect(engine.getConstraints().map((c) => c.id)).toEqual(['ca']);
+    });
+
     it('getBody returns undefined for nonexistent id', () => {
       const engine = new PhysicsEngine(defaultConfig());
       expect(engine.getBody('does-not-exist')).toBeUndefined();
@@ -244,6 +258,64 @@ describe('PhysicsEngine', () => {
     });
   });
 
+  describe('applyImpulse at a point', () => {
+    it('an off-center impulse changes angular velocity by r × J / I', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'box', inertia: 10 }));
+
+      // r = (0, -5), J = (20, 0) → r × J = 0*0 - (-5)*20 = 100
+      engine.applyImpulse('box', { x: 20, y: 0 }, { x: 0, y: -5 });
+
+      const body = engine.getBody('box')!;
+      expect(body.velocity.x).toBeCloseTo(20, 10);
+      expect(body.angularVelocity).toBeCloseTo(10, 10);
+    });
+
+    it('an impulse through the center does not spin the body', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'ball', position: { x: 3, y: 4 } }));
+
+      engine.applyImpulse('ball', { x: 5, y: 5 }, { x: 3, y: 4 });
+
+      expect(engine.getBody('ball')!.angularVelocity).toBe(0);
+    });
+  });
+
+  describe('setAngle / setAngularVelocity', () => {
+    it('setAngle sets both angle and previousAngle', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'b' }));
+
+      engine.setAngle('b', 1.5);
+
+      const body = engine.getBody('b')!;
+      expect(body.angle).toBe(1.5);
+      expect(body.previousAngle).toBe(1.5);
+    });
+
+    it('setAngularVelocity spins the body during update', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      engine.addBody(createBody({ id: 'spinner' }));
+
+      engine.setAngularVelocity('spinner', Math.PI);
+      engine.update(1 / 60);
+
+      expect(engine.getBody('spinner')!.angle).toBeCloseTo(Math.PI / 60, 10);
+    });
+
+    it('getInterpolatedAngle blends previousAngle and angle by alpha', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      const body = createBody({ id: 'b', angularVelocity: 6 });
+      engine.addBody(body);
+
+      engine.update(1 / 60 + 1 / 120); // one step + half the accumulator
+
+      const expected = body.previousAngle + (body.angle - body.previousAngle) * engine.alpha;
+      expect(engine.alpha).toBeCloseTo(0.5, 5);
+      expect(engine.getInterpolatedAngle(body)).toBeCloseTo(expected, 10);
+    });
+  });
+
   // ---- setPosition --------------------------------------------------------
 
   describe('setPosition', () => {
@@ -331,6 +403,52 @@ describe('PhysicsEngine', () => {
     });
   });
 
+  // ---- setCollisionFilter -------------------------------------------------
+
+  describe('setCollisionFilter', () => {
+    it('merges the given fields into the current filter', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'f' }));
+
+      engine.setCollisionFilter('f', { maskBits: 0x0002 });
+
+      expect(engine.getBody('f')!.collisionFilter).toEqual({
+        categoryBits: 0x0001,
+        maskBits: 0x0002,
+        groupIndex: 0,
+      });
+    });
+
+    it('wakes a sleeping body', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'sf', isSleeping: true }));
+
+      engine.setCollisionFilter('sf', { groupIndex: -1 });
+
+      expect(engine.getBody('sf')!.isSleeping).toBe(false);
+    });
+
+    it('lets a dragged body pass through others at runtime', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      engine.addBody(
+        createBody({ id: 'held', position: { x: 0, y: 0 }, velocity: { x: 300, y: 0 } }),
+      );
+      engine.addBody(createBody({ id: 'resting', position: { x: 40, y: 0 } }));
+
+      // Put the held body in a category the board pieces ignore
+      engine.setCollisionFilter('held', { categoryBits: 0x0002, maskBits: 0 });
+      for (let i = 0; i < 30; i++) engine.update(1 / 60);
+
+      expect(engine.getBody('held')!.position.x).toBeGreaterThan(60);
+      expect(engine.getBody('resting')!.position.x).toBe(40);
+    });
+
+    it('does not crash on nonexistent body', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      expect(() => engine.setCollisionFilter('nope', { maskBits: 0 })).not.toThrow();
+    });
+  });
+
   // ---- update (fixed timestep) --------------------------------------------
 
   describe('update', () => {
@@ -441,6 +559,169 @@ describe('PhysicsEngine', () => {
     });
   });
 
+  // ---- paused / timeScale -------------------------------------------------
+
+  describe('paused', () => {
+    it('stops update from stepping, and drops the paused frame time', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'ball', position: { x: 0, y: 0 } }));
+
+      engine.paused = true;
+      engine.update(0.1);
+      expect(engine.stepCount).toBe(0);
+      expect(engine.getBody('ball')!.position.y).toBe(0);
+
+      engine.paused = false;
+      engine.update(1 / 60);
+      expect(engine.stepCount).toBe(1);
+    });
+
+    it('still lets stepOnce advance one step at a time', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'ball', position: { x: 0, y: 0 } }));
+      engine.paused = true;
+
+      engine.stepOnce();
+      const y = engine.getBody('ball')!.position.y;
+      engine.update(0.1);
+
+      expect(engine.stepCount).toBe(1);
+      expect(y).toBeGreaterThan(0);
+      expect(engine.getBody('ball')!.position.y).toBe(y);
+    });
+  });
+
+  describe('stepping', () => {
+    it('is true only while a step runs, through its hooks and step event', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      const seen: boolean[] = [];
+      engine.addHook('afterSolve', () => seen.push(engine.stepping));
+      engine.on('step', () => seen.push(engine.stepping));
+
+      expect(engine.stepping).toBe(false);
+      engine.update(1 / 60);
+
+      expect(seen.length).toBeGreaterThan(1);
+      expect(seen.every(Boolean)).toBe(true);
+      expect(engine.stepping).toBe(false);
+    });
+  });
+
+  describe('timeScale', () => {
+    it('defaults to 1', () => {
+      expect(new PhysicsEngine(defaultConfig()).timeScale).toBe(1);
+    });
+
+    it('takes fewer steps per frame in slow motion and more when fast-forwarding', () => {
+      const slow = new PhysicsEngine(defaultConfig());
+      const fast = new PhysicsEngine(defaultConfig());
+      slow.timeScale = 0.25;
+      fast.timeScale = 3;
+
+      for (let i = 0; i < 8; i++) {
+        slow.update(1 / 60);
+        fast.update(1 / 60);
+      }
+
+      expect(slow.stepCount).toBe(2);
+      expect(fast.stepCount).toBe(24);
+    });
+
+    it('interpolates between fixed steps in slow motion', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.timeScale = 0.5;
+
+      engine.update(1 / 60);
+
+      expect(engine.stepCount).toBe(0);
+      expect(engine.alpha).toBeCloseTo(0.5, 5);
+    });
+
+    it('gives the same run as unscaled stepping', () => {
+      const scaled = new PhysicsEngine(defaultConfig());
+      const plain = new PhysicsEngine(defaultConfig());
+      for (const engine of [scaled, plain]) {
+        engine.addBody(
+          createBody({ id: 'ball', position: { x: 0, y: 0 }, velocity: { x: 50, y: 0 } }),
+        );
+      }
+      scaled.timeScale = 0.3;
+
+      for (let i = 0; i < 40; i++) scaled.update(1 / 60);
+      while (plain.stepCount < scaled.stepCount) plain.stepOnce();
+
+      expect(scaled.stepCount).toBeGreaterThan(0);
+      expect(scaled.getBody('ball')!.position).toEqual(plain.getBody('ball')!.position);
+    });
+
+    it('freezes update at 0 and rejects negative or non-finite scales', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.timeScale = 0;
+      engine.update(0.1);
+
+      expect(engine.stepCount).toBe(0);
+      expect(() => (engine.timeScale = -1)).toThrow('timeScale must be a finite number >= 0');
+      expect(() => (engine.timeScale = Infinity)).toThrow('timeScale');
+      expect(engine.timeScale).toBe(0);
+    });
+
+    it('is still capped by maxFrameTime when fast-forwarding', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.timeScale = 100;
+
+      engine.update(1 / 60);
+
+      // 0.25 s of simulated time at most: 15 steps, not 100
+      expect(engine.stepCount).toBe(15);
+    });
+  });
+
+  // ---- fixedDt / maxFrameTime ---------------------------------------------
+
+  describe('fixedDt / maxFrameTime', () => {
+    it('steps at config.fixedDt', () => {
+      const engine = new PhysicsEngine(defaultConfig({ fixedDt: 1 / 120 }));
+      const dts: number[] = [];
+      engine.on('step', ({ dt }) => dts.push(dt));
+
+      engine.update(1 / 60);
+
+      expect(engine.fixedDt).toBe(1 / 120);
+      expect(dts).toEqual([1 / 120, 1 / 120]);
+    });
+
+    it('defaults to 60 Hz', () => {
+      expect(new PhysicsEngine(defaultConfig()).fixedDt).toBe(1 / 60);
+    });
+
+    it('clamps frame time to config.maxFrameTime', () => {
+      const engine = new PhysicsEngine(defaultConfig({ maxFrameTime: 0.05 }));
+
+      engine.update(1);
+
+      expect(engine.stepCount).toBe(3);
+    });
+
+    it('rejects a step length or frame time cap that is not a positive number', () => {
+      expect(() => new PhysicsEngine(defaultConfig({ fixedDt: 0 }))).toThrow(
+        'fixedDt must be a positive number of seconds',
+      );
+      expect(() => new PhysicsEngine(defaultConfig({ maxFrameTime: NaN }))).toThrow(
+        'maxFrameTime must be a positive number of seconds',
+      );
+    });
+
+    it('travels with snapshots', () => {
+      const engine = new PhysicsEngine(defaultConfig({ fixedDt: 1 / 30 }));
+      engine.update(0.05);
+
+      const copy = PhysicsEngine.deserialize(engine.serialize());
+
+      expect(copy.fixedDt).toBe(1 / 30);
+      expect(copy.alpha).toBeCloseTo(engine.alpha, 10);
+    });
+  });
+
   // ---- getInterpolatedPosition --------------------------------------------
 
   describe('getInterpolatedPosition', () => {
@@ -550,6 +831,110 @@ describe('PhysicsEngine', () => {
       const engine = new PhysicsEngine(defaultConfig());
       expect(() => engine.removeForceFields('attraction')).not.toThrow();
     });
+
+    it('gives fields ids and removes them one at a time', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      const gust = engine.addForceField({ type: 'wind', vector: { x: 1, y: 0 } });
+      const breeze = engine.addForceField({ id: 'breeze', type: 'wind', vector: { x: 1, y: 0 } });
+
+      expect(gust).toEqual(expect.any(String));
+      expect(breeze).toBe('breeze');
+
+      engine.removeForceField(gust);
+      expect(engine.snapshot().forceFields.map((f) => f.id)).toEqual(['breeze']);
+    });
+
+    it('removes a field once its lifetime is up', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      engine.addBody(createBody({ id: 'leaf', linearDamping: 0 }));
+      engine.addForceField({ type: 'wind', vector: { x: 1, y: 0 }, strength: 60, lifetime: 0.5 });
+
+      for (let i = 0; i < 60; i++) engine.update(1 / 60);
+
+      expect(engine.snapshot().forceFields).toEqual([]);
+      // 60 px/s² for half a second, then coasting
+      expect(engine.getBody('leaf')!.velocity.x).toBeCloseTo(30, 6);
+    });
+
+    it('a wind gust only pushes the bodies inside its region', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      engine.addBody(createBody({ id: 'inside', position: { x: 50, y: 50 } }));
+      engine.addBody(createBody({ id: 'outside', position: { x: 50, y: 500 } }));
+      engine.addForceField({
+        type: 'wind',
+        vector: { x: 1, y: 0 },
+        strength: 200,
+        region: { type: 'aabb', min: { x: 0, y: 0 }, max: { x: 1000, y: 100 } },
+      });
+
+      for (let i = 0; i < 30; i++) engine.update(1 / 60);
+
+      expect(engine.getBody('inside')!.position.x).toBeGreaterThan(70);
+      expect(engine.getBody('outside')!.position.x).toBe(50);
+    });
+
+    it('an explosion blasts nearby bodies once, waking them, then disappears', () => {
+      const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+      engine.addBody(createBody({ id: 'near', position: { x: 30, y: 0 }, isSleeping: true }));
+      engine.addBody(createBody({ id: 'far', position: { x: 300, y: 0 } }));
+      engine.addBody(createBody({ id: 'wall', position: { x: -30, y: 0 }, isStatic: true }));
+      engine.addForceField({
+        type: 'explosion',
+        vector: { x: 0, y: 0 },
+        strength: 100,
+        falloff: 'none',
+        region: { type: 'circle', center: { x: 0, y: 0 }, radius: 100 },
+      });
+
+      engine.update(1 / 60);
+
+      const near = engine.getBody('near')!;
+      expect(near.isSleeping).toBe(false);
+      expect(near.velocity.x).toBeCloseTo(100, 0);
+      expect(engine.getBody('far')!.velocity.x).toBe(0);
+      expect(engine.getBody('wall')!.position.x).toBe(-30);
+      expect(engine.snapshot().forceFields).toEqual([]);
+
+      engine.update(1 / 60);
+      expect(engine.getBody('near')!.velocity.x).toBeLessThanOrEqual(near.velocity.x);
+    });
+  });
+
+  // ---- Per-body gravity and damping ----------------------------------------
+
+  describe('per-body gravity and damping', () => {
+    it('a weightless badge floats while a checker falls in the same world', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'badge', position: { x: 0, y: 0 }, gravityScale: 0 }));
+      engine.addBody(createBody({ id: 'checker', position: { x: 100, y: 0 }, mass: 50 }));
+
+      for (let i = 0; i < 30; i++) engine.update(1 / 60);
+
+      expect(engine.getBody('badge')!.position.y).toBe(0);
+      expect(engine.getBody('checker')!.position.y).toBeGreaterThan(100);
+    });
+
+    it('linearDamping replaces the built-in drag', () => {
+      const coast = (linearDamping?: number) => {
+        const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+        engine.addBody(createBody({ id: 'puck', velocity: { x: 100, y: 0 }, linearDamping }));
+        for (let i = 0; i < 60; i++) engine.update(1 / 60);
+        return engine.getBody('puck')!.velocity.x;
+      };
+
+      expect(coast(0)).toBe(100);
+      expect(coast()).toBeLessThan(100);
+      expect(coast(0.5)).toBeLessThan(coast());
+    });
+
+    it('maxSpeed caps a falling body at its terminal speed', () => {
+      const engine = new PhysicsEngine(defaultConfig());
+      engine.addBody(createBody({ id: 'leaf', maxSpeed: 50 }));
+
+      for (let i = 0; i < 60; i++) engine.update(1 / 60);
+
+      expect(engine.getBody('leaf')!.velocity.y).toBeCloseTo(50, 10);
+    });
   });
 
   // ---- getConfig ----------------------------------------------------------
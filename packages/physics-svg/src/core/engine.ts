@@ -1,22 +1,34 @@
 import type {
   PhysicsBody,
+  BodyShape,
+  CollisionFilter,
   Constraint,
   ForceField,
+  Material,
   WorldConfig,
+  WorldSnapshot,
   Vec2,
 } from '@mcp-tool-shop/siege-types';
 import { World } from './world.js';
 import { wakeBody } from './sleeping.js';
+import { isDynamic } from './body.js';
+import { SNAPSHOT_VERSION, parseSnapshot, validateSnapshot } from './snapshot.js';
+import type { PhysicsEventType, PhysicsEventCallback } from './events.js';
+import { raycast, queryPoint, queryAABB, shapeCast } from './query.js';
+import type { QueryFilter, RaycastHit, ShapeCastOptions } from './query.js';
+import { findMaterial } from './material.js';
+import type { ConstraintSolver } from './solver.js';
+import type { CustomForce, PhysicsPlugin, StepHook, StepHookName } from './plugins.js';
 import * as V from './vec2.js';
 
 // ---------------------------------------------------------------------------
 // Fixed Timestep Constants
 // ---------------------------------------------------------------------------
 
-/** Fixed physics timestep: 60 Hz → 16.667ms per step. */
-const FIXED_DT = 1 / 60;
-/** Maximum frame time to prevent spiral of death (250ms). */
-const MAX_FRAME_TIME = 0.25;
+/** Default fixed physics timestep: 60 Hz → 16.667ms per step. */
+const DEFAULT_FIXED_DT = 1 / 60;
+/** Default maximum frame time to prevent spiral of death (250ms). */
+const DEFAULT_MAX_FRAME_TIME = 0.25;
 
 // ---------------------------------------------------------------------------
 // PhysicsEngine
@@ -26,43 +38,139 @@ const MAX_FRAME_TIME = 0.25;
  * PhysicsEngine — top-level facade for the physics-svg simulation.
  *
  * Features:
- * - Fixed-timestep simulation with accumulator
+ * - Fixed-timestep simulation with accumulator, pause and time scaling
  * - Interpolated body positions for smooth rendering
  * - Body and constraint management
  * - Force field system
  * - Sleep/wake management
+ * - Event subscription (steps, collisions, sensor overlaps, sleep/wake)
+ * - Raycasts, shape casts and point/region queries
+ * - Snapshot/restore and JSON serialization
+ * - Step hooks, custom forces and constraint solvers, bundled as plugins
  */
 export class PhysicsEngine {
   private world: World;
   private accumulator = 0;
   private _alpha = 0; // interpolation factor for rendering
+  private _stepCount = 0;
+  private _paused = false;
+  private _stepping = false;
+  private _timeScale = 1;
+  private plugins = new Map<string, PhysicsPlugin>();
 
+  /** @throws If `config.fixedDt` or `config.maxFrameTime` is not a positive number. */
   constructor(config: WorldConfig) {
+    validateTiming(config);
     this.world = new World(config);
   }
 
   // ---- Simulation ----------------------------------------------------------
 
   /**
-   * Advance the simulation by `frameTime` seconds.
+   * Advance the simulation by `frameTime` seconds of real time.
    *
    * Uses Glenn Fiedler's fixed-timestep-with-accumulator pattern:
-   * - Clamp frame time to prevent spiral of death
-   * - Step physics at fixed 60Hz intervals
+   * - Scale frame time by {@link timeScale}
+   * - Clamp it to `config.maxFrameTime` to prevent spiral of death
+   * - Step physics at fixed `config.fixedDt` intervals (60Hz by default)
    * - Store interpolation alpha for smooth rendering
+   *
+   * Does nothing while {@link paused}: the frame time is dropped, not
+   * saved up for when the simulation resumes.
    */
   update(frameTime: number): void {
+    if (this._paused) return;
+
     // Clamp to prevent spiral of death
-    const clamped = Math.min(frameTime, MAX_FRAME_TIME);
+    const clamped = Math.min(frameTime * this._timeScale, this.maxFrameTime);
     this.accumulator += clamped;
 
-    while (this.accumulator >= FIXED_DT) {
-      this.world.step(FIXED_DT);
-      this.accumulator -= FIXED_DT;
+    const fixedDt = this.fixedDt;
+    while (this.accumulator >= fixedDt) {
+      this.advance();
+      this.accumulator -= fixedDt;
     }
 
     // Alpha for render interpolation (0 = previous state, 1 = current state)
-    this._alpha = this.accumulator / FIXED_DT;
+    this._alpha = this.accumulator / fixedDt;
+  }
+
+  /**
+   * Advance exactly one fixed step, bypassing the accumulator. Works while
+   * {@link paused}, and ignores {@link timeScale}.
+   *
+   * Useful for tests, replays and frame-by-frame debugging.
+   */
+  stepOnce(): void {
+    this.advance();
+  }
+
+  /**
+   * Whether {@link update} is stopped. Set it to pause or resume;
+   * {@link stepOnce} still advances a paused engine one step at a time.
+   */
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  set paused(paused: boolean) {
+    this._paused = paused;
+  }
+
+  /**
+   * Whether a fixed step is running, i.e. the caller is a step hook, custom
+   * force or constraint solver, or an event listener called during a step.
+   */
+  get stepping(): boolean {
+    return this._stepping;
+  }
+
+  /**
+   * Simulated seconds per real second in {@link update}: below 1 for slow
+   * motion, above 1 to fast-forward, 0 to freeze. Steps keep their fixed
+   * length, so a run is the same at any scale; only how many steps each
+   * frame takes changes. Fast-forward is still capped by
+   * `config.maxFrameTime` per update. Default 1.
+   *
+   * @throws If set to a negative or non-finite number.
+   */
+  get timeScale(): number {
+    return this._timeScale;
+  }
+
+  set timeScale(scale: number) {
+    if (!Number.isFinite(scale) || scale < 0) {
+      throw new Error(`timeScale must be a finite number >= 0, got ${scale}.`);
+    }
+    this._timeScale = scale;
+  }
+
+  /** Seconds simulated per fixed step (`config.fixedDt`, default 1/60). */
+  get fixedDt(): number {
+    return this.world.config.fixedDt ?? DEFAULT_FIXED_DT;
+  }
+
+  /** Most simulated seconds one {@link update} advances. */
+  private get maxFrameTime(): number {
+    return this.world.config.maxFrameTime ?? DEFAULT_MAX_FRAME_TIME;
+  }
+
+  /** Number of fixed steps simulated since the engine was created. */
+  get stepCount(): number {
+    return this._stepCount;
+  }
+
+  /** Run one fixed world step and announce it. */
+  private advance(): void {
+    const dt = this.fixedDt;
+    this._stepping = true;
+    try {
+      this.world.step(dt, this._stepCount + 1);
+      this._stepCount++;
+      this.world.events.emit('step', { step: this._stepCount, dt });
+    } finally {
+      this._stepping = false;
+    }
   }
 
   /**
@@ -82,17 +190,44 @@ export class PhysicsEngine {
     return V.lerp(body.previousPosition, body.position, this._alpha);
   }
 
+  /**
+   * Get the interpolated render angle for a body (radians).
+   */
+  getInterpolatedAngle(body: PhysicsBody): number {
+    return body.previousAngle + (body.angle - body.previousAngle) * this._alpha;
+  }
+
+  // ---- Events --------------------------------------------------------------
+
+  /**
+   * Subscribe to a physics event. Callbacks run synchronously at the end of
+   * the fixed step that produced the event.
+   *
+   * @returns An unsubscribe function.
+   */
+  on<K extends PhysicsEventType>(type: K, callback: PhysicsEventCallback<K>): () => void {
+    return this.world.events.on(type, callback);
+  }
+
   // ---- Body Management -----------------------------------------------------
 
-  /** Register a body and return its id. */
+  /**
+   * Register a body and return its id.
+   *
+   * @throws If the body names a material the world does not know.
+   */
   addBody(body: PhysicsBody): string {
+    if (body.material !== undefined && !findMaterial(body.material, this.world.config)) {
+      throw new Error(`Unknown material "${body.material}": register it with defineMaterial.`);
+    }
     this.world.bodies.set(body.id, body);
+    this.world.invalidateIndex();
     return body.id;
   }
 
-  /** Remove a body by id. */
+  /** Remove a body by id, along with any constraints attached to it. */
   removeBody(id: string): void {
-    this.world.bodies.delete(id);
+    this.world.removeBody(id);
   }
 
   /** Look up a single body. */
@@ -105,13 +240,22 @@ export class PhysicsEngine {
     return Array.from(this.world.bodies.values());
   }
 
-  /** Apply an instantaneous impulse to a body. */
-  applyImpulse(id: string, impulse: Vec2): void {
+  /**
+   * Apply an instantaneous impulse to a body.
+   *
+   * If `point` (world space) is given, the off-center component also
+   * changes angular velocity: Δω = (point - position) × impulse / I.
+   */
+  applyImpulse(id: string, impulse: Vec2, point?: Vec2): void {
     const body = this.world.bodies.get(id);
-    if (!body || body.isStatic) return;
+    if (!body || !isDynamic(body)) return;
     wakeBody(body);
     body.velocity.x += impulse.x * body.invMass;
     body.velocity.y += impulse.y * body.invMass;
+    if (point) {
+      const r = V.sub(point, body.position);
+      body.angularVelocity += V.cross(r, impulse) * body.invInertia;
+    }
   }
 
   /** Set a body's position directly (teleport). */
@@ -119,6 +263,7 @@ export class PhysicsEngine {
     const body = this.world.bodies.get(id);
     if (!body) return;
     wakeBody(body);
+    this.world.invalidateIndex();
     body.position.x = position.x;
     body.position.y = position.y;
     body.previousPosition.x = position.x;
@@ -134,10 +279,89 @@ export class PhysicsEngine {
     body.velocity.y = velocity.y;
   }
 
+  /** Set a body's orientation directly (radians, no interpolation). */
+  setAngle(id: string, angle: number): void {
+    const body = this.world.bodies.get(id);
+    if (!body) return;
+    wakeBody(body);
+    this.world.invalidateIndex();
+    body.angle = angle;
+    body.previousAngle = angle;
+  }
+
+  /** Set a body's angular velocity directly (rad/s). */
+  setAngularVelocity(id: string, angularVelocity: number): void {
+    const body = this.world.bodies.get(id);
+    if (!body || body.isStatic) return;
+    wakeBody(body);
+    body.angularVelocity = angularVelocity;
+  }
+
+  /**
+   * Change a body's collision filter at runtime. Fields not given keep
+   * their current value. The body is woken so new contacts resolve at once.
+   */
+  setCollisionFilter(id: string, filter: Partial<CollisionFilter>): void {
+    const body = this.world.bodies.get(id);
+    if (!body) return;
+    wakeBody(body);
+    body.collisionFilter = { ...body.collisionFilter, ...filter };
+  }
+
+  // ---- Queries -------------------------------------------------------------
+  //
+  // Queries go through an index of the bodies built with `config.broadPhase`
+  // on first use and shared until the next step, so many queries per frame
+  // cost one indexing pass. Move bodies with the setters: one written to
+  // directly (`body.position.x = …`) is found at its new place only after
+  // the next step.
+
+  /**
+   * Cast a ray from `origin` along `dir` (any length) for `maxDist` pixels.
+   * Sensors are skipped unless `filter.includeSensors` is set.
+   *
+   * @returns Every body crossed, nearest first, with entry point and normal.
+   * @throws If `dir` is zero or `maxDist` is not finite.
+   */
+  raycast(origin: Vec2, dir: Vec2, maxDist: number, filter?: QueryFilter): RaycastHit[] {
+    return raycast(this.world.bodyIndex(), origin, dir, maxDist, filter);
+  }
+
+  /** Bodies whose shape contains `point` — e.g. for pointer picking. */
+  queryPoint(point: Vec2, filter?: QueryFilter): PhysicsBody[] {
+    return queryPoint(this.world.bodyIndex(), point, filter);
+  }
+
+  /** Bodies whose bounding box overlaps the region `min`–`max`. */
+  queryAABB(min: Vec2, max: Vec2, filter?: QueryFilter): PhysicsBody[] {
+    return queryAABB(this.world.bodyIndex(), min, max, filter);
+  }
+
+  /**
+   * Sweep `shape` from `from` to `to` and report what it would touch,
+   * nearest first. With `from` equal to `to` this checks whether a spot is
+   * free, e.g. before dropping a piece there.
+   */
+  shapeCast(shape: BodyShape, from: Vec2, to: Vec2, options?: ShapeCastOptions): RaycastHit[] {
+    return shapeCast(this.world.bodyIndex(), shape, from, to, options);
+  }
+
   // ---- Constraint Management -----------------------------------------------
 
-  /** Register a constraint and return its id. */
+  /**
+   * Register a constraint and return its id.
+   *
+   * @throws If a `'custom'` constraint names a solver the engine does not know.
+   */
   addConstraint(constraint: Constraint): string {
+    if (
+      constraint.type === 'custom' &&
+      (constraint.solver === undefined || !this.world.constraintSolvers.has(constraint.solver))
+    ) {
+      throw new Error(
+        `Unknown constraint solver "${constraint.solver}": register it with addConstraintSolver.`,
+      );
+    }
     this.world.constraints.set(constraint.id, constraint);
     return constraint.id;
   }
@@ -147,16 +371,48 @@ export class PhysicsEngine {
     this.world.constraints.delete(id);
   }
 
+  /**
+   * Move the target point of a drag joint (see `createDragJoint`), e.g. on
+   * every pointer move. Ignored for unknown ids and other constraint types.
+   */
+  setDragTarget(id: string, target: Vec2): void {
+    const constraint = this.world.constraints.get(id);
+    if (constraint?.type !== 'drag') return;
+    constraint.target = { x: target.x, y: target.y };
+  }
+
   /** Return every constraint currently in the world. */
   getConstraints(): Constraint[] {
     return Array.from(this.world.constraints.values());
   }
 
+  // ---- Materials -----------------------------------------------------------
+
+  /**
+   * Register a material (or replace one, including the built-in felt,
+   * wood and ivory) for bodies to name in `material`.
+   */
+  defineMaterial(name: string, material: Material): void {
+    const config = this.world.config;
+    config.materials = { ...config.materials, [name]: { ...material } };
+  }
+
   // ---- Force Fields --------------------------------------------------------
 
-  /** Add a force field to the world. */
-  addForceField(field: ForceField): void {
-    this.world.addForceField(field);
+  /**
+   * Add a force field to the world.
+   *
+   * Fields without an `id` get a random one, written to `field.id`.
+   *
+   * @returns The field's id.
+   */
+  addForceField(field: ForceField): string {
+    return this.world.addForceField(field);
+  }
+
+  /** Remove a force field by id. */
+  removeForceField(id: string): void {
+    this.world.removeForceField(id);
   }
 
   /** Remove all force fields of a given type. */
@@ -164,6 +420,136 @@ export class PhysicsEngine {
     this.world.removeForceFields(type);
   }
 
+  // ---- Hooks and Plugins ---------------------------------------------------
+
+  /**
+   * Run `hook` at the `name` point of every fixed step (see
+   * {@link StepHookName}), at physics rate rather than render rate.
+   *
+   * @returns A function that removes the hook.
+   */
+  addHook(name: StepHookName, hook: StepHook): () => void {
+    return this.world.hooks.add(name, hook);
+  }
+
+  /**
+   * Apply `force` to every awake dynamic body each substep, after the
+   * force fields (twice per substep under velocity Verlet; see
+   * {@link CustomForce}). Forces run in the order they were added.
+   *
+   * @returns A function that removes the force.
+   */
+  addForce(force: CustomForce): () => void {
+    const forces = this.world.customForces;
+    forces.push(force);
+    return () => {
+      const idx = forces.indexOf(force);
+      if (idx !== -1) forces.splice(idx, 1);
+    };
+  }
+
+  /**
+   * Register the solver for `'custom'` constraints whose `solver` is
+   * `name`. While it is removed, such constraints are skipped.
+   *
+   * @returns A function that removes the solver.
+   * @throws If a solver is already registered under `name`.
+   */
+  addConstraintSolver(name: string, solver: ConstraintSolver): () => void {
+    const solvers = this.world.constraintSolvers;
+    if (solvers.has(name)) {
+      throw new Error(`Constraint solver "${name}" is already registered.`);
+    }
+    solvers.set(name, solver);
+    return () => {
+      if (solvers.get(name) === solver) solvers.delete(name);
+    };
+  }
+
+  /**
+   * Install a plugin: its `install` runs at once with this engine.
+   *
+   * @throws If a plugin with the same name is already installed.
+   */
+  use(plugin: PhysicsPlugin): void {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already installed.`);
+    }
+    plugin.install(this);
+    this.plugins.set(plugin.name, plugin);
+  }
+
+  /** Uninstall a plugin by name. Ignored if it is not installed. */
+  removePlugin(name: string): void {
+    const plugin = this.plugins.get(name);
+    if (!plugin) return;
+    this.plugins.delete(name);
+    plugin.uninstall(this);
+  }
+
+  /** Whether a plugin with this name is installed. */
+  hasPlugin(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  // ---- Snapshots -----------------------------------------------------------
+
+  /**
+   * Capture the complete simulation state as a deep copy.
+   *
+   * Restoring the snapshot and stepping reproduces this run exactly.
+   * `userData` must be structured-cloneable (and JSON-safe for
+   * {@link serialize}).
+   */
+  snapshot(): WorldSnapshot {
+    return structuredClone({
+      version: SNAPSHOT_VERSION,
+      config: this.world.config,
+      bodies: this.getBodies(),
+      constraints: this.getConstraints(),
+      forceFields: this.world.forces,
+      accumulator: this.accumulator,
+      contactImpulses: this.world.getContactImpulses(),
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Replace the simulation state with a snapshot from {@link snapshot}.
+   * The snapshot is copied, so it can be restored again later.
+   *
+   * Event subscriptions survive; collision and sensor tracking restarts.
+   * The step length comes from the snapshot's config; {@link paused} and
+   * {@link timeScale} are playback settings and are left as they are.
+   *
+   * @throws If the snapshot version is unsupported, fields are missing or
+   *   its timing config is invalid.
+   */
+  restore(snapshot: WorldSnapshot): void {
+    const copy = structuredClone(validateSnapshot(snapshot));
+    validateTiming(copy.config);
+    this.world.restore(copy);
+    this.accumulator = copy.accumulator;
+    this._alpha = this.accumulator / this.fixedDt;
+  }
+
+  /** Serialize the complete simulation state to a versioned JSON string. */
+  serialize(): string {
+    return JSON.stringify(this.snapshot());
+  }
+
+  /**
+   * Create an engine from a string produced by {@link serialize}.
+   *
+   * @throws If the JSON is malformed or the snapshot version is unsupported.
+   */
+  static deserialize(json: string): PhysicsEngine {
+    const snapshot = parseSnapshot(json);
+    const engine = new PhysicsEngine(snapshot.config);
+    engine.restore(snapshot);
+    return engine;
+  }
+
   // ---- Config --------------------------------------------------------------
 
   /** Access the underlying world config. */
@@ -171,3 +557,13 @@ export class PhysicsEngine {
     return this.world.config;
   }
 }
+
+/** Reject a step length or frame time cap that would stall the accumulator. */
+function validateTiming(config: WorldConfig): void {
+  for (const key of ['fixedDt', 'maxFrameTime'] as const) {
+    const value = config[key];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(`${key} must be a positive number of seconds, got ${value}.`);
+    }
+  }
+}
@@ -0,0 +1,343 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { PhysicsEventEmitter } from './events.js';
+import type { CollisionEvent, SensorEvent } from './events.js';
+import type { WorldConfig } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STEP = 1 / 60;
+
+function zeroGravity(overrides: Partial<WorldConfig> = {}): WorldConfig {
+  return {
+    gravity: { x: 0, y: 0 },
+    substeps: 4,
+    velocityIterations: 4,
+    ...overrides,
+  };
+}
+
+/** Record every sensor event as `type:sensor>other`. */
+function recordSensorEvents(engine: PhysicsEngine): string[] {
+  const log: string[] = [];
+  const push = (type: string) => (e: SensorEvent) => log.push(`${type}:${e.sensor}>${e.other}`);
+  engine.on('sensorEnter', push('enter'));
+  engine.on('sensorStay', push('stay'));
+  engine.on('sensorExit', push('exit'));
+  return log;
+}
+
+/** Record every collision event as `type:bodyA-bodyB`. */
+function recordCollisionEvents(engine: PhysicsEngine): string[] {
+  const log: string[] = [];
+  const push = (type: string) => (e: CollisionEvent) =>
+    log.push(`${type}:${e.bodyA}-${e.bodyB}`);
+  engine.on('collisionStart', push('start'));
+  engine.on('collisionActive', push('active'));
+  engine.on('collisionEnd', push('end'));
+  return log;
+}
+
+/** A ball dropped from `height` px above a static floor at y = 200. */
+function dropScene(height = 100, restitution = 0) {
+  const engine = new PhysicsEngine(zeroGravity({ gravity: { x: 0, y: 980 } }));
+  engine.addBody(
+    createBody({
+      id: 'floor',
+      isStatic: true,
+      position: { x: 100, y: 210 },
+      shape: { type: 'rect', width: 400, height: 20 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'ball',
+      position: { x: 100, y: 190 - height },
+      shape: { type: 'circle', radius: 10 },
+      restitution,
+    }),
+  );
+  return engine;
+}
+
+/** A static sensor zone 40×40 centered at (100, 100). */
+function dropZone() {
+  return createBody({
+    id: 'zone',
+    isStatic: true,
+    isSensor: true,
+    position: { x: 100, y: 100 },
+    shape: { type: 'rect', width: 40, height: 40 },
+  });
+}
+
+// ===========================================================================
+// EMITTER
+// ===========================================================================
+
+describe('PhysicsEventEmitter', () => {
+  it('delivers events only to subscribers of that type', () => {
+    const emitter = new PhysicsEventEmitter();
+    const enter = vi.fn();
+    const exit = vi.fn();
+    emitter.on('sensorEnter', enter);
+    emitter.on('sensorExit', exit);
+
+    emitter.emit('sensorEnter', { sensor: 'a', other: 'b' });
+
+    expect(enter).toHaveBeenCalledWith({ sensor: 'a', other: 'b' });
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const emitter = new PhysicsEventEmitter();
+    const callback = vi.fn();
+    const off = emitter.on('sensorStay', callback);
+
+    off();
+    emitter.emit('sensorStay', { sensor: 'a', other: 'b' });
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('tolerates a callback unsubscribing itself mid-emit', () => {
+    const emitter = new PhysicsEventEmitter();
+    const second = vi.fn();
+    const off = emitter.on('sensorEnter', () => off());
+    emitter.on('sensorEnter', second);
+
+    emitter.emit('sensorEnter', { sensor: 'a', other: 'b' });
+
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ===========================================================================
+// SENSORS
+// ===========================================================================
+
+describe('sensor bodies', () => {
+  it('createBody defaults isSensor to false', () => {
+    expect(createBody().isSensor).toBe(false);
+  });
+
+  it('does not push or deflect bodies passing through', () => {
+    const run = (withZone: boolean) => {
+      const engine = new PhysicsEngine(zeroGravity());
+      if (withZone) engine.addBody(dropZone());
+      engine.addBody(
+        createBody({
+          id: 'checker',
+          position: { x: 40, y: 100 },
+          velocity: { x: 120, y: 0 },
+          shape: { type: 'circle', radius: 8 },
+        }),
+      );
+      for (let i = 0; i < 60; i++) engine.update(STEP);
+      return engine.getBody('checker')!;
+    };
+
+    const free = run(false);
+    const crossed = run(true);
+    expect(crossed.position).toEqual(free.position);
+    expect(crossed.velocity).toEqual(free.velocity);
+  });
+
+  it('a dynamic sensor falls through the floor', () => {
+    const engine = new PhysicsEngine(zeroGravity({ gravity: { x: 0, y: 980 } }));
+    engine.addBody(
+      createBody({
+        id: 'floor',
+        isStatic: true,
+        position: { x: 0, y: 100 },
+        shape: { type: 'rect', width: 400, height: 20 },
+      }),
+    );
+    engine.addBody(
+      createBody({ id: 'ghost', isSensor: true, shape: { type: 'circle', radius: 5 } }),
+    );
+
+    for (let i = 0; i < 60; i++) engine.update(STEP);
+
+    expect(engine.getBody('ghost')!.position.y).toBeGreaterThan(150);
+  });
+
+  it('emits enter, stay and exit as a body crosses a sensor', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(dropZone());
+    engine.addBody(
+      createBody({
+        id: 'checker',
+        position: { x: 40, y: 100 },
+        velocity: { x: 120, y: 0 },
+        shape: { type: 'circle', radius: 8 },
+      }),
+    );
+    const log = recordSensorEvents(engine);
+
+    for (let i = 0; i < 90; i++) engine.update(STEP);
+
+    const enterAt = log.indexOf('enter:zone>checker');
+    const exitAt = log.indexOf('exit:zone>checker');
+    expect(enterAt).toBeGreaterThanOrEqual(0);
+    expect(exitAt).toBeGreaterThan(enterAt);
+    expect(log.filter((e) => e.startsWith('enter'))).toHaveLength(1);
+    expect(log.filter((e) => e.startsWith('exit'))).toHaveLength(1);
+
+    // Every event between enter and exit is a stay
+    const between = log.slice(enterAt + 1, exitAt);
+    expect(between.length).toBeGreaterThan(0);
+    expect(between.every((e) => e === 'stay:zone>checker')).toBe(true);
+  });
+
+  it('reports the sensor first even when it is bodyB of the pair', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(createBody({ id: 'checker', position: { x: 100, y: 100 } }));
+    engine.addBody(dropZone());
+    const log = recordSensorEvents(engine);
+
+    engine.update(STEP);
+
+    expect(log).toEqual(['enter:zone>checker']);
+  });
+
+  it('keeps reporting stay for a body sleeping inside a sensor', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(dropZone());
+    engine.addBody(createBody({ id: 'checker', position: { x: 100, y: 100 } }));
+    const log = recordSensorEvents(engine);
+
+    for (let i = 0; i < 120; i++) engine.update(STEP);
+
+    expect(engine.getBody('checker')!.isSleeping).toBe(true);
+    expect(log.at(-1)).toBe('stay:zone>checker');
+  });
+
+  it('emits exit when an overlapping body is removed', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(dropZone());
+    engine.addBody(createBody({ id: 'checker', position: { x: 100, y: 100 } }));
+    const log = recordSensorEvents(engine);
+
+    engine.update(STEP);
+    engine.removeBody('checker');
+    engine.update(STEP);
+
+    expect(log).toEqual(['enter:zone>checker', 'exit:zone>checker']);
+  });
+
+  it('respects collision filters', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(dropZone());
+    engine.addBody(
+      createBody({
+        id: 'spark',
+        position: { x: 100, y: 100 },
+        collisionFilter: { categoryBits: 0x0004, maskBits: 0, groupIndex: 0 },
+      }),
+    );
+    const log = recordSensorEvents(engine);
+
+    engine.update(STEP);
+
+    expect(log).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// COLLISIONS
+// ===========================================================================
+
+describe('collision events', () => {
+  it('emits start once on landing, then active while resting', () => {
+    const engine = dropScene();
+    const log = recordCollisionEvents(engine);
+
+    for (let i = 0; i < 60; i++) engine.update(STEP);
+
+    const starts = log.filter((e) => e.startsWith('start'));
+    expect(starts).toHaveLength(1);
+    expect(log.slice(log.indexOf(starts[0]!) + 1).every((e) => e.startsWith('active'))).toBe(true);
+  });
+
+  it('reports impact speed, impulse and contact geometry on start', () => {
+    const engine = dropScene(100);
+    const starts: CollisionEvent[] = [];
+    engine.on('collisionStart', (e) => starts.push(e));
+
+    for (let i = 0; i < 60; i++) engine.update(STEP);
+
+    // Free fall from 100 px at 980 px/s² lands at about √(2·980·100) ≈ 443 px/s
+    const landing = starts[0]!;
+    expect(landing.relativeSpeed).toBeGreaterThan(380);
+    expect(landing.relativeSpeed).toBeLessThan(480);
+    expect(landing.normalImpulse).toBeGreaterThan(0);
+    expect(landing.penetration).toBeGreaterThan(0);
+    expect(Math.abs(landing.normal.y)).toBeCloseTo(1, 5);
+    expect(landing.contact).toBeDefined();
+  });
+
+  it('emits end when a bouncing ball leaves the floor', () => {
+    const engine = dropScene(100, 0.9);
+    const log = recordCollisionEvents(engine);
+
+    for (let i = 0; i < 30; i++) engine.update(STEP);
+
+    const startAt = log.findIndex((e) => e.startsWith('start'));
+    expect(startAt).toBeGreaterThanOrEqual(0);
+    expect(log.slice(startAt).some((e) => e.startsWith('end'))).toBe(true);
+  });
+
+  it('does not end a contact just because both bodies fell asleep', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(createBody({ id: 'a', position: { x: 0, y: 0 } }));
+    engine.addBody(createBody({ id: 'b', position: { x: 19, y: 0 } }));
+    const log = recordCollisionEvents(engine);
+
+    for (let i = 0; i < 120; i++) engine.update(STEP);
+
+    expect(engine.getBody('a')!.isSleeping).toBe(true);
+    expect(engine.getBody('b')!.isSleeping).toBe(true);
+    expect(log.filter((e) => e.startsWith('end'))).toEqual([]);
+    expect(log.at(-1)).toBe('active:a-b');
+  });
+
+  it('emits end when one of the pair is removed', () => {
+    const engine = dropScene(0);
+    const log = recordCollisionEvents(engine);
+
+    for (let i = 0; i < 10; i++) engine.update(STEP);
+    engine.removeBody('ball');
+    engine.update(STEP);
+
+    expect(log.at(-1)?.startsWith('end')).toBe(true);
+  });
+
+  it('does not emit collision events for sensor overlaps', () => {
+    const engine = new PhysicsEngine(zeroGravity());
+    engine.addBody(dropZone());
+    engine.addBody(createBody({ id: 'checker', position: { x: 100, y: 100 } }));
+    const log = recordCollisionEvents(engine);
+
+    engine.update(STEP);
+
+    expect(log).toEqual([]);
+  });
+
+  it('stops calling a callback after its unsubscribe handle runs', () => {
+    const engine = dropScene(0);
+    let calls = 0;
+    const off = engine.on('collisionActive', () => calls++);
+
+    for (let i = 0; i < 5; i++) engine.update(STEP);
+    const before = calls;
+    off();
+    for (let i = 0; i < 5; i++) engine.update(STEP);
+
+    expect(before).toBeGreaterThan(0);
+    expect(calls).toBe(before);
+  });
+});
@@ -0,0 +1,135 @@
+import type { BoundsEdge, Vec2 } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Event Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Contact between two solid bodies, summarized over one fixed step.
+ *
+ * Geometry (`normal`, `penetration`, `contact`) is from the last substep
+ * that saw the contact; `relativeSpeed` is the fastest closing speed seen
+ * and `normalImpulse` the total applied across all substeps.
+ */
+export interface CollisionEvent {
+  bodyA: string;
+  bodyB: string;
+  normal: Vec2; // points from A to B
+  penetration: number;
+  contact?: Vec2; // world-space contact point, when the narrow phase found one
+  relativeSpeed: number; // closing speed along the normal (0 if separating)
+  normalImpulse: number; // N·s, summed over substeps
+}
+
+/**
+ * Overlap between a sensor body and another body.
+ *
+ * `sensor` is always a sensor; `other` may be a sensor too.
+ */
+export interface SensorEvent {
+  sensor: string;
+  other: string;
+}
+
+/** A body fell asleep or woke up (whole islands change together). */
+export interface SleepEvent {
+  body: string;
+}
+
+/** A body left the world through a `'kill'` edge and was removed. */
+export interface BoundsEvent {
+  body: string;
+  edge: BoundsEdge;
+}
+
+/** A constraint pulled harder than its `maxForce` and was removed. */
+export interface ConstraintEvent {
+  constraint: string;
+  bodyA: string;
+  bodyB: string;
+  force: number; // N, the force that broke it
+}
+
+/** A fixed step finished. */
+export interface StepEvent {
+  step: number; // `PhysicsEngine.stepCount` after this step
+  dt: number; // seconds simulated
+}
+
+/** Payload type for each event name accepted by `PhysicsEngine.on`. */
+export interface PhysicsEventMap {
+  /** A fixed step finished (after its collision, sensor and sleep events). */
+  step: StepEvent;
+  /** Two bodies started touching this step. */
+  collisionStart: CollisionEvent;
+  /** Two bodies are still touching (fires every step after start). */
+  collisionActive: CollisionEvent;
+  /** Two bodies stopped touching, or one of the pair was removed. */
+  collisionEnd: CollisionEvent;
+  /** A body started overlapping a sensor this step. */
+  sensorEnter: SensorEvent;
+  /** A body is still overlapping a sensor (fires every step after enter). */
+  sensorStay: SensorEvent;
+  /** A body stopped overlapping a sensor, or one of the pair was removed. */
+  sensorExit: SensorEvent;
+  /** A body fell asleep this step. */
+  sleep: SleepEvent;
+  /** A sleeping body woke up this step (or was woken between steps). */
+  wake: SleepEvent;
+  /** A body left through a `'kill'` bounds edge and was removed. */
+  outOfBounds: BoundsEvent;
+  /** A constraint exceeded its `maxForce` and was removed. */
+  constraintBroken: ConstraintEvent;
+}
+
+export type PhysicsEventType = keyof PhysicsEventMap;
+
+/** Callback signature for physics event subscribers. */
+export type PhysicsEventCallback<K extends PhysicsEventType> = (
+  event: PhysicsEventMap[K],
+) => void;
+
+// ---------------------------------------------------------------------------
+// Emitter
+// ---------------------------------------------------------------------------
+
+/**
+ * PhysicsEventEmitter — typed pub/sub for events raised by `World.step`.
+ */
+export class PhysicsEventEmitter {
+  private subscribers = new Map<PhysicsEventType, PhysicsEventCallback<never>[]>();
+
+  /** Emit an event to every subscriber of its type. */
+  emit<K extends PhysicsEventType>(type: K, event: PhysicsEventMap[K]): void {
+    const list = this.subscribers.get(type);
+    if (!list) return;
+
+    // Copy so callbacks may unsubscribe while we iterate
+    for (const callback of [...list] as PhysicsEventCallback<K>[]) {
+      callback(event);
+    }
+  }
+
+  /**
+   * Subscribe to an event type.
+   *
+   * @returns An unsubscribe function.
+   */
+  on<K extends PhysicsEventType>(type: K, callback: PhysicsEventCallback<K>): () => void {
+    let list = this.subscribers.get(type);
+    if (!list) {
+      list = [];
+      this.subscribers.set(type, list);
+    }
+    list.push(callback as PhysicsEventCallback<never>);
+
+    return () => {
+      const current = this.subscribers.get(type);
+      if (!current) return;
+      const idx = current.indexOf(callback as PhysicsEventCallback<never>);
+      if (idx !== -1) {
+        current.splice(idx, 1);
+      }
+    };
+  }
+}
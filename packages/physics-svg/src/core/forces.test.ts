@@ -4,9 +4,15 @@ import {
   applyDrag,
   applyWind,
   applyAttraction,
+  applyVortex,
+  applyExplosion,
+  applyBuoyancy,
+  applyTurbulence,
   applyForceFields,
+  fieldReaches,
 } from './forces.js';
 import { createBody } from './body.js';
+import { PhysicsEngine } from './engine.js';
 import type { ForceField } from '@mcp-tool-shop/siege-types';
 
 // ---------------------------------------------------------------------------
@@ -56,6 +62,17 @@ describe('applyGravity', () => {
 
     expect(body.acceleration.y).toBeCloseTo(-9.8, 10);
   });
+
+  it('is scaled by the body\'s gravityScale', () => {
+    const floaty = createBody({ gravityScale: 0 });
+    const rising = createBody({ gravityScale: -0.5 });
+
+    applyGravity(floaty, { x: 0, y: 9.8 });
+    applyGravity(rising, { x: 0, y: 9.8 });
+
+    expect(floaty.acceleration.y).toBe(0);
+    expect(rising.acceleration.y).toBeCloseTo(-4.9, 10);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -124,6 +141,14 @@ describe('applyDrag', () => {
     expect(body.acceleration.x).toBe(0);
     expect(body.acceleration.y).toBe(0);
   });
+
+  it('uses the body\'s linearDamping when no coefficient is given', () => {
+    const body = createBody({ velocity: { x: 100, y: 0 }, linearDamping: 0.2 });
+
+    applyDrag(body);
+
+    expect(body.acceleration.x).toBeCloseTo(-20, 10);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -345,6 +370,192 @@ describe('applyAttraction', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// applyVortex
+// ---------------------------------------------------------------------------
+
+describe('applyVortex', () => {
+  it('pushes perpendicular to the center, clockwise on screen', () => {
+    // Right of the center, clockwise on screen (y-down) is straight down
+    const body = createBody({ position: { x: 100, y: 0 } });
+
+    applyVortex(body, { x: 0, y: 0 }, 50, 'none');
+
+    expect(body.acceleration.x).toBeCloseTo(0, 10);
+    expect(body.acceleration.y).toBeCloseTo(50, 10);
+  });
+
+  it('turns the other way for negative strength, fading linearly by default', () => {
+    const body = createBody({ position: { x: 0, y: 100 } });
+
+    applyVortex(body, { x: 0, y: 0 }, -500);
+
+    // Below the center, clockwise is toward −x; negative strength flips it
+    expect(body.acceleration.x).toBeCloseTo(5, 10);
+    expect(body.acceleration.y).toBeCloseTo(0, 10);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyExplosion
+// ---------------------------------------------------------------------------
+
+describe('applyExplosion', () => {
+  it('changes velocity directly, away from the center, by impulse / mass', () => {
+    const body = createBody({ position: { x: 30, y: 40 }, mass: 2 });
+
+    applyExplosion(body, { x: 0, y: 0 }, 100, 'none');
+
+    expect(body.velocity.x).toBeCloseTo(30, 10);
+    expect(body.velocity.y).toBeCloseTo(40, 10);
+    expect(body.acceleration).toEqual({ x: 0, y: 0 });
+  });
+
+  it('fades with distance squared by default', () => {
+    const near = createBody({ position: { x: 20, y: 0 } });
+    const far = createBody({ position: { x: 40, y: 0 } });
+
+    applyExplosion(near, { x: 0, y: 0 }, 4000);
+    applyExplosion(far, { x: 0, y: 0 }, 4000);
+
+    expect(near.velocity.x).toBeCloseTo(10, 10);
+    expect(far.velocity.x).toBeCloseTo(2.5, 10);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyBuoyancy
+// ---------------------------------------------------------------------------
+
+describe('applyBuoyancy', () => {
+  const gravity = { x: 0, y: 10 };
+
+  /** A 10×10 box (area 100, mass 100) whose top is at y = `top`. */
+  const box = (top: number) =>
+    createBody({
+      position: { x: 0, y: top + 5 },
+      shape: { type: 'rect', width: 10, height: 10 },
+      mass: 100,
+      velocity: { x: 0, y: 20 },
+    });
+
+  it('lifts by density × submerged area against gravity', () => {
+    const half = box(-5);
+    const full = box(10);
+
+    applyBuoyancy(half, gravity, 0, 1);
+    applyBuoyancy(full, gravity, 0, 1);
+
+    // Equal density floats a fully submerged body: lift cancels gravity
+    expect(half.acceleration.y).toBeCloseTo(-5, 10);
+    expect(full.acceleration.y).toBeCloseTo(-10, 10);
+  });
+
+  it('does nothing above the surface', () => {
+    const body = box(-20);
+
+    applyBuoyancy(body, gravity, 0, 1, 5);
+
+    expect(body.acceleration).toEqual({ x: 0, y: 0 });
+  });
+
+  it('drags in proportion to how deep the body is', () => {
+    const body = box(-5);
+
+    applyBuoyancy(body, { x: 0, y: 0 }, 0, 1, 10);
+
+    // −10 × 20 px/s × ½ submerged / 100
+    expect(body.acceleration.y).toBeCloseTo(-1, 10);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// applyTurbulence
+// ---------------------------------------------------------------------------
+
+describe('applyTurbulence', () => {
+  const push = (seed: number, x: number, time = 0) => {
+    const body = createBody({ position: { x, y: 37 } });
+    applyTurbulence(body, 100, seed, 50, time);
+    return body.acceleration;
+  };
+
+  it('is reproducible from its seed', () => {
+    expect(push(7, 123)).toEqual(push(7, 123));
+    expect(push(7, 123)).not.toEqual(push(8, 123));
+  });
+
+  it('stays within strength and varies smoothly with position and time', () => {
+    let previous = push(3, 0);
+    for (let x = 1; x <= 500; x++) {
+      const a = push(3, x);
+      expect(Math.abs(a.x)).toBeLessThanOrEqual(100);
+      expect(Math.abs(a.y)).toBeLessThanOrEqual(100);
+      expect(Math.abs(a.x - previous.x)).toBeLessThan(10);
+      previous = a;
+    }
+    expect(push(3, 80, 0.5)).not.toEqual(push(3, 80, 0));
+    expect(push(3, 80, 0.501).x).toBeCloseTo(push(3, 80, 0.5).x, 0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fieldReaches
+// ---------------------------------------------------------------------------
+
+describe('fieldReaches', () => {
+  const body = createBody({
+    position: { x: 50, y: 50 },
+    collisionFilter: { categoryBits: 0x0002, maskBits: 0xffff, groupIndex: 0 },
+  });
+
+  it('reaches every body without a region or filter', () => {
+    expect(fieldReaches({ type: 'wind' }, body)).toBe(true);
+  });
+
+  it('reaches bodies whose position is inside the region', () => {
+    const circle = (radius: number): ForceField => ({
+      type: 'wind',
+      region: { type: 'circle', center: { x: 0, y: 50 }, radius },
+    });
+    const aabb = (maxX: number): ForceField => ({
+      type: 'wind',
+      region: { type: 'aabb', min: { x: 0, y: 0 }, max: { x: maxX, y: 100 } },
+    });
+
+    expect(fieldReaches(circle(50), body)).toBe(true);
+    expect(fieldReaches(circle(49), body)).toBe(false);
+    expect(fieldReaches(aabb(50), body)).toBe(true);
+    expect(fieldReaches(aabb(49), body)).toBe(false);
+  });
+
+  it('lets buoyancy reach bodies that only overlap the region', () => {
+    // Radius 10: the body reaches down to y = 60
+    const pool = (top: number): ForceField => ({
+      type: 'buoyancy',
+      region: { type: 'aabb', min: { x: 0, y: top }, max: { x: 100, y: 200 } },
+    });
+    const pond = (radius: number): ForceField => ({
+      type: 'buoyancy',
+      region: { type: 'circle', center: { x: 50, y: 100 }, radius },
+    });
+
+    expect(fieldReaches(pool(55), body)).toBe(true);
+    expect(fieldReaches(pool(65), body)).toBe(false);
+    expect(fieldReaches(pond(45), body)).toBe(true);
+    expect(fieldReaches(pond(35), body)).toBe(false);
+  });
+
+  it('reaches bodies its collision filter collides with', () => {
+    expect(fieldReaches({ type: 'wind', collisionFilter: { maskBits: 0x0002 } }, body)).toBe(
+      true,
+    );
+    expect(fieldReaches({ type: 'wind', collisionFilter: { maskBits: 0x0004 } }, body)).toBe(
+      false,
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // applyForceFields
 // ---------------------------------------------------------------------------
@@ -525,4 +736,119 @@ describe('applyForceFields', () => {
     // quadratic: distSq=10000, forceMag=100000/10000=10, direction=(1,0), accel.x=10
     expect(body.acceleration.x).toBeCloseTo(10, 3);
   });
+
+  it('skips fields that do not reach the body', () => {
+    const body = createBody({ position: { x: 500, y: 0 }, mass: 1 });
+
+    const fields: ForceField[] = [
+      {
+        type: 'wind',
+        vector: { x: 1, y: 0 },
+        strength: 30,
+        region: { type: 'circle', center: { x: 0, y: 0 }, radius: 100 },
+      },
+    ];
+
+    applyForceFields(body, fields, { x: 0, y: 0 });
+
+    expect(body.acceleration.x).toBe(0);
+  });
+
+  it('buoyancy takes its surface from the top of its region', () => {
+    const body = createBody({
+      position: { x: 0, y: 100 },
+      shape: { type: 'rect', width: 10, height: 10 },
+      mass: 100,
+    });
+
+    const fields: ForceField[] = [
+      {
+        type: 'buoyancy',
+        density: 1,
+        region: { type: 'aabb', min: { x: -50, y: 100 }, max: { x: 50, y: 200 } },
+      },
+    ];
+
+    applyForceFields(body, fields, { x: 0, y: 10 });
+
+    // Surface at y = 100 cuts the box in half
+    expect(body.acceleration.y).toBeCloseTo(-5, 10);
+  });
+
+  it('buoyancy defaults to a fluid as dense as the body', () => {
+    const body = createBody({
+      position: { x: 0, y: 100 },
+      shape: { type: 'circle', radius: 10 },
+    });
+
+    applyForceFields(body, [{ type: 'buoyancy' }], { x: 0, y: 980 });
+
+    // Mass 1 over ~314 px² fully submerged: lift cancels gravity exactly
+    expect(body.acceleration.y).toBeCloseTo(-980, 6);
+  });
+
+  /**
+   * Drop a 20×20 raft of mass 1 into a fluid of `ratio` × its density with
+   * the surface at y = 0, and return where it rides over the next second
+   * once settled.
+   */
+  function floatRaft(ratio: number): number[] {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 980 },
+      substeps: 4,
+      velocityIterations: 4,
+    });
+    engine.addBody(
+      createBody({
+        id: 'raft',
+        position: { x: 0, y: -50 },
+        shape: { type: 'rect', width: 20, height: 20 },
+      }),
+    );
+    engine.addForceField({
+      type: 'buoyancy',
+      density: ratio / 400,
+      strength: 20,
+      region: { type: 'aabb', min: { x: -500, y: 0 }, max: { x: 500, y: 1000 } },
+    });
+
+    for (let i = 0; i < 300; i++) engine.update(1 / 60);
+    const heights: number[] = [];
+    for (let i = 0; i < 60; i++) {
+      engine.update(1 / 60);
+      heights.push(engine.getBody('raft')!.position.y);
+    }
+    return heights;
+  }
+
+  it('buoyancy floats a body half-submerged in a fluid twice its density', () => {
+    // The surface runs through the middle of the raft
+    for (const y of floatRaft(2)) expect(y).toBeCloseTo(0, 0);
+  });
+
+  it('buoyancy keeps lifting a body that floats with its center above the surface', () => {
+    // A quarter under: the center rides 5 px above the surface
+    for (const y of floatRaft(4)) expect(y).toBeCloseTo(-5, 0);
+  });
+
+  it('buoyancy scales its lift by gravityScale', () => {
+    const body = createBody({
+      position: { x: 0, y: 100 },
+      shape: { type: 'rect', width: 10, height: 10 },
+      gravityScale: 0,
+    });
+
+    applyForceFields(body, [{ type: 'buoyancy', density: 1 }], { x: 0, y: 980 });
+
+    expect(body.acceleration.y).toBe(0);
+  });
+
+  it('leaves explosions to the world', () => {
+    const body = createBody({ position: { x: 10, y: 0 } });
+
+    applyForceFields(body, [{ type: 'explosion', vector: { x: 0, y: 0 } }], { x: 0, y: 0 });
+
+    expect(body.acceleration).toEqual({ x: 0, y: 0 });
+    expect(body.velocity).toEqual({ x: 0, y: 0 });
+  });
 });
@@ -1,18 +1,33 @@
-import type { PhysicsBody, Vec2, ForceField } from '@mcp-tool-shop/siege-types';
+import type { PhysicsBody, Vec2, ForceField, ForceRegion } from '@mcp-tool-shop/siege-types';
 import * as V from './vec2.js';
+import { DEFAULT_COLLISION_FILTER } from './body.js';
+import { shouldCollide } from './collision.js';
+import { computeAABB, computeArea } from './shapes.js';
+import type { AABB } from './shapes.js';
+
+/** Falloff of radial fields with distance from their center point. */
+type Falloff = NonNullable<ForceField['falloff']>;
+
+/**
+ * Radial fields are evaluated no closer than 10px to their center, so they
+ * stay finite for bodies sitting on it.
+ */
+const MIN_DIST_SQ = 100;
 
 /**
- * Apply gravity as constant acceleration (mass-independent).
+ * Apply gravity as constant acceleration (mass-independent), scaled by the
+ * body's `gravityScale`.
  */
 export function applyGravity(body: PhysicsBody, gravity: Vec2): void {
-  body.acceleration.x += gravity.x;
-  body.acceleration.y += gravity.y;
+  body.acceleration.x += gravity.x * body.gravityScale;
+  body.acceleration.y += gravity.y * body.gravityScale;
 }
 
 /**
- * Apply linear drag: F_drag = -coefficient × velocity.
+ * Apply linear drag: F_drag = -coefficient × velocity. The coefficient
+ * defaults to the body's own `linearDamping`.
  */
-export function applyDrag(body: PhysicsBody, coefficient: number): void {
+export function applyDrag(body: PhysicsBody, coefficient = body.linearDamping): void {
   if (body.invMass <= 0) return;
   body.acceleration.x += (-coefficient * body.velocity.x) * body.invMass;
   body.acceleration.y += (-coefficient * body.velocity.y) * body.invMass;
@@ -32,42 +47,251 @@ export function applyWind(
 }
 
 /**
- * Apply attraction/repulsion toward a point.
+ * Apply a force at a world-space point. The off-center component
+ * contributes torque: τ = (point - position) × force.
  */
-export function applyAttraction(
+export function applyForceAtPoint(
   body: PhysicsBody,
+  force: Vec2,
   point: Vec2,
-  strength: number,
-  falloff: 'none' | 'linear' | 'quadratic' = 'quadratic',
 ): void {
   if (body.invMass <= 0) return;
+  body.acceleration.x += force.x * body.invMass;
+  body.acceleration.y += force.y * body.invMass;
+  body.torque += V.cross(V.sub(point, body.position), force);
+}
 
-  const delta = V.sub(point, body.position);
-  const distSq = V.lengthSq(delta);
-  const MIN_DIST_SQ = 100;
-  const clampedDistSq = Math.max(distSq, MIN_DIST_SQ);
+/**
+ * Direction from `from` to `to` and `strength` reduced with distance:
+ * unchanged (`'none'`), over distance (`'linear'`) or over distance
+ * squared (`'quadratic'`). The direction is shortened within 10px.
+ */
+function radial(
+  from: Vec2,
+  to: Vec2,
+  strength: number,
+  falloff: Falloff,
+): { direction: Vec2; magnitude: number } {
+  const delta = V.sub(to, from);
+  const clampedDistSq = Math.max(V.lengthSq(delta), MIN_DIST_SQ);
   const dist = Math.sqrt(clampedDistSq);
   const direction = V.scale(delta, 1 / dist);
 
-  let forceMag: number;
   switch (falloff) {
     case 'none':
-      forceMag = strength;
-      break;
+      return { direction, magnitude: strength };
     case 'linear':
-      forceMag = strength / dist;
-      break;
+      return { direction, magnitude: strength / dist };
     case 'quadratic':
-      forceMag = strength / clampedDistSq;
-      break;
+      return { direction, magnitude: strength / clampedDistSq };
   }
+}
+
+/**
+ * Apply attraction/repulsion toward a point.
+ */
+export function applyAttraction(
+  body: PhysicsBody,
+  point: Vec2,
+  strength: number,
+  falloff: Falloff = 'quadratic',
+): void {
+  if (body.invMass <= 0) return;
 
-  body.acceleration.x += direction.x * forceMag * body.invMass;
-  body.acceleration.y += direction.y * forceMag * body.invMass;
+  const { direction, magnitude } = radial(body.position, point, strength, falloff);
+  body.acceleration.x += direction.x * magnitude * body.invMass;
+  body.acceleration.y += direction.y * magnitude * body.invMass;
 }
 
 /**
- * Apply all ForceField objects to a body.
+ * Apply a swirling force around a point, perpendicular to the line from
+ * it: clockwise on screen for positive strength (the direction of
+ * increasing `angle`), counter-clockwise for negative.
+ */
+export function applyVortex(
+  body: PhysicsBody,
+  center: Vec2,
+  strength: number,
+  falloff: Falloff = 'linear',
+): void {
+  if (body.invMass <= 0) return;
+
+  const { direction, magnitude } = radial(center, body.position, strength, falloff);
+  body.acceleration.x += -direction.y * magnitude * body.invMass;
+  body.acceleration.y += direction.x * magnitude * body.invMass;
+}
+
+/**
+ * Push a body away from a point with an instantaneous impulse, changing
+ * its velocity by impulse / mass.
+ */
+export function applyExplosion(
+  body: PhysicsBody,
+  center: Vec2,
+  impulse: number,
+  falloff: Falloff = 'quadratic',
+): void {
+  if (body.invMass <= 0) return;
+
+  const { direction, magnitude } = radial(center, body.position, impulse, falloff);
+  body.velocity.x += direction.x * magnitude * body.invMass;
+  body.velocity.y += direction.y * magnitude * body.invMass;
+}
+
+/**
+ * Apply buoyancy and fluid drag for a fluid whose surface is at `surface`
+ * (y-down, so the fluid is below it).
+ *
+ * The submerged fraction is taken from the body's AABB: the lift is
+ * `density` × area × fraction against `gravity`, scaled by the body's
+ * `gravityScale` like its weight, and the drag is −`drag` × velocity ×
+ * fraction.
+ */
+export function applyBuoyancy(
+  body: PhysicsBody,
+  gravity: Vec2,
+  surface: number,
+  density: number,
+  drag = 0,
+): void {
+  if (body.invMass <= 0) return;
+
+  const box = computeAABB(body);
+  const height = box.max.y - box.min.y;
+  const depth = box.max.y - surface;
+  const submerged = height > 0 ? Math.min(Math.max(depth / height, 0), 1) : depth > 0 ? 1 : 0;
+  if (submerged === 0) return;
+
+  const lift = density * computeArea(body.shape) * submerged * body.gravityScale;
+  body.acceleration.x += (-gravity.x * lift - drag * body.velocity.x * submerged) * body.invMass;
+  body.acceleration.y += (-gravity.y * lift - drag * body.velocity.y * submerged) * body.invMass;
+}
+
+/** Mass per px² of `body`, the fluid density at which it neither sinks nor rises. */
+function bodyDensity(body: PhysicsBody): number {
+  const area = computeArea(body.shape);
+  return area > 0 ? body.mass / area : 0;
+}
+
+/**
+ * Apply a force of up to `strength` whose direction and size vary
+ * smoothly with position (noise cells of `scale` px) and `time` (one cell
+ * per second). The same seed always gives the same flow.
+ */
+export function applyTurbulence(
+  body: PhysicsBody,
+  strength: number,
+  seed: number,
+  scale: number,
+  time: number,
+): void {
+  if (body.invMass <= 0) return;
+
+  const x = body.position.x / scale;
+  const y = body.position.y / scale;
+  body.acceleration.x += strength * valueNoise(seed, x, y, time) * body.invMass;
+  body.acceleration.y += strength * valueNoise(seed + 1, x, y, time) * body.invMass;
+}
+
+/** Smooth 3D value noise in [-1, 1]: lattice values blended with smoothstep. */
+function valueNoise(seed: number, x: number, y: number, z: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const iz = Math.floor(z);
+  const u = smoothstep(x - ix);
+  const v = smoothstep(y - iy);
+  const w = smoothstep(z - iz);
+
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+  const plane = (k: number) =>
+    lerp(
+      lerp(lattice(seed, ix, iy, k), lattice(seed, ix + 1, iy, k), u),
+      lerp(lattice(seed, ix, iy + 1, k), lattice(seed, ix + 1, iy + 1, k), u),
+      v,
+    );
+  return lerp(plane(iz), plane(iz + 1), w);
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/** Hash of a lattice point to [-1, 1]. */
+function lattice(seed: number, x: number, y: number, z: number): number {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ x, 0xcc9e2d51);
+  h = Math.imul(h ^ y, 0x1b873593);
+  h = Math.imul(h ^ z, 0xe6546b64);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x2c1b3c6d);
+  h ^= h >>> 12;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
+
+// ---------------------------------------------------------------------------
+// Force Fields
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a field acts on a body: its `position` is inside the field's
+ * `region` and the field's `collisionFilter` collides with the body's.
+ * Buoyancy reaches any body whose AABB touches the region, so one floating
+ * with its center above the surface is still held up.
+ */
+export function fieldReaches(field: ForceField, body: PhysicsBody): boolean {
+  if (field.region) {
+    const inside =
+      field.type === 'buoyancy'
+        ? overlapsRegion(field.region, computeAABB(body))
+        : inRegion(field.region, body.position);
+    if (!inside) return false;
+  }
+  if (!field.collisionFilter) return true;
+  return shouldCollide(
+    { ...DEFAULT_COLLISION_FILTER, ...field.collisionFilter },
+    body.collisionFilter,
+  );
+}
+
+function inRegion(region: ForceRegion, point: Vec2): boolean {
+  if (region.type === 'circle') {
+    return V.lengthSq(V.sub(point, region.center)) <= region.radius * region.radius;
+  }
+  return (
+    point.x >= region.min.x &&
+    point.x <= region.max.x &&
+    point.y >= region.min.y &&
+    point.y <= region.max.y
+  );
+}
+
+function overlapsRegion(region: ForceRegion, box: AABB): boolean {
+  if (region.type === 'circle') {
+    const closest = {
+      x: Math.min(Math.max(region.center.x, box.min.x), box.max.x),
+      y: Math.min(Math.max(region.center.y, box.min.y), box.max.y),
+    };
+    return inRegion(region, closest);
+  }
+  return (
+    box.max.x >= region.min.x &&
+    box.min.x <= region.max.x &&
+    box.max.y >= region.min.y &&
+    box.min.y <= region.max.y
+  );
+}
+
+/** Top of a region, i.e. the surface of a fluid filling it. */
+function regionTop(region: ForceRegion | undefined): number {
+  if (!region) return -Infinity;
+  return region.type === 'circle' ? region.center.y - region.radius : region.min.y;
+}
+
+/**
+ * Apply all ForceField objects that reach a body (see {@link fieldReaches}).
+ *
+ * Explosions are skipped: they are one-off impulses the world applies
+ * with {@link applyExplosion} before removing them.
  */
 export function applyForceFields(
   body: PhysicsBody,
@@ -75,6 +299,7 @@ export function applyForceFields(
   gravity: Vec2,
 ): void {
   for (const field of fields) {
+    if (!fieldReaches(field, body)) continue;
     switch (field.type) {
       case 'gravity':
         applyGravity(body, field.vector ?? gravity);
@@ -90,6 +315,31 @@ export function applyForceFields(
           applyAttraction(body, field.vector, field.strength ?? 100, field.falloff ?? 'quadratic');
         }
         break;
+      case 'vortex':
+        if (field.vector) {
+          applyVortex(body, field.vector, field.strength ?? 100, field.falloff ?? 'linear');
+        }
+        break;
+      case 'buoyancy':
+        applyBuoyancy(
+          body,
+          field.vector ?? gravity,
+          regionTop(field.region),
+          field.density ?? bodyDensity(body),
+          field.strength ?? 0,
+        );
+        break;
+      case 'turbulence':
+        applyTurbulence(
+          body,
+          field.strength ?? 100,
+          field.seed ?? 0,
+          field.scale ?? 100,
+          field.age ?? 0,
+        );
+        break;
+      case 'explosion':
+        break;
     }
   }
 }
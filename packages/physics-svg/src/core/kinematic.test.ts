@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { createConstraint } from './constraint.js';
+import { updateSleepState } from './sleeping.js';
+import type { WorldConfig } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STEP = 1 / 60;
+
+function defaultConfig(overrides: Partial<WorldConfig> = {}): WorldConfig {
+  return {
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 4,
+    ...overrides,
+  };
+}
+
+/** A kinematic pusher block, 40×40. */
+function pusher(overrides: Parameters<typeof createBody>[0] = {}) {
+  return createBody({
+    id: 'pusher',
+    bodyType: 'kinematic',
+    shape: { type: 'rect', width: 40, height: 40 },
+    ...overrides,
+  });
+}
+
+function run(engine: PhysicsEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.update(STEP);
+}
+
+// ===========================================================================
+// MOTION
+// ===========================================================================
+
+describe('kinematic bodies — motion', () => {
+  it('move only by their set velocity, ignoring gravity, drag and force fields', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(pusher({ position: { x: 0, y: 0 }, velocity: { x: 60, y: 0 } }));
+    engine.addForceField({ type: 'wind', vector: { x: 0, y: 500 } });
+
+    run(engine, 60);
+
+    const body = engine.getBody('pusher')!;
+    expect(body.velocity).toEqual({ x: 60, y: 0 });
+    expect(body.position.x).toBeCloseTo(60, 6);
+    expect(body.position.y).toBe(0);
+  });
+
+  it('rotate at their set angular velocity', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(pusher({ angularVelocity: Math.PI }));
+
+    run(engine, 30);
+
+    expect(engine.getBody('pusher')!.angle).toBeCloseTo(Math.PI / 2, 6);
+  });
+
+  it('ignore impulses', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(pusher());
+
+    engine.applyImpulse('pusher', { x: 100, y: 0 });
+
+    expect(engine.getBody('pusher')!.velocity).toEqual({ x: 0, y: 0 });
+  });
+
+  it('interpolate between previous and current position', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(pusher({ velocity: { x: 60, y: 0 } }));
+
+    engine.update(STEP * 1.5);
+
+    const body = engine.getBody('pusher')!;
+    expect(body.previousPosition.x).toBeCloseTo(0.75, 6);
+    expect(body.position.x).toBeCloseTo(1, 6);
+    expect(engine.getInterpolatedPosition(body).x).toBeCloseTo(0.875, 6);
+  });
+});
+
+// ===========================================================================
+// CONTACTS
+// ===========================================================================
+
+describe('kinematic bodies — contacts', () => {
+  it('push dynamic bodies without being slowed down', () => {
+    const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+    engine.addBody(pusher({ position: { x: 0, y: 0 }, velocity: { x: 120, y: 0 } }));
+    engine.addBody(
+      createBody({
+        id: 'checker',
+        position: { x: 40, y: 0 },
+        shape: { type: 'circle', radius: 10 },
+        mass: 1000,
+        restitution: 0,
+      }),
+    );
+
+    run(engine, 60);
+
+    const block = engine.getBody('pusher')!;
+    const checker = engine.getBody('checker')!;
+    expect(block.velocity.x).toBe(120);
+    expect(block.position.x).toBeCloseTo(120, 6);
+    // Shoved ahead of the block's leading face
+    expect(checker.position.x).toBeGreaterThan(block.position.x + 20);
+  });
+
+  it('wake sleeping bodies they run into', () => {
+    const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+    engine.addBody(pusher({ position: { x: 0, y: 0 }, velocity: { x: 120, y: 0 } }));
+    engine.addBody(
+      createBody({ id: 'checker', position: { x: 60, y: 0 }, isSleeping: true, sleepTimer: 30 }),
+    );
+
+    run(engine, 30);
+
+    const checker = engine.getBody('checker')!;
+    expect(checker.isSleeping).toBe(false);
+    expect(checker.position.x).toBeGreaterThan(60);
+  });
+
+  it('carry a resting body along with friction', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(
+      pusher({
+        id: 'platform',
+        position: { x: 100, y: 200 },
+        velocity: { x: 50, y: 0 },
+        shape: { type: 'rect', width: 200, height: 20 },
+        friction: 1,
+      }),
+    );
+    engine.addBody(
+      createBody({
+        id: 'box',
+        position: { x: 100, y: 180 },
+        shape: { type: 'rect', width: 20, height: 20 },
+        friction: 1,
+        restitution: 0,
+      }),
+    );
+
+    run(engine, 60);
+
+    expect(engine.getBody('box')!.position.x).toBeGreaterThan(140);
+  });
+
+  it('pass through static and other kinematic bodies', () => {
+    const engine = new PhysicsEngine(defaultConfig({ gravity: { x: 0, y: 0 } }));
+    engine.addBody(pusher({ velocity: { x: 120, y: 0 } }));
+    engine.addBody(pusher({ id: 'other', position: { x: 30, y: 0 } }));
+    engine.addBody(
+      createBody({
+        id: 'wall',
+        isStatic: true,
+        position: { x: 60, y: 0 },
+        shape: { type: 'rect', width: 10, height: 100 },
+      }),
+    );
+    const starts: string[] = [];
+    engine.on('collisionStart', (e) => starts.push(`${e.bodyA}|${e.bodyB}`));
+
+    run(engine, 60);
+
+    expect(engine.getBody('pusher')!.position.x).toBeCloseTo(120, 6);
+    expect(engine.getBody('other')!.position.x).toBe(30);
+    expect(starts).toEqual([]);
+  });
+
+  it('drive a hinged lid without being dragged by it', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(
+      pusher({ id: 'hinge', angularVelocity: 1, shape: { type: 'circle', radius: 5 } }),
+    );
+    engine.addBody(
+      createBody({
+        id: 'lid',
+        position: { x: 50, y: 0 },
+        shape: { type: 'rect', width: 100, height: 10 },
+      }),
+    );
+    engine.addConstraint(
+      createConstraint({
+        type: 'hinge',
+        bodyA: 'hinge',
+        bodyB: 'lid',
+        anchorB: { x: -50, y: 0 },
+        stiffness: 1,
+        lowerAngle: 0,
+        upperAngle: 0,
+      }),
+    );
+
+    run(engine, 30);
+
+    const hinge = engine.getBody('hinge')!;
+    expect(hinge.position).toEqual({ x: 0, y: 0 });
+    expect(hinge.angularVelocity).toBe(1);
+    // The limits lock the lid to the hinge's rotation, against gravity
+    expect(engine.getBody('lid')!.angle).toBeCloseTo(hinge.angle, 1);
+  });
+});
+
+// ===========================================================================
+// SLEEP
+// ===========================================================================
+
+describe('kinematic bodies — sleep', () => {
+  it('do not fall asleep while moving slowly', () => {
+    const body = pusher({ velocity: { x: 0.1, y: 0 } });
+    for (let i = 0; i < 100; i++) updateSleepState(body);
+    expect(body.isSleeping).toBe(false);
+    expect(body.velocity.x).toBe(0.1);
+  });
+
+  it('sleep once stopped and resume when given a velocity', () => {
+    const engine = new PhysicsEngine(defaultConfig());
+    engine.addBody(pusher());
+    run(engine, 20);
+    expect(engine.getBody('pusher')!.isSleeping).toBe(true);
+
+    engine.setVelocity('pusher', { x: 30, y: 0 });
+    run(engine, 30);
+
+    const body = engine.getBody('pusher')!;
+    expect(body.isSleeping).toBe(false);
+    expect(body.position.x).toBeCloseTo(15, 6);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import type { WorldConfig } from '@mcp-tool-shop/siege-types';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { combine, DEFAULT_MATERIALS, mixSurfaces, surfaceOf } from './material.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * A checker sliding at 200 px/s across a static slab of `surface`.
+ * Returns how far it slid in two seconds.
+ */
+function slide(surface: string, config: Partial<WorldConfig> = {}): number {
+  const engine = new PhysicsEngine({
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 6,
+    ...config,
+  });
+  engine.addBody(
+    createBody({
+      id: 'slab',
+      isStatic: true,
+      material: surface,
+      position: { x: 500, y: 110 },
+      shape: { type: 'rect', width: 1000, height: 20 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'checker',
+      material: 'ivory',
+      position: { x: 100, y: 90 },
+      velocity: { x: 200, y: 0 },
+      shape: { type: 'rect', width: 20, height: 20 },
+    }),
+  );
+
+  for (let i = 0; i < 120; i++) engine.stepOnce();
+  return engine.getBody('checker')!.position.x - 100;
+}
+
+// ===========================================================================
+// COMBINING
+// ===========================================================================
+
+describe('combine', () => {
+  it('supports every mode', () => {
+    expect(combine(0.2, 0.8, 'average')).toBeCloseTo(0.5, 10);
+    expect(combine(0.2, 0.8, 'geometric')).toBeCloseTo(0.4, 10);
+    expect(combine(0.2, 0.8, 'min')).toBe(0.2);
+    expect(combine(0.2, 0.8, 'multiply')).toBeCloseTo(0.16, 10);
+    expect(combine(0.2, 0.8, 'max')).toBe(0.8);
+  });
+});
+
+describe('mixSurfaces', () => {
+  it('matches the old rules for bodies without materials', () => {
+    const a = createBody({ friction: 0.25, restitution: 0.9 });
+    const b = createBody({ friction: 1, restitution: 0.3 });
+
+    expect(mixSurfaces(a, b)).toEqual({ friction: 0.5, restitution: 0.3 });
+  });
+
+  it('uses a named material instead of the body\'s own values', () => {
+    const checker = createBody({ material: 'ivory', friction: 1, restitution: 0 });
+
+    expect(surfaceOf(checker)).toBe(DEFAULT_MATERIALS.ivory);
+    expect(mixSurfaces(checker, createBody({ material: 'ivory' }))).toEqual({
+      friction: expect.closeTo(0.2, 10),
+      restitution: 0.8,
+    });
+  });
+
+  it('takes world-wide combine modes from the config', () => {
+    const a = createBody({ friction: 0.2, restitution: 0.2 });
+    const b = createBody({ friction: 0.8, restitution: 0.8 });
+
+    expect(mixSurfaces(a, b, { frictionCombine: 'max', restitutionCombine: 'average' })).toEqual({
+      friction: 0.8,
+      restitution: 0.5,
+    });
+  });
+
+  it('lets the higher-priority mode win when two materials disagree', () => {
+    const config: WorldConfig = {
+      gravity: { x: 0, y: 0 },
+      substeps: 1,
+      velocityIterations: 1,
+      materials: {
+        grippy: { friction: 1, restitution: 0, frictionCombine: 'max' },
+        slick: { friction: 0.1, restitution: 1, frictionCombine: 'min' },
+      },
+    };
+    const grippy = createBody({ material: 'grippy' });
+    const slick = createBody({ material: 'slick' });
+
+    expect(mixSurfaces(grippy, slick, config).friction).toBe(1);
+    expect(mixSurfaces(slick, grippy, config).friction).toBe(1);
+  });
+
+  it('a material pair overrides what it sets, in either order', () => {
+    const config = {
+      materialPairs: [{ materials: ['felt', 'ivory'] as [string, string], friction: 0.6 }],
+    };
+    const felt = createBody({ material: 'felt' });
+    const ivory = createBody({ material: 'ivory' });
+
+    expect(mixSurfaces(ivory, felt, config)).toEqual({ friction: 0.6, restitution: 0.05 });
+    expect(mixSurfaces(felt, ivory, config).friction).toBe(0.6);
+    expect(mixSurfaces(felt, felt, config).friction).toBeCloseTo(0.9, 10);
+  });
+
+  it('falls back to the body\'s own values for an unregistered name', () => {
+    const body = createBody({ material: 'marble', friction: 0.7, restitution: 0.1 });
+
+    expect(surfaceOf(body)).toEqual({ friction: 0.7, restitution: 0.1 });
+  });
+});
+
+// ===========================================================================
+// WORLD
+// ===========================================================================
+
+describe('materials in the world', () => {
+  it('a checker slides further on the frame than on the felt', () => {
+    const onFelt = slide('felt');
+    const onFrame = slide('wood');
+
+    expect(onFelt).toBeGreaterThan(0);
+    expect(onFrame).toBeGreaterThan(onFelt * 1.3);
+  });
+
+  it('material pairs from the config change the contact', () => {
+    const grippy = slide('wood', {
+      materialPairs: [{ materials: ['wood', 'ivory'], friction: 2 }],
+    });
+
+    expect(grippy).toBeLessThan(slide('wood'));
+  });
+
+  it('defineMaterial registers and replaces materials', () => {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 0 },
+      substeps: 1,
+      velocityIterations: 1,
+    });
+
+    expect(() => engine.addBody(createBody({ material: 'cork' }))).toThrow(/Unknown material/);
+
+    engine.defineMaterial('cork', { friction: 0.7, restitution: 0.3 });
+    engine.defineMaterial('felt', { friction: 0.5, restitution: 0 });
+    engine.addBody(createBody({ material: 'cork' }));
+
+    expect(engine.getConfig().materials).toEqual({
+      cork: { friction: 0.7, restitution: 0.3 },
+      felt: { friction: 0.5, restitution: 0 },
+    });
+  });
+
+  it('solid bounds bounce a body with its material', () => {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 980 },
+      substeps: 4,
+      velocityIterations: 6,
+      bounds: { min: { x: 0, y: 0 }, max: { x: 200, y: 200 } },
+    });
+    engine.addBody(
+      createBody({ id: 'die', material: 'ivory', restitution: 0, position: { x: 100, y: 20 } }),
+    );
+
+    let bounced = false;
+    for (let i = 0; i < 60 && !bounced; i++) {
+      engine.stepOnce();
+      bounced = engine.getBody('die')!.velocity.y < -100;
+    }
+
+    expect(bounced).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  CombineMode,
+  Material,
+  PhysicsBody,
+  WorldConfig,
+} from '@mcp-tool-shop/siege-types';
+
+/** The parts of the world config that decide how surfaces combine. */
+export type MaterialConfig = Pick<
+  WorldConfig,
+  'materials' | 'materialPairs' | 'frictionCombine' | 'restitutionCombine'
+>;
+
+/** Friction and restitution for one contact. */
+export interface SurfaceMix {
+  friction: number;
+  restitution: number;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/**
+ * Materials every world knows, overridable by name through
+ * `WorldConfig.materials`:
+ * - `felt`: grippy and dead, for playing surfaces
+ * - `wood`: moderate grip and bounce, for frames and boards
+ * - `ivory`: slick and lively, for checkers and dice
+ */
+export const DEFAULT_MATERIALS: Readonly<Record<string, Readonly<Material>>> = {
+  felt: { friction: 0.9, restitution: 0.05 },
+  wood: { friction: 0.4, restitution: 0.5 },
+  ivory: { friction: 0.2, restitution: 0.8 },
+};
+
+/** Look up a material by name: the world's own first, then the built-ins. */
+export function findMaterial(name: string, config: MaterialConfig = {}): Material | undefined {
+  return config.materials?.[name] ?? DEFAULT_MATERIALS[name];
+}
+
+/**
+ * A body's surface: its named material, or its own `friction` and
+ * `restitution` if it has none (or names one that is not registered).
+ */
+export function surfaceOf(body: PhysicsBody, config: MaterialConfig = {}): Material {
+  const material = body.material === undefined ? undefined : findMaterial(body.material, config);
+  return material ?? { friction: body.friction, restitution: body.restitution };
+}
+
+// ---------------------------------------------------------------------------
+// Combining
+// ---------------------------------------------------------------------------
+
+/** Combine modes in increasing priority. */
+const PRIORITY: readonly CombineMode[] = ['average', 'geometric', 'min', 'multiply', 'max'];
+
+/** Combine two surface values. */
+export function combine(a: number, b: number, mode: CombineMode): number {
+  switch (mode) {
+    case 'average':
+      return (a + b) / 2;
+    case 'geometric':
+      return Math.sqrt(a * b);
+    case 'min':
+      return Math.min(a, b);
+    case 'multiply':
+      return a * b;
+    case 'max':
+      return Math.max(a, b);
+  }
+}
+
+/** The mode two surfaces combine with: the higher-priority of the two. */
+function pickMode(a: CombineMode, b: CombineMode): CombineMode {
+  return PRIORITY.indexOf(a) >= PRIORITY.indexOf(b) ? a : b;
+}
+
+/**
+ * Friction and restitution for a contact between two bodies.
+ *
+ * A `materialPairs` entry naming both bodies' materials wins; whatever it
+ * leaves out is combined from the two surfaces (see {@link surfaceOf})
+ * with their combine modes, falling back to the world's (`'geometric'`
+ * for friction and `'min'` for restitution by default).
+ */
+export function mixSurfaces(
+  a: PhysicsBody,
+  b: PhysicsBody,
+  config: MaterialConfig = {},
+): SurfaceMix {
+  const surfaceA = surfaceOf(a, config);
+  const surfaceB = surfaceOf(b, config);
+  const frictionDefault = config.frictionCombine ?? 'geometric';
+  const restitutionDefault = config.restitutionCombine ?? 'min';
+
+  const override = config.materialPairs?.find(({ materials: [m1, m2] }) =>
+    (m1 === a.material && m2 === b.material) || (m1 === b.material && m2 === a.material),
+  );
+
+  return {
+    friction:
+      override?.friction ??
+      combine(
+        surfaceA.friction,
+        surfaceB.friction,
+        pickMode(
+          surfaceA.frictionCombine ?? frictionDefault,
+          surfaceB.frictionCombine ?? frictionDefault,
+        ),
+      ),
+    restitution:
+      override?.restitution ??
+      combine(
+        surfaceA.restitution,
+        surfaceB.restitution,
+        pickMode(
+          surfaceA.restitutionCombine ?? restitutionDefault,
+          surfaceB.restitutionCombine ?? restitutionDefault,
+        ),
+      ),
+  };
+}
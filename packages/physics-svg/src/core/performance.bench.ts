@@ -4,6 +4,7 @@ import { createConstraint } from './constraint.js';
 import { PhysicsEngine } from './engine.js';
 import { detectCollisions } from './collision.js';
 import * as V from './vec2.js';
+import type { BroadPhaseType } from '@mcp-tool-shop/siege-types';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -342,3 +343,73 @@ describe('Collision detection only', () => {
     { iterations: 5 },
   );
 });
+
+// ---------------------------------------------------------------------------
+// 9-10. Broad Phase (500 / 2000 bodies)
+// ---------------------------------------------------------------------------
+
+const BROAD_PHASES: BroadPhaseType[] = ['brute', 'spatial-hash', 'sap'];
+
+function scatterCircles(count: number, extent: number) {
+  const bodies = [];
+  for (let i = 0; i < count; i++) {
+    bodies.push(
+      createBody({
+        position: { x: Math.random() * extent, y: Math.random() * extent },
+        shape: { type: 'circle', radius: 3 + Math.random() * 4 },
+      }),
+    );
+  }
+  return bodies;
+}
+
+function createParticleEngine(count: number, broadPhase: BroadPhaseType): PhysicsEngine {
+  const engine = new PhysicsEngine({ ...worldConfig(), broadPhase });
+
+  for (let i = 0; i < count; i++) {
+    engine.addBody(
+      createBody({
+        position: { x: 20 + Math.random() * 960, y: 20 + Math.random() * 600 },
+        shape: { type: 'circle', radius: 3 },
+        mass: 1,
+      }),
+    );
+  }
+
+  return engine;
+}
+
+describe('Broad phase - detectCollisions', () => {
+  for (const count of [500, 2000]) {
+    const bodies = scatterCircles(count, 1000);
+
+    for (const type of BROAD_PHASES) {
+      bench(
+        `${count} bodies - ${type} x10`,
+        () => {
+          for (let i = 0; i < 10; i++) {
+            detectCollisions(bodies, type);
+          }
+        },
+        { iterations: 5 },
+      );
+    }
+  }
+});
+
+describe('Broad phase - full simulation', () => {
+  for (const count of [500, 2000]) {
+    for (const type of BROAD_PHASES) {
+      bench(
+        `${count} particles - ${type} - 30 steps`,
+        () => {
+          const engine = createParticleEngine(count, type);
+          for (let i = 0; i < 30; i++) {
+            engine.update(1 / 60);
+          }
+        },
+        { iterations: 3 },
+      );
+    }
+  }
+});
@@ -0,0 +1,471 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { createConstraint } from './constraint.js';
+import { applyForceAtPoint } from './forces.js';
+import { StepHooks } from './plugins.js';
+import type { PhysicsPlugin } from './plugins.js';
+import type { ConstraintSolver } from './solver.js';
+import type { ConstraintEvent } from './events.js';
+import type { PhysicsBody, Vec2, WorldConfig } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function config(overrides: Partial<WorldConfig> = {}): WorldConfig {
+  return {
+    gravity: { x: 0, y: 0 },
+    substeps: 2,
+    velocityIterations: 4,
+    ...overrides,
+  };
+}
+
+/** An engine with one ball at rest at (100, 100). */
+function ballScene(overrides: Partial<WorldConfig> = {}) {
+  const engine = new PhysicsEngine(config(overrides));
+  engine.addBody(
+    createBody({
+      id: 'ball',
+      position: { x: 100, y: 100 },
+      shape: { type: 'circle', radius: 10 },
+      linearDamping: 0,
+    }),
+  );
+  return engine;
+}
+
+/** Force of `strength` toward `point`, like a magnet on a steel ball. */
+function magnet(point: Vec2, strength: number) {
+  return (body: PhysicsBody) => {
+    const dx = point.x - body.position.x;
+    const dy = point.y - body.position.y;
+    const len = Math.hypot(dx, dy);
+    if (len < 1) return;
+    applyForceAtPoint(
+      body,
+      { x: (dx / len) * strength, y: (dy / len) * strength },
+      body.position,
+    );
+  };
+}
+
+/** Plugin adding a {@link magnet} force while installed. */
+function magnetPlugin(point: Vec2, strength: number): PhysicsPlugin & { steps: number } {
+  const removers: (() => void)[] = [];
+  return {
+    name: 'magnet',
+    steps: 0,
+    install(engine) {
+      removers.push(engine.addForce(magnet(point, strength)));
+      removers.push(
+        engine.addHook('afterStep', () => {
+          this.steps++;
+        }),
+      );
+    },
+    uninstall() {
+      for (const remove of removers.splice(0)) remove();
+    },
+  };
+}
+
+/**
+ * Snap `bodyB` onto `bodyA`'s position, moving it `stiffness` of the way
+ * each iteration. Returns the impulse that would make that move in `dt`.
+ */
+const snapSolver: ConstraintSolver = (bodyA, bodyB, constraint, dt) => {
+  const dx = (bodyA.position.x - bodyB.position.x) * constraint.stiffness;
+  const dy = (bodyA.position.y - bodyB.position.y) * constraint.stiffness;
+  bodyB.position.x += dx;
+  bodyB.position.y += dy;
+  bodyB.velocity.x = 0;
+  bodyB.velocity.y = 0;
+  return (Math.hypot(dx, dy) / dt) * bodyB.mass;
+};
+
+/** A static sensor pin at (100, 100) and a ball under gravity at (100, 120). */
+function snapScene() {
+  const engine = new PhysicsEngine(config({ gravity: { x: 0, y: 980 } }));
+  engine.addBody(
+    createBody({
+      id: 'pin',
+      isStatic: true,
+      isSensor: true,
+      position: { x: 100, y: 100 },
+      shape: { type: 'circle', radius: 2 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'ball',
+      position: { x: 100, y: 120 },
+      shape: { type: 'circle', radius: 10 },
+    }),
+  );
+  return engine;
+}
+
+// ===========================================================================
+// HOOK REGISTRY
+// ===========================================================================
+
+describe('StepHooks', () => {
+  it('runs hooks for a name in the order they were added', () => {
+    const hooks = new StepHooks();
+    const log: string[] = [];
+    hooks.add('afterStep', () => log.push('first'));
+    hooks.add('afterStep', () => log.push('second'));
+    hooks.add('beforeStep', () => log.push('other'));
+
+    hooks.run('afterStep', { step: 1, dt: 1 / 60 });
+
+    expect(log).toEqual(['first', 'second']);
+  });
+
+  it('returns a remover, safe to call from inside the hook', () => {
+    const hooks = new StepHooks();
+    const once = vi.fn(() => remove());
+    const remove = hooks.add('afterStep', once);
+    const other = vi.fn();
+    hooks.add('afterStep', other);
+
+    hooks.run('afterStep', { step: 1, dt: 1 / 60 });
+    hooks.run('afterStep', { step: 2, dt: 1 / 60 });
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ===========================================================================
+// STEP HOOKS
+// ===========================================================================
+
+describe('PhysicsEngine.addHook()', () => {
+  it('runs each hook at its point of the step, per substep where it applies', () => {
+    const engine = ballScene();
+    const log: string[] = [];
+    for (const name of [
+      'beforeStep',
+      'afterForces',
+      'afterIntegrate',
+      'afterSolve',
+      'afterStep',
+    ] as const) {
+      engine.addHook(name, ({ step, substep }) =>
+        log.push(substep === undefined ? `${name} ${step}` : `${name} ${step}.${substep}`),
+      );
+    }
+    engine.on('step', ({ step }) => log.push(`event ${step}`));
+
+    engine.stepOnce();
+
+    expect(log).toEqual([
+      'beforeStep 1',
+      'afterForces 1.0',
+      'afterIntegrate 1.0',
+      'afterSolve 1.0',
+      'afterForces 1.1',
+      'afterIntegrate 1.1',
+      'afterSolve 1.1',
+      'afterStep 1',
+      'event 1',
+    ]);
+  });
+
+  it('passes the step length to whole-step hooks and the substep length to the others', () => {
+    const engine = ballScene({ substeps: 4 });
+    const dts: Record<string, number> = {};
+    engine.addHook('beforeStep', ({ dt }) => (dts.before = dt));
+    engine.addHook('afterSolve', ({ dt }) => (dts.solve = dt));
+
+    engine.stepOnce();
+
+    expect(dts.before).toBeCloseTo(1 / 60, 10);
+    expect(dts.solve).toBeCloseTo(1 / 240, 10);
+  });
+
+  it('sees forces before integration and moved bodies after it', () => {
+    const engine = ballScene({ gravity: { x: 0, y: 980 }, substeps: 1 });
+    const ball = engine.getBody('ball')!;
+    let afterForces = { ay: 0, y: 0 };
+    let afterIntegrate = { ay: 0, y: 0 };
+    engine.addHook('afterForces', () => {
+      afterForces = { ay: ball.acceleration.y, y: ball.position.y };
+    });
+    engine.addHook('afterIntegrate', () => {
+      afterIntegrate = { ay: ball.acceleration.y, y: ball.position.y };
+    });
+
+    engine.stepOnce();
+
+    expect(afterForces).toEqual({ ay: 980, y: 100 });
+    expect(afterIntegrate.ay).toBe(0);
+    expect(afterIntegrate.y).toBeGreaterThan(100);
+  });
+
+  it('stops running once removed', () => {
+    const engine = ballScene();
+    const hook = vi.fn();
+    const remove = engine.addHook('afterStep', hook);
+
+    engine.stepOnce();
+    remove();
+    engine.stepOnce();
+
+    expect(hook).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets an afterSolve hook snap a body to a point at physics rate', () => {
+    const engine = ballScene({ gravity: { x: 0, y: 980 } });
+    const ball = engine.getBody('ball')!;
+    engine.addHook('afterSolve', () => {
+      ball.position.x = Math.round(ball.position.x / 20) * 20;
+      ball.position.y = Math.round(ball.position.y / 20) * 20;
+    });
+
+    // However the frames fall, the ball is on the grid after every step
+    for (const frame of [0.005, 0.03, 0.011, 0.05]) {
+      engine.update(frame);
+      expect(ball.position.y % 20).toBe(0);
+    }
+  });
+});
+
+// ===========================================================================
+// CUSTOM FORCES
+// ===========================================================================
+
+describe('PhysicsEngine.addForce()', () => {
+  it('pulls awake dynamic bodies each substep', () => {
+    const engine = ballScene();
+    engine.addForce(magnet({ x: 300, y: 100 }, 500));
+
+    for (let i = 0; i < 30; i++) engine.stepOnce();
+
+    const ball = engine.getBody('ball')!;
+    expect(ball.velocity.x).toBeGreaterThan(0);
+    expect(ball.position.x).toBeGreaterThan(100);
+    expect(ball.position.y).toBe(100);
+  });
+
+  it('gives the same run whatever the render frame rate', () => {
+    const a = ballScene();
+    const b = ballScene();
+    a.addForce(magnet({ x: 300, y: 200 }, 500));
+    b.addForce(magnet({ x: 300, y: 200 }, 500));
+
+    // 30 frames at 30 fps against the same number of fixed steps
+    for (let i = 0; i < 30; i++) a.update(1 / 30);
+    while (b.stepCount < a.stepCount) b.stepOnce();
+
+    expect(a.getBody('ball')!.position).toEqual(b.getBody('ball')!.position);
+    expect(a.getBody('ball')!.velocity).toEqual(b.getBody('ball')!.velocity);
+  });
+
+  it('stops pulling once removed', () => {
+    const engine = ballScene();
+    const remove = engine.addForce(magnet({ x: 300, y: 100 }, 500));
+
+    engine.stepOnce();
+    remove();
+    const speed = engine.getBody('ball')!.velocity.x;
+    engine.stepOnce();
+
+    expect(engine.getBody('ball')!.velocity.x).toBe(speed);
+  });
+
+  it('gets the time each call covers, half a substep twice under velocity Verlet', () => {
+    const speeds: number[] = [];
+    for (const integrator of ['euler', 'velocity-verlet'] as const) {
+      const engine = ballScene({ integrator, substeps: 4 });
+      const dts: number[] = [];
+      // Push by changing velocity directly, scaled by the time covered
+      engine.addForce((body, dt) => {
+        dts.push(dt);
+        body.velocity.x += 120 * dt;
+      });
+
+      engine.stepOnce();
+
+      const calls = integrator === 'euler' ? 4 : 8;
+      expect(dts).toHaveLength(calls);
+      for (const dt of dts) expect(dt).toBeCloseTo(1 / 60 / calls, 12);
+      speeds.push(engine.getBody('ball')!.velocity.x);
+    }
+
+    expect(speeds[0]).toBeCloseTo(2, 10);
+    expect(speeds[1]).toBeCloseTo(speeds[0]!, 10);
+  });
+
+  it('leaves static and sleeping bodies alone', () => {
+    const engine = ballScene();
+    engine.addBody(
+      createBody({
+        id: 'wall',
+        isStatic: true,
+        position: { x: 0, y: 0 },
+        shape: { type: 'rect', width: 10, height: 10 },
+      }),
+    );
+    const ball = engine.getBody('ball')!;
+    ball.isSleeping = true;
+    const force = vi.fn();
+    engine.addForce(force);
+
+    engine.stepOnce();
+
+    expect(force).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================================================
+// CUSTOM CONSTRAINT SOLVERS
+// ===========================================================================
+
+describe('custom constraints', () => {
+  it('are solved by the solver registered under their name', () => {
+    const engine = snapScene();
+    engine.addConstraintSolver('snap', snapSolver);
+    engine.addConstraint(
+      createConstraint({
+        type: 'custom',
+        solver: 'snap',
+        bodyA: 'pin',
+        bodyB: 'ball',
+        stiffness: 1,
+      }),
+    );
+
+    for (let i = 0; i < 30; i++) engine.stepOnce();
+
+    expect(engine.getBody('ball')!.position).toEqual({ x: 100, y: 100 });
+  });
+
+  it('break past maxForce using the impulse the solver returns', () => {
+    const engine = snapScene();
+    engine.addConstraintSolver('snap', snapSolver);
+    engine.addConstraint(
+      createConstraint({
+        id: 'weld',
+        type: 'custom',
+        solver: 'snap',
+        bodyA: 'pin',
+        bodyB: 'ball',
+        stiffness: 1,
+        maxForce: 10,
+      }),
+    );
+    const broken: ConstraintEvent[] = [];
+    engine.on('constraintBroken', (e) => broken.push(e));
+
+    engine.stepOnce();
+
+    expect(broken).toHaveLength(1);
+    expect(broken[0]!.constraint).toBe('weld');
+    expect(engine.getConstraints()).toHaveLength(0);
+  });
+
+  it('are skipped while their solver is removed', () => {
+    const engine = snapScene();
+    const remove = engine.addConstraintSolver('snap', snapSolver);
+    engine.addConstraint(
+      createConstraint({
+        type: 'custom',
+        solver: 'snap',
+        bodyA: 'pin',
+        bodyB: 'ball',
+        stiffness: 1,
+      }),
+    );
+
+    remove();
+    for (let i = 0; i < 10; i++) engine.stepOnce();
+
+    expect(engine.getBody('ball')!.position.y).toBeGreaterThan(120);
+    expect(engine.getConstraints()).toHaveLength(1);
+  });
+
+  it('cannot be added without a registered solver', () => {
+    const engine = snapScene();
+    const constraint = createConstraint({
+      type: 'custom',
+      solver: 'snap',
+      bodyA: 'pin',
+      bodyB: 'ball',
+    });
+
+    expect(() => engine.addConstraint(constraint)).toThrow('Unknown constraint solver "snap"');
+    expect(() => engine.addConstraint({ ...constraint, solver: undefined })).toThrow(
+      'Unknown constraint solver',
+    );
+  });
+
+  it('rejects a second solver under the same name', () => {
+    const engine = snapScene();
+    engine.addConstraintSolver('snap', snapSolver);
+
+    expect(() => engine.addConstraintSolver('snap', snapSolver)).toThrow('already registered');
+  });
+});
+
+// ===========================================================================
+// PLUGINS
+// ===========================================================================
+
+describe('PhysicsEngine.use()', () => {
+  it('installs a plugin whose forces and hooks run every step', () => {
+    const engine = ballScene();
+    const plugin = magnetPlugin({ x: 300, y: 100 }, 500);
+
+    engine.use(plugin);
+    for (let i = 0; i < 5; i++) engine.stepOnce();
+
+    expect(engine.hasPlugin('magnet')).toBe(true);
+    expect(plugin.steps).toBe(5);
+    expect(engine.getBody('ball')!.position.x).toBeGreaterThan(100);
+  });
+
+  it('rejects a second plugin with the same name', () => {
+    const engine = ballScene();
+    engine.use(magnetPlugin({ x: 300, y: 100 }, 500));
+
+    expect(() => engine.use(magnetPlugin({ x: 0, y: 0 }, 1))).toThrow(
+      'Plugin "magnet" is already installed.',
+    );
+  });
+
+  it('uninstalls with removePlugin, undoing what install registered', () => {
+    const engine = ballScene();
+    const plugin = magnetPlugin({ x: 300, y: 100 }, 500);
+    engine.use(plugin);
+    engine.stepOnce();
+
+    engine.removePlugin('magnet');
+    const speed = engine.getBody('ball')!.velocity.x;
+    engine.stepOnce();
+
+    expect(engine.hasPlugin('magnet')).toBe(false);
+    expect(plugin.steps).toBe(1);
+    expect(engine.getBody('ball')!.velocity.x).toBe(speed);
+    expect(() => engine.removePlugin('magnet')).not.toThrow();
+  });
+
+  it('reproduces a run from a snapshot when the same plugin is installed', () => {
+    const engine = ballScene();
+    engine.use(magnetPlugin({ x: 300, y: 200 }, 500));
+    for (let i = 0; i < 10; i++) engine.stepOnce();
+
+    const copy = new PhysicsEngine(engine.getConfig());
+    copy.restore(engine.snapshot());
+    copy.use(magnetPlugin({ x: 300, y: 200 }, 500));
+    for (let i = 0; i < 20; i++) {
+      engine.stepOnce();
+      copy.stepOnce();
+    }
+
+    expect(copy.getBody('ball')!.position).toEqual(engine.getBody('ball')!.position);
+  });
+});
@@ -0,0 +1,111 @@
+import type { PhysicsBody } from '@mcp-tool-shop/siege-types';
+import type { PhysicsEngine } from './engine.js';
+
+// ---------------------------------------------------------------------------
+// Step Hooks
+// ---------------------------------------------------------------------------
+
+/**
+ * Points in `World.step` where hooks run:
+ *
+ * - `beforeStep`: once, before explosions go off and the first substep
+ * - `afterForces`: each substep, once forces are in `acceleration`/`torque`
+ *   and before they are integrated (under velocity Verlet, after the first
+ *   of the substep's two force passes)
+ * - `afterIntegrate`: each substep, after bodies moved (and CCD pulled fast
+ *   ones back), before constraints and contacts are solved
+ * - `afterSolve`: each substep, after constraints and contacts, before
+ *   world bounds and sleeping
+ * - `afterStep`: once, after the last substep and before the step's events
+ */
+export type StepHookName =
+  | 'beforeStep'
+  | 'afterForces'
+  | 'afterIntegrate'
+  | 'afterSolve'
+  | 'afterStep';
+
+/** What a step hook is told about the step it runs in. */
+export interface StepHookContext {
+  step: number; // `PhysicsEngine.stepCount` once this step finishes
+  substep?: number; // 0-based, for the per-substep hooks
+  dt: number; // seconds: the whole step, or one substep for per-substep hooks
+}
+
+/** Callback run at a {@link StepHookName} point of every fixed step. */
+export type StepHook = (context: StepHookContext) => void;
+
+/**
+ * Force applied by code rather than a `ForceField`: called for every awake
+ * dynamic body each time the world applies forces, after gravity, damping
+ * and the fields. Add to `acceleration`/`torque`, e.g. with
+ * `applyForceAtPoint`.
+ *
+ * `dt` is the time the force acts for. That is one substep, except under
+ * the `'velocity-verlet'` integrator, which applies forces twice per
+ * substep, before and after moving the bodies: there each call gets half a
+ * substep. Code that changes velocity directly should scale by `dt`.
+ */
+export type CustomForce = (body: PhysicsBody, dt: number) => void;
+
+/**
+ * StepHooks — hooks registered per {@link StepHookName}, run in the order
+ * they were added.
+ */
+export class StepHooks {
+  private hooks = new Map<StepHookName, StepHook[]>();
+
+  /** Run every hook registered for `name`. */
+  run(name: StepHookName, context: StepHookContext): void {
+    const list = this.hooks.get(name);
+    if (!list || list.length === 0) return;
+
+    // Copy so hooks may remove themselves while we iterate
+    for (const hook of [...list]) {
+      hook(context);
+    }
+  }
+
+  /**
+   * Register a hook.
+   *
+   * @returns A function that removes it.
+   */
+  add(name: StepHookName, hook: StepHook): () => void {
+    let list = this.hooks.get(name);
+    if (!list) {
+      list = [];
+      this.hooks.set(name, list);
+    }
+    list.push(hook);
+
+    return () => {
+      const current = this.hooks.get(name);
+      if (!current) return;
+      const idx = current.indexOf(hook);
+      if (idx !== -1) {
+        current.splice(idx, 1);
+      }
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Plugins
+// ---------------------------------------------------------------------------
+
+/**
+ * A bundle of step hooks, custom forces and constraint solvers installed
+ * with `PhysicsEngine.use`.
+ *
+ * `install` registers what the plugin needs (keeping the remover functions
+ * the engine returns) and `uninstall`, called by `removePlugin`, undoes it.
+ * Plugins are code, not state: snapshots, `serialize` and replay logs do
+ * not carry them. Install the same plugins before stepping a restored
+ * engine, or on `ReplayPlayer.engine` before replaying, to get the same run.
+ */
+export interface PhysicsPlugin {
+  name: string; // unique per engine
+  install(engine: PhysicsEngine): void;
+  uninstall(engine: PhysicsEngine): void;
+}
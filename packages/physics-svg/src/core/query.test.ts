@@ -0,0 +1,345 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import type { PhysicsBody } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * A small board: a floor, a circle checker and a rotated square, plus a
+ * sensor zone. No gravity, so nothing moves unless stepped.
+ */
+function createBoard(): PhysicsEngine {
+  const engine = new PhysicsEngine({
+    gravity: { x: 0, y: 0 },
+    substeps: 4,
+    velocityIterations: 4,
+  });
+  engine.addBody(
+    createBody({
+      id: 'floor',
+      isStatic: true,
+      position: { x: 200, y: 300 },
+      shape: { type: 'rect', width: 400, height: 20 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'checker',
+      position: { x: 100, y: 100 },
+      shape: { type: 'circle', radius: 10 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'diamond',
+      position: { x: 200, y: 100 },
+      angle: Math.PI / 4,
+      shape: { type: 'rect', width: 20, height: 20 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'zone',
+      isSensor: true,
+      isStatic: true,
+      position: { x: 300, y: 100 },
+      shape: { type: 'rect', width: 40, height: 40 },
+    }),
+  );
+  return engine;
+}
+
+const ids = (bodies: PhysicsBody[]) => bodies.map((b) => b.id);
+
+// ===========================================================================
+// RAYCAST
+// ===========================================================================
+
+describe('raycast', () => {
+  it('reports every body crossed, nearest first', () => {
+    const engine = createBoard();
+    const hits = engine.raycast({ x: 0, y: 100 }, { x: 1, y: 0 }, 400);
+
+    expect(hits.map((h) => h.body.id)).toEqual(['checker', 'diamond']);
+
+    const [checker, diamond] = hits;
+    expect(checker!.point.x).toBeCloseTo(90, 10);
+    expect(checker!.normal).toEqual({ x: -1, y: 0 });
+    expect(checker!.distance).toBeCloseTo(90, 10);
+    expect(checker!.fraction).toBeCloseTo(90 / 400, 10);
+
+    // Diamond corner points straight at the ray
+    expect(diamond!.point.x).toBeCloseTo(200 - 10 * Math.SQRT2, 10);
+  });
+
+  it('gives the face normal for polygons', () => {
+    const engine = createBoard();
+    const [hit] = engine.raycast({ x: 50, y: 0 }, { x: 0, y: 5 }, 1000);
+
+    expect(hit!.body.id).toBe('floor');
+    expect(hit!.point.y).toBeCloseTo(290, 10);
+    expect(hit!.normal.x).toBeCloseTo(0, 10);
+    expect(hit!.normal.y).toBeCloseTo(-1, 10);
+  });
+
+  it('stops at maxDist', () => {
+    const engine = createBoard();
+    expect(engine.raycast({ x: 0, y: 100 }, { x: 1, y: 0 }, 89)).toEqual([]);
+  });
+
+  it('skips sensors unless asked and honours the collision filter', () => {
+    const engine = createBoard();
+    engine.setCollisionFilter('checker', { categoryBits: 0x2 });
+    const origin = { x: 0, y: 100 };
+    const right = { x: 1, y: 0 };
+
+    const all = engine.raycast(origin, right, 400, { includeSensors: true });
+    expect(engine.raycast(origin, right, 400).map((h) => h.body.id)).not.toContain('zone');
+    expect(all.map((h) => h.body.id)).toContain('zone');
+
+    const masked = engine.raycast(origin, right, 400, { collisionFilter: { maskBits: ~0x2 } });
+    expect(masked.map((h) => h.body.id)).toEqual(['diamond']);
+
+    const picked = engine.raycast(origin, right, 400, { predicate: (b) => b.id !== 'checker' });
+    expect(picked.map((h) => h.body.id)).toEqual(['diamond']);
+  });
+
+  it('ignores a body containing the origin', () => {
+    const engine = createBoard();
+    const hits = engine.raycast({ x: 100, y: 100 }, { x: 1, y: 0 }, 400);
+    expect(hits.map((h) => h.body.id)).toEqual(['diamond']);
+  });
+
+  it('rejects a zero direction or unbounded distance', () => {
+    const engine = createBoard();
+    expect(() => engine.raycast({ x: 0, y: 0 }, { x: 0, y: 0 }, 10)).toThrow(/non-zero/);
+    expect(() => engine.raycast({ x: 0, y: 0 }, { x: 1, y: 0 }, Infinity)).toThrow(/distance/);
+  });
+});
+
+// ===========================================================================
+// POINT & REGION
+// ===========================================================================
+
+describe('queryPoint', () => {
+  it('picks bodies by exact shape, not bounding box', () => {
+    const engine = createBoard();
+    expect(ids(engine.queryPoint({ x: 105, y: 105 }))).toEqual(['checker']);
+    // Inside the checker's AABB but outside the circle
+    expect(engine.queryPoint({ x: 109, y: 109 })).toEqual([]);
+    // Inside the diamond's AABB corner but outside the rotated square
+    expect(engine.queryPoint({ x: 212, y: 88 })).toEqual([]);
+    expect(ids(engine.queryPoint({ x: 205, y: 100 }))).toEqual(['diamond']);
+  });
+
+  it('finds sensors only when asked', () => {
+    const engine = createBoard();
+    expect(engine.queryPoint({ x: 300, y: 100 })).toEqual([]);
+    expect(ids(engine.queryPoint({ x: 300, y: 100 }, { includeSensors: true }))).toEqual(['zone']);
+  });
+});
+
+describe('compound bodies', () => {
+  /** A staple-shaped tray: a base with an upright at each end, base centered at (100, 200). */
+  function createTray(): PhysicsEngine {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 0 },
+      substeps: 1,
+      velocityIterations: 1,
+    });
+    engine.addBody(
+      createBody({
+        id: 'tray',
+        position: { x: 100, y: 200 },
+        shape: {
+          type: 'compound',
+          parts: [
+            { shape: { type: 'rect', width: 100, height: 10 }, offset: { x: 0, y: 0 } },
+            { shape: { type: 'rect', width: 10, height: 40 }, offset: { x: -45, y: -25 } },
+            { shape: { type: 'rect', width: 10, height: 40 }, offset: { x: 45, y: -25 } },
+          ],
+        },
+      }),
+    );
+    return engine;
+  }
+
+  it('raycasts hit the nearest part and report the body', () => {
+    const [hit] = createTray().raycast({ x: 0, y: 180 }, { x: 1, y: 0 }, 200);
+
+    expect(hit!.body.id).toBe('tray');
+    expect(hit!.point.x).toBeCloseTo(50, 10);
+    expect(hit!.normal.x).toBeCloseTo(-1, 10);
+    expect(hit!.normal.y).toBeCloseTo(0, 10);
+  });
+
+  it('point queries miss the space between parts', () => {
+    const engine = createTray();
+
+    expect(ids(engine.queryPoint({ x: 100, y: 200 }))).toEqual(['tray']);
+    expect(ids(engine.queryPoint({ x: 145, y: 170 }))).toEqual(['tray']);
+    expect(engine.queryPoint({ x: 100, y: 180 })).toEqual([]);
+  });
+
+  it('shape casts a compound from where it is drawn', () => {
+    const engine = createTray();
+    const bar = {
+      type: 'compound' as const,
+      parts: [
+        { shape: { type: 'rect' as const, width: 20, height: 10 }, offset: { x: 0, y: 0 } },
+        { shape: { type: 'rect' as const, width: 10, height: 10 }, offset: { x: 0, y: 10 } },
+      ],
+    };
+
+    // Lowered into the tray, the stem's bottom (y + 15) reaches the base top at 195
+    const [hit] = engine.shapeCast(bar, { x: 100, y: 100 }, { x: 100, y: 200 });
+
+    expect(hit!.body.id).toBe('tray');
+    expect(hit!.distance).toBeCloseTo(80, 8);
+  });
+});
+
+describe('capsules, segments and chains', () => {
+  /** A pill lying at (100, 100), and a zig-zag chain facing up along y = 200. */
+  function createLedges(): PhysicsEngine {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 0 },
+      substeps: 1,
+      velocityIterations: 1,
+    });
+    engine.addBody(
+      createBody({
+        id: 'pill',
+        position: { x: 100, y: 100 },
+        shape: { type: 'capsule', length: 40, radius: 10 },
+      }),
+    );
+    engine.addBody(
+      createBody({
+        id: 'ledge',
+        isStatic: true,
+        shape: {
+          type: 'chain',
+          vertices: [
+            { x: 0, y: 200 },
+            { x: 100, y: 190 },
+            { x: 200, y: 200 },
+          ],
+        },
+      }),
+    );
+    return engine;
+  }
+
+  it('raycasts hit a capsule\'s side and its caps', () => {
+    const engine = createLedges();
+
+    const [side] = engine.raycast({ x: 110, y: 0 }, { x: 0, y: 1 }, 300);
+    const [cap] = engine.raycast({ x: 0, y: 100 }, { x: 1, y: 0 }, 300);
+
+    expect(side!.body.id).toBe('pill');
+    expect(side!.point.y).toBeCloseTo(90, 10);
+    expect(side!.normal.y).toBeCloseTo(-1, 10);
+    expect(cap!.point.x).toBeCloseTo(70, 10);
+    expect(cap!.normal.x).toBeCloseTo(-1, 10);
+  });
+
+  it('raycasts only enter a chain through its front', () => {
+    const engine = createLedges();
+
+    const [down] = engine.raycast({ x: 50, y: 150 }, { x: 0, y: 1 }, 100);
+    const up = engine.raycast({ x: 50, y: 250 }, { x: 0, y: -1 }, 60);
+
+    expect(down!.body.id).toBe('ledge');
+    expect(down!.point.y).toBeCloseTo(195, 10);
+    expect(up).toEqual([]);
+  });
+
+  it('point queries use the rounded outline, and never hit a chain', () => {
+    const engine = createLedges();
+
+    expect(ids(engine.queryPoint({ x: 75, y: 107 }))).toEqual(['pill']);
+    expect(engine.queryPoint({ x: 72, y: 108 })).toEqual([]);
+    expect(engine.queryPoint({ x: 100, y: 190 })).toEqual([]);
+  });
+
+  it('shape casts a segment', () => {
+    const engine = createLedges();
+    const stick = { type: 'segment' as const, start: { x: -10, y: 0 }, end: { x: 10, y: 0 } };
+
+    const [hit] = engine.shapeCast(stick, { x: 100, y: 0 }, { x: 100, y: 200 });
+
+    expect(hit!.body.id).toBe('pill');
+    expect(hit!.distance).toBeCloseTo(90, 8);
+  });
+});
+
+describe('queryAABB', () => {
+  it('returns bodies whose bounds overlap the region, in world order', () => {
+    const engine = createBoard();
+    const found = engine.queryAABB({ x: 80, y: 80 }, { x: 220, y: 120 });
+    expect(ids(found)).toEqual(['checker', 'diamond']);
+  });
+
+  it('does not count bodies that only touch the region', () => {
+    const engine = createBoard();
+    expect(engine.queryAABB({ x: 0, y: 0 }, { x: 90, y: 90 })).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// SHAPE CAST
+// ===========================================================================
+
+describe('shapeCast', () => {
+  const piece = { type: 'circle', radius: 10 } as const;
+
+  it('reports the first touch along the sweep', () => {
+    const engine = createBoard();
+    const [hit] = engine.shapeCast(piece, { x: 0, y: 100 }, { x: 150, y: 100 });
+
+    expect(hit!.body.id).toBe('checker');
+    // Centres 20 apart at contact: caster centre at x = 80
+    expect(hit!.fraction).toBeCloseTo(80 / 150, 10);
+    expect(hit!.distance).toBeCloseTo(80, 10);
+    expect(hit!.normal.x).toBeCloseTo(-1, 3);
+    expect(hit!.point.x).toBeCloseTo(90, 2);
+  });
+
+  it('sweeps a rotated rect', () => {
+    const engine = createBoard();
+    const [hit] = engine.shapeCast(
+      { type: 'rect', width: 20, height: 20 },
+      { x: 100, y: 200 },
+      { x: 100, y: 300 },
+      { angle: Math.PI / 4 },
+    );
+
+    // Lower corner leads by 10√2; floor top at y = 290
+    expect(hit!.body.id).toBe('floor');
+    expect(hit!.distance).toBeCloseTo(90 - 10 * Math.SQRT2, 10);
+    expect(hit!.normal.y).toBeCloseTo(-1, 3);
+  });
+
+  it('checks whether a drop location is free when from equals to', () => {
+    const engine = createBoard();
+    const free = { x: 150, y: 100 };
+    const taken = { x: 110, y: 100 };
+
+    expect(engine.shapeCast(piece, free, free)).toEqual([]);
+
+    const [hit] = engine.shapeCast(piece, taken, taken);
+    expect(hit!.body.id).toBe('checker');
+    expect(hit!.fraction).toBe(0);
+  });
+
+  it('respects the query filter', () => {
+    const engine = createBoard();
+    const spot = { x: 300, y: 100 };
+    expect(engine.shapeCast(piece, spot, spot)).toEqual([]);
+    expect(engine.shapeCast(piece, spot, spot, { includeSensors: true })).toHaveLength(1);
+  });
+});
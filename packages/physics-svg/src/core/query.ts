@@ -0,0 +1,316 @@
+import type {
+  BodyShape,
+  CollisionFilter,
+  PhysicsBody,
+  Vec2,
+} from '@mcp-tool-shop/siege-types';
+import * as V from './vec2.js';
+import { createBody, DEFAULT_COLLISION_FILTER } from './body.js';
+import type { BodyIndex } from './broadphase.js';
+import { rayVsCircle, rayVsSegment, timeOfImpact } from './ccd.js';
+import { shouldCollide, testPair } from './collision.js';
+import {
+  computeAABB,
+  containsPoint,
+  getEdgeNormals,
+  getWorldVertices,
+  getWorldCapsule,
+  closestPointOnSegment,
+  shapeParts,
+} from './shapes.js';
+import type { AABB, Capsule } from './shapes.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Which bodies a query can see. Every field is optional. */
+export interface QueryFilter {
+  /**
+   * Filter the query acts with, as if it were a body. Bodies it would not
+   * collide with are skipped. Missing fields use the body defaults.
+   */
+  collisionFilter?: Partial<CollisionFilter>;
+  includeSensors?: boolean; // default false
+  /** Extra test; return false to skip a body. */
+  predicate?: (body: PhysicsBody) => boolean;
+}
+
+/** Where a ray or swept shape first touches a body. */
+export interface RaycastHit {
+  body: PhysicsBody;
+  point: Vec2; // world-space contact point
+  normal: Vec2; // unit surface normal, facing back toward the caster
+  fraction: number; // 0 = start, 1 = end of the cast
+  distance: number; // distance travelled to the hit
+}
+
+/** Options for {@link shapeCast}. */
+export interface ShapeCastOptions extends QueryFilter {
+  angle?: number; // orientation of the cast shape (radians), default 0
+}
+
+/** Placed past the time of impact so the narrow phase reports a normal. */
+const CAST_SKIN = 1e-3;
+
+// ---------------------------------------------------------------------------
+// Raycast
+// ---------------------------------------------------------------------------
+
+/**
+ * Cast a ray from `origin` along `dir` for `maxDist` pixels.
+ *
+ * Every body crossed is reported once, at its entry point, ordered nearest
+ * first. Bodies containing `origin` are not reported.
+ *
+ * @throws If `dir` is zero or `maxDist` is not a finite, non-negative number.
+ */
+export function raycast(
+  index: BodyIndex,
+  origin: Vec2,
+  dir: Vec2,
+  maxDist: number,
+  filter: QueryFilter = {},
+): RaycastHit[] {
+  if (!Number.isFinite(maxDist) || maxDist < 0) {
+    throw new Error(`Invalid raycast distance ${String(maxDist)}.`);
+  }
+  if (V.lengthSq(dir) === 0) {
+    throw new Error('Raycast direction must be non-zero.');
+  }
+
+  const ray = V.scale(V.normalize(dir), maxDist);
+  const end = V.add(origin, ray);
+  const box: AABB = {
+    min: { x: Math.min(origin.x, end.x), y: Math.min(origin.y, end.y) },
+    max: { x: Math.max(origin.x, end.x), y: Math.max(origin.y, end.y) },
+  };
+
+  const hits: RaycastHit[] = [];
+  for (const body of candidates(index, inflate(box), filter)) {
+    const hit = rayVsBody(origin, ray, body);
+    if (hit) hits.push({ ...hit, distance: hit.fraction * maxDist });
+  }
+  return hits.sort((a, b) => a.fraction - b.fraction);
+}
+
+function rayVsBody(
+  origin: Vec2,
+  ray: Vec2,
+  body: PhysicsBody,
+): Omit<RaycastHit, 'distance'> | null {
+  if (body.shape.type === 'compound') {
+    let nearest: Omit<RaycastHit, 'distance'> | null = null;
+    for (const part of shapeParts(body)) {
+      const hit = rayVsBody(origin, ray, part);
+      if (hit && (!nearest || hit.fraction < nearest.fraction)) nearest = { ...hit, body };
+    }
+    return nearest;
+  }
+
+  if (body.shape.type === 'circle') {
+    const t = rayVsCircle(origin, ray, body.position, body.shape.radius);
+    if (t === null) return null;
+    const point = V.add(origin, V.scale(ray, t));
+    return { body, point, normal: V.normalize(V.sub(point, body.position)), fraction: t };
+  }
+
+  const capsule = getWorldCapsule(body);
+  if (capsule) return rayVsCapsule(origin, ray, body, capsule);
+
+  // Only edges facing the ray can be entered through (which also makes
+  // chain edges one-sided)
+  const verts = getWorldVertices(body);
+  const normals = getEdgeNormals(verts);
+  const open = body.shape.type === 'chain' && !body.shape.loop;
+  let best: number | null = null;
+  let normal: Vec2 = V.zero();
+
+  for (let i = 0; i < (open ? verts.length - 1 : verts.length); i++) {
+    const n = normals[i]!;
+    if (V.dot(ray, n) >= 0) continue;
+    const t = rayVsSegment(origin, ray, verts[i]!, verts[(i + 1) % verts.length]!);
+    if (t !== null && (best === null || t < best)) {
+      best = t;
+      normal = n;
+    }
+  }
+
+  if (best === null) return null;
+  return { body, point: V.add(origin, V.scale(ray, best)), normal, fraction: best };
+}
+
+/**
+ * A ray against a capsule or segment: the core pushed out by the radius on
+ * both sides, and the round caps at either end.
+ */
+function rayVsCapsule(
+  origin: Vec2,
+  ray: Vec2,
+  body: PhysicsBody,
+  capsule: Capsule,
+): Omit<RaycastHit, 'distance'> | null {
+  const { start, end, radius } = capsule;
+  let best: number | null = null;
+  let normal: Vec2 = V.zero();
+
+  if (V.distanceSq(start, end) > 1e-18) {
+    const side = V.normalize(V.perpR(V.sub(end, start)));
+    for (const n of [side, V.negate(side)]) {
+      if (V.dot(ray, n) >= 0) continue;
+      const offset = V.scale(n, radius);
+      const t = rayVsSegment(origin, ray, V.add(start, offset), V.add(end, offset));
+      if (t !== null && (best === null || t < best)) {
+        best = t;
+        normal = n;
+      }
+    }
+  }
+  for (const cap of [start, end]) {
+    const t = rayVsCircle(origin, ray, cap, radius);
+    if (t !== null && (best === null || t < best)) {
+      best = t;
+      normal = V.normalize(V.sub(V.add(origin, V.scale(ray, t)), cap));
+    }
+  }
+
+  if (best === null) return null;
+  return { body, point: V.add(origin, V.scale(ray, best)), normal, fraction: best };
+}
+
+// ---------------------------------------------------------------------------
+// Point & Region Queries
+// ---------------------------------------------------------------------------
+
+/** Bodies whose shape contains `point` (boundary included), in world order. */
+export function queryPoint(
+  index: BodyIndex,
+  point: Vec2,
+  filter: QueryFilter = {},
+): PhysicsBody[] {
+  const box = inflate({ min: point, max: point });
+  return candidates(index, box, filter).filter((body) =>
+    shapeParts(body).some((part) => {
+      const capsule = getWorldCapsule(part);
+      if (capsule) {
+        const closest = closestPointOnSegment(capsule.start, capsule.end, point);
+        return V.distanceSq(point, closest) <= capsule.radius * capsule.radius;
+      }
+      // Chains have no inside to contain anything
+      return part.shape.type !== 'chain' && containsPoint(getWorldVertices(part), point);
+    }),
+  );
+}
+
+/**
+ * Bodies whose bounding box overlaps the region `min`–`max`, in world order.
+ * This is a bounding-box test: for exact overlap with a shape, use
+ * {@link shapeCast} with `from` equal to `to`.
+ */
+export function queryAABB(
+  index: BodyIndex,
+  min: Vec2,
+  max: Vec2,
+  filter: QueryFilter = {},
+): PhysicsBody[] {
+  return candidates(index, { min, max }, filter);
+}
+
+// ---------------------------------------------------------------------------
+// Shape Cast
+// ---------------------------------------------------------------------------
+
+/**
+ * Sweep `shape` (translation only) from `from` to `to` and report every body
+ * it touches, nearest first. Bodies already overlapping at `from` are
+ * reported with fraction 0, so `from === to` is an exact overlap test.
+ *
+ * Bodies are treated as stationary at their current positions.
+ */
+export function shapeCast(
+  index: BodyIndex,
+  shape: BodyShape,
+  from: Vec2,
+  to: Vec2,
+  options: ShapeCastOptions = {},
+): RaycastHit[] {
+  const angle = options.angle ?? 0;
+  const motion = V.sub(to, from);
+  const distance = V.length(motion);
+  // Kinematic, so shapes without area (segments, chains) can be cast too
+  const bodyType = 'kinematic';
+  const probe = createBody({ id: 'shape-cast', bodyType, position: to, angle, shape });
+  const start = createBody({ id: 'shape-cast', bodyType, position: from, angle, shape });
+  // Not `from` for compounds, which createBody re-centers
+  const origin = { ...start.position };
+
+  const endBox = computeAABB(probe);
+  const startBox = computeAABB(start);
+  const box: AABB = {
+    min: { x: Math.min(endBox.min.x, startBox.min.x), y: Math.min(endBox.min.y, startBox.min.y) },
+    max: { x: Math.max(endBox.max.x, startBox.max.x), y: Math.max(endBox.max.y, startBox.max.y) },
+  };
+
+  const hits: RaycastHit[] = [];
+  for (const body of candidates(index, inflate(box), options)) {
+    const overlap = testPair(start, body);
+    if (overlap) {
+      hits.push(castHit(body, 0, 0, overlap.normal, overlap.contact ?? from));
+      continue;
+    }
+    if (distance === 0) continue;
+
+    const t = timeOfImpact(probe, motion, body);
+    if (t === null) continue;
+
+    // Step just past the impact so the narrow phase gives the contact
+    start.position = V.add(origin, V.scale(motion, Math.min(t + CAST_SKIN / distance, 1)));
+    const contact = testPair(start, body);
+    start.position = { ...origin };
+
+    const center = V.add(from, V.scale(motion, t));
+    const normal = contact ? contact.normal : V.normalize(motion);
+    hits.push(castHit(body, t, t * distance, normal, contact?.contact ?? center));
+  }
+
+  return hits.sort((a, b) => a.fraction - b.fraction);
+}
+
+/** Build a hit from a caster → body normal, flipped to face the caster. */
+function castHit(
+  body: PhysicsBody,
+  fraction: number,
+  distance: number,
+  normal: Vec2,
+  point: Vec2,
+): RaycastHit {
+  return { body, point, normal: V.negate(normal), fraction, distance };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Bodies passing `filter` whose AABB overlaps `box`. */
+function candidates(
+  index: BodyIndex,
+  box: AABB,
+  filter: QueryFilter,
+): PhysicsBody[] {
+  const collisionFilter = { ...DEFAULT_COLLISION_FILTER, ...filter.collisionFilter };
+  return index.query(box).filter(
+    (body) =>
+      (filter.includeSensors || !body.isSensor) &&
+      shouldCollide(collisionFilter, body.collisionFilter) &&
+      (!filter.predicate || filter.predicate(body)),
+  );
+}
+
+/** Grow a box slightly so touching and zero-width boxes still overlap. */
+function inflate(box: AABB): AABB {
+  const e = 1e-9;
+  return {
+    min: { x: box.min.x - e, y: box.min.y - e },
+    max: { x: box.max.x + e, y: box.max.y + e },
+  };
+}
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { createConstraint } from './constraint.js';
+import { ReplayRecorder, ReplayPlayer, hashBodies, REPLAY_VERSION } from './replay.js';
+import type { ReplayLog } from './replay.js';
+import type { PhysicsPlugin } from './plugins.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STEP = 1 / 60;
+
+function createEngine(): PhysicsEngine {
+  const engine = new PhysicsEngine({
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 4,
+    bounds: { min: { x: 0, y: 0 }, max: { x: 400, y: 300 } },
+  });
+  engine.addBody(
+    createBody({
+      id: 'floor',
+      isStatic: true,
+      position: { x: 200, y: 290 },
+      shape: { type: 'rect', width: 400, height: 20 },
+    }),
+  );
+  return engine;
+}
+
+/**
+ * A short interactive session: checkers dropped over time, one flicked,
+ * one teleported, a spring added and removed, wind toggled. Frame times
+ * are uneven so calls land between partial steps.
+ */
+function recordSession(): { engine: PhysicsEngine; log: ReplayLog } {
+  const engine = createEngine();
+  const recorder = new ReplayRecorder(engine);
+
+  for (let frame = 0; frame < 120; frame++) {
+    if (frame % 15 === 0) {
+      engine.addBody(
+        createBody({
+          id: `c${frame}`,
+          position: { x: 60 + frame, y: 40 },
+          shape: { type: 'circle', radius: 10 },
+          restitution: 0.4,
+        }),
+      );
+    }
+    if (frame === 30) engine.applyImpulse('c0', { x: 200, y: -100 }, { x: 65, y: 40 });
+    if (frame === 45) engine.setPosition('c15', { x: 300, y: 60 });
+    if (frame === 50) engine.setVelocity('c30', { x: -80, y: 0 });
+    if (frame === 60) {
+      engine.addConstraint(
+        createConstraint({ id: 's', type: 'spring', bodyA: 'c0', bodyB: 'c15', stiffness: 10 }),
+      );
+      engine.addForceField({ type: 'wind', vector: { x: 60, y: 0 } });
+    }
+    if (frame === 90) {
+      engine.removeConstraint('s');
+      engine.removeForceFields('wind');
+      engine.removeBody('c45');
+    }
+
+    engine.update(STEP * (frame % 3 === 0 ? 1.6 : 0.9));
+  }
+
+  return { engine, log: recorder.stop() };
+}
+
+// ===========================================================================
+// HASH
+// ===========================================================================
+
+describe('hashBodies', () => {
+  it('is stable for identical state', () => {
+    const a = [createBody({ id: 'a', position: { x: 1, y: 2 } })];
+    const b = [createBody({ id: 'a', position: { x: 1, y: 2 } })];
+    expect(hashBodies(a)).toBe(hashBodies(b));
+  });
+
+  it('changes with the smallest position difference', () => {
+    const a = [createBody({ id: 'a', position: { x: 1, y: 2 } })];
+    const b = [createBody({ id: 'a', position: { x: 1 + Number.EPSILON, y: 2 } })];
+    expect(hashBodies(a)).not.toBe(hashBodies(b));
+  });
+
+  it('depends on body order and ids', () => {
+    const a = createBody({ id: 'a' });
+    const b = createBody({ id: 'b' });
+    expect(hashBodies([a, b])).not.toBe(hashBodies([b, a]));
+  });
+});
+
+// ===========================================================================
+// RECORDER
+// ===========================================================================
+
+describe('ReplayRecorder', () => {
+  it('logs calls with the fixed step they happened before', () => {
+    const engine = createEngine();
+    const recorder = new ReplayRecorder(engine);
+
+    engine.setVelocity('floor', { x: 0, y: 0 });
+    engine.stepOnce();
+    engine.stepOnce();
+    engine.applyImpulse('floor', { x: 1, y: 0 });
+    const log = recorder.stop();
+
+    expect(log.version).toBe(REPLAY_VERSION);
+    expect(log.calls.map((c) => [c.step, c.method])).toEqual([
+      [0, 'setVelocity'],
+      [2, 'applyImpulse'],
+    ]);
+    expect(log.hashes).toHaveLength(2);
+  });
+
+  it('copies arguments at call time', () => {
+    const engine = createEngine();
+    const recorder = new ReplayRecorder(engine);
+    const body = createBody({ id: 'b', position: { x: 100, y: 100 } });
+
+    engine.addBody(body);
+    for (let i = 0; i < 10; i++) engine.stepOnce();
+    const log = recorder.stop();
+
+    const recorded = log.calls[0]!.args[0] as { position: { y: number } };
+    expect(recorded.position.y).toBe(100);
+    expect(body.position.y).toBeGreaterThan(100);
+  });
+
+  it('stops recording and restores the engine methods', () => {
+    const engine = createEngine();
+    const recorder = new ReplayRecorder(engine);
+    const log = recorder.stop();
+
+    engine.addBody(createBody({ id: 'late' }));
+    engine.stepOnce();
+
+    expect(log.calls).toEqual([]);
+    expect(log.hashes).toEqual([]);
+    expect(Object.prototype.hasOwnProperty.call(engine, 'addBody')).toBe(false);
+  });
+
+  it('produces a JSON-safe log', () => {
+    const { log } = recordSession();
+    const copy = JSON.parse(JSON.stringify(log)) as ReplayLog;
+    expect(new ReplayPlayer(copy).run().ok).toBe(true);
+  });
+});
+
+// ===========================================================================
+// PLAYER
+// ===========================================================================
+
+describe('ReplayPlayer', () => {
+  it('replays removing a force field that was added without an id', () => {
+    const engine = createEngine();
+    engine.addBody(createBody({ id: 'ball', position: { x: 200, y: 100 } }));
+    const recorder = new ReplayRecorder(engine);
+
+    const id = engine.addForceField({ type: 'wind', vector: { x: 300, y: 0 } });
+    for (let i = 0; i < 5; i++) engine.stepOnce();
+    engine.removeForceField(id);
+    for (let i = 0; i < 5; i++) engine.stepOnce();
+
+    expect(new ReplayPlayer(recorder.stop()).run()).toEqual({ ok: true, steps: 10 });
+  });
+
+  it('leaves calls made by plugins during a step to the plugin on replay', () => {
+    const kicker: PhysicsPlugin = {
+      name: 'kicker',
+      install(engine) {
+        engine.addHook('beforeStep', ({ step }) => {
+          if (step !== 3) return;
+          engine.applyImpulse('ball', { x: 300, y: -200 });
+          engine.addForceField({ id: 'gust', type: 'wind', vector: { x: 100, y: 0 } });
+        });
+      },
+      uninstall() {},
+    };
+    const engine = createEngine();
+    engine.use(kicker);
+    engine.addBody(createBody({ id: 'ball', position: { x: 200, y: 100 } }));
+    const recorder = new ReplayRecorder(engine);
+
+    for (let i = 0; i < 10; i++) engine.stepOnce();
+    const log = recorder.stop();
+
+    expect(log.calls).toEqual([]);
+    const player = new ReplayPlayer(log);
+    player.engine.use(kicker);
+    expect(player.run()).toEqual({ ok: true, steps: 10 });
+  });
+
+  it('replays a recorded session with matching hashes at every step', () => {
+    const { engine, log } = recordSession();
+    const player = new ReplayPlayer(log);
+
+    const result = player.run();
+
+    expect(result).toEqual({ ok: true, steps: log.hashes.length });
+    expect(hashBodies(player.engine.getBodies())).toBe(hashBodies(engine.getBodies()));
+  });
+
+  it('replays calls made before any step and after the last step', () => {
+    const engine = createEngine();
+    const recorder = new ReplayRecorder(engine);
+    engine.addBody(createBody({ id: 'first', position: { x: 100, y: 50 } }));
+    engine.stepOnce();
+    engine.addBody(createBody({ id: 'last', position: { x: 200, y: 50 } }));
+    const log = recorder.stop();
+
+    const player = new ReplayPlayer(log);
+    player.run();
+
+    expect(player.engine.getBody('first')).toBeDefined();
+    expect(player.engine.getBody('last')).toBeDefined();
+  });
+
+  it('reports the first step that diverges', () => {
+    const { log } = recordSession();
+    const tampered: ReplayLog = {
+      ...log,
+      calls: log.calls.map((c) =>
+        c.method === 'setVelocity' ? { ...c, args: [c.args[0], { x: -79, y: 0 }] } : c,
+      ),
+    };
+    const setVelocityStep = log.calls.find((c) => c.method === 'setVelocity')!.step;
+
+    const result = new ReplayPlayer(tampered).run();
+
+    expect(result.ok).toBe(false);
+    expect(result.divergedAt).toBe(setVelocityStep + 1);
+    expect(result.expected).toBe(log.hashes[setVelocityStep]);
+    expect(result.actual).not.toBe(result.expected);
+  });
+
+  it('can be stepped one frame at a time', () => {
+    const { log } = recordSession();
+    const player = new ReplayPlayer(log);
+
+    const first = player.step();
+
+    expect(player.position).toBe(1);
+    expect(first.actual).toBe(first.expected);
+  });
+
+  it('throws when stepping past the end of the log', () => {
+    const engine = createEngine();
+    const log = new ReplayRecorder(engine).stop();
+    expect(() => new ReplayPlayer(log).step()).toThrow(/exhausted/);
+  });
+
+  it('rejects an unsupported log version', () => {
+    const { log } = recordSession();
+    expect(() => new ReplayPlayer({ ...log, version: 99 })).toThrow(/version 99/);
+  });
+});
@@ -0,0 +1,256 @@
+import type { PhysicsBody, WorldSnapshot } from '@mcp-tool-shop/siege-types';
+import { PhysicsEngine } from './engine.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Current `ReplayLog.version`. Bump when the format changes. */
+export const REPLAY_VERSION = 1;
+
+/** PhysicsEngine methods that change simulation state and are recorded. */
+export const RECORDED_METHODS = [
+  'addBody',
+  'removeBody',
+  'applyImpulse',
+  'setPosition',
+  'setVelocity',
+  'setAngle',
+  'setAngularVelocity',
+  'setCollisionFilter',
+  'addConstraint',
+  'removeConstraint',
+  'setDragTarget',
+  'defineMaterial',
+  'addForceField',
+  'removeForceField',
+  'removeForceFields',
+  'restore',
+] as const satisfies readonly (keyof PhysicsEngine)[];
+
+export type RecordedMethod = (typeof RECORDED_METHODS)[number];
+
+/**
+ * One mutating call, made between steps before fixed step `step` (0 =
+ * before the first).
+ */
+export interface RecordedCall {
+  step: number;
+  method: RecordedMethod;
+  args: unknown[]; // deep copies taken right after the call
+}
+
+/** Everything needed to re-run and verify a recorded session. JSON-safe. */
+export interface ReplayLog {
+  version: number;
+  initial: WorldSnapshot;
+  calls: RecordedCall[];
+  hashes: string[]; // hashes[i] = world hash after recorded step i + 1
+}
+
+/** Outcome of {@link ReplayPlayer.run}. */
+export interface ReplayResult {
+  ok: boolean;
+  steps: number; // steps replayed (stops at the first divergence)
+  divergedAt?: number; // 1-based step whose hash did not match
+  expected?: string;
+  actual?: string;
+}
+
+type MethodTable = Record<RecordedMethod, (...args: unknown[]) => unknown>;
+
+// ---------------------------------------------------------------------------
+// State Hash
+// ---------------------------------------------------------------------------
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const f64 = new Float64Array(1);
+const u32 = new Uint32Array(f64.buffer);
+
+/**
+ * 32-bit FNV-1a hash of the dynamic state of every body, in order.
+ *
+ * Numbers are hashed by their exact IEEE-754 bits, so any divergence —
+ * however small — changes the hash.
+ */
+export function hashBodies(bodies: PhysicsBody[]): string {
+  let h = FNV_OFFSET;
+
+  const mix = (word: number) => {
+    h = Math.imul(h ^ word, FNV_PRIME) >>> 0;
+  };
+  const mixNumber = (n: number) => {
+    f64[0] = n;
+    mix(u32[0]!);
+    mix(u32[1]!);
+  };
+
+  for (const body of bodies) {
+    for (let i = 0; i < body.id.length; i++) mix(body.id.charCodeAt(i));
+    mixNumber(body.position.x);
+    mixNumber(body.position.y);
+    mixNumber(body.velocity.x);
+    mixNumber(body.velocity.y);
+    mixNumber(body.angle);
+    mixNumber(body.angularVelocity);
+    mix(body.isSleeping ? 1 : 0);
+  }
+
+  return h.toString(16).padStart(8, '0');
+}
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+/**
+ * ReplayRecorder — logs every mutating call on an engine together with the
+ * fixed step it happened before, plus a state hash after every step.
+ *
+ * Recording starts on construction with a snapshot of the current world.
+ * Direct writes to body objects (e.g. `body.position.x = …`) bypass the
+ * engine and cannot be recorded; use the engine setters instead.
+ *
+ * Calls made during a step — by plugins, step hooks or event listeners —
+ * are not recorded: they come from code that has to be set up again on
+ * `ReplayPlayer.engine`, where it makes the same calls at the same point.
+ */
+export class ReplayRecorder {
+  private readonly engine: PhysicsEngine;
+  private readonly initial: WorldSnapshot;
+  private readonly startStep: number;
+  private readonly calls: RecordedCall[] = [];
+  private readonly hashes: string[] = [];
+  private readonly unsubscribe: () => void;
+  private recording = true;
+
+  constructor(engine: PhysicsEngine) {
+    this.engine = engine;
+    this.initial = engine.snapshot();
+    this.startStep = engine.stepCount;
+
+    const table = engine as unknown as MethodTable;
+    for (const method of RECORDED_METHODS) {
+      const original = table[method];
+      table[method] = (...args: unknown[]) => {
+        const result = original.apply(engine, args);
+        if (engine.stepping) return result;
+        // Copied after the call, so ids it fills in (e.g. a force field's)
+        // are replayed too
+        const copy = structuredClone(args);
+        this.calls.push({ step: engine.stepCount - this.startStep, method, args: copy });
+        return result;
+      };
+    }
+
+    this.unsubscribe = engine.on('step', () => {
+      this.hashes.push(hashBodies(engine.getBodies()));
+    });
+  }
+
+  /** Stop recording, unhook the engine and return the log. */
+  stop(): ReplayLog {
+    if (this.recording) {
+      this.recording = false;
+      this.unsubscribe();
+      const table = this.engine as unknown as Partial<MethodTable>;
+      for (const method of RECORDED_METHODS) delete table[method];
+    }
+
+    return {
+      version: REPLAY_VERSION,
+      initial: this.initial,
+      calls: this.calls,
+      hashes: this.hashes,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Player
+// ---------------------------------------------------------------------------
+
+/**
+ * ReplayPlayer — re-runs a {@link ReplayLog} against a fresh engine and
+ * checks the state hash after every step.
+ *
+ * Step through with {@link step} to inspect `engine` at the moment of a
+ * bug, or call {@link run} to verify the whole log. Plugins, hooks and
+ * listeners are not recorded: `use` or add the ones the session had on
+ * `engine` before stepping.
+ */
+export class ReplayPlayer {
+  readonly engine: PhysicsEngine;
+  private readonly log: ReplayLog;
+  private nextCall = 0;
+  private stepsDone = 0;
+
+  /** @throws If the log version is unsupported. */
+  constructor(log: ReplayLog) {
+    if (log.version !== REPLAY_VERSION) {
+      throw new Error(
+        `Unsupported replay log version ${String(log.version)} (expected ${REPLAY_VERSION}).`,
+      );
+    }
+    this.log = log;
+    this.engine = new PhysicsEngine(log.initial.config);
+    this.engine.restore(log.initial);
+  }
+
+  /** Number of recorded steps. */
+  get length(): number {
+    return this.log.hashes.length;
+  }
+
+  /** Steps replayed so far. */
+  get position(): number {
+    return this.stepsDone;
+  }
+
+  /**
+   * Apply the calls recorded before the next step, run it, and compare the
+   * resulting hash.
+   *
+   * @returns The recorded and replayed hashes for this step.
+   * @throws If the whole log has already been replayed.
+   */
+  step(): { expected: string; actual: string } {
+    if (this.stepsDone >= this.length) {
+      throw new Error('Replay log exhausted.');
+    }
+
+    this.applyCallsUpTo(this.stepsDone);
+    this.engine.stepOnce();
+
+    const expected = this.log.hashes[this.stepsDone]!;
+    const actual = hashBodies(this.engine.getBodies());
+    this.stepsDone++;
+    return { expected, actual };
+  }
+
+  /** Replay the remaining steps, stopping at the first hash mismatch. */
+  run(): ReplayResult {
+    while (this.stepsDone < this.length) {
+      const { expected, actual } = this.step();
+      if (expected !== actual) {
+        return { ok: false, steps: this.stepsDone, divergedAt: this.stepsDone, expected, actual };
+      }
+    }
+
+    // Calls made after the last step still belong to the session
+    this.applyCallsUpTo(this.stepsDone);
+    return { ok: true, steps: this.stepsDone };
+  }
+
+  private applyCallsUpTo(step: number): void {
+    const table = this.engine as unknown as MethodTable;
+    const { calls } = this.log;
+
+    while (this.nextCall < calls.length && calls[this.nextCall]!.step <= step) {
+      const call = calls[this.nextCall++]!;
+      table[call.method].apply(this.engine, structuredClone(call.args));
+    }
+  }
+}
@@ -0,0 +1,439 @@
+import type { PhysicsBody, BodyShape, CompoundPart, Vec2 } from '@mcp-tool-shop/siege-types';
+import * as V from './vec2.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Axis-aligned bounding box in world space. */
+export interface AABB {
+  min: Vec2;
+  max: Vec2;
+}
+
+/** Every point within `radius` of the segment `start`→`end`. */
+export interface Capsule {
+  start: Vec2;
+  end: Vec2;
+  radius: number;
+}
+
+// ---------------------------------------------------------------------------
+// Polygon Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Signed area of a polygon (shoelace formula).
+ *
+ * Positive when the vertices wind counter-clockwise in a y-up frame
+ * (clockwise on screen, where y points down).
+ */
+export function signedArea(vertices: Vec2[]): number {
+  let area = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i]!;
+    const b = vertices[(i + 1) % vertices.length]!;
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Check that a polygon is strictly convex: every consecutive edge pair
+ * turns the same way and no edge is degenerate.
+ */
+export function isConvex(vertices: Vec2[]): boolean {
+  const n = vertices.length;
+  if (n < 3) return false;
+
+  let sign = 0;
+  for (let i = 0; i < n; i++) {
+    const a = vertices[i]!;
+    const b = vertices[(i + 1) % n]!;
+    const c = vertices[(i + 2) % n]!;
+    const turn = V.cross(V.sub(b, a), V.sub(c, b));
+
+    if (Math.abs(turn) < 1e-10) return false;
+    if (sign === 0) {
+      sign = Math.sign(turn);
+    } else if (Math.sign(turn) !== sign) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Validate a polygon and return a copy with canonical (positive-area) winding.
+ *
+ * @throws If the polygon has fewer than 3 vertices or is not convex.
+ */
+export function normalizePolygon(vertices: Vec2[]): Vec2[] {
+  if (vertices.length < 3) {
+    throw new Error(
+      `Polygon shapes need at least 3 vertices (got ${vertices.length}).`,
+    );
+  }
+  if (!isConvex(vertices)) {
+    throw new Error('Polygon shapes must be convex with no collinear or duplicate vertices.');
+  }
+
+  const copy = vertices.map(V.clone);
+  return signedArea(copy) < 0 ? copy.reverse() : copy;
+}
+
+// ---------------------------------------------------------------------------
+// SVG Points
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse an SVG `points` attribute (`"x,y x,y …"`; commas and whitespace
+ * both separate) into vertices, e.g. to build a polygon or chain from the
+ * same string that draws it.
+ *
+ * @throws If a number is malformed or the coordinates don't pair up.
+ */
+export function parsePoints(points: string): Vec2[] {
+  const numbers = points.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+  if (numbers.some((n) => !Number.isFinite(n)) || numbers.length % 2 !== 0) {
+    throw new Error(`Invalid SVG points: "${points}".`);
+  }
+
+  const vertices: Vec2[] = [];
+  for (let i = 0; i < numbers.length; i += 2) {
+    vertices.push({ x: numbers[i]!, y: numbers[i + 1]! });
+  }
+  return vertices;
+}
+
+// ---------------------------------------------------------------------------
+// World-Space Geometry
+// ---------------------------------------------------------------------------
+
+/**
+ * Return the world-space vertices of a rect or polygon body, rotated by the
+ * body's angle and wound with positive signed area, or of a segment or chain
+ * in their own order. Circles, capsules and compounds have no vertices of
+ * their own and return an empty array; see {@link getWorldCapsule} and
+ * {@link shapeParts}.
+ */
+export function getWorldVertices(body: PhysicsBody): Vec2[] {
+  const { position, shape, angle } = body;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  let local: Vec2[];
+  switch (shape.type) {
+    case 'rect': {
+      const hw = shape.width / 2;
+      const hh = shape.height / 2;
+      local = [
+        { x: -hw, y: -hh },
+        { x: hw, y: -hh },
+        { x: hw, y: hh },
+        { x: -hw, y: hh },
+      ];
+      break;
+    }
+    case 'polygon':
+    case 'chain':
+      local = shape.vertices;
+      break;
+    case 'segment':
+      local = [shape.start, shape.end];
+      break;
+    case 'circle':
+    case 'capsule':
+    case 'compound':
+      return [];
+  }
+
+  return local.map((v) => ({
+    x: position.x + v.x * cos - v.y * sin,
+    y: position.y + v.x * sin + v.y * cos,
+  }));
+}
+
+/** World-space AABB of a body's shape, accounting for rotation. */
+export function computeAABB(body: PhysicsBody): AABB {
+  if (body.shape.type === 'compound') {
+    const boxes = shapeParts(body).map(computeAABB);
+    return {
+      min: {
+        x: Math.min(...boxes.map((b) => b.min.x)),
+        y: Math.min(...boxes.map((b) => b.min.y)),
+      },
+      max: {
+        x: Math.max(...boxes.map((b) => b.max.x)),
+        y: Math.max(...boxes.map((b) => b.max.y)),
+      },
+    };
+  }
+
+  const capsule = getWorldCapsule(body);
+  if (capsule && body.shape.type !== 'segment') {
+    const { start, end, radius: r } = capsule;
+    return {
+      min: { x: Math.min(start.x, end.x) - r, y: Math.min(start.y, end.y) - r },
+      max: { x: Math.max(start.x, end.x) + r, y: Math.max(start.y, end.y) + r },
+    };
+  }
+
+  const verts = getWorldVertices(body);
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const v of verts) {
+    if (v.x < minX) minX = v.x;
+    if (v.y < minY) minY = v.y;
+    if (v.x > maxX) maxX = v.x;
+    if (v.y > maxY) maxY = v.y;
+  }
+  return { min: { x: minX, y: minY }, max: { x: maxX, y: maxY } };
+}
+
+/** Check whether two AABBs overlap (touching edges do not count). */
+export function aabbOverlap(a: AABB, b: AABB): boolean {
+  return a.min.x < b.max.x && b.min.x < a.max.x && a.min.y < b.max.y && b.min.y < a.max.y;
+}
+
+/** Transform a body-local point into world space. */
+export function localToWorld(body: PhysicsBody, local: Vec2): Vec2 {
+  return V.add(body.position, V.rotate(local, body.angle));
+}
+
+/**
+ * World-space core of a round-ended shape: a capsule's cap centers, a
+ * circle's center twice over, or a segment's ends with no radius. Null for
+ * any other shape.
+ */
+export function getWorldCapsule(body: PhysicsBody): Capsule | null {
+  const { shape } = body;
+  switch (shape.type) {
+    case 'circle':
+      return { start: body.position, end: body.position, radius: shape.radius };
+    case 'capsule': {
+      const half = shape.length / 2;
+      return {
+        start: localToWorld(body, { x: -half, y: 0 }),
+        end: localToWorld(body, { x: half, y: 0 }),
+        radius: shape.radius,
+      };
+    }
+    case 'segment':
+      return {
+        start: localToWorld(body, shape.start),
+        end: localToWorld(body, shape.end),
+        radius: 0,
+      };
+    default:
+      return null;
+  }
+}
+
+/** Point of the segment a→b closest to `p`. */
+export function closestPointOnSegment(a: Vec2, b: Vec2, p: Vec2): Vec2 {
+  const ab = V.sub(b, a);
+  const lengthSq = V.dot(ab, ab);
+  if (lengthSq < 1e-18) return V.clone(a);
+  const t = Math.max(0, Math.min(1, V.dot(V.sub(p, a), ab) / lengthSq));
+  return V.add(a, V.scale(ab, t));
+}
+
+/**
+ * A body's shapes as bodies of their own: one per part of a compound,
+ * placed and turned with the body, or just the body itself otherwise.
+ * Parts share the body's id and state, so narrow-phase results read as
+ * the body's. They are copies: moving one does not move the body.
+ */
+export function shapeParts(body: PhysicsBody): PhysicsBody[] {
+  if (body.shape.type !== 'compound') return [body];
+  return body.shape.parts.map((part) => ({
+    ...body,
+    position: localToWorld(body, part.offset),
+    angle: body.angle + (part.angle ?? 0),
+    shape: part.shape,
+  }));
+}
+
+/**
+ * Test whether a point lies inside (or on the boundary of) a convex,
+ * positive-area polygon.
+ */
+export function containsPoint(vertices: Vec2[], point: Vec2): boolean {
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i]!;
+    const b = vertices[(i + 1) % vertices.length]!;
+    if (V.cross(V.sub(b, a), V.sub(point, a)) < 0) return false;
+  }
+  return vertices.length >= 3;
+}
+
+/**
+ * Outward unit normals for each edge of a positive-area polygon.
+ * Normal `i` belongs to the edge from vertex `i` to vertex `i + 1`.
+ */
+export function getEdgeNormals(vertices: Vec2[]): Vec2[] {
+  const normals: Vec2[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i]!;
+    const b = vertices[(i + 1) % vertices.length]!;
+    normals.push(V.normalize(V.perpR(V.sub(b, a))));
+  }
+  return normals;
+}
+
+/** Arithmetic mean of a vertex list. */
+export function vertexCenter(vertices: Vec2[]): Vec2 {
+  let x = 0;
+  let y = 0;
+  for (const v of vertices) {
+    x += v.x;
+    y += v.y;
+  }
+  return { x: x / vertices.length, y: y / vertices.length };
+}
+
+// ---------------------------------------------------------------------------
+// Mass Properties
+// ---------------------------------------------------------------------------
+
+/** Area of a shape (px²). */
+export function computeArea(shape: BodyShape): number {
+  switch (shape.type) {
+    case 'circle':
+      return Math.PI * shape.radius * shape.radius;
+    case 'rect':
+      return shape.width * shape.height;
+    case 'polygon':
+      return Math.abs(signedArea(shape.vertices));
+    case 'capsule':
+      return 2 * shape.radius * shape.length + Math.PI * shape.radius * shape.radius;
+    case 'segment':
+    case 'chain':
+      return 0;
+    case 'compound':
+      return shape.parts.reduce((sum, part) => sum + computeArea(part.shape), 0);
+  }
+}
+
+/**
+ * Center of area of a shape in its own frame: the origin for circles, rects
+ * and capsules, the area centroid for polygons, the area-weighted centroid
+ * of the parts for compounds, and the middle of segments and chains (which
+ * have no area to weigh).
+ */
+export function computeCentroid(shape: BodyShape): Vec2 {
+  switch (shape.type) {
+    case 'circle':
+    case 'rect':
+    case 'capsule':
+      return V.zero();
+    case 'segment':
+      return V.lerp(shape.start, shape.end, 0.5);
+    case 'chain':
+      return vertexCenter(shape.vertices);
+    case 'polygon': {
+      const verts = shape.vertices;
+      let x = 0;
+      let y = 0;
+      let area = 0;
+      for (let i = 0; i < verts.length; i++) {
+        const a = verts[i]!;
+        const b = verts[(i + 1) % verts.length]!;
+        const c = V.cross(a, b);
+        x += (a.x + b.x) * c;
+        y += (a.y + b.y) * c;
+        area += c;
+      }
+      return area === 0 ? vertexCenter(verts) : { x: x / (3 * area), y: y / (3 * area) };
+    }
+    case 'compound': {
+      let x = 0;
+      let y = 0;
+      let total = 0;
+      for (const part of shape.parts) {
+        const area = computeArea(part.shape);
+        const center = partCentroid(part);
+        x += center.x * area;
+        y += center.y * area;
+        total += area;
+      }
+      return total === 0 ? V.zero() : { x: x / total, y: y / total };
+    }
+  }
+}
+
+/** Centroid of a compound part in the body's frame. */
+function partCentroid(part: CompoundPart): Vec2 {
+  return V.add(part.offset, V.rotate(computeCentroid(part.shape), part.angle ?? 0));
+}
+
+/**
+ * Moment of inertia of a uniform-density shape about the body origin
+ * (`position`), for the given total mass.
+ *
+ * - Circle: m·r²/2
+ * - Rect:   m·(w² + h²)/12
+ * - Capsule: the middle rect plus the two end caps, each half-disc moved
+ *   out from its own centroid by the parallel-axis theorem
+ * - Polygon: signed triangle-fan sum about the origin, so vertex lists that
+ *   are not centered on the origin pick up the parallel-axis term.
+ * - Compound: each part weighs its share of the area, and adds its own
+ *   inertia moved out to the body origin by the parallel-axis theorem.
+ * - Segment, chain: 0, having no area.
+ */
+export function computeInertia(shape: BodyShape, mass: number): number {
+  if (mass <= 0) return 0;
+
+  switch (shape.type) {
+    case 'circle':
+      return (mass * shape.radius * shape.radius) / 2;
+    case 'rect':
+      return (mass * (shape.width * shape.width + shape.height * shape.height)) / 12;
+    case 'polygon': {
+      const verts = shape.vertices;
+      let numerator = 0;
+      let denominator = 0;
+      for (let i = 0; i < verts.length; i++) {
+        const a = verts[i]!;
+        const b = verts[(i + 1) % verts.length]!;
+        const c = V.cross(a, b); // signed: handles origins outside the polygon
+        numerator += c * (V.dot(a, a) + V.dot(a, b) + V.dot(b, b));
+        denominator += c;
+      }
+      return denominator > 0 ? (mass * numerator) / (6 * denominator) : 0;
+    }
+    case 'capsule': {
+      const { length: l, radius: r } = shape;
+      const rectMass = (mass * 2 * r * l) / computeArea(shape);
+      const capsMass = mass - rectMass;
+      const capOffset = (4 * r) / (3 * Math.PI); // flat side → half-disc centroid
+      return (
+        (rectMass * (l * l + 4 * r * r)) / 12 +
+        capsMass * ((r * r) / 2 + (l * l) / 4 + l * capOffset)
+      );
+    }
+    case 'segment':
+    case 'chain':
+      return 0;
+    case 'compound': {
+      const area = computeArea(shape);
+      if (area <= 0) return 0;
+
+      let inertia = 0;
+      for (const part of shape.parts) {
+        const partMass = (mass * computeArea(part.shape)) / area;
+        const own = computeCentroid(part.shape);
+        // About the part's own origin → its centroid → the body origin
+        inertia +=
+          computeInertia(part.shape, partMass) -
+          partMass * V.lengthSq(own) +
+          partMass * V.lengthSq(partCentroid(part));
+      }
+      return inertia;
+    }
+  }
+}
@@ -1,6 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import { createBody } from './body.js';
-import { updateSleepState, wakeBody, wakeOnCollision } from './sleeping.js';
+import { createConstraint } from './constraint.js';
+import { PhysicsEngine } from './engine.js';
+import {
+  DEFAULT_SLEEP_THRESHOLDS,
+  findIslands,
+  resolveSleepThresholds,
+  updateSleepState,
+  updateSleepTimer,
+  wakeBody,
+  wakeOnCollision,
+} from './sleeping.js';
+import type { WorldConfig } from '@mcp-tool-shop/siege-types';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -61,6 +72,32 @@ describe('updateSleepState', () => {
     expect(body.velocity.y).toBe(0);
   });
 
+  it('does not accumulate sleep time while spinning', () => {
+    const body = dynamicBody({
+      velocity: { x: 0, y: 0 },
+      angularVelocity: 1,
+      sleepTimer: 29,
+    });
+
+    updateSleepState(body);
+
+    expect(body.sleepTimer).toBe(0);
+    expect(body.isSleeping).toBe(false);
+  });
+
+  it('zeroes angular velocity when falling asleep', () => {
+    const body = dynamicBody({
+      velocity: { x: 0, y: 0 },
+      angularVelocity: 0.01,
+      sleepTimer: 29,
+    });
+
+    updateSleepState(body);
+
+    expect(body.isSleeping).toBe(true);
+    expect(body.angularVelocity).toBe(0);
+  });
+
   it('does not change a static body (early return)', () => {
     const body = dynamicBody({
       isStatic: true,
@@ -217,3 +254,223 @@ describe('wakeOnCollision', () => {
     expect(sleeping.sleepTimer).toBe(30);
   });
 });
+
+// ===========================================================================
+// Thresholds
+// ===========================================================================
+
+describe('resolveSleepThresholds', () => {
+  it('layers defaults, world config and the body override', () => {
+    const body = dynamicBody({ sleepThresholds: { frames: 5 } });
+    expect(resolveSleepThresholds(body, { velocity: 2, frames: 60 })).toEqual({
+      velocity: 2,
+      angular: DEFAULT_SLEEP_THRESHOLDS.angular,
+      frames: 5,
+    });
+    expect(resolveSleepThresholds(dynamicBody())).toEqual(DEFAULT_SLEEP_THRESHOLDS);
+  });
+});
+
+describe('updateSleepTimer', () => {
+  it('counts still frames and reports when the body may sleep', () => {
+    const body = dynamicBody({ velocity: { x: 1, y: 0 } });
+    const thresholds = { velocity: 2, angular: 0.05, frames: 2 };
+
+    expect(updateSleepTimer(body, thresholds)).toBe(false);
+    expect(updateSleepTimer(body, thresholds)).toBe(true);
+    // Only counts — putting the body to sleep is up to the caller
+    expect(body.isSleeping).toBe(false);
+  });
+
+  it('resets when the body speeds up', () => {
+    const body = dynamicBody({ velocity: { x: 5, y: 0 }, sleepTimer: 10 });
+    expect(updateSleepTimer(body)).toBe(false);
+    expect(body.sleepTimer).toBe(0);
+  });
+
+  it('honours custom thresholds in updateSleepState', () => {
+    const body = dynamicBody({ velocity: { x: 1, y: 0 } });
+    updateSleepState(body, { velocity: 2, angular: 0.05, frames: 1 });
+    expect(body.isSleeping).toBe(true);
+  });
+});
+
+// ===========================================================================
+// findIslands
+// ===========================================================================
+
+describe('findIslands', () => {
+  it('groups linked bodies, in body order', () => {
+    const [a, b, c, d] = ['a', 'b', 'c', 'd'].map((id) => dynamicBody({ id }));
+    const islands = findIslands([a!, b!, c!, d!], [
+      [c!, a!],
+      [d!, b!],
+    ]);
+    expect(islands.map((i) => i.map((body) => body.id))).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+  });
+
+  it('does not link through static bodies', () => {
+    const floor = dynamicBody({ id: 'floor', isStatic: true });
+    const a = dynamicBody({ id: 'a' });
+    const b = dynamicBody({ id: 'b' });
+    const islands = findIslands([floor, a, b], [
+      [a, floor],
+      [floor, b],
+    ]);
+    expect(islands.map((i) => i.map((body) => body.id))).toEqual([['a'], ['b']]);
+  });
+
+  it('does not link through kinematic bodies, which get islands of their own', () => {
+    const platform = dynamicBody({ id: 'platform', bodyType: 'kinematic' });
+    const a = dynamicBody({ id: 'a' });
+    const b = dynamicBody({ id: 'b' });
+    const islands = findIslands([platform, a, b], [
+      [a, platform],
+      [platform, b],
+    ]);
+    expect(islands.map((i) => i.map((body) => body.id))).toEqual([['platform'], ['a'], ['b']]);
+  });
+});
+
+// ===========================================================================
+// Island sleeping in the world
+// ===========================================================================
+
+describe('island sleeping', () => {
+  /** Three boxes stacked on a floor. */
+  function stackWorld(sleepThresholds: WorldConfig['sleepThresholds'] = {}): PhysicsEngine {
+    const engine = new PhysicsEngine({
+      gravity: { x: 0, y: 980 },
+      substeps: 4,
+      velocityIterations: 4,
+      sleepThresholds,
+    });
+    engine.addBody(
+      createBody({
+        id: 'floor',
+        isStatic: true,
+        position: { x: 200, y: 300 },
+        shape: { type: 'rect', width: 400, height: 20 },
+      }),
+    );
+    for (let i = 0; i < 3; i++) {
+      engine.addBody(
+        createBody({
+          id: `box${i}`,
+          position: { x: 100, y: 280 - i * 20 },
+          shape: { type: 'rect', width: 20, height: 20 },
+          restitution: 0,
+          friction: 0.8,
+        }),
+      );
+    }
+    return engine;
+  }
+
+  function stepUntilAsleep(engine: PhysicsEngine, ids: string[], max = 600): number {
+    for (let i = 0; i < max; i++) {
+      engine.stepOnce();
+      if (ids.every((id) => engine.getBody(id)!.isSleeping)) return i;
+    }
+    throw new Error('never slept');
+  }
+
+  const boxes = ['box0', 'box1', 'box2'];
+
+  it('puts a whole stack to sleep in the same step, once', () => {
+    const engine = stackWorld();
+    const events: string[] = [];
+    engine.on('sleep', (e) => events.push(`sleep ${e.body} @${engine.stepCount}`));
+    engine.on('wake', (e) => events.push(`wake ${e.body}`));
+
+    stepUntilAsleep(engine, boxes);
+    for (let i = 0; i < 120; i++) engine.stepOnce();
+
+    const step = events[0]!.split('@')[1];
+    expect(events).toEqual(boxes.map((id) => `sleep ${id} @${step}`));
+    const islandIds = boxes.map((id) => engine.getBody(id)!.islandId);
+    expect(new Set(islandIds).size).toBe(1);
+  });
+
+  it('wakes the whole island when one member is disturbed', () => {
+    const engine = stackWorld();
+    stepUntilAsleep(engine, boxes);
+    const woken: string[] = [];
+    engine.on('wake', (e) => woken.push(e.body));
+
+    engine.setVelocity('box0', { x: 0, y: 0 });
+    engine.stepOnce();
+
+    expect(woken).toEqual(boxes);
+    expect(boxes.every((id) => engine.getBody(id)!.islandId === null)).toBe(true);
+  });
+
+  it('keeps the island awake while one member may not sleep', () => {
+    const engine = stackWorld();
+    engine.getBody('box2')!.sleepThresholds = { frames: Infinity };
+
+    for (let i = 0; i < 300; i++) engine.stepOnce();
+
+    expect(boxes.some((id) => engine.getBody(id)!.isSleeping)).toBe(false);
+  });
+
+  it('keeps a never-sleep body awake after serialize / deserialize', () => {
+    const engine = stackWorld();
+    engine.getBody('box2')!.sleepThresholds = { frames: Infinity };
+    for (let i = 0; i < 60; i++) engine.stepOnce();
+
+    // JSON has no Infinity: the threshold comes back as null
+    const copy = PhysicsEngine.deserialize(engine.serialize());
+    expect(copy.getBody('box2')!.sleepThresholds!.frames).toBeNull();
+    for (let i = 0; i < 300; i++) copy.stepOnce();
+
+    expect(boxes.some((id) => copy.getBody(id)!.isSleeping)).toBe(false);
+  });
+
+  it('reads thresholds from the world config', () => {
+    const slow = stackWorld({ frames: 400 });
+    const fast = stackWorld({ frames: 10 });
+    expect(stepUntilAsleep(fast, boxes)).toBeLessThan(stepUntilAsleep(slow, boxes));
+  });
+
+  it('lets jointed bodies sleep together and wake together', () => {
+    const engine = stackWorld();
+    engine.removeBody('box2');
+    engine.setPosition('box1', { x: 140, y: 280 });
+    engine.addConstraint(
+      createConstraint({
+        type: 'distance',
+        bodyA: 'box0',
+        bodyB: 'box1',
+        length: 40,
+        stiffness: 1,
+      }),
+    );
+
+    stepUntilAsleep(engine, ['box0', 'box1']);
+    expect(engine.getBody('box0')!.islandId).toBe(engine.getBody('box1')!.islandId);
+
+    engine.applyImpulse('box1', { x: 0, y: -50 });
+    engine.stepOnce();
+    expect(engine.getBody('box0')!.isSleeping).toBe(false);
+  });
+
+  it('keeps island membership across snapshot and restore', () => {
+    const engine = stackWorld();
+    stepUntilAsleep(engine, boxes);
+    const copy = PhysicsEngine.deserialize(engine.serialize());
+    const events: string[] = [];
+    copy.on('sleep', (e) => events.push(e.body));
+    copy.on('wake', (e) => events.push(e.body));
+
+    copy.stepOnce();
+    expect(events).toEqual([]);
+
+    copy.setVelocity('box2', { x: 0, y: 0 });
+    copy.stepOnce();
+    expect(events).toEqual(boxes);
+  });
+});
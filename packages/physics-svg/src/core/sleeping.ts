@@ -1,45 +1,94 @@
-import type { PhysicsBody } from '@mcp-tool-shop/siege-types';
+import type { PhysicsBody, SleepThresholds } from '@mcp-tool-shop/siege-types';
 import * as V from './vec2.js';
 
 // ---------------------------------------------------------------------------
 // Sleep System
 // ---------------------------------------------------------------------------
 
-/** Speed below which a body starts accumulating sleep time (px/step). */
-const SLEEP_VELOCITY_THRESHOLD = 0.5;
+/**
+ * Default sleep thresholds, overridable per world (`WorldConfig`) and per
+ * body:
+ * - `velocity`: speed below which a body accumulates sleep time (px/s)
+ * - `angular`: angular speed below which it may do so (rad/s)
+ * - `frames`: consecutive substeps below both before sleeping
+ */
+export const DEFAULT_SLEEP_THRESHOLDS: Readonly<SleepThresholds> = {
+  velocity: 0.5,
+  angular: 0.05,
+  frames: 30,
+};
 
-/** Number of consecutive frames below threshold before sleeping. */
-const SLEEP_FRAME_THRESHOLD = 30;
+/** Effective thresholds for a body: defaults ← world config ← body override. */
+export function resolveSleepThresholds(
+  body: PhysicsBody,
+  world?: Partial<SleepThresholds>,
+): SleepThresholds {
+  return { ...DEFAULT_SLEEP_THRESHOLDS, ...world, ...body.sleepThresholds };
+}
 
 /**
- * Update the sleep state of a body based on its velocity.
+ * Advance a body's sleep timer: count up while it is below the thresholds,
+ * reset to 0 otherwise.
+ *
+ * Kinematic bodies only count while fully stopped, since sleeping zeroes
+ * their velocity and nothing else would ever move them again.
+ *
+ * `frames: Infinity` means never sleep. JSON writes it as `null`, so after
+ * `serialize`/`deserialize` any `frames` that is not a finite number is
+ * read the same way.
  *
- * - If speed < threshold for SLEEP_FRAME_THRESHOLD frames → sleep
- * - If sleeping and speed > threshold → wake
+ * @returns Whether the body has been still long enough to sleep.
  */
-export function updateSleepState(body: PhysicsBody): void {
-  if (body.isStatic) return;
-
+export function updateSleepTimer(
+  body: PhysicsBody,
+  thresholds: SleepThresholds = DEFAULT_SLEEP_THRESHOLDS,
+): boolean {
   const speed = V.length(body.velocity);
+  const slow =
+    body.bodyType === 'kinematic'
+      ? speed === 0 && body.angularVelocity === 0
+      : speed < thresholds.velocity && Math.abs(body.angularVelocity) < thresholds.angular;
 
-  if (speed < SLEEP_VELOCITY_THRESHOLD) {
-    body.sleepTimer++;
-    if (body.sleepTimer >= SLEEP_FRAME_THRESHOLD) {
-      body.isSleeping = true;
-      body.velocity.x = 0;
-      body.velocity.y = 0;
-    }
-  } else {
-    body.sleepTimer = 0;
+  body.sleepTimer = slow ? body.sleepTimer + 1 : 0;
+  return Number.isFinite(thresholds.frames) && body.sleepTimer >= thresholds.frames;
+}
+
+/**
+ * Update the sleep state of a lone body based on its linear and angular
+ * velocity. The world sleeps whole islands instead; see {@link findIslands}.
+ *
+ * - If both speeds < threshold for `frames` frames → sleep
+ * - If sleeping and either speed > threshold → wake
+ */
+export function updateSleepState(
+  body: PhysicsBody,
+  thresholds: SleepThresholds = DEFAULT_SLEEP_THRESHOLDS,
+): void {
+  if (body.isStatic) return;
+
+  if (updateSleepTimer(body, thresholds)) {
+    sleepBody(body);
+  } else if (body.sleepTimer === 0) {
     body.isSleeping = false;
   }
 }
 
+/** Put a body to sleep and zero its velocity. */
+export function sleepBody(body: PhysicsBody): void {
+  body.isSleeping = true;
+  body.velocity.x = 0;
+  body.velocity.y = 0;
+  body.angularVelocity = 0;
+}
+
 /**
  * Force a body awake. Called when:
  * - A constraint references it
  * - A collision involves it and the colliding body is awake
  * - An external force or impulse is applied
+ *
+ * The rest of its sleeping island (`islandId`) is woken by the world on
+ * its next substep.
  */
 export function wakeBody(body: PhysicsBody): void {
   body.isSleeping = false;
@@ -57,3 +106,56 @@ export function wakeOnCollision(a: PhysicsBody, b: PhysicsBody): void {
     wakeBody(b);
   }
 }
+
+// ---------------------------------------------------------------------------
+// Islands
+// ---------------------------------------------------------------------------
+
+/**
+ * Group non-static bodies into islands: sets connected through `links`
+ * (contacts and constraints). Static bodies never join an island, so a
+ * shared floor does not merge everything standing on it. Kinematic bodies
+ * do not link islands either, so one moving platform does not keep every
+ * stack it touches awake; each sleeps on its own, in an island of one.
+ *
+ * Islands and their members keep the order of `bodies`.
+ */
+export function findIslands(
+  bodies: PhysicsBody[],
+  links: Iterable<[PhysicsBody, PhysicsBody]>,
+): PhysicsBody[][] {
+  const index = new Map<PhysicsBody, number>();
+  const parent: number[] = [];
+  for (const body of bodies) {
+    if (body.isStatic) continue;
+    index.set(body, parent.length);
+    parent.push(parent.length);
+  }
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!; // path halving
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  for (const [a, b] of links) {
+    if (a.bodyType === 'kinematic' || b.bodyType === 'kinematic') continue;
+    const i = index.get(a);
+    const j = index.get(b);
+    if (i === undefined || j === undefined) continue;
+    const ri = find(i);
+    const rj = find(j);
+    if (ri !== rj) parent[Math.max(ri, rj)] = Math.min(ri, rj);
+  }
+
+  const islands = new Map<number, PhysicsBody[]>();
+  for (const [body, i] of index) {
+    const root = find(i);
+    const island = islands.get(root);
+    if (island) island.push(body);
+    else islands.set(root, [body]);
+  }
+  return Array.from(islands.values());
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from './engine.js';
+import { createBody } from './body.js';
+import { createConstraint } from './constraint.js';
+import { SNAPSHOT_VERSION, parseSnapshot, validateSnapshot } from './snapshot.js';
+import type { PhysicsBody } from '@mcp-tool-shop/siege-types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STEP = 1 / 60;
+
+/**
+ * Mixed scene: a pile of circles and boxes on a floor, a hinged pendulum,
+ * a spring and a wind field, so every kind of state ends up in a snapshot.
+ */
+function createScene(): PhysicsEngine {
+  const engine = new PhysicsEngine({
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 6,
+    bounds: { min: { x: 0, y: 0 }, max: { x: 600, y: 400 } },
+    broadPhase: 'sap',
+  });
+
+  engine.addBody(
+    createBody({
+      id: 'floor',
+      isStatic: true,
+      position: { x: 300, y: 390 },
+      shape: { type: 'rect', width: 600, height: 20 },
+    }),
+  );
+
+  for (let i = 0; i < 12; i++) {
+    engine.addBody(
+      createBody({
+        id: `c${i}`,
+        position: { x: 120 + (i % 4) * 25 + (i % 3), y: 120 + Math.floor(i / 4) * 25 },
+        shape: i % 2 ? { type: 'circle', radius: 10 } : { type: 'rect', width: 18, height: 18 },
+        restitution: 0.3,
+        userData: { index: i },
+      }),
+    );
+  }
+
+  engine.addBody(
+    createBody({
+      id: 'pivot',
+      isStatic: true,
+      position: { x: 450, y: 60 },
+      shape: { type: 'circle', radius: 4 },
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'bob',
+      position: { x: 530, y: 60 },
+      shape: { type: 'rect', width: 60, height: 10 },
+    }),
+  );
+  engine.addConstraint(
+    createConstraint({
+      id: 'hinge',
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'bob',
+      anchorB: { x: -40, y: 0 },
+      stiffness: 1,
+    }),
+  );
+  engine.addConstraint(
+    createConstraint({
+      id: 'spring',
+      type: 'spring',
+      bodyA: 'c0',
+      bodyB: 'c1',
+      stiffness: 20,
+      damping: 0.5,
+      length: 30,
+    }),
+  );
+
+  engine.addForceField({ id: 'wind', type: 'wind', vector: { x: 40, y: 0 } });
+  return engine;
+}
+
+/** Run `steps` frames with an uneven frame time so the accumulator matters. */
+function run(engine: PhysicsEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.update(STEP * 1.37);
+}
+
+/** Assert two body lists match bit-for-bit on every dynamic field. */
+function expectIdentical(actual: PhysicsBody[], expected: PhysicsBody[]): void {
+  expect(actual.map((b) => b.id)).toEqual(expected.map((b) => b.id));
+  for (let i = 0; i < expected.length; i++) {
+    const a = actual[i]!;
+    const e = expected[i]!;
+    for (const value of [
+      [a.position.x, e.position.x],
+      [a.position.y, e.position.y],
+      [a.velocity.x, e.velocity.x],
+      [a.velocity.y, e.velocity.y],
+      [a.angle, e.angle],
+      [a.angularVelocity, e.angularVelocity],
+      [a.sleepTimer, e.sleepTimer],
+    ]) {
+      expect(value[0]).toBe(value[1]);
+    }
+    expect(a.isSleeping).toBe(e.isSleeping);
+  }
+}
+
+// ===========================================================================
+// SNAPSHOT / RESTORE
+// ===========================================================================
+
+describe('PhysicsEngine snapshot / restore', () => {
+  it('captures bodies, constraints, force fields, config and accumulator', () => {
+    const engine = createScene();
+    run(engine, 5);
+    const snap = engine.snapshot();
+
+    expect(snap.version).toBe(SNAPSHOT_VERSION);
+    expect(snap.bodies).toHaveLength(engine.getBodies().length);
+    expect(snap.constraints.map((c) => c.id)).toEqual(['hinge', 'spring']);
+    expect(snap.forceFields).toEqual([
+      { id: 'wind', type: 'wind', vector: { x: 40, y: 0 }, age: expect.any(Number) },
+    ]);
+    expect(snap.config.broadPhase).toBe('sap');
+    expect(snap.accumulator).toBeGreaterThan(0);
+  });
+
+  it('returns a deep copy', () => {
+    const engine = createScene();
+    const snap = engine.snapshot();
+
+    snap.bodies[1]!.position.x = -999;
+    snap.config.gravity.y = 0;
+
+    expect(engine.getBody('c0')!.position.x).not.toBe(-999);
+    expect(engine.getConfig().gravity.y).toBe(980);
+  });
+
+  it('restoring and stepping reproduces the original run exactly', () => {
+    const engine = createScene();
+    run(engine, 40);
+    const snap = engine.snapshot();
+
+    run(engine, 80);
+    const expected = engine.snapshot().bodies;
+
+    engine.restore(snap);
+    run(engine, 80);
+
+    expectIdentical(engine.getBodies(), expected);
+  });
+
+  it('can restore the same snapshot more than once', () => {
+    const engine = createScene();
+    const snap = engine.snapshot();
+
+    run(engine, 30);
+    const first = engine.snapshot().bodies;
+    engine.restore(snap);
+    run(engine, 30);
+    engine.restore(snap);
+    run(engine, 30);
+
+    expectIdentical(engine.getBodies(), first);
+  });
+
+  it('restores the interpolation alpha from the accumulator', () => {
+    const engine = createScene();
+    engine.update(STEP * 1.5);
+    const snap = engine.snapshot();
+
+    const other = new PhysicsEngine({
+      gravity: { x: 0, y: 0 },
+      substeps: 1,
+      velocityIterations: 1,
+    });
+    other.restore(snap);
+
+    expect(other.alpha).toBeCloseTo(engine.alpha, 12);
+  });
+
+  it('keeps event subscriptions across a restore', () => {
+    const engine = createScene();
+    const snap = engine.snapshot();
+    let starts = 0;
+    engine.on('collisionStart', () => starts++);
+
+    engine.restore(snap);
+    run(engine, 60);
+
+    expect(starts).toBeGreaterThan(0);
+  });
+
+  it('throws on an unsupported version', () => {
+    const engine = createScene();
+    const snap = { ...engine.snapshot(), version: SNAPSHOT_VERSION + 1 };
+    expect(() => engine.restore(snap)).toThrow(/version/);
+  });
+});
+
+// ===========================================================================
+// SERIALIZE / DESERIALIZE
+// ===========================================================================
+
+describe('PhysicsEngine serialize / deserialize', () => {
+  it('produces versioned JSON', () => {
+    const data = JSON.parse(createScene().serialize()) as { version: number };
+    expect(data.version).toBe(SNAPSHOT_VERSION);
+  });
+
+  it('a deserialized engine continues bit-identically', () => {
+    const original = createScene();
+    run(original, 50);
+    const json = original.serialize();
+
+    const copy = PhysicsEngine.deserialize(json);
+    run(original, 100);
+    run(copy, 100);
+
+    expectIdentical(copy.getBodies(), original.getBodies());
+  });
+
+  it('round-trips to the same JSON apart from the timestamp', () => {
+    const engine = createScene();
+    run(engine, 20);
+    const json = engine.serialize();
+
+    const strip = (s: string) => ({ ...JSON.parse(s), timestamp: 0 }) as unknown;
+    expect(strip(PhysicsEngine.deserialize(json).serialize())).toEqual(strip(json));
+  });
+
+  it('preserves userData', () => {
+    const copy = PhysicsEngine.deserialize(createScene().serialize());
+    expect(copy.getBody('c3')!.userData).toEqual({ index: 3 });
+  });
+});
+
+describe('validateSnapshot / parseSnapshot', () => {
+  it('rejects non-objects', () => {
+    expect(() => validateSnapshot(null)).toThrow(/expected an object/);
+    expect(() => validateSnapshot(42)).toThrow(/expected an object/);
+  });
+
+  it('rejects a missing or unknown version', () => {
+    expect(() => validateSnapshot({})).toThrow(/version undefined/);
+    expect(() => validateSnapshot({ version: 99 })).toThrow(/version 99/);
+  });
+
+  it('rejects missing top-level fields', () => {
+    expect(() => validateSnapshot({ version: SNAPSHOT_VERSION, config: {} })).toThrow(
+      /missing config, bodies/,
+    );
+  });
+
+  it('surfaces JSON syntax errors', () => {
+    expect(() => parseSnapshot('{not json')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,48 @@
+import type { WorldSnapshot } from '@mcp-tool-shop/siege-types';
+
+/** Current `WorldSnapshot.version`. Bump when the format changes. */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Check that `data` looks like a snapshot this engine can restore.
+ *
+ * Only the envelope is checked (version and top-level fields); bodies and
+ * constraints are trusted to have been produced by `PhysicsEngine.snapshot`.
+ *
+ * @throws If the version is unsupported or a top-level field is missing.
+ */
+export function validateSnapshot(data: unknown): WorldSnapshot {
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Invalid world snapshot: expected an object.');
+  }
+
+  const snapshot = data as Partial<WorldSnapshot>;
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported world snapshot version ${String(snapshot.version)} ` +
+        `(expected ${SNAPSHOT_VERSION}).`,
+    );
+  }
+  if (
+    typeof snapshot.config !== 'object' ||
+    !Array.isArray(snapshot.bodies) ||
+    !Array.isArray(snapshot.constraints) ||
+    !Array.isArray(snapshot.forceFields) ||
+    typeof snapshot.accumulator !== 'number'
+  ) {
+    throw new Error(
+      'Invalid world snapshot: missing config, bodies, constraints, forceFields or accumulator.',
+    );
+  }
+
+  return snapshot as WorldSnapshot;
+}
+
+/**
+ * Parse a JSON string produced by `PhysicsEngine.serialize`.
+ *
+ * @throws If the JSON is malformed or fails {@link validateSnapshot}.
+ */
+export function parseSnapshot(json: string): WorldSnapshot {
+  return validateSnapshot(JSON.parse(json));
+}
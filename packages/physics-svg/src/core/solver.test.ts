@@ -1,7 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { integrate, solveConstraints } from './solver.js';
+import {
+  applyAcceleration,
+  capturePoses,
+  carryCorrections,
+  carryPushOut,
+  integrate,
+  integrateVelocityVerlet,
+  solveConstraints,
+} from './solver.js';
 import { createBody } from './body.js';
-import { createConstraint } from './constraint.js';
+import { createConstraint, createDragJoint } from './constraint.js';
+import { localToWorld } from './shapes.js';
+import * as V from './vec2.js';
 import type { PhysicsBody, Constraint } from '@mcp-tool-shop/siege-types';
 
 // ---------------------------------------------------------------------------
@@ -167,6 +177,139 @@ describe('integrate', () => {
   });
 });
 
+describe('integrate — maxSpeed', () => {
+  it('clamps speed before moving, keeping the direction', () => {
+    const body = createBody({ velocity: { x: 30, y: 0 }, acceleration: { x: 0, y: 40 } });
+    body.maxSpeed = 10;
+
+    integrate(body, 1);
+
+    // (30, 40) has speed 50, scaled down to (6, 8)
+    expect(body.velocity.x).toBeCloseTo(6, 10);
+    expect(body.velocity.y).toBeCloseTo(8, 10);
+    expect(body.position).toEqual({ x: body.velocity.x, y: body.velocity.y });
+  });
+
+  it('leaves slower bodies alone', () => {
+    const body = createBody({ velocity: { x: 3, y: 4 }, maxSpeed: 10 });
+
+    integrate(body, 1);
+
+    expect(body.velocity).toEqual({ x: 3, y: 4 });
+  });
+});
+
+describe('integrate — rotation', () => {
+  it('angular velocity advances the angle: θ += ω * dt', () => {
+    const body = createBody({ angle: 0.5, angularVelocity: 2 });
+
+    integrate(body, 0.25);
+
+    expect(body.previousAngle).toBe(0.5);
+    expect(body.angle).toBeCloseTo(1.0, 10);
+  });
+
+  it('torque changes angular velocity by τ / I * dt and is then reset', () => {
+    const body = createBody({ inertia: 4, torque: 8 });
+
+    integrate(body, 0.5);
+
+    expect(body.angularVelocity).toBeCloseTo(1, 10);
+    expect(body.angle).toBeCloseTo(0.5, 10);
+    expect(body.torque).toBe(0);
+  });
+
+  it('torque has no effect on a body with zero invInertia', () => {
+    const body = createBody({ isStatic: true, torque: 100 });
+
+    integrate(body, 1);
+
+    expect(body.angularVelocity).toBe(0);
+    expect(body.angle).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Velocity and position Verlet
+// ---------------------------------------------------------------------------
+
+describe('integrateVelocityVerlet', () => {
+  it('moves by the exact constant-acceleration distance: x += v·dt + ½a·dt²', () => {
+    const body = createBody({
+      position: { x: 0, y: 0 },
+      velocity: { x: 10, y: 0 },
+      acceleration: { x: 0, y: 100 },
+    });
+
+    integrateVelocityVerlet(body, 0.5);
+
+    expect(body.previousPosition).toEqual({ x: 0, y: 0 });
+    expect(body.position.x).toBeCloseTo(5, 10);
+    expect(body.position.y).toBeCloseTo(0.5 * 100 * 0.25, 10);
+    // Only half a step of velocity so far, and the acceleration is spent
+    expect(body.velocity.y).toBeCloseTo(25, 10);
+    expect(body.acceleration).toEqual({ x: 0, y: 0 });
+  });
+
+  it('applyAcceleration with the re-applied force completes the velocity', () => {
+    const body = createBody({ acceleration: { x: 0, y: 100 } });
+
+    integrateVelocityVerlet(body, 0.5);
+    body.acceleration.y = 100;
+    applyAcceleration(body, 0.25);
+
+    expect(body.velocity.y).toBeCloseTo(50, 10);
+    expect(body.acceleration.y).toBe(0);
+  });
+});
+
+describe('carryCorrections', () => {
+  it('turns what a pass moved each body into velocity', () => {
+    const body = createBody({ position: { x: 10, y: 10 }, velocity: { x: 1, y: 0 } });
+    const poses = capturePoses([body]);
+
+    body.position.x += 2;
+    body.angle += 0.1;
+    carryCorrections(poses, 0.5);
+
+    expect(body.velocity.x).toBeCloseTo(5, 10);
+    expect(body.velocity.y).toBe(0);
+    expect(body.angularVelocity).toBeCloseTo(0.2, 10);
+  });
+
+  it('skips static and sleeping bodies', () => {
+    const wall = createBody({ isStatic: true });
+    const napper = createBody({ isSleeping: true });
+
+    expect(capturePoses([wall, napper]).size).toBe(0);
+  });
+});
+
+describe('carryPushOut', () => {
+  it('does not carry the part of a push that undoes this substep\'s travel', () => {
+    // Moved 3 px down into the floor this substep, pushed 2 px back out
+    const body = createBody({ position: { x: 0, y: 13 }, previousPosition: { x: 0, y: 10 } });
+    const poses = capturePoses([body]);
+
+    body.position.y -= 2;
+    carryPushOut(poses, 0.5);
+
+    expect(body.velocity).toEqual({ x: 0, y: 0 });
+  });
+
+  it('carries the push out of an overlap the body started in', () => {
+    // Moved 1 px down, pushed 3 px out: 2 px of it was already overlap
+    const body = createBody({ position: { x: 0, y: 11 }, previousPosition: { x: 0, y: 10 } });
+    const poses = capturePoses([body]);
+
+    body.position.y -= 3;
+    carryPushOut(poses, 0.5);
+
+    expect(body.velocity.x).toBe(0);
+    expect(body.velocity.y).toBeCloseTo(-4, 10);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // solveConstraints() — Spring
 // ---------------------------------------------------------------------------
@@ -278,6 +421,29 @@ describe('solveConstraints — spring', () => {
     expect(b.acceleration.x).toBeCloseTo(0, 10);
     expect(b.acceleration.y).toBeCloseTo(0, 10);
   });
+
+  it('anchors rotate with the body and the force at them adds torque', () => {
+    const a = createBody({ id: 'a', position: { x: 0, y: 0 }, isStatic: true });
+    const b = createBody({ id: 'b', position: { x: 100, y: 0 }, angle: Math.PI / 2 });
+
+    const spring = createConstraint({
+      bodyA: 'a',
+      bodyB: 'b',
+      type: 'spring',
+      anchorB: { x: 10, y: 0 },
+      stiffness: 1.0,
+      damping: 0,
+      length: 50,
+    });
+
+    solveConstraints(constraintMap(spring), bodyMap(a, b), 1);
+
+    // Turned a quarter, the anchor sits at (100, 10): pulled back toward
+    // A, which also tilts it upward and twists the body
+    expect(b.acceleration.x).toBeLessThan(0);
+    expect(b.acceleration.y).toBeLessThan(0);
+    expect(b.torque).toBeCloseTo(-10 * b.acceleration.x * b.mass, 10);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -365,6 +531,27 @@ describe('solveConstraints — distance', () => {
     // A should have moved toward B
     expect(a.position.x).toBeGreaterThan(0);
   });
+
+  it('joins the rotated anchors, turning the body as well as moving it', () => {
+    const a = createBody({ id: 'a', position: { x: 0, y: 0 }, angle: Math.PI / 2 });
+    const b = createBody({ id: 'b', position: { x: 100, y: 0 }, isStatic: true });
+
+    const constraint = createConstraint({
+      bodyA: 'a',
+      bodyB: 'b',
+      type: 'distance',
+      anchorA: { x: 10, y: 0 },
+      stiffness: 1.0,
+      length: 0,
+    });
+
+    solveConstraints(constraintMap(constraint), bodyMap(a, b), 20);
+
+    const anchor = localToWorld(a, { x: 10, y: 0 });
+    expect(anchor.x).toBeCloseTo(100, 3);
+    expect(anchor.y).toBeCloseTo(0, 3);
+    expect(a.angle).not.toBeCloseTo(Math.PI / 2, 3);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -447,6 +634,27 @@ describe('solveConstraints — pin', () => {
     expect(a.position.x).toBe(0);
     expect(a.position.y).toBe(0);
   });
+
+  it('pins the rotated anchor, swinging the body round it', () => {
+    const a = createBody({ id: 'a', position: { x: 0, y: 0 }, angle: Math.PI / 2 });
+    const b = createBody({ id: 'b', position: { x: 100, y: 0 }, isStatic: true });
+
+    const pin = createConstraint({
+      bodyA: 'a',
+      bodyB: 'b',
+      type: 'pin',
+      anchorA: { x: 10, y: 0 },
+      stiffness: 1.0,
+      damping: 0,
+    });
+
+    solveConstraints(constraintMap(pin), bodyMap(a, b), 20);
+
+    const anchor = localToWorld(a, { x: 10, y: 0 });
+    expect(anchor.x).toBeCloseTo(100, 3);
+    expect(anchor.y).toBeCloseTo(0, 3);
+    expect(a.angle).not.toBeCloseTo(Math.PI / 2, 3);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -545,26 +753,400 @@ describe('solveConstraints — edge cases', () => {
       solveConstraints(constraintMap(constraint), bodyMap(a, b)),
     ).not.toThrow();
   });
+});
 
-  it('hinge constraint type is a no-op (no crash)', () => {
-    const a = createBody({ id: 'a', position: { x: 0, y: 0 } });
-    const b = createBody({ id: 'b', position: { x: 100, y: 0 } });
+// ---------------------------------------------------------------------------
+// solveConstraints() — Hinge
+// ---------------------------------------------------------------------------
 
-    const constraint = createConstraint({
+describe('solveConstraints — hinge', () => {
+  /** Distance between the two world-space hinge anchors. */
+  function anchorGap(a: PhysicsBody, b: PhysicsBody, c: Constraint): number {
+    const pa = V.add(a.position, V.rotate(c.anchorA, a.angle));
+    const pb = V.add(b.position, V.rotate(c.anchorB, b.angle));
+    return V.distance(pa, pb);
+  }
+
+  it('pulls separated anchors together', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true, position: { x: 0, y: 0 } });
+    const arm = createBody({
+      id: 'arm',
+      position: { x: 60, y: 0 },
+      shape: { type: 'rect', width: 100, height: 10 },
+    });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'arm',
+      anchorB: { x: -50, y: 0 },
+      stiffness: 1,
+    });
+
+    const before = anchorGap(pivot, arm, hinge);
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, arm), 8);
+
+    expect(before).toBeCloseTo(10, 5);
+    expect(anchorGap(pivot, arm, hinge)).toBeLessThan(0.5);
+    // Static pivot is never moved
+    expect(pivot.position).toEqual({ x: 0, y: 0 });
+  });
+
+  it('removes relative velocity at the anchor but keeps rotation', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true });
+    const arm = createBody({
+      id: 'arm',
+      position: { x: 50, y: 0 },
+      velocity: { x: 0, y: 100 },
+      shape: { type: 'rect', width: 100, height: 10 },
+    });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'arm',
+      anchorB: { x: -50, y: 0 },
+      stiffness: 1,
+    });
+
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, arm), 1);
+
+    // Anchor velocity v + ω × r ≈ 0 → the arm swings about the pivot instead
+    const anchorVelY = arm.velocity.y + arm.angularVelocity * -50;
+    expect(anchorVelY).toBeCloseTo(0, 5);
+    expect(arm.angularVelocity).toBeGreaterThan(0);
+  });
+
+  it('enforces the lower angle limit', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true });
+    const arm = createBody({ id: 'arm', angle: -1, angularVelocity: -5 });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'arm',
+      stiffness: 1,
+      lowerAngle: -0.5,
+      upperAngle: 0.5,
+    });
+
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, arm), 1);
+
+    expect(arm.angle).toBeCloseTo(-0.5, 10);
+    expect(arm.angularVelocity).toBeCloseTo(0, 10);
+  });
+
+  it('enforces the upper angle limit relative to referenceAngle', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true });
+    const arm = createBody({ id: 'arm', angle: 2, angularVelocity: 3 });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'arm',
+      stiffness: 1,
+      referenceAngle: 1,
+      upperAngle: 0.25,
+    });
+
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, arm), 1);
+
+    expect(arm.angle).toBeCloseTo(1.25, 10);
+    expect(arm.angularVelocity).toBeCloseTo(0, 10);
+  });
+
+  it('leaves angles within the limits untouched', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true });
+    const arm = createBody({ id: 'arm', angle: 0.2, angularVelocity: 1 });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'arm',
+      lowerAngle: -0.5,
+      upperAngle: 0.5,
+    });
+
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, arm), 4);
+
+    expect(arm.angle).toBe(0.2);
+    expect(arm.angularVelocity).toBe(1);
+  });
+
+  it('motor drives the relative angular velocity to motorSpeed', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true });
+    const wheel = createBody({ id: 'wheel' });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'wheel',
+      motorSpeed: 4,
+    });
+
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, wheel), 4, 1 / 60);
+
+    expect(wheel.angularVelocity).toBeCloseTo(4, 10);
+  });
+
+  it('motor torque is clamped to maxMotorTorque × dt', () => {
+    const pivot = createBody({ id: 'pivot', isStatic: true });
+    const wheel = createBody({ id: 'wheel', inertia: 2 });
+    const hinge = createConstraint({
+      type: 'hinge',
+      bodyA: 'pivot',
+      bodyB: 'wheel',
+      motorSpeed: 100,
+      maxMotorTorque: 60,
+    });
+
+    solveConstraints(constraintMap(hinge), bodyMap(pivot, wheel), 4, 1 / 60);
+
+    // Angular impulse = 60 * (1/60) = 1 → Δω = 1 / I = 0.5
+    expect(wheel.angularVelocity).toBeCloseTo(0.5, 10);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// solveConstraints() — Drag Joint
+// ---------------------------------------------------------------------------
+
+describe('solveConstraints — drag', () => {
+  /** Run integrate + solve for `steps` substeps of 1/240 s. */
+  function simulate(body: PhysicsBody, joint: Constraint, steps: number): void {
+    for (let i = 0; i < steps; i++) {
+      integrate(body, 1 / 240);
+      solveConstraints(constraintMap(joint), bodyMap(body), 4, 1 / 240);
+    }
+  }
+
+  it('pulls the body toward the target and comes to rest there', () => {
+    const body = createBody({ id: 'b', position: { x: 0, y: 0 } });
+    const joint = createDragJoint('b', { x: 100, y: 50 });
+
+    simulate(body, joint, 480);
+
+    expect(body.position.x).toBeCloseTo(100, 1);
+    expect(body.position.y).toBeCloseTo(50, 1);
+    expect(V.length(body.velocity)).toBeLessThan(0.5);
+  });
+
+  it('behaves the same regardless of body mass', () => {
+    const light = createBody({ id: 'b', mass: 1 });
+    const heavy = createBody({ id: 'b', mass: 50 });
+    const target = { x: 80, y: 0 };
+
+    simulate(light, createDragJoint('b', target), 30);
+    simulate(heavy, createDragJoint('b', target), 30);
+
+    expect(heavy.position.x).toBeCloseTo(light.position.x, 6);
+  });
+
+  it('limits the pull to maxForce', () => {
+    const body = createBody({ id: 'b', mass: 2 });
+    const joint = createDragJoint('b', { x: 1000, y: 0 }, { maxForce: 120 });
+
+    solveConstraints(constraintMap(joint), bodyMap(body), 4, 1 / 60);
+
+    // Impulse ≤ F·dt = 2 → Δv ≤ 1
+    expect(body.velocity.x).toBeCloseTo(1, 10);
+  });
+
+  it('spins the body when grabbed off-center', () => {
+    const body = createBody({ id: 'b', shape: { type: 'rect', width: 40, height: 40 } });
+    const joint = createDragJoint('b', { x: 20, y: 50 }, { anchor: { x: 20, y: 0 } });
+
+    solveConstraints(constraintMap(joint), bodyMap(body), 4, 1 / 60);
+
+    expect(body.velocity.y).toBeGreaterThan(0);
+    expect(body.angularVelocity).toBeGreaterThan(0);
+  });
+
+  it('ignores static bodies and a missing target', () => {
+    const wall = createBody({ id: 'w', isStatic: true });
+    const ball = createBody({ id: 'b' });
+    const joint = createDragJoint('w', { x: 50, y: 0 });
+    const loose = { ...createDragJoint('b', { x: 50, y: 0 }), target: undefined };
+
+    solveConstraints(constraintMap(joint), bodyMap(wall), 4, 1 / 60);
+    solveConstraints(constraintMap(loose), bodyMap(ball), 4, 1 / 60);
+
+    expect(wall.position).toEqual({ x: 0, y: 0 });
+    expect(ball.velocity).toEqual({ x: 0, y: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// solveConstraints() — Rope
+// ---------------------------------------------------------------------------
+
+describe('solveConstraints — rope', () => {
+  function rope(length: number) {
+    return createConstraint({ type: 'rope', bodyA: 'hook', bodyB: 'load', length, stiffness: 1 });
+  }
+
+  it('leaves a slack rope alone', () => {
+    const hook = createBody({ id: 'hook', isStatic: true });
+    const load = createBody({ id: 'load', position: { x: 0, y: 80 }, velocity: { x: 0, y: 50 } });
+
+    const tie = rope(100);
+
+    const forces = solveConstraints(constraintMap(tie), bodyMap(hook, load), 4);
+
+    expect(load.position).toEqual({ x: 0, y: 80 });
+    expect(load.velocity).toEqual({ x: 0, y: 50 });
+    expect(forces.get(tie.id)).toBe(0);
+  });
+
+  it('pulls a taut rope back to length and stops it stretching', () => {
+    const hook = createBody({ id: 'hook', isStatic: true });
+    const load = createBody({
+      id: 'load',
+      position: { x: 0, y: 110 },
+      velocity: { x: 30, y: 50 },
+    });
+
+    solveConstraints(constraintMap(rope(100)), bodyMap(hook, load), 1);
+
+    expect(load.position.y).toBeCloseTo(100, 10);
+    expect(load.velocity).toEqual({ x: 30, y: 0 });
+  });
+
+  it('does not stop the ends moving back together', () => {
+    const hook = createBody({ id: 'hook', isStatic: true });
+    const load = createBody({ id: 'load', position: { x: 0, y: 101 }, velocity: { x: 0, y: -40 } });
+
+    solveConstraints(constraintMap(rope(100)), bodyMap(hook, load), 1);
+
+    expect(load.velocity.y).toBe(-40);
+  });
+
+  it('ties to rotated anchors', () => {
+    const hook = createBody({ id: 'hook', isStatic: true });
+    const gate = createBody({
+      id: 'load',
+      position: { x: 0, y: 150 },
+      angle: Math.PI / 2,
+      shape: { type: 'rect', width: 100, height: 10 },
+    });
+    const tie = createConstraint({
+      type: 'rope',
+      bodyA: 'hook',
+      bodyB: 'load',
+      anchorB: { x: -50, y: 0 }, // top end once turned upright
+      length: 90,
+      stiffness: 1,
+    });
+
+    solveConstraints(constraintMap(tie), bodyMap(hook, gate), 8);
+
+    const end = V.add(gate.position, V.rotate(tie.anchorB, gate.angle));
+    expect(V.length(end)).toBeCloseTo(90, 1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// solveConstraints() — Prismatic
+// ---------------------------------------------------------------------------
+
+describe('solveConstraints — prismatic', () => {
+  function slider(extra: Partial<Constraint> = {}): Constraint {
+    return createConstraint({
+      type: 'prismatic',
+      bodyA: 'rail',
+      bodyB: 'car',
+      axis: { x: 1, y: 1 },
+      stiffness: 1,
+      ...extra,
+    });
+  }
+
+  it('keeps the body on the axis but lets it slide along it', () => {
+    const rail = createBody({ id: 'rail', isStatic: true });
+    const car = createBody({ id: 'car', position: { x: 50, y: 30 }, velocity: { x: 10, y: 0 } });
+
+    solveConstraints(constraintMap(slider()), bodyMap(rail, car), 4);
+
+    // Projected onto the diagonal: (40, 40), moving at (5, 5)
+    expect(car.position.x).toBeCloseTo(40, 8);
+    expect(car.position.y).toBeCloseTo(40, 8);
+    expect(car.velocity.x).toBeCloseTo(5, 8);
+    expect(car.velocity.y).toBeCloseTo(5, 8);
+  });
+
+  it('locks the relative angle to referenceAngle', () => {
+    const rail = createBody({ id: 'rail', isStatic: true });
+    const car = createBody({ id: 'car', angle: 0.7, angularVelocity: 3 });
+
+    solveConstraints(constraintMap(slider({ referenceAngle: 0.5 })), bodyMap(rail, car), 1);
+
+    expect(car.angle).toBeCloseTo(0.5, 10);
+    expect(car.angularVelocity).toBeCloseTo(0, 10);
+  });
+
+  it('stops at the translation limits', () => {
+    const rail = createBody({ id: 'rail', isStatic: true });
+    const past = createBody({ id: 'car', position: { x: 200, y: 0 }, velocity: { x: 20, y: 0 } });
+    const before = createBody({ id: 'car', position: { x: -5, y: 0 }, velocity: { x: -1, y: 0 } });
+    const limits = { axis: { x: 1, y: 0 }, lowerTranslation: 0, upperTranslation: 150 };
+
+    solveConstraints(constraintMap(slider(limits)), bodyMap(rail, past), 1);
+    solveConstraints(constraintMap(slider(limits)), bodyMap(rail, before), 1);
+
+    expect(past.position.x).toBeCloseTo(150, 10);
+    expect(past.velocity.x).toBeCloseTo(0, 10);
+    expect(before.position.x).toBeCloseTo(0, 10);
+    expect(before.velocity.x).toBeCloseTo(0, 10);
+  });
+
+  it('turns the axis with bodyA', () => {
+    const rail = createBody({ id: 'rail', isStatic: true, angle: Math.PI / 2 });
+    const car = createBody({ id: 'car', position: { x: 20, y: 60 }, angle: Math.PI / 2 });
+
+    solveConstraints(constraintMap(slider({ axis: { x: 1, y: 0 } })), bodyMap(rail, car), 1);
+
+    // +x in the rail's frame points down the screen
+    expect(car.position.x).toBeCloseTo(0, 10);
+    expect(car.position.y).toBeCloseTo(60, 10);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// solveConstraints() — Measured Forces
+// ---------------------------------------------------------------------------
+
+describe('solveConstraints — forces', () => {
+  it('reports the impulse over dt for a taut rope', () => {
+    const hook = createBody({ id: 'hook', isStatic: true });
+    const load = createBody({ id: 'load', mass: 2, position: { x: 0, y: 100 } });
+    load.velocity.y = 980 / 60; // one step of gravity
+    const tie = createConstraint({ type: 'rope', bodyA: 'hook', bodyB: 'load', length: 100 });
+
+    const forces = solveConstraints(constraintMap(tie), bodyMap(hook, load), 4, 1 / 60);
+
+    // Holding 2 kg against gravity
+    expect(forces.get(tie.id)).toBeCloseTo(1960, 6);
+  });
+
+  it('reports the spring force and a distance correction as force', () => {
+    const a = createBody({ id: 'a', isStatic: true });
+    const b = createBody({ id: 'b', position: { x: 110, y: 0 } });
+    const spring = createConstraint({
+      type: 'spring',
       bodyA: 'a',
       bodyB: 'b',
-      type: 'hinge' as Constraint['type'],
-      stiffness: 1.0,
+      length: 100,
+      stiffness: 3,
+      damping: 0,
     });
+    const rod = createConstraint({ type: 'distance', bodyA: 'a', bodyB: 'b', length: 100 });
+
+    const springForce = solveConstraints(constraintMap(spring), bodyMap(a, b), 1, 0.5);
+    const rodForce = solveConstraints(constraintMap(rod), bodyMap(a, b), 1, 0.5);
 
-    const posABefore = { ...a.position };
-    const posBBefore = { ...b.position };
+    expect(springForce.get(spring.id)).toBeCloseTo(30, 10);
+    // 10 px × stiffness 0.5 × 1 kg in 0.5 s: F = m·Δx / dt²
+    expect(rodForce.get(rod.id)).toBeCloseTo(20, 10);
+  });
 
-    solveConstraints(constraintMap(constraint), bodyMap(a, b), 4);
+  it('does not measure drag joints', () => {
+    const body = createBody({ id: 'b' });
+    const joint = createDragJoint('b', { x: 100, y: 0 });
 
-    expect(a.position.x).toBe(posABefore.x);
-    expect(a.position.y).toBe(posABefore.y);
-    expect(b.position.x).toBe(posBBefore.x);
-    expect(b.position.y).toBe(posBBefore.y);
+    expect(solveConstraints(constraintMap(joint), bodyMap(body)).size).toBe(0);
   });
 });
@@ -1,5 +1,7 @@
 import type { PhysicsBody, Constraint, Vec2 } from '@mcp-tool-shop/siege-types';
 import * as V from './vec2.js';
+import { localToWorld } from './shapes.js';
+import { isDynamic } from './body.js';
 
 // ---------------------------------------------------------------------------
 // Semi-Implicit Euler Integration
@@ -8,66 +10,243 @@ import * as V from './vec2.js';
 /**
  * Semi-implicit Euler integration step.
  *
- * 1. Save previous position (for render interpolation)
- * 2. velocity += acceleration × dt
- * 3. position += velocity × dt
- * 4. Reset acceleration to zero
+ * 1. Save previous position and angle (for render interpolation)
+ * 2. velocity += acceleration × dt, angularVelocity += torque / I × dt,
+ *    then clamp speed to `maxSpeed`
+ * 3. position += velocity × dt, angle += angularVelocity × dt
+ * 4. Reset acceleration and torque to zero
  */
 export function integrate(body: PhysicsBody, dt: number): void {
-  // Save previous position for render interpolation
+  // Save previous state for render interpolation
   body.previousPosition.x = body.position.x;
   body.previousPosition.y = body.position.y;
+  body.previousAngle = body.angle;
 
   // v += a * dt
   body.velocity.x += body.acceleration.x * dt;
   body.velocity.y += body.acceleration.y * dt;
+  clampSpeed(body);
 
   // p += v * dt
   body.position.x += body.velocity.x * dt;
   body.position.y += body.velocity.y * dt;
 
-  // Reset acceleration — forces re-applied each step
+  // ω += τ / I * dt, θ += ω * dt
+  body.angularVelocity += body.torque * body.invInertia * dt;
+  body.angle += body.angularVelocity * dt;
+
+  // Reset accumulators — forces re-applied each step
+  body.acceleration.x = 0;
+  body.acceleration.y = 0;
+  body.torque = 0;
+}
+
+/** Scale velocity down to the body's `maxSpeed`, if it has one. */
+export function clampSpeed(body: PhysicsBody): void {
+  if (body.maxSpeed === undefined) return;
+  const speed = V.length(body.velocity);
+  if (speed <= body.maxSpeed) return;
+  body.velocity.x *= body.maxSpeed / speed;
+  body.velocity.y *= body.maxSpeed / speed;
+}
+
+// ---------------------------------------------------------------------------
+// Velocity Verlet
+// ---------------------------------------------------------------------------
+
+/**
+ * First half of a velocity Verlet step:
+ *
+ * 1. Save previous position and angle (for render interpolation)
+ * 2. velocity += acceleration × dt / 2 (same for angular), then reset it
+ * 3. position += velocity × dt, angle += angularVelocity × dt
+ *
+ * Re-apply forces at the new position, then finish with
+ * `applyAcceleration(body, dt / 2)`.
+ */
+export function integrateVelocityVerlet(body: PhysicsBody, dt: number): void {
+  body.previousPosition.x = body.position.x;
+  body.previousPosition.y = body.position.y;
+  body.previousAngle = body.angle;
+
+  applyAcceleration(body, dt / 2);
+
+  body.position.x += body.velocity.x * dt;
+  body.position.y += body.velocity.y * dt;
+  body.angle += body.angularVelocity * dt;
+}
+
+/**
+ * velocity += acceleration × dt (clamped to `maxSpeed`), ω += τ / I × dt,
+ * then reset both.
+ */
+export function applyAcceleration(body: PhysicsBody, dt: number): void {
+  body.velocity.x += body.acceleration.x * dt;
+  body.velocity.y += body.acceleration.y * dt;
+  clampSpeed(body);
+  body.angularVelocity += body.torque * body.invInertia * dt;
+
   body.acceleration.x = 0;
   body.acceleration.y = 0;
+  body.torque = 0;
+}
+
+// ---------------------------------------------------------------------------
+// Position Verlet
+// ---------------------------------------------------------------------------
+
+/** Where bodies stood before a position-based pass. */
+export type Poses = Map<PhysicsBody, { x: number; y: number; angle: number }>;
+
+/** Record the pose of every awake, non-static body. */
+export function capturePoses(bodies: Iterable<PhysicsBody>): Poses {
+  const poses: Poses = new Map();
+  for (const body of bodies) {
+    if (body.isStatic || body.isSleeping) continue;
+    poses.set(body, { x: body.position.x, y: body.position.y, angle: body.angle });
+  }
+  return poses;
+}
+
+/**
+ * Position Verlet (x' = 2x − x₀ + a·dt²) takes velocity to be the distance
+ * travelled, so anything that moves a body moves its velocity too. In free
+ * flight that is the same path semi-implicit Euler takes; the difference
+ * is in position corrections — from constraints and from pushing
+ * overlapping contacts apart — which Euler leaves out of the velocity: a
+ * rope link pulled back into length keeps flying outward and has to be
+ * pulled back again on every step.
+ *
+ * Call after such a pass to add what it moved each body, over `dt`, to
+ * the body's velocity.
+ */
+export function carryCorrections(poses: Poses, dt: number): void {
+  for (const [body, pose] of poses) {
+    body.velocity.x += (body.position.x - pose.x) / dt;
+    body.velocity.y += (body.position.y - pose.y) / dt;
+    body.angularVelocity += (body.angle - pose.angle) / dt;
+  }
+}
+
+/**
+ * {@link carryCorrections} for the contact solver's push out of overlaps.
+ *
+ * The contact impulses have already taken away the speed a body had into
+ * what it hit, so the part of the push that only undoes how far the body
+ * moved into it this substep (from `previousPosition`) is not carried;
+ * otherwise a resting body would be sent back up every substep. What is
+ * left — pushing out an overlap the body started the substep in — becomes
+ * velocity.
+ */
+export function carryPushOut(poses: Poses, dt: number): void {
+  for (const [body, pose] of poses) {
+    const push = { x: body.position.x - pose.x, y: body.position.y - pose.y };
+    const length = V.length(push);
+    if (length < 1e-12) continue;
+
+    const normal = V.scale(push, 1 / length);
+    const inward = -V.dot(V.sub(pose, body.previousPosition), normal);
+    const carried = length - Math.max(inward, 0);
+    if (carried <= 0) continue;
+    body.velocity.x += (normal.x * carried) / dt;
+    body.velocity.y += (normal.y * carried) / dt;
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Constraint Solver (Projected Gauss-Seidel)
 // ---------------------------------------------------------------------------
 
+/**
+ * Solver for `'custom'` constraints, run once per iteration like the
+ * built-in ones. It moves the bodies itself (positions or velocities) and
+ * returns the impulse it applied (N·s), which breaks the constraint past
+ * `maxForce`; return 0 if it has nothing to measure.
+ */
+export type ConstraintSolver = (
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  constraint: Constraint,
+  dt: number,
+) => number;
+
 /**
  * Iteratively solve all constraints.
  *
  * Runs `iterations` passes over the constraint set. More iterations
- * yield stiffer/more accurate constraint satisfaction.
+ * yield stiffer/more accurate constraint satisfaction. Hinge motors and
+ * drag joints are driven once per call, before the iterations, with their
+ * torque/force limit scaled by `dt`.
+ *
+ * @returns The force (N) each constraint applied over `dt`, summed over
+ *   the iterations: the spring force for springs, the velocity impulse
+ *   over `dt` for hinges, ropes and prismatic joints, and the position
+ *   correction as the force that would have made it for distance and pin
+ *   constraints, and the returned impulse over `dt` for custom ones. Drag
+ *   joints are not measured. Custom constraints whose `solver` is not in
+ *   `solvers` are skipped.
  */
 export function solveConstraints(
   constraints: Map<string, Constraint>,
   bodies: Map<string, PhysicsBody>,
   iterations = 4,
-): void {
+  dt = 1 / 60,
+  solvers: ReadonlyMap<string, ConstraintSolver> = new Map(),
+): Map<string, number> {
+  const forces = new Map<string, number>();
+
+  for (const constraint of constraints.values()) {
+    if (constraint.type === 'drag') {
+      const body = bodies.get(constraint.bodyA);
+      if (body) solveDrag(body, constraint, dt);
+      continue;
+    }
+    if (constraint.type !== 'hinge' || constraint.motorSpeed === undefined) continue;
+    const bodyA = bodies.get(constraint.bodyA);
+    const bodyB = bodies.get(constraint.bodyB);
+    if (bodyA && bodyB) solveHingeMotor(bodyA, bodyB, constraint, dt);
+  }
+
   for (let iter = 0; iter < iterations; iter++) {
     for (const constraint of constraints.values()) {
       const bodyA = bodies.get(constraint.bodyA);
       const bodyB = bodies.get(constraint.bodyB);
       if (!bodyA || !bodyB) continue;
 
+      let impulse = 0;
       switch (constraint.type) {
         case 'spring':
-          solveSpring(bodyA, bodyB, constraint);
+          impulse = solveSpring(bodyA, bodyB, constraint) * dt;
           break;
         case 'distance':
-          solveDistance(bodyA, bodyB, constraint);
+          impulse = solveDistance(bodyA, bodyB, constraint) / dt;
           break;
         case 'pin':
-          solvePin(bodyA, bodyB, constraint);
+          impulse = solvePin(bodyA, bodyB, constraint) / dt;
           break;
         case 'hinge':
-          // Hinge requires angular physics — not needed for board games
+          impulse = solveHinge(bodyA, bodyB, constraint);
+          break;
+        case 'rope':
+          impulse = solveRope(bodyA, bodyB, constraint);
           break;
+        case 'prismatic':
+          impulse = solvePrismatic(bodyA, bodyB, constraint);
+          break;
+        case 'custom': {
+          const solver = solvers.get(constraint.solver ?? '');
+          if (!solver) continue;
+          impulse = solver(bodyA, bodyB, constraint, dt);
+          break;
+        }
+        case 'drag':
+          continue;
       }
+      forces.set(constraint.id, (forces.get(constraint.id) ?? 0) + impulse / dt);
     }
   }
+
+  return forces;
 }
 
 // ---------------------------------------------------------------------------
@@ -76,25 +255,37 @@ export function solveConstraints(
 
 /**
  * F = -k × stretch - b × relativeVelocityAlongSpring
+ *
+ * Anchors are body-local and rotate with their bodies; F acts at them, so
+ * an off-center anchor also gets torque.
+ *
+ * @returns The magnitude of F.
  */
 function solveSpring(
   bodyA: PhysicsBody,
   bodyB: PhysicsBody,
   constraint: Constraint,
-): void {
-  const anchorA = V.add(bodyA.position, constraint.anchorA);
-  const anchorB = V.add(bodyB.position, constraint.anchorB);
+): number {
+  const rA = V.rotate(constraint.anchorA, bodyA.angle);
+  const rB = V.rotate(constraint.anchorB, bodyB.angle);
+  const anchorA = localToWorld(bodyA, constraint.anchorA);
+  const anchorB = localToWorld(bodyB, constraint.anchorB);
 
   const delta = V.sub(anchorB, anchorA);
   const dist = V.length(delta);
-  if (dist < 1e-10) return;
+  if (dist < 1e-10) return 0;
 
   const direction = V.scale(delta, 1 / dist);
   const restLength = constraint.length ?? dist;
   const stretch = dist - restLength;
 
-  // Relative velocity projected onto spring axis
-  const relVel = V.sub(bodyB.velocity, bodyA.velocity);
+  // Relative velocity of the anchors projected onto spring axis
+  const relVel = {
+    x: bodyB.velocity.x - bodyB.angularVelocity * rB.y -
+      (bodyA.velocity.x - bodyA.angularVelocity * rA.y),
+    y: bodyB.velocity.y + bodyB.angularVelocity * rB.x -
+      (bodyA.velocity.y + bodyA.angularVelocity * rA.x),
+  };
   const relSpeed = V.dot(relVel, direction);
 
   // Hooke's law + velocity damping
@@ -106,11 +297,15 @@ function solveSpring(
   if (!bodyA.isStatic) {
     bodyA.acceleration.x += force.x * bodyA.invMass;
     bodyA.acceleration.y += force.y * bodyA.invMass;
+    bodyA.torque += V.cross(rA, force);
   }
   if (!bodyB.isStatic) {
     bodyB.acceleration.x -= force.x * bodyB.invMass;
     bodyB.acceleration.y -= force.y * bodyB.invMass;
+    bodyB.torque -= V.cross(rB, force);
   }
+
+  return Math.abs(forceMag);
 }
 
 // ---------------------------------------------------------------------------
@@ -118,40 +313,51 @@ function solveSpring(
 // ---------------------------------------------------------------------------
 
 /**
- * Position-based correction: push bodies along constraint axis
- * proportional to inverse mass.
+ * Position-based correction: push the (rotated) anchors together along the
+ * constraint axis, splitting the move between translation and rotation of
+ * each body by its inverse mass and inverse inertia about the anchor.
+ *
+ * @returns The correction times the pair's effective mass.
  */
 function solveDistance(
   bodyA: PhysicsBody,
   bodyB: PhysicsBody,
   constraint: Constraint,
-): void {
-  const anchorA = V.add(bodyA.position, constraint.anchorA);
-  const anchorB = V.add(bodyB.position, constraint.anchorB);
+): number {
+  const rA = V.rotate(constraint.anchorA, bodyA.angle);
+  const rB = V.rotate(constraint.anchorB, bodyB.angle);
+  const anchorA = localToWorld(bodyA, constraint.anchorA);
+  const anchorB = localToWorld(bodyB, constraint.anchorB);
 
   const delta = V.sub(anchorB, anchorA);
   const dist = V.length(delta);
-  if (dist < 1e-10) return;
+  if (dist < 1e-10) return 0;
 
   const targetLength = constraint.length ?? 0;
   const error = dist - targetLength;
   const direction = V.scale(delta, 1 / dist);
 
-  const totalInvMass = bodyA.invMass + bodyB.invMass;
-  if (totalInvMass < 1e-10) return;
+  const crossA = V.cross(rA, direction);
+  const crossB = V.cross(rB, direction);
+  const invMass =
+    bodyA.invMass + bodyB.invMass +
+    bodyA.invInertia * crossA * crossA + bodyB.invInertia * crossB * crossB;
+  if (invMass < 1e-10) return 0;
 
-  const stiffness = constraint.stiffness;
+  const correction = (error * constraint.stiffness) / invMass;
 
   if (!bodyA.isStatic) {
-    const correction = (error * bodyA.invMass * stiffness) / totalInvMass;
-    bodyA.position.x += direction.x * correction;
-    bodyA.position.y += direction.y * correction;
+    bodyA.position.x += direction.x * correction * bodyA.invMass;
+    bodyA.position.y += direction.y * correction * bodyA.invMass;
+    bodyA.angle += crossA * correction * bodyA.invInertia;
   }
   if (!bodyB.isStatic) {
-    const correction = (error * bodyB.invMass * stiffness) / totalInvMass;
-    bodyB.position.x -= direction.x * correction;
-    bodyB.position.y -= direction.y * correction;
+    bodyB.position.x -= direction.x * correction * bodyB.invMass;
+    bodyB.position.y -= direction.y * correction * bodyB.invMass;
+    bodyB.angle -= crossB * correction * bodyB.invInertia;
   }
+
+  return Math.abs(correction);
 }
 
 // ---------------------------------------------------------------------------
@@ -159,22 +365,397 @@ function solveDistance(
 // ---------------------------------------------------------------------------
 
 /**
- * Pin bodyA's anchor toward bodyB's anchor position.
+ * Pin bodyA's anchor toward bodyB's anchor position (both rotating with
+ * their bodies). Only bodyA moves: it translates and turns about its
+ * center by its inverse mass and inertia, so an off-center anchor swings
+ * the body round instead of just dragging it.
+ *
+ * @returns The correction times bodyA's effective mass at the anchor.
  */
 function solvePin(
   bodyA: PhysicsBody,
   bodyB: PhysicsBody,
   constraint: Constraint,
-): void {
-  const target: Vec2 = V.add(bodyB.position, constraint.anchorB);
-  const anchor: Vec2 = V.add(bodyA.position, constraint.anchorA);
+): number {
+  const target: Vec2 = localToWorld(bodyB, constraint.anchorB);
+  const anchor: Vec2 = localToWorld(bodyA, constraint.anchorA);
 
   const delta = V.sub(target, anchor);
   const correction = V.scale(delta, constraint.stiffness);
 
-  if (!bodyA.isStatic) {
-    V.addTo(bodyA.position, correction);
-    bodyA.velocity.x += correction.x * constraint.damping;
-    bodyA.velocity.y += correction.y * constraint.damping;
+  if (!isDynamic(bodyA)) return 0;
+
+  // Solve K × P = correction, K being bodyA's 2×2 point mass at rA
+  const rA = V.rotate(constraint.anchorA, bodyA.angle);
+  const m = bodyA.invMass;
+  const i = bodyA.invInertia;
+  const k11 = m + i * rA.y * rA.y;
+  const k12 = -i * rA.x * rA.y;
+  const k22 = m + i * rA.x * rA.x;
+  const det = k11 * k22 - k12 * k12;
+  if (Math.abs(det) < 1e-12) return 0;
+  const P = {
+    x: (k22 * correction.x - k12 * correction.y) / det,
+    y: (k11 * correction.y - k12 * correction.x) / det,
+  };
+
+  const move = V.scale(P, m);
+  const turn = V.cross(rA, P) * i;
+  V.addTo(bodyA.position, move);
+  bodyA.angle += turn;
+  bodyA.velocity.x += move.x * constraint.damping;
+  bodyA.velocity.y += move.y * constraint.damping;
+  bodyA.angularVelocity += turn * constraint.damping;
+  return V.length(P);
+}
+
+// ---------------------------------------------------------------------------
+// Hinge Constraint (Revolute Joint)
+// ---------------------------------------------------------------------------
+
+/**
+ * Keep the two (rotated) anchors coincident while letting the bodies
+ * rotate freely about them, then enforce optional angle limits.
+ *
+ * The point constraint is solved with the full 2×2 effective-mass matrix
+ * (linear + angular terms), first on velocity so the anchors stop drifting
+ * apart, then on position (scaled by `stiffness`) to remove accumulated
+ * error.
+ *
+ * @returns The magnitude of the point impulse.
+ */
+function solveHinge(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  constraint: Constraint,
+): number {
+  const mA = bodyA.invMass;
+  const mB = bodyB.invMass;
+  const iA = bodyA.invInertia;
+  const iB = bodyB.invInertia;
+  if (mA + mB < 1e-10) return 0;
+
+  // ---- Point-to-point: velocity ----
+  const rA = V.rotate(constraint.anchorA, bodyA.angle);
+  const rB = V.rotate(constraint.anchorB, bodyB.angle);
+
+  const relVel = {
+    x: bodyB.velocity.x - bodyB.angularVelocity * rB.y -
+      (bodyA.velocity.x - bodyA.angularVelocity * rA.y),
+    y: bodyB.velocity.y + bodyB.angularVelocity * rB.x -
+      (bodyA.velocity.y + bodyA.angularVelocity * rA.x),
+  };
+  const impulse = solve2x2(bodyA, bodyB, rA, rB, relVel);
+  applyPointImpulse(bodyA, bodyB, rA, rB, impulse);
+
+  // ---- Point-to-point: position ----
+  const anchorA = localToWorld(bodyA, constraint.anchorA);
+  const anchorB = localToWorld(bodyB, constraint.anchorB);
+  const error = V.scale(V.sub(anchorB, anchorA), constraint.stiffness);
+  const correction = solve2x2(bodyA, bodyB, rA, rB, error);
+
+  bodyA.position.x -= correction.x * mA;
+  bodyA.position.y -= correction.y * mA;
+  bodyA.angle -= V.cross(rA, correction) * iA;
+  bodyB.position.x += correction.x * mB;
+  bodyB.position.y += correction.y * mB;
+  bodyB.angle += V.cross(rB, correction) * iB;
+
+  // ---- Angle limits ----
+  const angularMass = iA + iB;
+  const limited = constraint.lowerAngle !== undefined || constraint.upperAngle !== undefined;
+  if (angularMass < 1e-10 || !limited) return V.length(impulse);
+
+  const relAngle = bodyB.angle - bodyA.angle - (constraint.referenceAngle ?? 0);
+  const relAngVel = bodyB.angularVelocity - bodyA.angularVelocity;
+
+  let angleError = 0;
+  if (constraint.lowerAngle !== undefined && relAngle < constraint.lowerAngle) {
+    angleError = relAngle - constraint.lowerAngle;
+    // Stop any further rotation past the limit
+    if (relAngVel < 0) applyAngularImpulse(bodyA, bodyB, -relAngVel / angularMass);
+  } else if (constraint.upperAngle !== undefined && relAngle > constraint.upperAngle) {
+    angleError = relAngle - constraint.upperAngle;
+    if (relAngVel > 0) applyAngularImpulse(bodyA, bodyB, -relAngVel / angularMass);
   }
+
+  if (angleError !== 0) {
+    const angularCorrection = (angleError * constraint.stiffness) / angularMass;
+    bodyA.angle += angularCorrection * iA;
+    bodyB.angle -= angularCorrection * iB;
+  }
+
+  return V.length(impulse);
+}
+
+/**
+ * Drive the relative angular velocity (B − A) toward `motorSpeed`, limited to
+ * `maxMotorTorque × dt` of angular impulse per step.
+ */
+function solveHingeMotor(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  constraint: Constraint,
+  dt: number,
+): void {
+  const angularMass = bodyA.invInertia + bodyB.invInertia;
+  if (angularMass < 1e-10) return;
+
+  const relAngVel = bodyB.angularVelocity - bodyA.angularVelocity;
+  const maxImpulse = (constraint.maxMotorTorque ?? Infinity) * dt;
+  const impulse = Math.max(
+    -maxImpulse,
+    Math.min(maxImpulse, ((constraint.motorSpeed ?? 0) - relAngVel) / angularMass),
+  );
+
+  applyAngularImpulse(bodyA, bodyB, impulse);
+}
+
+// ---------------------------------------------------------------------------
+// Rope Joint
+// ---------------------------------------------------------------------------
+
+/**
+ * Keep the (rotated) anchors no further apart than `length`; slack ropes
+ * do nothing. A taut rope stops the anchors separating, then pulls them
+ * back within `length` (scaled by `stiffness`).
+ *
+ * @returns The velocity impulse applied.
+ */
+function solveRope(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  constraint: Constraint,
+): number {
+  const rA = V.rotate(constraint.anchorA, bodyA.angle);
+  const rB = V.rotate(constraint.anchorB, bodyB.angle);
+  const delta = V.sub(V.add(bodyB.position, rB), V.add(bodyA.position, rA));
+  const dist = V.length(delta);
+
+  const slack = (constraint.length ?? 0) - dist;
+  if (slack > 0 || dist < 1e-10) return 0;
+
+  const normal = V.scale(delta, 1 / dist);
+  return solveAxis(bodyA, bodyB, rA, rB, normal, -slack, constraint.stiffness, 1);
+}
+
+// ---------------------------------------------------------------------------
+// Prismatic Joint (Slider)
+// ---------------------------------------------------------------------------
+
+/**
+ * Let anchorB slide along `axis` (in bodyA's frame, rotating with it)
+ * through anchorA, and nothing else: the bodies keep their relative angle
+ * at `referenceAngle`, anchorB stays on the axis, and its offset along the
+ * axis stays within `lowerTranslation`..`upperTranslation` where set.
+ *
+ * Each part is solved on velocity, then on position (scaled by
+ * `stiffness`), like the hinge.
+ *
+ * @returns The total linear velocity impulse applied.
+ */
+function solvePrismatic(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  constraint: Constraint,
+): number {
+  if (bodyA.invMass + bodyB.invMass < 1e-10) return 0;
+  const stiffness = constraint.stiffness;
+
+  // ---- Relative angle ----
+  const angularMass = bodyA.invInertia + bodyB.invInertia;
+  if (angularMass > 1e-10) {
+    const relAngVel = bodyB.angularVelocity - bodyA.angularVelocity;
+    applyAngularImpulse(bodyA, bodyB, -relAngVel / angularMass);
+
+    const relAngle = bodyB.angle - bodyA.angle - (constraint.referenceAngle ?? 0);
+    const angularCorrection = (relAngle * stiffness) / angularMass;
+    bodyA.angle += angularCorrection * bodyA.invInertia;
+    bodyB.angle -= angularCorrection * bodyB.invInertia;
+  }
+
+  // ---- Along and across the axis ----
+  const rB = V.rotate(constraint.anchorB, bodyB.angle);
+  const anchorA = localToWorld(bodyA, constraint.anchorA);
+  const delta = V.sub(V.add(bodyB.position, rB), anchorA);
+  // bodyA is pushed at the point under anchorB, not at its own anchor
+  const rA = V.sub(V.add(anchorA, delta), bodyA.position);
+
+  const axis = V.normalize(V.rotate(constraint.axis ?? { x: 1, y: 0 }, bodyA.angle));
+  const across = V.perpL(axis);
+  let impulse = solveAxis(bodyA, bodyB, rA, rB, across, V.dot(delta, across), stiffness, 0);
+
+  const translation = V.dot(delta, axis);
+  const { lowerTranslation: lower, upperTranslation: upper } = constraint;
+  if (lower !== undefined && translation < lower) {
+    impulse += solveAxis(bodyA, bodyB, rA, rB, axis, translation - lower, stiffness, -1);
+  } else if (upper !== undefined && translation > upper) {
+    impulse += solveAxis(bodyA, bodyB, rA, rB, axis, translation - upper, stiffness, 1);
+  }
+
+  return impulse;
+}
+
+/**
+ * Solve one row of a joint along the world-space unit `normal`, with the
+ * anchors at lever arms `rA`, `rB`:
+ *
+ * 1. Remove the anchors' relative velocity along `normal` — all of it for
+ *    `side` 0, only a positive (separating) or negative one for `side`
+ *    1 or −1
+ * 2. Correct the position `error` along `normal` (B − A), scaled by
+ *    `stiffness`
+ *
+ * @returns The magnitude of the velocity impulse.
+ */
+function solveAxis(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  rA: Vec2,
+  rB: Vec2,
+  normal: Vec2,
+  error: number,
+  stiffness: number,
+  side: -1 | 0 | 1,
+): number {
+  const crossA = V.cross(rA, normal);
+  const crossB = V.cross(rB, normal);
+  const effectiveMass =
+    bodyA.invMass + bodyB.invMass +
+    bodyA.invInertia * crossA * crossA + bodyB.invInertia * crossB * crossB;
+  if (effectiveMass < 1e-10) return 0;
+
+  const relVel = {
+    x: bodyB.velocity.x - bodyB.angularVelocity * rB.y -
+      (bodyA.velocity.x - bodyA.angularVelocity * rA.y),
+    y: bodyB.velocity.y + bodyB.angularVelocity * rB.x -
+      (bodyA.velocity.y + bodyA.angularVelocity * rA.x),
+  };
+  const normalSpeed = V.dot(relVel, normal);
+
+  let lambda = 0;
+  if (side === 0 || normalSpeed * side > 0) {
+    lambda = -normalSpeed / effectiveMass;
+    applyPointImpulse(bodyA, bodyB, rA, rB, V.scale(normal, lambda));
+  }
+
+  const correction = V.scale(normal, (-error * stiffness) / effectiveMass);
+  bodyA.position.x -= correction.x * bodyA.invMass;
+  bodyA.position.y -= correction.y * bodyA.invMass;
+  bodyA.angle -= V.cross(rA, correction) * bodyA.invInertia;
+  bodyB.position.x += correction.x * bodyB.invMass;
+  bodyB.position.y += correction.y * bodyB.invMass;
+  bodyB.angle += V.cross(rB, correction) * bodyB.invInertia;
+
+  return Math.abs(lambda);
+}
+
+// ---------------------------------------------------------------------------
+// Drag Joint (Soft Point Constraint)
+// ---------------------------------------------------------------------------
+
+/**
+ * Pull the anchor (body-local, rotates with the body) toward `target` with
+ * an implicit spring-damper, as in Box2D's mouse joint.
+ *
+ * `stiffness` (Hz) and `damping` (ratio) are turned into a spring k = m·ω²
+ * and damper c = 2·m·ζ·ω. Solving the spring implicitly keeps it stable at
+ * any frequency; the impulse is capped at `maxForce × dt`.
+ */
+function solveDrag(body: PhysicsBody, constraint: Constraint, dt: number): void {
+  const target = constraint.target;
+  if (!target || body.isStatic || body.invMass === 0) return;
+
+  const omega = 2 * Math.PI * constraint.stiffness;
+  const k = body.mass * omega * omega;
+  const c = 2 * body.mass * constraint.damping * omega;
+  if (c + dt * k < 1e-12) return;
+
+  // Soft-constraint softness γ and error feedback β
+  const gamma = 1 / (dt * (c + dt * k));
+  const beta = (dt * k) / (c + dt * k);
+
+  const r = V.rotate(constraint.anchorA, body.angle);
+  const error = V.sub(V.add(body.position, r), target);
+  const velocity = {
+    x: body.velocity.x - body.angularVelocity * r.y,
+    y: body.velocity.y + body.angularVelocity * r.x,
+  };
+  const rhs = V.add(velocity, V.scale(error, beta / dt));
+
+  // (K + γ·I) · P = -rhs, with the single-body point effective mass K
+  const m = body.invMass;
+  const i = body.invInertia;
+  const k11 = m + i * r.y * r.y + gamma;
+  const k12 = -i * r.x * r.y;
+  const k22 = m + i * r.x * r.x + gamma;
+  const invDet = 1 / (k11 * k22 - k12 * k12);
+
+  const impulse = V.clampLength(
+    {
+      x: -(k22 * rhs.x - k12 * rhs.y) * invDet,
+      y: -(k11 * rhs.y - k12 * rhs.x) * invDet,
+    },
+    (constraint.maxForce ?? Infinity) * dt,
+  );
+
+  body.velocity.x += impulse.x * m;
+  body.velocity.y += impulse.y * m;
+  body.angularVelocity += V.cross(r, impulse) * i;
+}
+
+/**
+ * Solve K · P = -rhs for the 2×2 point-constraint effective mass
+ * K = (mA + mB)·I + iA·[rA]ᵀ[rA] + iB·[rB]ᵀ[rB].
+ */
+function solve2x2(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  rA: Vec2,
+  rB: Vec2,
+  rhs: Vec2,
+): Vec2 {
+  const mA = bodyA.invMass;
+  const mB = bodyB.invMass;
+  const iA = bodyA.invInertia;
+  const iB = bodyB.invInertia;
+
+  const k11 = mA + mB + iA * rA.y * rA.y + iB * rB.y * rB.y;
+  const k12 = -iA * rA.x * rA.y - iB * rB.x * rB.y;
+  const k22 = mA + mB + iA * rA.x * rA.x + iB * rB.x * rB.x;
+
+  const det = k11 * k22 - k12 * k12;
+  if (Math.abs(det) < 1e-12) return V.zero();
+
+  const invDet = 1 / det;
+  return {
+    x: -(k22 * rhs.x - k12 * rhs.y) * invDet,
+    y: -(k11 * rhs.y - k12 * rhs.x) * invDet,
+  };
+}
+
+/** Apply impulse P to B and −P to A at lever arms rA, rB. */
+function applyPointImpulse(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  rA: Vec2,
+  rB: Vec2,
+  impulse: Vec2,
+): void {
+  bodyA.velocity.x -= impulse.x * bodyA.invMass;
+  bodyA.velocity.y -= impulse.y * bodyA.invMass;
+  bodyA.angularVelocity -= V.cross(rA, impulse) * bodyA.invInertia;
+  bodyB.velocity.x += impulse.x * bodyB.invMass;
+  bodyB.velocity.y += impulse.y * bodyB.invMass;
+  bodyB.angularVelocity += V.cross(rB, impulse) * bodyB.invInertia;
+}
+
+/** Apply angular impulse +L to B and −L to A. */
+function applyAngularImpulse(
+  bodyA: PhysicsBody,
+  bodyB: PhysicsBody,
+  impulse: number,
+): void {
+  bodyA.angularVelocity -= impulse * bodyA.invInertia;
+  bodyB.angularVelocity += impulse * bodyB.invInertia;
 }
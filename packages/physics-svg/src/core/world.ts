@@ -1,13 +1,67 @@
 import type {
   PhysicsBody,
   Constraint,
+  ContactImpulse,
   ForceField,
   WorldConfig,
+  WorldSnapshot,
 } from '@mcp-tool-shop/siege-types';
-import { integrate, solveConstraints } from './solver.js';
-import { applyGravity, applyDrag, applyForceFields } from './forces.js';
-import { detectCollisions, resolveCollision } from './collision.js';
-import { updateSleepState, wakeBody, wakeOnCollision } from './sleeping.js';
+import {
+  applyAcceleration,
+  capturePoses,
+  carryCorrections,
+  carryPushOut,
+  integrate,
+  integrateVelocityVerlet,
+  solveConstraints,
+} from './solver.js';
+import type { ConstraintSolver } from './solver.js';
+import {
+  applyGravity,
+  applyDrag,
+  applyExplosion,
+  applyForceFields,
+  fieldReaches,
+} from './forces.js';
+import { detectCollisions } from './collision.js';
+import type { CollisionPair, ContactResult } from './collision.js';
+import {
+  createManifold,
+  contactResult,
+  impulseKey,
+  solveContacts,
+  storeImpulses,
+  DEFAULT_BAUMGARTE,
+  DEFAULT_PENETRATION_SLOP,
+  DEFAULT_RESTITUTION_THRESHOLD,
+} from './contact.js';
+import type { Manifold } from './contact.js';
+import {
+  findIslands,
+  resolveSleepThresholds,
+  sleepBody,
+  updateSleepTimer,
+  wakeBody,
+  wakeOnCollision,
+} from './sleeping.js';
+import { needsCCD, sweepAgainstStatic } from './ccd.js';
+import { createBodyIndex } from './broadphase.js';
+import type { BodyIndex } from './broadphase.js';
+import { isDynamic } from './body.js';
+import { PhysicsEventEmitter } from './events.js';
+import type {
+  BoundsEvent,
+  CollisionEvent,
+  ConstraintEvent,
+  SensorEvent,
+} from './events.js';
+import { enforceBounds } from './bounds.js';
+import { mixSurfaces, surfaceOf } from './material.js';
+import { StepHooks } from './plugins.js';
+import type { CustomForce } from './plugins.js';
+
+/** Two bodies linked by a contact or a constraint. */
+type Link = [PhysicsBody, PhysicsBody];
 
 /**
  * World — owns all simulation state and orchestrates a single step.
@@ -16,7 +70,26 @@ export class World {
   readonly bodies: Map<string, PhysicsBody> = new Map();
   readonly constraints: Map<string, Constraint> = new Map();
   readonly forces: ForceField[] = [];
-  readonly config: WorldConfig;
+  config: WorldConfig;
+  readonly events = new PhysicsEventEmitter();
+  readonly hooks = new StepHooks();
+  /** Forces added in code, applied after the force fields in this order. */
+  readonly customForces: CustomForce[] = [];
+  /** Solvers for `'custom'` constraints, by their `solver` name. */
+  readonly constraintSolvers = new Map<string, ConstraintSolver>();
+
+  /** Solid contacts seen during the previous step, keyed by `pairKey`. */
+  private contactPairs = new Map<string, CollisionEvent>();
+  /** Sensor overlaps seen during the previous step, keyed by `pairKey`. */
+  private sensorPairs = new Map<string, SensorEvent>();
+  /** `isSleeping` of each non-static body at the end of the previous step. */
+  private sleepStates = new Map<string, boolean>();
+  /** Accumulated contact impulses from the last substep, keyed by `impulseKey`. */
+  private impulses = new Map<string, ContactImpulse>();
+  /** Query index over the bodies where they are now, built on first use. */
+  private index: BodyIndex | null = null;
+  /** True inside `step`, while bodies move between queries. */
+  private stepping = false;
 
   constructor(config: WorldConfig) {
     this.config = config;
@@ -26,111 +99,482 @@ export class World {
    * Advance the world by `dt` seconds.
    *
    * Pipeline per substep:
-   * 1. Apply forces (gravity, drag, custom force fields)
-   * 2. Integrate positions (semi-implicit Euler)
-   * 3. Solve constraints (spring, distance, pin)
-   * 4. Detect & resolve collisions
-   * 5. Enforce world bounds
-   * 6. Update sleep states
+   * 1. Apply forces (scaled gravity, linear damping, force fields, then
+   *    custom forces) to dynamic bodies
+   * 2. Integrate positions with `config.integrator` (kinematic bodies just
+   *    follow their velocity; velocity Verlet applies forces a second time
+   *    at the new positions), then pull fast or
+   *    `bullet` bodies back to their time of impact with static geometry
+   * 3. Solve constraints (spring, distance, pin, hinge, rope, prismatic,
+   *    drag, custom). Constraints that pulled harder than their `maxForce`
+   *    are removed
+   * 4. Detect collisions and solve all contacts together with warm-started
+   *    sequential impulses (sensor overlaps are recorded instead). Under
+   *    position Verlet, how far stages 3 and 4 moved each body is added to
+   *    its velocity (see `carryCorrections` and `carryPushOut`)
+   * 5. Enforce world bounds: keep bodies in, wrap them around, or remove
+   *    them, edge by edge (under position Verlet, solid edges' push back
+   *    inside is carried into velocity too)
+   * 6. Sleep islands of bodies that have all been still long enough
+   *
+   * Explosion fields go off once, before the first substep. Force field
+   * ages advance, and expired fields are removed, after the last.
+   * Collision, sensor, sleep/wake, out-of-bounds and constraint-broken
+   * events are emitted once, after that.
+   *
+   * Step hooks run at the points named by `StepHookName`: `afterForces`
+   * after stage 1, `afterIntegrate` after 2, `afterSolve` after 4, and
+   * `beforeStep`/`afterStep` around the whole step; they are passed
+   * `step` as the step's number.
    */
-  step(dt: number): void {
+  step(dt: number, step = 0): void {
     const subDt = dt / this.config.substeps;
+    const contactPairs = new Map<string, CollisionEvent>();
+    const sensorPairs = new Map<string, SensorEvent>();
+    const outOfBounds: BoundsEvent[] = [];
+    const broken: ConstraintEvent[] = [];
+
+    this.stepping = true;
+    this.index = null;
+    this.hooks.run('beforeStep', { step, dt });
+    this.detonate();
 
     for (let sub = 0; sub < this.config.substeps; sub++) {
-      // Wake bodies referenced by constraints
-      for (const constraint of this.constraints.values()) {
-        const a = this.bodies.get(constraint.bodyA);
-        const b = this.bodies.get(constraint.bodyB);
-        if (a && !a.isStatic && a.isSleeping) wakeBody(a);
-        if (b && !b.isStatic && b.isSleeping) wakeBody(b);
-      }
+      this.wakeConstrained();
+      this.wakeIslands();
+      const links: Link[] = [];
 
       // 1. Forces
-      for (const body of this.bodies.values()) {
-        if (body.isStatic || body.isSleeping) continue;
-        applyGravity(body, this.config.gravity);
-        applyDrag(body, 0.01);
-        if (this.forces.length > 0) {
-          applyForceFields(body, this.forces, this.config.gravity);
+      const integrator = this.config.integrator ?? 'euler';
+      if (integrator === 'velocity-verlet') {
+        // Springs act through the constraint pass, not the force passes
+        // below, so what they left in `acceleration` is applied in full
+        for (const body of this.bodies.values()) {
+          if (!body.isStatic && !body.isSleeping) applyAcceleration(body, subDt);
         }
       }
+      // Velocity Verlet applies forces at both ends of the substep, each
+      // pass driving half of it
+      const forceDt = integrator === 'velocity-verlet' ? subDt / 2 : subDt;
+      this.applyForces(forceDt);
+      this.hooks.run('afterForces', { step, substep: sub, dt: subDt });
 
       // 2. Integration
       for (const body of this.bodies.values()) {
         if (body.isStatic || body.isSleeping) continue;
-        integrate(body, subDt);
+        if (integrator === 'velocity-verlet') integrateVelocityVerlet(body, subDt);
+        else integrate(body, subDt);
       }
 
+      if (integrator === 'velocity-verlet') {
+        this.applyForces(forceDt);
+        for (const body of this.bodies.values()) {
+          if (!body.isStatic && !body.isSleeping) applyAcceleration(body, subDt / 2);
+        }
+      }
+
+      for (const body of this.bodies.values()) {
+        if (needsCCD(body, this.config.ccdSpeedThreshold)) {
+          sweepAgainstStatic(body, this.bodies.values());
+        }
+      }
+      this.hooks.run('afterIntegrate', { step, substep: sub, dt: subDt });
+
       // 3. Constraints
-      solveConstraints(
+      const verlet = integrator === 'verlet';
+      let poses = verlet && this.constraints.size > 0 ? capturePoses(this.bodies.values()) : null;
+      const forces = solveConstraints(
         this.constraints,
         this.bodies,
         this.config.velocityIterations,
+        subDt,
+        this.constraintSolvers,
       );
+      if (poses) carryCorrections(poses, subDt);
+      this.breakConstraints(forces, broken);
 
       // 4. Collisions
       const bodiesArray = Array.from(this.bodies.values());
-      const pairs = detectCollisions(bodiesArray);
+      const pairs = detectCollisions(bodiesArray, this.config.broadPhase);
+      const jointed = this.jointedPairs();
+      const touching: { key: string; pair: CollisionPair; manifold: Manifold | null }[] = [];
 
       for (const pair of pairs) {
+        const key = pairKey(pair.bodyA, pair.bodyB);
+        if (jointed.has(key)) continue;
         const a = this.bodies.get(pair.bodyA);
         const b = this.bodies.get(pair.bodyB);
-        if (a && b) {
-          wakeOnCollision(a, b);
-          resolveCollision(a, b, pair);
+        if (!a || !b) continue;
+
+        if (a.isSensor || b.isSensor) {
+          sensorPairs.set(
+            key,
+            a.isSensor ? { sensor: a.id, other: b.id } : { sensor: b.id, other: a.id },
+          );
+          continue;
         }
+
+        wakeOnCollision(a, b);
+        links.push([a, b]);
+        // Still asleep: resting on static geometry, nothing to solve
+        const manifold =
+          a.isSleeping || b.isSleeping
+            ? null
+            : createManifold(a, b, pair, this.impulses, mixSurfaces(a, b, this.config));
+        touching.push({ key, pair, manifold });
+      }
+
+      const manifolds = touching.flatMap((t) => (t.manifold ? [t.manifold] : []));
+      poses = verlet && manifolds.length > 0 ? capturePoses(this.bodies.values()) : null;
+      solveContacts(manifolds, {
+        iterations: this.config.velocityIterations,
+        penetrationSlop: this.config.penetrationSlop ?? DEFAULT_PENETRATION_SLOP,
+        baumgarte: this.config.baumgarte ?? DEFAULT_BAUMGARTE,
+        restitutionThreshold: this.config.restitutionThreshold ?? DEFAULT_RESTITUTION_THRESHOLD,
+      });
+      this.impulses = storeImpulses(manifolds);
+      if (poses) carryPushOut(poses, subDt);
+
+      for (const { key, pair, manifold } of touching) {
+        const result = manifold ? contactResult(manifold) : RESTING;
+        recordContact(contactPairs, key, pair, result);
       }
+      this.hooks.run('afterSolve', { step, substep: sub, dt: subDt });
 
       // 5. World bounds
       if (this.config.bounds) {
-        this.enforceBounds();
+        this.enforceBounds(outOfBounds, verlet ? subDt : null);
       }
 
       // 6. Sleep
+      this.wakeIslands();
+      this.sleepIslands(links);
+    }
+
+    this.ageForceFields(dt);
+    this.hooks.run('afterStep', { step, dt });
+    this.stepping = false;
+    this.emitCollisionEvents(contactPairs);
+    this.emitSensorEvents(sensorPairs);
+    this.emitSleepEvents();
+    for (const event of outOfBounds) this.events.emit('outOfBounds', event);
+    for (const event of broken) this.events.emit('constraintBroken', event);
+  }
+
+  /** Apply and remove explosion fields, waking every body they push. */
+  private detonate(): void {
+    for (let i = this.forces.length - 1; i >= 0; i--) {
+      const field = this.forces[i]!;
+      if (field.type !== 'explosion') continue;
+      this.forces.splice(i, 1);
+      if (!field.vector) continue;
+
       for (const body of this.bodies.values()) {
-        if (body.isStatic) continue;
-        updateSleepState(body);
+        if (!isDynamic(body) || !fieldReaches(field, body)) continue;
+        wakeBody(body);
+        applyExplosion(body, field.vector, field.strength ?? 1000, field.falloff ?? 'quadratic');
       }
     }
   }
 
-  /** Clamp bodies within configured world bounds. */
-  private enforceBounds(): void {
-    const bounds = this.config.bounds;
-    if (!bounds) return;
+  /** Advance every field's `age` by `dt` and drop those past their `lifetime`. */
+  private ageForceFields(dt: number): void {
+    for (let i = this.forces.length - 1; i >= 0; i--) {
+      const field = this.forces[i]!;
+      field.age = (field.age ?? 0) + dt;
+      // Tolerate rounding: thirty 1/60s steps add up to just under 0.5s
+      if (field.lifetime !== undefined && field.age >= field.lifetime - 1e-9) {
+        this.forces.splice(i, 1);
+      }
+    }
+  }
 
+  /**
+   * Gravity, linear damping, force fields and custom forces, for awake
+   * dynamic bodies. `dt` is the time the resulting acceleration is applied
+   * over, which custom forces are given.
+   */
+  private applyForces(dt: number): void {
     for (const body of this.bodies.values()) {
-      if (body.isStatic) continue;
+      if (!isDynamic(body) || body.isSleeping) continue;
+      applyGravity(body, this.config.gravity);
+      applyDrag(body);
+      if (this.forces.length > 0) {
+        applyForceFields(body, this.forces, this.config.gravity);
+      }
+      for (const force of this.customForces) force(body, dt);
+    }
+  }
 
-      let radius = 0;
-      if (body.shape.type === 'circle') {
-        radius = body.shape.radius;
-      } else if (body.shape.type === 'rect') {
-        radius = Math.max(body.shape.width, body.shape.height) / 2;
+  /**
+   * Wake constrained bodies whose partner is awake, or that are asleep in
+   * different islands (e.g. a joint added between two sleeping bodies).
+   * Drag joints keep their body awake so it follows the pointer at once.
+   */
+  private wakeConstrained(): void {
+    for (const constraint of this.constraints.values()) {
+      const a = this.bodies.get(constraint.bodyA);
+      const b = this.bodies.get(constraint.bodyB);
+      if (!a || !b) continue;
+
+      if (constraint.type === 'drag') {
+        if (a.isSleeping) wakeBody(a);
+      } else if (a.isSleeping && b.isSleeping && a.islandId !== b.islandId) {
+        wakeBody(a);
+        wakeBody(b);
+      } else {
+        wakeOnCollision(a, b);
       }
+    }
+  }
+
+  /**
+   * A sleeping island wakes as a whole: if any member has been woken (by a
+   * contact, a constraint or an engine call), wake all the others too.
+   */
+  private wakeIslands(): void {
+    const woken = new Set<string>();
+    for (const body of this.bodies.values()) {
+      if (body.islandId && !body.isSleeping) woken.add(body.islandId);
+    }
+    if (woken.size === 0) return;
 
-      if (body.position.x - radius < bounds.min.x) {
-        body.position.x = bounds.min.x + radius;
-        body.velocity.x = Math.abs(body.velocity.x) * body.restitution;
+    for (const body of this.bodies.values()) {
+      if (body.islandId && woken.has(body.islandId)) {
+        wakeBody(body);
+        body.islandId = null;
+      }
+    }
+  }
+
+  /**
+   * Advance every awake body's sleep timer, then put each island to sleep
+   * whose members have all been still long enough. Deciding per island
+   * rather than per body keeps a settling stack from flickering as one
+   * checker dozes off while its neighbour is still moving.
+   */
+  private sleepIslands(contacts: Link[]): void {
+    const links = [...contacts];
+    for (const constraint of this.constraints.values()) {
+      const a = this.bodies.get(constraint.bodyA);
+      const b = this.bodies.get(constraint.bodyB);
+      if (a && b) links.push([a, b]);
+    }
+
+    for (const island of findIslands(Array.from(this.bodies.values()), links)) {
+      let ready = true;
+      let awake = false;
+      for (const body of island) {
+        if (body.isSleeping) continue;
+        awake = true;
+        // Keep counting for every member, even once one is known to be busy
+        const thresholds = resolveSleepThresholds(body, this.config.sleepThresholds);
+        if (!updateSleepTimer(body, thresholds)) ready = false;
+      }
+      if (!awake || !ready) continue;
+
+      const islandId = island[0]!.id;
+      for (const body of island) {
+        sleepBody(body);
+        body.islandId = islandId;
       }
-      if (body.position.x + radius > bounds.max.x) {
-        body.position.x = bounds.max.x - radius;
-        body.velocity.x = -Math.abs(body.velocity.x) * body.restitution;
+    }
+  }
+
+  /** Emit `sleep` / `wake` for bodies whose state changed this step. */
+  private emitSleepEvents(): void {
+    const previous = this.sleepStates;
+    this.sleepStates = new Map();
+
+    for (const body of this.bodies.values()) {
+      if (body.isStatic) continue;
+      this.sleepStates.set(body.id, body.isSleeping);
+
+      // Bodies added since the last step have nothing to compare against
+      const was = previous.get(body.id);
+      if (was === undefined || was === body.isSleeping) continue;
+      this.events.emit(body.isSleeping ? 'sleep' : 'wake', { body: body.id });
+    }
+  }
+
+  /** Diff this step's contacts against the last step's and emit. */
+  private emitCollisionEvents(current: Map<string, CollisionEvent>): void {
+    const previous = this.contactPairs;
+    this.carryRestingPairs(previous, current, (e) => [e.bodyA, e.bodyB]);
+    this.contactPairs = current;
+
+    for (const [key, event] of previous) {
+      if (!current.has(key)) this.events.emit('collisionEnd', event);
+    }
+    for (const [key, event] of current) {
+      this.events.emit(previous.has(key) ? 'collisionActive' : 'collisionStart', event);
+    }
+  }
+
+  /** Diff this step's sensor overlaps against the last step's and emit. */
+  private emitSensorEvents(current: Map<string, SensorEvent>): void {
+    const previous = this.sensorPairs;
+    this.carryRestingPairs(previous, current, (e) => [e.sensor, e.other]);
+    this.sensorPairs = current;
+
+    for (const [key, event] of previous) {
+      if (!current.has(key)) this.events.emit('sensorExit', event);
+    }
+    for (const [key, event] of current) {
+      this.events.emit(previous.has(key) ? 'sensorStay' : 'sensorEnter', event);
+    }
+  }
+
+  /**
+   * Detection skips pairs where both bodies sleep, but such bodies are
+   * still touching. Carry those pairs over from the previous step so they
+   * don't report an end/exit just because they fell asleep.
+   */
+  private carryRestingPairs<T>(
+    previous: Map<string, T>,
+    current: Map<string, T>,
+    ids: (event: T) => [string, string],
+  ): void {
+    for (const [key, event] of previous) {
+      if (current.has(key)) continue;
+      const [idA, idB] = ids(event);
+      const a = this.bodies.get(idA);
+      const b = this.bodies.get(idB);
+      if (a?.isSleeping && b?.isSleeping) current.set(key, event);
+    }
+  }
+
+  /** Body pairs joined by a hinge or slider that should not collide with each other. */
+  private jointedPairs(): Set<string> {
+    const keys = new Set<string>();
+    for (const constraint of this.constraints.values()) {
+      const joint = constraint.type === 'hinge' || constraint.type === 'prismatic';
+      if (joint && !constraint.collideConnected) {
+        keys.add(pairKey(constraint.bodyA, constraint.bodyB));
       }
-      if (body.position.y - radius < bounds.min.y) {
-        body.position.y = bounds.min.y + radius;
-        body.velocity.y = Math.abs(body.velocity.y) * body.restitution;
+    }
+    return keys;
+  }
+
+  /** Remove every constraint whose force this substep exceeded its `maxForce`. */
+  private breakConstraints(forces: Map<string, number>, broken: ConstraintEvent[]): void {
+    for (const [id, force] of forces) {
+      const constraint = this.constraints.get(id);
+      if (constraint?.maxForce === undefined || force <= constraint.maxForce) continue;
+      this.constraints.delete(id);
+      broken.push({ constraint: id, bodyA: constraint.bodyA, bodyB: constraint.bodyB, force });
+    }
+  }
+
+  /**
+   * Apply the world bounds to every awake, non-static body (see
+   * `enforceBounds`), removing those that left through a `'kill'` edge
+   * like {@link removeBody} does. Given the substep's `carryDt` (position
+   * Verlet), solid edges' push back inside is carried into velocity like
+   * a contact's; wrapping around is a move, not a correction, and is not.
+   */
+  private enforceBounds(outOfBounds: BoundsEvent[], carryDt: number | null): void {
+    const bounds = this.config.bounds;
+    if (!bounds) return;
+
+    for (const body of this.bodies.values()) {
+      if (body.isStatic || body.isSleeping) continue;
+      const poses = carryDt !== null ? capturePoses([body]) : null;
+      const { x, y } = body.previousPosition;
+      const edge = enforceBounds(body, bounds, surfaceOf(body, this.config));
+      if (!edge) {
+        // A wrap shifts previousPosition along with the body
+        const wrapped = body.previousPosition.x !== x || body.previousPosition.y !== y;
+        if (poses && !wrapped) carryPushOut(poses, carryDt!);
+        continue;
       }
-      if (body.position.y + radius > bounds.max.y) {
-        body.position.y = bounds.max.y - radius;
-        body.velocity.y = -Math.abs(body.velocity.y) * body.restitution;
+      this.removeBody(body.id);
+      outOfBounds.push({ body: body.id, edge });
+    }
+  }
+
+  /**
+   * Replace all simulation state with the contents of a snapshot. The
+   * snapshot is used as-is, so pass a copy. Event subscribers are kept;
+   * contact and sensor tracking restarts, so existing overlaps report a
+   * fresh start/enter on the next step. Sleep states carry over without
+   * events, and the contact solver warm-starts from the snapshot's
+   * impulses.
+   */
+  restore(snapshot: WorldSnapshot): void {
+    this.config = snapshot.config;
+    this.index = null;
+
+    this.bodies.clear();
+    for (const body of snapshot.bodies) this.bodies.set(body.id, body);
+
+    this.constraints.clear();
+    for (const constraint of snapshot.constraints) {
+      this.constraints.set(constraint.id, constraint);
+    }
+
+    this.forces.length = 0;
+    this.forces.push(...snapshot.forceFields);
+
+    this.impulses.clear();
+    for (const impulse of snapshot.contactImpulses ?? []) {
+      this.impulses.set(impulseKey(impulse.bodyA, impulse.bodyB, impulse.feature), impulse);
+    }
+
+    this.contactPairs.clear();
+    this.sensorPairs.clear();
+    this.sleepStates.clear();
+    for (const body of snapshot.bodies) {
+      if (!body.isStatic) this.sleepStates.set(body.id, body.isSleeping);
+    }
+  }
+
+  /**
+   * Bodies indexed by AABB with `config.broadPhase`, for queries. The index
+   * is reused until the next step or {@link invalidateIndex}; queries made
+   * during a step (from hooks) build a fresh one each time.
+   */
+  bodyIndex(): BodyIndex {
+    const type = this.config.broadPhase ?? 'brute';
+    if (this.index?.type === type && !this.stepping) return this.index;
+
+    const index = createBodyIndex(Array.from(this.bodies.values()), type);
+    if (!this.stepping) this.index = index;
+    return index;
+  }
+
+  /** Remove a body along with the constraints attached to it. */
+  removeBody(id: string): void {
+    this.bodies.delete(id);
+    for (const constraint of this.constraints.values()) {
+      if (constraint.bodyA === id || constraint.bodyB === id) {
+        this.constraints.delete(constraint.id);
       }
     }
+    this.invalidateIndex();
+  }
+
+  /** Drop the query index after bodies were added, removed or moved. */
+  invalidateIndex(): void {
+    this.index = null;
   }
 
-  /** Add a force field. */
-  addForceField(field: ForceField): void {
+  /** Accumulated contact impulses carried into the next step, for snapshots. */
+  getContactImpulses(): ContactImpulse[] {
+    return Array.from(this.impulses.values());
+  }
+
+  /** Add a force field, giving it an id if it has none. */
+  addForceField(field: ForceField): string {
+    field.id ??= crypto.randomUUID();
     this.forces.push(field);
+    return field.id;
+  }
+
+  /** Remove a force field by id. */
+  removeForceField(id: string): void {
+    const index = this.forces.findIndex((field) => field.id === id);
+    if (index >= 0) this.forces.splice(index, 1);
   }
 
   /** Remove all force fields of a given type. */
@@ -142,3 +586,42 @@ export class World {
     }
   }
 }
+
+/** Result reported for a contact that was not solved. */
+const RESTING: ContactResult = { normalSpeed: 0, normalImpulse: 0 };
+
+/**
+ * Fold a substep's contact into the step's collision event for its pair,
+ * keeping the latest geometry, the fastest impact and the total impulse.
+ */
+function recordContact(
+  contactPairs: Map<string, CollisionEvent>,
+  key: string,
+  pair: CollisionPair,
+  result: ContactResult,
+): void {
+  const relativeSpeed = Math.max(-result.normalSpeed, 0);
+  const seen = contactPairs.get(key);
+  if (seen) {
+    seen.normal = pair.normal;
+    seen.penetration = pair.penetration;
+    seen.contact = pair.contact;
+    seen.relativeSpeed = Math.max(seen.relativeSpeed, relativeSpeed);
+    seen.normalImpulse += result.normalImpulse;
+  } else {
+    contactPairs.set(key, {
+      bodyA: pair.bodyA,
+      bodyB: pair.bodyB,
+      normal: pair.normal,
+      penetration: pair.penetration,
+      contact: pair.contact,
+      relativeSpeed,
+      normalImpulse: result.normalImpulse,
+    });
+  }
+}
+
+/** Order-independent key for a pair of body ids. */
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
@@ -6,7 +6,11 @@
  * the physics engine at runtime.
  */
 
-import type { PhysicsBody, Constraint } from '@mcp-tool-shop/siege-types';
+import type { PhysicsBody, Constraint, WorldSnapshot } from '@mcp-tool-shop/siege-types';
+import type { PhysicsEngine } from '../core/engine.js';
+
+/** Version of the hook protocol implemented by {@link createDevToolsHook}. */
+const HOOK_VERSION = 1;
 
 /** Shape of the global devtools hook. */
 export interface PhysicsSvgDevToolsHook {
@@ -16,6 +20,8 @@ export interface PhysicsSvgDevToolsHook {
   getBodies: () => PhysicsBody[];
   /** Retrieve the current list of constraints. */
   getConstraints: () => Constraint[];
+  /** Capture the full, restorable world state (see `PhysicsEngine.snapshot`). */
+  getWorldSnapshot: () => WorldSnapshot;
   /** Pause / resume the simulation. */
   setPaused: (paused: boolean) => void;
   /** Step exactly one frame while paused. */
@@ -28,6 +34,24 @@ declare global {
   }
 }
 
+/**
+ * Build the devtools hook for an engine: the accessors read its current
+ * state, `setPaused` sets `engine.paused` and `stepOnce` runs one fixed
+ * step.
+ */
+export function createDevToolsHook(engine: PhysicsEngine): PhysicsSvgDevToolsHook {
+  return {
+    version: HOOK_VERSION,
+    getBodies: () => engine.getBodies(),
+    getConstraints: () => engine.getConstraints(),
+    getWorldSnapshot: () => engine.snapshot(),
+    setPaused: (paused) => {
+      engine.paused = paused;
+    },
+    stepOnce: () => engine.stepOnce(),
+  };
+}
+
 /**
  * Install the global devtools hook on `window`.
  *
@@ -35,7 +59,8 @@ declare global {
  * accessors and a pause/step API so the devtools panel can inspect the
  * simulation without importing engine internals.
  *
- * @param hooks - Object implementing the hook interface.
+ * @param hooks - Object implementing the hook interface, e.g. from
+ *   {@link createDevToolsHook}.
  */
 export function installDevToolsHook(
   hooks: PhysicsSvgDevToolsHook,
@@ -4,24 +4,80 @@
 
 // Core
 export { PhysicsEngine } from './core/engine.js';
-export { createBody } from './core/body.js';
-export { createConstraint } from './core/constraint.js';
+export { createBody, isDynamic, DEFAULT_COLLISION_FILTER } from './core/body.js';
+export { createConstraint, createDragJoint } from './core/constraint.js';
 export * as Vec2 from './core/vec2.js';
+export { SNAPSHOT_VERSION } from './core/snapshot.js';
+
+// Shapes
+export { parsePoints } from './core/shapes.js';
+
+// Materials
+export {
+  DEFAULT_MATERIALS,
+  findMaterial,
+  surfaceOf,
+  combine,
+  mixSurfaces,
+} from './core/material.js';
+export type { MaterialConfig, SurfaceMix } from './core/material.js';
 
 // Sleeping
-export { wakeBody } from './core/sleeping.js';
+export { wakeBody, DEFAULT_SLEEP_THRESHOLDS } from './core/sleeping.js';
 
 // Forces
 export {
   applyGravity,
   applyDrag,
   applyWind,
+  applyForceAtPoint,
   applyAttraction,
+  applyVortex,
+  applyExplosion,
+  applyBuoyancy,
+  applyTurbulence,
   applyForceFields,
+  fieldReaches,
 } from './core/forces.js';
 
+// Events
+export type {
+  PhysicsEventMap,
+  PhysicsEventType,
+  PhysicsEventCallback,
+  CollisionEvent,
+  SensorEvent,
+  SleepEvent,
+  BoundsEvent,
+  ConstraintEvent,
+  StepEvent,
+} from './core/events.js';
+
+// Hooks and plugins
+export type {
+  StepHookName,
+  StepHookContext,
+  StepHook,
+  CustomForce,
+  PhysicsPlugin,
+} from './core/plugins.js';
+export type { ConstraintSolver } from './core/solver.js';
+
+// Queries
+export type { QueryFilter, RaycastHit, ShapeCastOptions } from './core/query.js';
+
+// Replay
+export {
+  ReplayRecorder,
+  ReplayPlayer,
+  hashBodies,
+  REPLAY_VERSION,
+  RECORDED_METHODS,
+} from './core/replay.js';
+export type { ReplayLog, RecordedCall, RecordedMethod, ReplayResult } from './core/replay.js';
+
 // Collision (types only — detection/resolution is internal to World)
-export type { CollisionPair } from './core/collision.js';
+export type { CollisionPair, ContactPoint, ContactResult } from './core/collision.js';
 
 // Rendering
 export { SvgRenderer } from './rendering/svg-renderer.js';
@@ -35,9 +91,12 @@ export {
   createDeployMachine,
 } from './state-machine/presets.js';
 export type { StateTransition } from './state-machine/transitions.js';
+export type { PickupDropState, PickupDropEvent } from './state-machine/presets.js';
+export { PointerDrag } from './state-machine/pointer-drag.js';
+export type { PointerDragOptions, PointerDragCallback } from './state-machine/pointer-drag.js';
 
 // DevTools
-export { installDevToolsHook } from './devtools/hook.js';
+export { installDevToolsHook, createDevToolsHook } from './devtools/hook.js';
 export type { PhysicsSvgDevToolsHook } from './devtools/hook.js';
 export { AnimationEmitter } from './devtools/emitter.js';
 
@@ -45,11 +104,28 @@ export { AnimationEmitter } from './devtools/emitter.js';
 export type {
   Vec2 as Vec2Type,
   BodyShape,
+  PrimitiveShape,
+  CompoundPart,
+  BodyType,
+  CollisionFilter,
+  SleepThresholds,
   PhysicsBody,
   ConstraintType,
   Constraint,
+  ForceFieldType,
+  ForceRegion,
   ForceField,
+  BroadPhaseType,
+  IntegratorType,
+  CombineMode,
+  Material,
+  MaterialPair,
+  BoundsEdge,
+  BoundsEdgeMode,
+  WorldBounds,
   WorldConfig,
+  ContactImpulse,
+  WorldSnapshot,
   AnimationEvent,
   AnimationTimeline,
   AnimationState,
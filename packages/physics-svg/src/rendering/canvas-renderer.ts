@@ -1,4 +1,4 @@
-import type { PhysicsBody, Constraint } from '@mcp-tool-shop/siege-types';
+import type { BodyShape, PhysicsBody, Constraint } from '@mcp-tool-shop/siege-types';
 import type { Renderer } from './renderer.js';
 
 /**
@@ -32,39 +32,85 @@ export class CanvasRenderer implements Renderer {
     for (const body of bodies) {
       this.ctx.save();
       this.ctx.translate(body.position.x, body.position.y);
+      this.ctx.rotate(body.angle);
       this.ctx.fillStyle = '#6366f1';
+      this.ctx.strokeStyle = '#6366f1';
+      this.ctx.lineWidth = 2;
 
-      switch (body.shape.type) {
-        case 'circle':
-          this.ctx.beginPath();
-          this.ctx.arc(0, 0, body.shape.radius, 0, Math.PI * 2);
-          this.ctx.fill();
-          break;
-
-        case 'rect':
-          this.ctx.fillRect(
-            -body.shape.width / 2,
-            -body.shape.height / 2,
-            body.shape.width,
-            body.shape.height,
-          );
-          break;
-
-        case 'polygon': {
-          const verts = body.shape.vertices;
-          if (verts.length < 2) break;
-          this.ctx.beginPath();
-          this.ctx.moveTo(verts[0]!.x, verts[0]!.y);
-          for (let i = 1; i < verts.length; i++) {
-            this.ctx.lineTo(verts[i]!.x, verts[i]!.y);
-          }
-          this.ctx.closePath();
-          this.ctx.fill();
-          break;
+      this.drawShape(this.ctx, body.shape);
+
+      this.ctx.restore();
+    }
+  }
+
+  /**
+   * Fill a shape centered on the current origin; compounds draw each part.
+   * Segments and chains have nothing to fill and are stroked instead.
+   */
+  private drawShape(ctx: CanvasRenderingContext2D, shape: BodyShape): void {
+    switch (shape.type) {
+      case 'circle':
+        ctx.beginPath();
+        ctx.arc(0, 0, shape.radius, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+
+      case 'rect':
+        ctx.fillRect(-shape.width / 2, -shape.height / 2, shape.width, shape.height);
+        break;
+
+      case 'polygon': {
+        const verts = shape.vertices;
+        if (verts.length < 2) break;
+        ctx.beginPath();
+        ctx.moveTo(verts[0]!.x, verts[0]!.y);
+        for (let i = 1; i < verts.length; i++) {
+          ctx.lineTo(verts[i]!.x, verts[i]!.y);
         }
+        ctx.closePath();
+        ctx.fill();
+        break;
       }
 
-      this.ctx.restore();
+      case 'capsule': {
+        const half = shape.length / 2;
+        ctx.beginPath();
+        ctx.arc(half, 0, shape.radius, -Math.PI / 2, Math.PI / 2);
+        ctx.arc(-half, 0, shape.radius, Math.PI / 2, (Math.PI * 3) / 2);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+
+      case 'segment':
+        ctx.beginPath();
+        ctx.moveTo(shape.start.x, shape.start.y);
+        ctx.lineTo(shape.end.x, shape.end.y);
+        ctx.stroke();
+        break;
+
+      case 'chain': {
+        const verts = shape.vertices;
+        if (verts.length < 2) break;
+        ctx.beginPath();
+        ctx.moveTo(verts[0]!.x, verts[0]!.y);
+        for (let i = 1; i < verts.length; i++) {
+          ctx.lineTo(verts[i]!.x, verts[i]!.y);
+        }
+        if (shape.loop) ctx.closePath();
+        ctx.stroke();
+        break;
+      }
+
+      case 'compound':
+        for (const part of shape.parts) {
+          ctx.save();
+          ctx.translate(part.offset.x, part.offset.y);
+          ctx.rotate(part.angle ?? 0);
+          this.drawShape(ctx, part.shape);
+          ctx.restore();
+        }
+        break;
     }
   }
 
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SvgRenderer } from './svg-renderer.js';
+import { createBody } from '../core/body.js';
+import { createConstraint } from '../core/constraint.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Just enough of an SVG element for the renderer to build its scene. */
+class FakeElement {
+  readonly attributes = new Map<string, string>();
+  readonly children: FakeElement[] = [];
+  readonly style: Record<string, string> = {};
+  parent: FakeElement | null = null;
+
+  constructor(readonly tagName: string) {}
+
+  get firstChild(): FakeElement | null {
+    return this.children[0] ?? null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.attributes.set(name, value);
+  }
+
+  appendChild(child: FakeElement): FakeElement {
+    child.parent = this;
+    this.children.push(child);
+    return child;
+  }
+
+  insertBefore(child: FakeElement, ref: FakeElement | null): FakeElement {
+    child.parent = this;
+    const idx = ref ? this.children.indexOf(ref) : -1;
+    this.children.splice(idx === -1 ? this.children.length : idx, 0, child);
+    return child;
+  }
+
+  remove(): void {
+    if (!this.parent) return;
+    this.parent.children.splice(this.parent.children.indexOf(this), 1);
+    this.parent = null;
+  }
+}
+
+/** The coordinates of a rendered `<line>`. */
+function endpoints(line: FakeElement) {
+  const num = (name: string) => Number(line.attributes.get(name));
+  return { x1: num('x1'), y1: num('y1'), x2: num('x2'), y2: num('y2') };
+}
+
+let container: FakeElement;
+
+beforeEach(() => {
+  (globalThis as Record<string, unknown>).document = {
+    createElementNS: (_ns: string, tag: string) => new FakeElement(tag),
+  };
+  container = new FakeElement('div');
+});
+
+afterEach(() => {
+  delete (globalThis as Record<string, unknown>).document;
+});
+
+function render(...args: Parameters<SvgRenderer['render']>): FakeElement {
+  const renderer = new SvgRenderer();
+  renderer.init(container as unknown as HTMLElement);
+  renderer.render(...args);
+  const svg = container.children[0]!;
+  return svg.children.find((el) => el.tagName === 'line')!;
+}
+
+// ===========================================================================
+// CONSTRAINTS
+// ===========================================================================
+
+describe('SvgRenderer — constraints', () => {
+  it('draws a spring from the anchor turned with its body', () => {
+    const hook = createBody({ id: 'hook', isStatic: true, position: { x: 0, y: 0 } });
+    const plank = createBody({
+      id: 'plank',
+      position: { x: 100, y: 0 },
+      angle: Math.PI / 2,
+      shape: { type: 'rect', width: 40, height: 10 },
+    });
+    const spring = createConstraint({
+      type: 'spring',
+      bodyA: 'hook',
+      bodyB: 'plank',
+      anchorB: { x: 20, y: 0 },
+    });
+
+    const line = render([hook, plank], [spring]);
+
+    // A quarter turn moves the plank's end from (120, 0) to (100, 20)
+    const { x1, y1, x2, y2 } = endpoints(line);
+    expect([x1, y1]).toEqual([0, 0]);
+    expect(x2).toBeCloseTo(100, 10);
+    expect(y2).toBeCloseTo(20, 10);
+  });
+
+  it('draws a drag line to its world-space target', () => {
+    const box = createBody({ id: 'box', position: { x: 50, y: 50 }, angle: Math.PI });
+    const drag = createConstraint({
+      type: 'drag',
+      bodyA: 'box',
+      bodyB: 'box',
+      anchorA: { x: 10, y: 0 },
+      target: { x: 200, y: 80 },
+    });
+
+    const line = render([box], [drag]);
+
+    const { x1, y1, x2, y2 } = endpoints(line);
+    expect(x1).toBeCloseTo(40, 10);
+    expect(y1).toBeCloseTo(50, 10);
+    expect([x2, y2]).toEqual([200, 80]);
+  });
+});
@@ -1,12 +1,12 @@
-import type { PhysicsBody, Constraint, Vec2 } from '@mcp-tool-shop/siege-types';
+import type { BodyShape, PhysicsBody, Constraint, Vec2 } from '@mcp-tool-shop/siege-types';
 import type { Renderer } from './renderer.js';
 import * as V from '../core/vec2.js';
 
 /**
  * SvgRenderer — renders physics bodies as SVG elements.
  *
- * Each body is mapped to an SVG primitive and positioned via the `transform`
- * attribute. Supports render interpolation for smooth display between physics steps.
+ * Each body is mapped to an SVG primitive and positioned and rotated via the
+ * `transform` attribute. Supports render interpolation for smooth display between physics steps.
  */
 export class SvgRenderer implements Renderer {
   private svg: SVGSVGElement | null = null;
@@ -53,12 +53,13 @@ export class SvgRenderer implements Renderer {
         this.svg!.appendChild(el);
       }
 
-      // Interpolated position for smooth rendering
+      // Interpolated position and angle for smooth rendering
       const pos = this.interpolate(body);
+      const degrees = (this.interpolateAngle(body) * 180) / Math.PI;
 
       el.setAttribute(
         'transform',
-        `translate(${pos.x}, ${pos.y})`,
+        `translate(${pos.x}, ${pos.y}) rotate(${degrees})`,
       );
 
       // Dim sleeping bodies
@@ -80,35 +81,96 @@ export class SvgRenderer implements Renderer {
     return V.lerp(body.previousPosition, body.position, this.alpha);
   }
 
+  /** Interpolate between previous and current angle (radians). */
+  private interpolateAngle(body: PhysicsBody): number {
+    if (this.alpha >= 1) return body.angle;
+    return body.previousAngle + (body.angle - body.previousAngle) * this.alpha;
+  }
+
   /** Create the appropriate SVG element for a body's shape. */
   private createElement(body: PhysicsBody): SVGElement {
+    return this.createShapeElement(body.shape);
+  }
+
+  /**
+   * Create the SVG element for one shape. A compound becomes a `<g>` of its
+   * parts, each placed by its own offset and angle, so the body moves as
+   * one element.
+   */
+  private createShapeElement(shape: BodyShape): SVGElement {
     const ns = 'http://www.w3.org/2000/svg';
 
-    switch (body.shape.type) {
+    switch (shape.type) {
       case 'circle': {
         const circle = document.createElementNS(ns, 'circle');
-        circle.setAttribute('r', String(body.shape.radius));
+        circle.setAttribute('r', String(shape.radius));
         circle.setAttribute('fill', '#6366f1');
         return circle;
       }
       case 'rect': {
         const rect = document.createElementNS(ns, 'rect');
-        rect.setAttribute('width', String(body.shape.width));
-        rect.setAttribute('height', String(body.shape.height));
-        rect.setAttribute('x', String(-body.shape.width / 2));
-        rect.setAttribute('y', String(-body.shape.height / 2));
+        rect.setAttribute('width', String(shape.width));
+        rect.setAttribute('height', String(shape.height));
+        rect.setAttribute('x', String(-shape.width / 2));
+        rect.setAttribute('y', String(-shape.height / 2));
         rect.setAttribute('fill', '#6366f1');
         return rect;
       }
       case 'polygon': {
         const polygon = document.createElementNS(ns, 'polygon');
-        const points = body.shape.vertices
+        const points = shape.vertices
           .map((v) => `${v.x},${v.y}`)
           .join(' ');
         polygon.setAttribute('points', points);
         polygon.setAttribute('fill', '#6366f1');
         return polygon;
       }
+      case 'capsule': {
+        const capsule = document.createElementNS(ns, 'rect');
+        const width = shape.length + 2 * shape.radius;
+        capsule.setAttribute('width', String(width));
+        capsule.setAttribute('height', String(2 * shape.radius));
+        capsule.setAttribute('x', String(-width / 2));
+        capsule.setAttribute('y', String(-shape.radius));
+        capsule.setAttribute('rx', String(shape.radius));
+        capsule.setAttribute('fill', '#6366f1');
+        return capsule;
+      }
+      case 'segment': {
+        const line = document.createElementNS(ns, 'line');
+        line.setAttribute('x1', String(shape.start.x));
+        line.setAttribute('y1', String(shape.start.y));
+        line.setAttribute('x2', String(shape.end.x));
+        line.setAttribute('y2', String(shape.end.y));
+        line.setAttribute('stroke', '#6366f1');
+        line.setAttribute('stroke-width', '2');
+        return line;
+      }
+      case 'chain': {
+        // Outline only: a chain has no inside to fill
+        const chain = document.createElementNS(ns, shape.loop ? 'polygon' : 'polyline');
+        const points = shape.vertices
+          .map((v) => `${v.x},${v.y}`)
+          .join(' ');
+        chain.setAttribute('points', points);
+        chain.setAttribute('fill', 'none');
+        chain.setAttribute('stroke', '#6366f1');
+        chain.setAttribute('stroke-width', '2');
+        return chain;
+      }
+      case 'compound': {
+        const group = document.createElementNS(ns, 'g');
+        for (const part of shape.parts) {
+          const el = this.createShapeElement(part.shape);
+          const degrees = ((part.angle ?? 0) * 180) / Math.PI;
+          el.setAttribute(
+            'transform',
+            `translate(${part.offset.x}, ${part.offset.y}) rotate(${degrees})`,
+          );
+          group.appendChild(el);
+        }
+        return group;
+      }
     }
   }
 
@@ -136,16 +198,19 @@ export class SvgRenderer implements Renderer {
         );
         line.setAttribute('stroke', '#94a3b8');
         line.setAttribute('stroke-width', '1');
-        line.setAttribute('stroke-dasharray', '4 2');
+        // Ropes are drawn solid, everything else dashed
+        if (constraint.type !== 'rope') line.setAttribute('stroke-dasharray', '4 2');
         this.constraintMap.set(constraint.id, line);
         // Insert constraints behind bodies
         this.svg!.insertBefore(line, this.svg!.firstChild);
       }
 
-      const posA = this.interpolate(bodyA);
-      const posB = this.interpolate(bodyB);
-      const anchorA = V.add(posA, constraint.anchorA);
-      const anchorB = V.add(posB, constraint.anchorB);
+      // A drag line runs from the grab point to the pointer target
+      const anchorA = this.anchorPosition(bodyA, constraint.anchorA);
+      const anchorB =
+        constraint.type === 'drag' && constraint.target
+          ? constraint.target
+          : this.anchorPosition(bodyB, constraint.anchorB);
 
       line.setAttribute('x1', String(anchorA.x));
       line.setAttribute('y1', String(anchorA.y));
@@ -161,4 +226,10 @@ export class SvgRenderer implements Renderer {
       }
     }
   }
+
+  /** Interpolated world position of a body-local constraint anchor. */
+  private anchorPosition(body: PhysicsBody, anchor: Vec2): Vec2 {
+    const pos = this.interpolate(body);
+    return V.add(pos, V.rotate(anchor, this.interpolateAngle(body)));
+  }
 }
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import { PhysicsEngine } from '../core/engine.js';
+import { createBody } from '../core/body.js';
+import { createConstraint } from '../core/constraint.js';
+import { PointerDrag } from './pointer-drag.js';
+import type { PickupDropState } from './presets.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A floor with one checker resting on it. */
+function createBoard(): PhysicsEngine {
+  const engine = new PhysicsEngine({
+    gravity: { x: 0, y: 980 },
+    substeps: 4,
+    velocityIterations: 4,
+  });
+  engine.addBody(
+    createBody({
+      id: 'floor',
+      isStatic: true,
+      position: { x: 200, y: 300 },
+      shape: { type: 'rect', width: 400, height: 20 },
+      friction: 0.8,
+    }),
+  );
+  engine.addBody(
+    createBody({
+      id: 'checker',
+      position: { x: 100, y: 280 },
+      shape: { type: 'circle', radius: 10 },
+      restitution: 0,
+    }),
+  );
+  return engine;
+}
+
+function run(engine: PhysicsEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.stepOnce();
+}
+
+// ===========================================================================
+// POINTER DRAG
+// ===========================================================================
+
+describe('PointerDrag', () => {
+  it('grabs the body under the pointer and drags it to the target', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine, { stiffness: 8, damping: 1 });
+
+    expect(drag.pointerDown({ x: 100, y: 280 })).toBe('checker');
+    expect(drag.dragging).toBe('checker');
+    expect(engine.getConstraints().map((c) => c.type)).toEqual(['drag']);
+
+    drag.pointerMove({ x: 200, y: 150 });
+    run(engine, 120);
+
+    const checker = engine.getBody('checker')!;
+    // Gravity sags it slightly below the target
+    expect(checker.position.x).toBeCloseTo(200, 0);
+    expect(checker.position.y).toBeGreaterThan(150);
+    expect(checker.position.y).toBeLessThan(160);
+  });
+
+  it('ignores presses on empty space and static bodies', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+
+    expect(drag.pointerDown({ x: 300, y: 100 })).toBeNull();
+    expect(drag.pointerDown({ x: 300, y: 300 })).toBeNull();
+    expect(drag.dragging).toBeNull();
+    expect(engine.getConstraints()).toEqual([]);
+  });
+
+  it('picks the topmost (last added) body under the pointer', () => {
+    const engine = createBoard();
+    engine.addBody(createBody({ id: 'top', position: { x: 105, y: 280 } }));
+    const drag = new PointerDrag(engine);
+
+    expect(drag.pointerDown({ x: 102, y: 280 })).toBe('top');
+  });
+
+  it('keeps the grab point fixed on a rotated body', () => {
+    const engine = createBoard();
+    engine.setAngle('checker', Math.PI / 2);
+    const drag = new PointerDrag(engine);
+
+    drag.pointerDown({ x: 105, y: 280 });
+
+    // World offset (5, 0) is local (0, -5) after undoing a quarter turn
+    const joint = engine.getConstraints()[0]!;
+    expect(joint.anchorA.x).toBeCloseTo(0, 10);
+    expect(joint.anchorA.y).toBeCloseTo(-5, 10);
+  });
+
+  it('drives the pickup/drop machine through to settled', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+    const seen: PickupDropState[] = [];
+    drag.onTransition((id, _from, to) => {
+      if (id === 'checker') seen.push(to);
+    });
+
+    expect(drag.getState('checker')).toBe('idle');
+
+    drag.pointerDown({ x: 100, y: 280 });
+    drag.pointerMove({ x: 150, y: 200 });
+    drag.pointerMove({ x: 160, y: 200 });
+    run(engine, 30);
+    drag.pointerUp();
+
+    expect(drag.dragging).toBeNull();
+    expect(engine.getConstraints()).toEqual([]);
+    expect(drag.getState('checker')).toBe('dropping');
+
+    run(engine, 600);
+
+    expect(engine.getBody('checker')!.isSleeping).toBe(true);
+    expect(seen).toEqual(['picked-up', 'moving', 'dropping', 'settled']);
+  });
+
+  it('settles from bouncing when the app reports a bounce', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+
+    // Released without moving
+    drag.pointerDown({ x: 100, y: 280 });
+    drag.pointerUp();
+    expect(drag.getState('checker')).toBe('dropping');
+
+    drag.getMachine('checker')!.send('BOUNCE_START');
+    expect(drag.getState('checker')).toBe('bouncing');
+
+    run(engine, 600);
+    expect(drag.getState('checker')).toBe('settled');
+  });
+
+  it('setDragTarget ignores other constraint types and unknown ids', () => {
+    const engine = createBoard();
+    engine.addConstraint(
+      createConstraint({ id: 's', type: 'spring', bodyA: 'checker', bodyB: 'floor' }),
+    );
+
+    engine.setDragTarget('s', { x: 1, y: 1 });
+    engine.setDragTarget('missing', { x: 1, y: 1 });
+
+    expect(engine.getConstraints()[0]!.target).toBeUndefined();
+  });
+
+  it('can re-grab a settled body', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+
+    drag.pointerDown({ x: 100, y: 280 });
+    drag.pointerUp();
+    run(engine, 600);
+    expect(drag.getState('checker')).toBe('settled');
+
+    const { x, y } = engine.getBody('checker')!.position;
+    expect(drag.pointerDown({ x, y })).toBe('checker');
+    expect(drag.getState('checker')).toBe('picked-up');
+  });
+
+  it('can re-grab a body before it settles', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+    const seen: PickupDropState[] = [];
+    drag.onTransition((_id, _from, to) => seen.push(to));
+
+    drag.pointerDown({ x: 100, y: 280 });
+    drag.pointerMove({ x: 100, y: 200 });
+    run(engine, 30);
+    drag.pointerUp();
+    expect(drag.getState('checker')).toBe('dropping');
+
+    const { x, y } = engine.getBody('checker')!.position;
+    expect(drag.pointerDown({ x, y })).toBe('checker');
+    drag.pointerMove({ x: 150, y: 200 });
+    drag.pointerUp();
+
+    // Bounce, then grab mid-bounce
+    drag.getMachine('checker')!.send('BOUNCE_START');
+    const pos = engine.getBody('checker')!.position;
+    expect(drag.pointerDown({ x: pos.x, y: pos.y })).toBe('checker');
+    expect(drag.getState('checker')).toBe('picked-up');
+    drag.pointerUp();
+
+    expect(seen).toEqual([
+      'picked-up',
+      'moving',
+      'dropping',
+      'picked-up',
+      'moving',
+      'dropping',
+      'bouncing',
+      'picked-up',
+      'dropping',
+    ]);
+  });
+
+  it('lets go when the held body is removed', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+
+    drag.pointerDown({ x: 100, y: 280 });
+    engine.removeBody('checker');
+    engine.stepOnce();
+
+    expect(drag.dragging).toBeNull();
+    expect(engine.getConstraints()).toEqual([]);
+    expect(drag.getState('checker')).toBe('idle');
+  });
+
+  it('stops listening after dispose', () => {
+    const engine = createBoard();
+    const drag = new PointerDrag(engine);
+
+    drag.pointerDown({ x: 100, y: 280 });
+    drag.dispose();
+    run(engine, 600);
+
+    expect(engine.getConstraints()).toEqual([]);
+    expect(drag.getState('checker')).toBe('dropping');
+  });
+});
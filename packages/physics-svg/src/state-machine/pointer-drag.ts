@@ -0,0 +1,152 @@
+import type { Constraint, Vec2 } from '@mcp-tool-shop/siege-types';
+import type { PhysicsEngine } from '../core/engine.js';
+import type { QueryFilter } from '../core/query.js';
+import { createDragJoint } from '../core/constraint.js';
+import { isDynamic } from '../core/body.js';
+import * as V from '../core/vec2.js';
+import type { StateMachine } from './machine.js';
+import { createPickupDropMachine } from './presets.js';
+import type { PickupDropEvent, PickupDropState } from './presets.js';
+
+/** Options for {@link PointerDrag}. */
+export interface PointerDragOptions {
+  stiffness?: number; // drag joint frequency (Hz), default 5
+  damping?: number; // drag joint damping ratio, default 0.7
+  maxForce?: number; // pull force limit, unbounded if omitted
+  /** Which bodies can be picked up. Static and kinematic bodies never can. */
+  filter?: QueryFilter;
+}
+
+/** Callback signature for {@link PointerDrag.onTransition}. */
+export type PointerDragCallback = (
+  bodyId: string,
+  from: PickupDropState,
+  to: PickupDropState,
+) => void;
+
+/**
+ * PointerDrag — turns pointer input into a drag joint and drives a
+ * pickup/drop state machine per body:
+ *
+ * - `pointerDown` over a body attaches a drag joint and sends `GRAB`
+ * - `pointerMove` moves the joint target and sends `MOVE`
+ * - `pointerUp` removes the joint and sends `RELEASE`
+ * - once the released body falls asleep, `BOUNCE_END` and `SETTLE` are
+ *   sent, so the machine reaches `settled` whether or not the app sent
+ *   `BOUNCE_START` in between
+ *
+ * Pointer coordinates are world coordinates; map from screen space first.
+ */
+export class PointerDrag {
+  private readonly engine: PhysicsEngine;
+  private readonly options: PointerDragOptions;
+  private readonly machines = new Map<string, StateMachine<PickupDropState, PickupDropEvent>>();
+  private readonly listeners: PointerDragCallback[] = [];
+  private readonly unsubscribe: () => void;
+  private joint: Constraint | null = null;
+
+  constructor(engine: PhysicsEngine, options: PointerDragOptions = {}) {
+    this.engine = engine;
+    this.options = options;
+    this.unsubscribe = engine.on('step', () => this.checkSettled());
+  }
+
+  /** Id of the body being dragged, or null. */
+  get dragging(): string | null {
+    return this.joint?.bodyA ?? null;
+  }
+
+  /** Current pickup/drop state of a body (`'idle'` if never grabbed). */
+  getState(bodyId: string): PickupDropState {
+    return this.machines.get(bodyId)?.getState() ?? 'idle';
+  }
+
+  /**
+   * The pickup/drop machine of a body, if it has ever been grabbed. Send
+   * `BOUNCE_START` to it from your own collision handling if you use the
+   * `bouncing` state.
+   */
+  getMachine(bodyId: string): StateMachine<PickupDropState, PickupDropEvent> | undefined {
+    return this.machines.get(bodyId);
+  }
+
+  /** Register a callback invoked on every state transition of any body. */
+  onTransition(callback: PointerDragCallback): void {
+    this.listeners.push(callback);
+  }
+
+  /**
+   * Pick up the topmost dynamic body under `point` (the last one added).
+   *
+   * @returns The grabbed body's id, or null if there is none.
+   */
+  pointerDown(point: Vec2): string | null {
+    if (this.joint) this.pointerUp();
+
+    const hits = this.engine.queryPoint(point, this.options.filter);
+    const body = hits.filter(isDynamic).pop();
+    if (!body) return null;
+
+    this.joint = createDragJoint(body.id, point, {
+      anchor: V.rotate(V.sub(point, body.position), -body.angle),
+      stiffness: this.options.stiffness,
+      damping: this.options.damping,
+      maxForce: this.options.maxForce,
+    });
+    this.engine.addConstraint(this.joint);
+    this.machineFor(body.id).send('GRAB');
+    return body.id;
+  }
+
+  /** Move the drag target. Ignored when nothing is held. */
+  pointerMove(point: Vec2): void {
+    if (!this.joint) return;
+    this.engine.setDragTarget(this.joint.id, point);
+    this.machineFor(this.joint.bodyA).send('MOVE');
+  }
+
+  /** Let go of the held body. Ignored when nothing is held. */
+  pointerUp(): void {
+    if (!this.joint) return;
+    const { id, bodyA } = this.joint;
+    this.joint = null;
+    this.engine.removeConstraint(id);
+    this.machineFor(bodyA).send('RELEASE');
+  }
+
+  /** Release any held body and stop listening to the engine. */
+  dispose(): void {
+    this.pointerUp();
+    this.unsubscribe();
+  }
+
+  private machineFor(bodyId: string): StateMachine<PickupDropState, PickupDropEvent> {
+    let machine = this.machines.get(bodyId);
+    if (!machine) {
+      machine = createPickupDropMachine();
+      machine.onTransition((from, to) => {
+        for (const listener of this.listeners) listener(bodyId, from, to);
+      });
+      this.machines.set(bodyId, machine);
+    }
+    return machine;
+  }
+
+  /** Settle released bodies that have gone to sleep; forget removed ones. */
+  private checkSettled(): void {
+    for (const [bodyId, machine] of this.machines) {
+      const body = this.engine.getBody(bodyId);
+      if (!body) {
+        if (this.dragging === bodyId) this.pointerUp();
+        this.machines.delete(bodyId);
+        continue;
+      }
+
+      const state = machine.getState();
+      if ((state === 'dropping' || state === 'bouncing') && body.isSleeping) {
+        machine.send('BOUNCE_END');
+        machine.send('SETTLE');
+      }
+    }
+  }
+}
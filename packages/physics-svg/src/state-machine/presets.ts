@@ -29,7 +29,9 @@ export type PickupDropEvent =
  * idle -> picked-up -> moving -> dropping -> bouncing -> settled
  *
  * The machine can also go directly from dropping to settled if there is
- * no bounce.
+ * no bounce, and from picked-up to dropping if released without moving.
+ * A body can be grabbed again once settled, or while still dropping or
+ * bouncing.
  */
 export function createPickupDropMachine(): StateMachine<
   PickupDropState,
@@ -39,11 +41,14 @@ export function createPickupDropMachine(): StateMachine<
     { from: 'idle', to: 'picked-up', on: 'GRAB' },
     { from: 'picked-up', to: 'moving', on: 'MOVE' },
     { from: 'moving', to: 'dropping', on: 'RELEASE' },
+    { from: 'picked-up', to: 'dropping', on: 'RELEASE' },
     { from: 'dropping', to: 'bouncing', on: 'BOUNCE_START' },
     { from: 'dropping', to: 'settled', on: 'SETTLE' },
     { from: 'bouncing', to: 'settled', on: 'BOUNCE_END' },
-    // Allow re-grab from settled
+    // Allow re-grab from settled, or before the body comes to rest
     { from: 'settled', to: 'picked-up', on: 'GRAB' },
+    { from: 'dropping', to: 'picked-up', on: 'GRAB' },
+    { from: 'bouncing', to: 'picked-up', on: 'GRAB' },
   ];
 
   return new StateMachine<PickupDropState, PickupDropEvent>(
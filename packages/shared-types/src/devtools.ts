@@ -1,11 +1,26 @@
 // DevTools protocol message types
 
 import type { AnimationEvent, AnimationPerformance, AnimationTimeline } from './animation.js';
-import type { Constraint, PhysicsBody } from './physics.js';
+import type {
+  Constraint,
+  ContactImpulse,
+  ForceField,
+  PhysicsBody,
+  WorldConfig,
+} from './physics.js';
 
+/**
+ * Complete, JSON-safe physics world state. Restoring a snapshot and stepping
+ * reproduces the original run exactly.
+ */
 export interface WorldSnapshot {
-  bodies: PhysicsBody[];
-  constraints: Constraint[];
+  version: number; // snapshot format version
+  config: WorldConfig;
+  bodies: PhysicsBody[]; // in insertion order (affects solver order)
+  constraints: Constraint[]; // in insertion order
+  forceFields: ForceField[];
+  accumulator: number; // unstepped frame time carried by the fixed timestep
+  contactImpulses?: ContactImpulse[]; // solver warm-start state; omitted → starts cold
   timestamp: number;
 }
 
@@ -14,11 +14,27 @@ export type {
 export type {
   Vec2,
   BodyShape,
+  PrimitiveShape,
+  CompoundPart,
+  BodyType,
+  CollisionFilter,
+  SleepThresholds,
   PhysicsBody,
   ConstraintType,
   Constraint,
+  ForceFieldType,
+  ForceRegion,
   ForceField,
+  BroadPhaseType,
+  IntegratorType,
+  CombineMode,
+  Material,
+  MaterialPair,
+  BoundsEdge,
+  BoundsEdgeMode,
+  WorldBounds,
   WorldConfig,
+  ContactImpulse,
 } from './physics.js';
 
 export type {
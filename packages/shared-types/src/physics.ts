@@ -5,10 +5,72 @@ export interface Vec2 {
   y: number;
 }
 
-export type BodyShape =
+/**
+ * A single shape, centered on (or given relative to) its origin.
+ *
+ * - `'capsule'`: a rect with round ends along the local x axis; `length`
+ *   runs between the centers of the two end caps
+ * - `'segment'`: a line with no thickness that collides on both sides
+ * - `'chain'`: a polyline (closed if `loop`) whose edges only collide on
+ *   their outer side — the one a polygon with the same winding faces out
+ *   of. Bodies behind an edge pass through it.
+ *
+ * Segments and chains have no area, so only static and kinematic bodies
+ * can use them on their own.
+ */
+export type PrimitiveShape =
   | { type: 'circle'; radius: number }
   | { type: 'rect'; width: number; height: number }
-  | { type: 'polygon'; vertices: Vec2[] };
+  | { type: 'polygon'; vertices: Vec2[] }
+  | { type: 'capsule'; length: number; radius: number }
+  | { type: 'segment'; start: Vec2; end: Vec2 }
+  | { type: 'chain'; vertices: Vec2[]; loop?: boolean };
+
+/** One shape of a compound body, placed in the body's frame. */
+export interface CompoundPart {
+  shape: PrimitiveShape;
+  offset: Vec2; // from the body origin to the part's origin
+  angle?: number; // radians, relative to the body (default 0)
+}
+
+/**
+ * A body's collision shape. `'compound'` glues several primitive parts
+ * into one rigid body.
+ */
+export type BodyShape = PrimitiveShape | { type: 'compound'; parts: CompoundPart[] };
+
+/**
+ * How a body takes part in the simulation:
+ * - `'dynamic'`: moved by forces, contacts and constraints
+ * - `'static'`: never moves
+ * - `'kinematic'`: moved only by the velocity you set; ignores forces and
+ *   contact impulses but pushes dynamic bodies (infinite mass)
+ */
+export type BodyType = 'dynamic' | 'static' | 'kinematic';
+
+/**
+ * Box2D-style collision filter.
+ *
+ * Two bodies in the same non-zero group always collide (positive group) or
+ * never collide (negative group). Otherwise they collide only when each
+ * body's category bits appear in the other's mask bits.
+ */
+export interface CollisionFilter {
+  categoryBits: number; // which categories this body belongs to
+  maskBits: number; // which categories this body collides with
+  groupIndex: number; // 0 = no group
+}
+
+/**
+ * When a body (and the island of bodies touching or jointed to it) may sleep.
+ * An island sleeps once every member has stayed below both speeds for
+ * `frames` consecutive substeps.
+ */
+export interface SleepThresholds {
+  velocity: number; // px/s
+  angular: number; // rad/s
+  frames: number; // substeps; Infinity (null once serialized) = never sleep
+}
 
 export interface PhysicsBody {
   id: string;
@@ -16,41 +78,208 @@ export interface PhysicsBody {
   previousPosition: Vec2; // for render interpolation
   velocity: Vec2;
   acceleration: Vec2;
+  angle: number; // radians, clockwise on screen (y-down)
+  previousAngle: number; // for render interpolation
+  angularVelocity: number; // rad/s
+  torque: number; // accumulated this step, reset after integration
   mass: number;
-  invMass: number; // cached 1/mass (0 for static)
+  invMass: number; // cached 1/mass (0 for static and kinematic)
+  inertia: number; // moment of inertia about `position`
+  invInertia: number; // cached 1/inertia (0 for static and kinematic)
   restitution: number; // 0-1
   friction: number;
-  isStatic: boolean;
+  material?: string; // registered material whose friction and restitution replace the two above
+  linearDamping: number; // drag coefficient: F = -linearDamping × velocity
+  gravityScale: number; // multiplier on world gravity (0 floats, negative rises)
+  maxSpeed?: number; // px/s, velocity is clamped to it when integrated (unbounded if omitted)
+  bodyType: BodyType;
+  isStatic: boolean; // bodyType === 'static'
+  isSensor: boolean; // reports overlaps but never receives a collision response
+  bullet: boolean; // always use continuous collision against static bodies
   isSleeping: boolean;
   sleepTimer: number; // frames below sleep threshold
+  islandId: string | null; // sleeping island this body belongs to (null while awake)
+  sleepThresholds?: Partial<SleepThresholds>; // per-body override of WorldConfig.sleepThresholds
+  collisionFilter: CollisionFilter;
   shape: BodyShape;
   userData?: Record<string, unknown>;
 }
 
-export type ConstraintType = 'spring' | 'distance' | 'pin' | 'hinge';
+export type ConstraintType =
+  | 'spring'
+  | 'distance'
+  | 'pin'
+  | 'hinge'
+  | 'drag'
+  | 'rope'
+  | 'prismatic'
+  | 'custom';
 
 export interface Constraint {
   id: string;
   type: ConstraintType;
   bodyA: string;
   bodyB: string;
-  anchorA: Vec2;
-  anchorB: Vec2;
+  anchorA: Vec2; // bodyA-local, rotates with the body
+  anchorB: Vec2; // bodyB-local, rotates with the body
   stiffness: number;
   damping: number;
-  length?: number;
+  length?: number; // rope: maximum distance between the anchors
+  referenceAngle?: number; // hinge, prismatic: relative angle (B − A) treated as zero
+  lowerAngle?: number; // hinge: minimum relative angle (radians)
+  upperAngle?: number; // hinge: maximum relative angle (radians)
+  motorSpeed?: number; // hinge: target relative angular velocity (rad/s)
+  maxMotorTorque?: number; // hinge: motor torque limit (unbounded if omitted)
+  collideConnected?: boolean; // hinge, prismatic: let the joined bodies collide (default false)
+  axis?: Vec2; // prismatic: slide direction in bodyA's frame (default +x)
+  lowerTranslation?: number; // prismatic: minimum offset of anchorB along the axis
+  upperTranslation?: number; // prismatic: maximum offset of anchorB along the axis
+  target?: Vec2; // drag: world-space point bodyA's anchor is pulled toward
+  maxForce?: number; // drag: pull force limit; others: force that breaks the constraint
+  solver?: string; // custom: name of a solver registered with addConstraintSolver
 }
 
+export type ForceFieldType =
+  | 'gravity'
+  | 'drag'
+  | 'wind'
+  | 'attraction'
+  | 'vortex'
+  | 'explosion'
+  | 'buoyancy'
+  | 'turbulence';
+
+/** Area a force field is confined to; a body is inside if its `position` is. */
+export type ForceRegion =
+  | { type: 'circle'; center: Vec2; radius: number }
+  | { type: 'aabb'; min: Vec2; max: Vec2 };
+
+/**
+ * A force applied to every awake dynamic body it reaches, each substep.
+ *
+ * - `'gravity'`: acceleration `vector` (world gravity if omitted), scaled
+ *   by each body's `gravityScale`
+ * - `'drag'`: F = −strength × velocity
+ * - `'wind'`: constant force `vector` × strength
+ * - `'attraction'`: force of `strength` toward the point `vector`
+ *   (negative repels), reduced by `falloff` with distance (default
+ *   `'quadratic'`)
+ * - `'vortex'`: force of `strength` around the point `vector`, clockwise
+ *   on screen for positive strength, reduced by `falloff` (default
+ *   `'linear'`)
+ * - `'explosion'`: one-off impulse of `strength` away from the point
+ *   `vector`, reduced by `falloff` (default `'quadratic'`); wakes the
+ *   bodies it hits and is then removed
+ * - `'buoyancy'`: fluid filling `region` (the whole world if omitted) with
+ *   its surface at the region's top, acting on any body that overlaps it;
+ *   lifts by `density` × submerged area against gravity (`vector`, else
+ *   world gravity, times the body's `gravityScale`) and drags submerged
+ *   bodies with coefficient `strength`. Without a `density` each body gets
+ *   a fluid as dense as itself (mass / area), so it hovers once submerged;
+ *   set one above a body's density for it to float
+ * - `'turbulence'`: force of up to `strength` in a direction that varies
+ *   smoothly over space (cells of `scale` px) and time, from `seed`
+ */
 export interface ForceField {
-  type: 'gravity' | 'drag' | 'wind' | 'attraction';
+  id?: string; // assigned by addForceField if omitted
+  type: ForceFieldType;
   vector?: Vec2;
   strength?: number;
   falloff?: 'none' | 'linear' | 'quadratic';
+  region?: ForceRegion; // only bodies inside are affected (world-wide if omitted)
+  collisionFilter?: Partial<CollisionFilter>; // only bodies this filter collides with
+  lifetime?: number; // seconds before the field removes itself (permanent if omitted)
+  age?: number; // seconds since the field was added, advanced by the world
+  density?: number; // buoyancy: fluid mass per px² (default: each body's own)
+  seed?: number; // turbulence: noise seed (default 0)
+  scale?: number; // turbulence: noise cell size in px (default 100)
+}
+
+export type BroadPhaseType = 'brute' | 'spatial-hash' | 'sap';
+
+/**
+ * How bodies are advanced each substep:
+ * - `'euler'`: semi-implicit (symplectic) Euler — velocity first, then position
+ * - `'verlet'`: position (Störmer) Verlet — velocity is implied by how far a
+ *   body moved, so the position corrections of constraints, contacts and
+ *   solid world bounds become velocity (wrapping around the bounds does
+ *   not)
+ * - `'velocity-verlet'`: half-step velocities around a second force evaluation
+ */
+export type IntegratorType = 'euler' | 'verlet' | 'velocity-verlet';
+
+/**
+ * How the values of two touching surfaces combine into one: `'geometric'`
+ * is √(a·b). When the two ask for different modes, the one later in
+ * `average < geometric < min < multiply < max` wins.
+ */
+export type CombineMode = 'average' | 'geometric' | 'min' | 'multiply' | 'max';
+
+/** Surface properties shared by every body that names the material. */
+export interface Material {
+  friction: number;
+  restitution: number;
+  frictionCombine?: CombineMode; // WorldConfig.frictionCombine if omitted
+  restitutionCombine?: CombineMode; // WorldConfig.restitutionCombine if omitted
+}
+
+/** Values for contacts between two materials, used instead of combining them. */
+export interface MaterialPair {
+  materials: [string, string]; // either order
+  friction?: number;
+  restitution?: number;
+}
+
+/** A side of the world bounds; `'top'` is `min.y` (y points down). */
+export type BoundsEdge = 'top' | 'bottom' | 'left' | 'right';
+
+/**
+ * What a bounds edge does to bodies reaching it:
+ * - `'solid'`: stops them, bouncing and sliding with the body's own
+ *   restitution and friction
+ * - `'open'`: lets them leave
+ * - `'wrap'`: moves them to the opposite edge once their center crosses
+ * - `'kill'`: removes them (and their constraints) once they are entirely
+ *   outside, emitting `outOfBounds`
+ */
+export type BoundsEdgeMode = 'solid' | 'open' | 'wrap' | 'kill';
+
+/** Rectangle bodies are kept within, edge by edge. */
+export interface WorldBounds {
+  min: Vec2;
+  max: Vec2;
+  edges?: Partial<Record<BoundsEdge, BoundsEdgeMode>>; // default 'solid' on every edge
 }
 
 export interface WorldConfig {
   gravity: Vec2;
-  bounds?: { min: Vec2; max: Vec2 };
+  bounds?: WorldBounds;
   substeps: number;
-  velocityIterations: number;
+  velocityIterations: number; // constraint and contact solver passes per substep
+  broadPhase?: BroadPhaseType; // default 'brute'
+  integrator?: IntegratorType; // default 'euler'
+  ccdSpeedThreshold?: number; // px/s; faster bodies use continuous collision (off if omitted)
+  sleepThresholds?: Partial<SleepThresholds>; // defaults: 0.5 px/s, 0.05 rad/s, 30 frames
+  penetrationSlop?: number; // px of overlap left uncorrected, default 0.5
+  baumgarte?: number; // fraction of the remaining overlap corrected per substep, default 0.4
+  restitutionThreshold?: number; // px/s; slower impacts don't bounce, default 20
+  materials?: Record<string, Material>; // added to, or replacing, the built-in felt, wood and ivory
+  materialPairs?: MaterialPair[];
+  frictionCombine?: CombineMode; // default 'geometric'
+  restitutionCombine?: CombineMode; // default 'min'
+  fixedDt?: number; // seconds per fixed step, default 1/60
+  maxFrameTime?: number; // most seconds one update simulates, default 0.25
+}
+
+/**
+ * Impulses accumulated by one contact point during the last substep, kept
+ * so the solver can warm-start from them while the contact persists.
+ * `feature` identifies the point within the bodyA/bodyB manifold.
+ */
+export interface ContactImpulse {
+  bodyA: string;
+  bodyB: string;
+  feature: string;
+  normalImpulse: number;
+  tangentImpulse: number;
 }